@@ -3,7 +3,12 @@ import { registerRoutes } from "../server/routes";
 import { serveStatic } from "../server/vite";
 
 const app = express();
-app.use(express.json());
+// Keep the raw body around so Stripe webhook signatures can be verified
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
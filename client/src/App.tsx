@@ -12,14 +12,19 @@ import Search from "@/pages/Search";
 import BusinessDashboard from "@/pages/BusinessDashboard";
 import AdminDashboard from "@/pages/AdminDashboard";
 import BusinessClaim from "@/pages/BusinessClaim";
+import BusinessProfile from "@/pages/BusinessProfile";
 import Checkout from "@/pages/Checkout";
 import SubscriptionCheckout from "@/pages/SubscriptionCheckout";
 import PrivacyPolicy from "@/pages/PrivacyPolicy";
 import TermsOfService from "@/pages/TermsOfService";
 import BookingConfirmation from "@/pages/BookingConfirmation";
+import MyBookings from "@/pages/MyBookings";
 import About from "@/pages/About";
 import PersonalTrainers from "@/pages/PersonalTrainers";
+import TrainerProfile from "@/pages/TrainerProfile";
 import TrainerSignup from "@/pages/TrainerSignup";
+import StaffInvitation from "@/pages/StaffInvitation";
+import TeachingSchedule from "@/pages/TeachingSchedule";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -39,9 +44,12 @@ function Router() {
       <Switch>
         <Route path="/" component={isAuthenticated ? Home : Landing} />
         <Route path="/search" component={Search} />
+        <Route path="/business/:ref" component={BusinessProfile} />
         <Route path="/personal-trainers" component={PersonalTrainers} />
+        <Route path="/personal-trainers/:id" component={TrainerProfile} />
         <Route path="/trainer-signup" component={TrainerSignup} />
         <Route path="/claim-business" component={BusinessClaim} />
+        <Route path="/staff-invitations/:token" component={StaffInvitation} />
         <Route path="/about" component={About} />
         <Route path="/privacy" component={PrivacyPolicy} />
         <Route path="/terms" component={TermsOfService} />
@@ -52,6 +60,8 @@ function Router() {
             <Route path="/checkout/:sessionId" component={Checkout} />
             <Route path="/checkout/subscription" component={SubscriptionCheckout} />
             <Route path="/booking-confirmation" component={BookingConfirmation} />
+            <Route path="/bookings" component={MyBookings} />
+            <Route path="/teaching" component={TeachingSchedule} />
           </>
         )}
         <Route component={NotFound} />
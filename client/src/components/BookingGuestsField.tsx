@@ -0,0 +1,57 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { UserPlus, X } from "lucide-react";
+
+// A booking holds the customer plus at most this many friends
+const MAX_GUESTS = 9;
+
+interface BookingGuestsFieldProps {
+  guests: string[];
+  spotsLeft: number | null; // on the chosen class, null before one is picked
+  onChange: (guests: string[]) => void;
+}
+
+// Names of friends coming along on the same booking. Each guest takes a spot and pays the class price.
+export default function BookingGuestsField({ guests, spotsLeft, onChange }: BookingGuestsFieldProps) {
+  const maxGuests = spotsLeft === null ? MAX_GUESTS : Math.min(MAX_GUESTS, Math.max(spotsLeft - 1, 0));
+
+  return (
+    <div className="space-y-2">
+      {guests.map((name, index) => (
+        <div key={index} className="flex space-x-2">
+          <Input
+            aria-label={`Guest ${index + 1} name`}
+            placeholder={`Guest ${index + 1} name`}
+            value={name}
+            maxLength={100}
+            onChange={(e) => onChange(guests.map((guest, i) => i === index ? e.target.value : guest))}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            aria-label={`Remove guest ${index + 1}`}
+            onClick={() => onChange(guests.filter((_, i) => i !== index))}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      {guests.length > maxGuests && (
+        <p className="text-xs text-red-600">
+          This class only has {spotsLeft} {spotsLeft === 1 ? "spot" : "spots"} left, including yours.
+        </p>
+      )}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        disabled={guests.length >= maxGuests}
+        onClick={() => onChange([...guests, ""])}
+      >
+        <UserPlus className="w-4 h-4 mr-2" />
+        Add a Guest
+      </Button>
+    </div>
+  );
+}
@@ -18,9 +18,21 @@ import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
-import { apiRequest } from "@/lib/queryClient";
-import { FitnessSessionWithDetails } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { acceptsCardPayments, CARD_PAYMENTS_UNAVAILABLE_MESSAGE } from "@/lib/payments";
+import OccurrencePicker from "@/components/OccurrencePicker";
+import BookingPaymentOptions, { BookingPaymentMethod } from "@/components/BookingPaymentOptions";
+import PromoCodeField from "@/components/PromoCodeField";
+import GiftVoucherField from "@/components/GiftVoucherField";
+import BookingGuestsField from "@/components/BookingGuestsField";
+import {
+  ClassOccurrenceWithAvailability,
+  FitnessSessionWithDetails,
+  GiftVoucherQuote,
+  PromoCodeQuote,
+} from "@shared/schema";
 import { BookingFormData } from "@/lib/types";
+import { format } from "date-fns";
 import { MapPin, Clock, Calendar, Lock, LogIn } from "lucide-react";
 
 const bookingFormSchema = z.object({
@@ -43,6 +55,11 @@ export default function BookingModal({ session, isOpen, onClose, clientSecret }:
   const stripe = useStripe();
   const elements = useElements();
   const [isProcessing, setIsProcessing] = useState(false);
+  const [selectedOccurrence, setSelectedOccurrence] = useState<ClassOccurrenceWithAvailability | null>(null);
+  const [guests, setGuests] = useState<string[]>([]);
+  const [paymentMethod, setPaymentMethod] = useState<BookingPaymentMethod>("card");
+  const [promo, setPromo] = useState<PromoCodeQuote | null>(null);
+  const [giftVoucher, setGiftVoucher] = useState<GiftVoucherQuote | null>(null);
 
   const form = useForm<BookingFormData>({
     resolver: zodResolver(bookingFormSchema),
@@ -55,7 +72,7 @@ export default function BookingModal({ session, isOpen, onClose, clientSecret }:
   });
 
   const createPaymentIntentMutation = useMutation({
-    mutationFn: async (data: { amount: number; sessionId: number }) => {
+    mutationFn: async (data: { sessionId: number; attendees: number; promoCode?: string; giftVoucherCode?: string }) => {
       const response = await apiRequest("POST", "/api/create-payment-intent", data);
       return response.json();
     },
@@ -66,13 +83,29 @@ export default function BookingModal({ session, isOpen, onClose, clientSecret }:
       const response = await apiRequest("POST", "/api/bookings", data);
       return response.json();
     },
-    onSuccess: () => {
-      toast({
+    onSuccess: (booking) => {
+      toast(booking.status === 'pending' ? {
+        title: "Booking Received",
+        description: "Your spot is held while your payment is processed. We'll email you once it's confirmed.",
+      } : {
         title: "Booking Confirmed!",
         description: "Your session has been booked successfully. You'll receive a confirmation email shortly.",
       });
+      if (booking.creditPurchaseId) {
+        queryClient.invalidateQueries({ queryKey: ["/api/credits/my"] });
+      }
+      if (booking.membershipId) {
+        queryClient.invalidateQueries({ queryKey: ["/api/memberships/my"] });
+      }
+      if (giftVoucher) {
+        queryClient.invalidateQueries({ queryKey: ["/api/gift-vouchers/my"] });
+      }
       onClose();
       form.reset();
+      setSelectedOccurrence(null);
+      setGuests([]);
+      setPromo(null);
+      setGiftVoucher(null);
     },
     onError: (error) => {
       toast({
@@ -83,8 +116,77 @@ export default function BookingModal({ session, isOpen, onClose, clientSecret }:
     },
   });
 
+  const joinWaitlistMutation = useMutation({
+    mutationFn: async (occurrence: ClassOccurrenceWithAvailability) => {
+      const response = await apiRequest("POST", `/api/occurrences/${occurrence.id}/waitlist`);
+      return response.json();
+    },
+    onSuccess: (entry) => {
+      toast({
+        title: "You're on the Waitlist",
+        description: `You're number ${entry.position} in line. We'll email you if a spot opens up.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/waitlist/my"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Couldn't Join Waitlist",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const changeGuests = (updated: string[]) => {
+    setGuests(updated);
+    if (updated.length === guests.length) return;
+
+    // A different party size is a different price, so codes are applied again
+    if (updated.length > 0) {
+      setPaymentMethod("card");
+    }
+    setPromo(null);
+    setGiftVoucher(null);
+  };
+
   const handleSubmit = async (data: BookingFormData) => {
     if (!session) return;
+
+    if (guests.some((name) => !name.trim())) {
+      toast({
+        title: "Guest Names Needed",
+        description: "Please add a name for each guest, or remove the ones who aren't coming.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!selectedOccurrence) {
+      toast({
+        title: "Choose a Class",
+        description: "Please select the date and time you'd like to attend.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (paymentMethod !== "card" || (giftVoucher ?? promo)?.total === 0) {
+      setIsProcessing(true);
+      try {
+        await createBookingMutation.mutateAsync({
+          occurrenceId: selectedOccurrence.id,
+          useCredit: paymentMethod === "credit",
+          useMembership: paymentMethod === "membership",
+          promoCode: paymentMethod === "card" ? promo?.code : undefined,
+          giftVoucherCode: paymentMethod === "card" ? giftVoucher?.code : undefined,
+          guests,
+          specialRequirements: data.specialRequirements,
+        });
+      } finally {
+        setIsProcessing(false);
+      }
+      return;
+    }
     
     // Check if Stripe is properly configured
     if (!stripe || !elements) {
@@ -102,18 +204,17 @@ export default function BookingModal({ session, isOpen, onClose, clientSecret }:
       // Create payment intent if not provided
       let paymentClientSecret = clientSecret;
       if (!paymentClientSecret) {
-        const platformFee = parseFloat(session.price) * 0.1; // 10% platform fee
-        const totalAmount = parseFloat(session.price) + platformFee;
-        
         const paymentIntent = await createPaymentIntentMutation.mutateAsync({
-          amount: totalAmount,
           sessionId: session.id,
+          attendees: guests.length + 1,
+          promoCode: promo?.code,
+          giftVoucherCode: giftVoucher?.code,
         });
         paymentClientSecret = paymentIntent.clientSecret;
       }
 
       // Confirm payment
-      const { error } = await stripe.confirmPayment({
+      const { error, paymentIntent } = await stripe.confirmPayment({
         elements,
         confirmParams: {
           return_url: `${window.location.origin}/booking-success`,
@@ -126,9 +227,11 @@ export default function BookingModal({ session, isOpen, onClose, clientSecret }:
       } else {
         // Create booking record
         await createBookingMutation.mutateAsync({
-          sessionId: session.id,
-          sessionDate: new Date(), // This should be selected by user
-          totalAmount: parseFloat(session.price) + (parseFloat(session.price) * 0.1),
+          occurrenceId: selectedOccurrence.id,
+          paymentIntentId: paymentIntent.id,
+          promoCode: promo?.code,
+          giftVoucherCode: giftVoucher?.code,
+          guests,
           specialRequirements: data.specialRequirements,
         });
       }
@@ -145,8 +248,14 @@ export default function BookingModal({ session, isOpen, onClose, clientSecret }:
 
   if (!session) return null;
 
-  const platformFee = parseFloat(session.price) * 0.1;
-  const totalAmount = parseFloat(session.price) + platformFee;
+  // Everyone on the booking pays the class price. A gift voucher's quote already includes any promo discount.
+  const attendees = guests.length + 1;
+  const subtotal = parseFloat(session.price) * attendees;
+  const quote = giftVoucher ?? promo;
+  const platformFee = quote ? quote.platformFee : subtotal * 0.1;
+  const totalAmount = quote ? quote.total : subtotal + platformFee;
+  const needsCard = paymentMethod === "card" && totalAmount > 0;
+  const canPayByCard = acceptsCardPayments(session.business);
 
   // If user is not authenticated, show login prompt
   if (!isAuthenticated) {
@@ -203,7 +312,11 @@ export default function BookingModal({ session, isOpen, onClose, clientSecret }:
                 <div className="flex items-center space-x-4 text-sm text-neutral-500">
                   <div className="flex items-center">
                     <Calendar className="w-4 h-4 mr-1" />
-                    <span>Next available</span>
+                    <span>
+                      {selectedOccurrence
+                        ? format(new Date(selectedOccurrence.startsAt), "EEE d MMM, HH:mm")
+                        : "Choose a date"}
+                    </span>
                   </div>
                   <div className="flex items-center">
                     <Clock className="w-4 h-4 mr-1" />
@@ -211,7 +324,7 @@ export default function BookingModal({ session, isOpen, onClose, clientSecret }:
                   </div>
                   <div className="flex items-center">
                     <MapPin className="w-4 h-4 mr-1" />
-                    <span>{session.business?.address}</span>
+                    <span>{session.location?.address ?? session.business?.address}</span>
                   </div>
                 </div>
               </div>
@@ -222,6 +335,28 @@ export default function BookingModal({ session, isOpen, onClose, clientSecret }:
           </div>
 
           <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            {/* Class Date */}
+            <div>
+              <h4 className="font-semibold text-neutral-800 mb-3">Choose a Class</h4>
+              <OccurrencePicker
+                sessionId={session.id}
+                selectedId={selectedOccurrence?.id ?? null}
+                onSelect={setSelectedOccurrence}
+                onJoinWaitlist={(occurrence) => joinWaitlistMutation.mutate(occurrence)}
+              />
+            </div>
+
+            {/* Guests */}
+            <div>
+              <h4 className="font-semibold text-neutral-800 mb-1">Bringing Friends?</h4>
+              <p className="text-sm text-neutral-600 mb-3">Add a name for each friend and pay for everyone in one go.</p>
+              <BookingGuestsField
+                guests={guests}
+                spotsLeft={selectedOccurrence?.spotsLeft ?? null}
+                onChange={changeGuests}
+              />
+            </div>
+
             {/* Booking Form */}
             <div className="space-y-4">
               <div>
@@ -284,9 +419,21 @@ export default function BookingModal({ session, isOpen, onClose, clientSecret }:
               <h4 className="font-semibold text-neutral-800 mb-3">Payment Summary</h4>
               <div className="space-y-2">
                 <div className="flex justify-between">
-                  <span className="text-neutral-600">Session Fee</span>
-                  <span className="text-neutral-800">£{parseFloat(session.price).toFixed(2)}</span>
+                  <span className="text-neutral-600">Session Fee{attendees > 1 && ` × ${attendees}`}</span>
+                  <span className="text-neutral-800">£{subtotal.toFixed(2)}</span>
                 </div>
+                {promo && (
+                  <div className="flex justify-between text-green-700">
+                    <span>Promo ({promo.code})</span>
+                    <span>-£{promo.discount.toFixed(2)}</span>
+                  </div>
+                )}
+                {giftVoucher && (
+                  <div className="flex justify-between text-green-700">
+                    <span>Gift voucher ({giftVoucher.code})</span>
+                    <span>-£{giftVoucher.giftVoucher.toFixed(2)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between">
                   <span className="text-neutral-600">Platform Fee</span>
                   <span className="text-neutral-800">£{platformFee.toFixed(2)}</span>
@@ -300,7 +447,30 @@ export default function BookingModal({ session, isOpen, onClose, clientSecret }:
             </div>
 
             {/* Payment Method */}
-            {clientSecret && (
+            <BookingPaymentOptions session={session} attendees={attendees} value={paymentMethod} onChange={setPaymentMethod} />
+            {paymentMethod === "card" && (
+              <div className="space-y-2">
+                <PromoCodeField
+                  sessionId={session.id}
+                  attendees={attendees}
+                  applied={promo}
+                  onChange={(applied) => {
+                    setPromo(applied);
+                    // What a voucher pays depends on the discounted price, so it has to be applied again
+                    setGiftVoucher(null);
+                  }}
+                />
+                <GiftVoucherField
+                  booking={{ sessionId: session.id, attendees, promoCode: promo?.code }}
+                  applied={giftVoucher}
+                  onChange={setGiftVoucher}
+                />
+              </div>
+            )}
+            {needsCard && !canPayByCard && (
+              <p className="text-sm text-neutral-600">{CARD_PAYMENTS_UNAVAILABLE_MESSAGE}</p>
+            )}
+            {clientSecret && needsCard && (
               <div>
                 <h4 className="font-semibold text-neutral-800 mb-3">Payment Method</h4>
                 <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 mb-3">
@@ -318,10 +488,16 @@ export default function BookingModal({ session, isOpen, onClose, clientSecret }:
             <Button
               type="submit"
               className="w-full bg-primary hover:bg-primary/90 text-white py-4 text-lg font-semibold"
-              disabled={!stripe || isProcessing || form.formState.isSubmitting}
+              disabled={(needsCard && (!stripe || !canPayByCard)) || !selectedOccurrence || isProcessing || form.formState.isSubmitting}
             >
               <Lock className="w-4 h-4 mr-2" />
-              {isProcessing ? "Processing..." : `Book & Pay £${totalAmount.toFixed(2)}`}
+              {isProcessing
+                ? "Processing..."
+                : paymentMethod === "credit"
+                  ? "Book with 1 Class Credit"
+                  : paymentMethod === "membership"
+                    ? "Book with Membership"
+                    : needsCard ? `Book & Pay £${totalAmount.toFixed(2)}` : "Book for Free"}
             </Button>
 
             <p className="text-xs text-neutral-500 text-center">
@@ -0,0 +1,70 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { CreditCard, IdCard, Ticket } from "lucide-react";
+import { countUsableCredits } from "@/lib/credits";
+import { findUsableMembership, getClassesLeft } from "@/lib/memberships";
+import { CreditPurchaseWithDetails, FitnessSession, MembershipWithDetails } from "@shared/schema";
+
+export type BookingPaymentMethod = "card" | "credit" | "membership";
+
+interface BookingPaymentOptionsProps {
+  session: Pick<FitnessSession, "businessId" | "sessionTypeId">;
+  attendees?: number;
+  value: BookingPaymentMethod;
+  onChange: (method: BookingPaymentMethod) => void;
+}
+
+// Lets customers with a class credit or membership from the session's business book without paying by card.
+// Credits and memberships cover one place, so bookings with guests are card only. Renders nothing when card is
+// the only option.
+export default function BookingPaymentOptions({ session, attendees = 1, value, onChange }: BookingPaymentOptionsProps) {
+  const { isAuthenticated } = useAuth();
+
+  const { data: credits = [] } = useQuery<CreditPurchaseWithDetails[]>({
+    queryKey: ["/api/credits/my"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: memberships = [] } = useQuery<MembershipWithDetails[]>({
+    queryKey: ["/api/memberships/my"],
+    enabled: isAuthenticated,
+  });
+
+  const usableCredits = countUsableCredits(credits, session);
+  const membership = findUsableMembership(memberships, session);
+  if (attendees > 1 || (usableCredits === 0 && !membership)) return null;
+
+  const classesLeft = membership && getClassesLeft(membership);
+
+  return (
+    <RadioGroup
+      value={value}
+      onValueChange={(method) => onChange(method as BookingPaymentMethod)}
+      className="mb-4"
+    >
+      {membership && (
+        <label className="flex items-center space-x-3 border border-neutral-200 rounded-lg p-3 cursor-pointer">
+          <RadioGroupItem value="membership" />
+          <IdCard className="w-4 h-4 text-primary" />
+          <span className="text-sm">
+            Book with your {membership.plan.name} membership
+            {classesLeft === null ? "" : ` (${classesLeft} left this month)`}
+          </span>
+        </label>
+      )}
+      {usableCredits > 0 && (
+        <label className="flex items-center space-x-3 border border-neutral-200 rounded-lg p-3 cursor-pointer">
+          <RadioGroupItem value="credit" />
+          <Ticket className="w-4 h-4 text-primary" />
+          <span className="text-sm">Use a class credit ({usableCredits} left)</span>
+        </label>
+      )}
+      <label className="flex items-center space-x-3 border border-neutral-200 rounded-lg p-3 cursor-pointer">
+        <RadioGroupItem value="card" />
+        <CreditCard className="w-4 h-4 text-primary" />
+        <span className="text-sm">Pay by card</span>
+      </label>
+    </RadioGroup>
+  );
+}
@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Check, FileText, Mail, MapPin, X } from "lucide-react";
+import { BusinessClaimWithDetails } from "@shared/schema";
+
+// Claims made before uploads existed list documents as URLs or free text
+function getLegacyDocuments(claim: BusinessClaimWithDetails): string[] {
+  return Array.isArray(claim.verificationDocuments)
+    ? claim.verificationDocuments.filter((document): document is string => typeof document === "string")
+    : [];
+}
+
+export default function BusinessClaimQueue() {
+  const { toast } = useToast();
+  const [rejectingClaim, setRejectingClaim] = useState<BusinessClaimWithDetails | null>(null);
+  const [rejectionReason, setRejectionReason] = useState("");
+
+  const { data: claims = [] } = useQuery<BusinessClaimWithDetails[]>({
+    queryKey: ["/api/admin/business-claims"],
+  });
+
+  const onDecision = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/business-claims"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/stats"] });
+  };
+
+  const approveMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/admin/business-claims/${id}/approve`, {});
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Claim Approved",
+        description: "The business now belongs to the claimant, and any other claims on it were closed.",
+      });
+      onDecision();
+    },
+    onError: (error) => {
+      toast({
+        title: "Approval Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: async ({ id, reason }: { id: number; reason: string }) => {
+      const response = await apiRequest("POST", `/api/admin/business-claims/${id}/reject`, { reason });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Claim Rejected",
+        description: "The claimant has been emailed the reason.",
+      });
+      setRejectingClaim(null);
+      setRejectionReason("");
+      onDecision();
+    },
+    onError: (error) => {
+      toast({
+        title: "Rejection Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Pending Business Claims</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {claims.length === 0 ? (
+            <p className="text-neutral-500 text-center py-8">
+              No pending business claims.
+            </p>
+          ) : (
+            claims.map((claim) => {
+              const files = claim.verificationFiles ?? [];
+              const legacyDocuments = getLegacyDocuments(claim);
+              return (
+                <div key={claim.id} className="border border-neutral-200 rounded-lg p-4">
+                  <div className="flex items-center justify-between mb-3">
+                    <h3 className="font-semibold text-neutral-800">{claim.business.name}</h3>
+                    <Badge variant="secondary" className="bg-yellow-100 text-yellow-800">
+                      {claim.createdAt ? format(new Date(claim.createdAt), "d MMM yyyy") : "Pending"}
+                    </Badge>
+                  </div>
+                  <div className="text-sm text-neutral-600 mb-3 space-y-1">
+                    <div className="flex items-center">
+                      <MapPin className="w-4 h-4 mr-2" />
+                      <span>{claim.business.address}, {claim.business.postcode}</span>
+                    </div>
+                    <div className="flex items-center">
+                      <Mail className="w-4 h-4 mr-2" />
+                      <span>{claim.user.firstName} {claim.user.lastName} ({claim.user.email})</span>
+                    </div>
+                  </div>
+                  {claim.claimMessage && (
+                    <p className="text-sm text-neutral-700 bg-neutral-50 rounded p-2 mb-3">{claim.claimMessage}</p>
+                  )}
+                  <div className="mb-3">
+                    <p className="text-xs font-medium text-neutral-800 mb-1">Verification documents</p>
+                    {files.length === 0 && legacyDocuments.length === 0 ? (
+                      <p className="text-xs text-neutral-500">None provided</p>
+                    ) : (
+                      <ul className="space-y-1">
+                        {files.map((file) => (
+                          <li key={file.id} className="flex items-center text-xs">
+                            <FileText className="w-3 h-3 mr-1 text-neutral-500" />
+                            <a href={file.url} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline break-all">
+                              {file.originalName}
+                            </a>
+                          </li>
+                        ))}
+                        {legacyDocuments.map((document, index) => (
+                          <li key={index} className="flex items-center text-xs">
+                            <FileText className="w-3 h-3 mr-1 text-neutral-500" />
+                            {/^https?:\/\//.test(document) ? (
+                              <a href={document} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline break-all">
+                                {document}
+                              </a>
+                            ) : (
+                              <span className="text-neutral-700">{document}</span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                  <div className="flex space-x-2">
+                    <Button
+                      size="sm"
+                      className="bg-primary hover:bg-primary-dark text-white"
+                      onClick={() => approveMutation.mutate(claim.id)}
+                      disabled={approveMutation.isPending}
+                    >
+                      <Check className="w-4 h-4 mr-1" />
+                      Approve
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      onClick={() => setRejectingClaim(claim)}
+                    >
+                      <X className="w-4 h-4 mr-1" />
+                      Reject
+                    </Button>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog
+        open={!!rejectingClaim}
+        onOpenChange={(open) => {
+          if (!open) {
+            setRejectingClaim(null);
+            setRejectionReason("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Claim</DialogTitle>
+            <DialogDescription>
+              The claimant for {rejectingClaim?.business.name} will be emailed this reason.
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="claimRejectionReason">Reason</Label>
+            <Textarea
+              id="claimRejectionReason"
+              value={rejectionReason}
+              maxLength={1000}
+              onChange={(e) => setRejectionReason(e.target.value)}
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setRejectingClaim(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => rejectingClaim && rejectMutation.mutate({ id: rejectingClaim.id, reason: rejectionReason })}
+              disabled={!rejectionReason.trim() || rejectMutation.isPending}
+            >
+              {rejectMutation.isPending ? "Rejecting..." : "Reject Claim"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
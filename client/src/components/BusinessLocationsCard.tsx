@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { MapPin, Pencil, Plus, Trash2 } from "lucide-react";
+import { Business, BusinessLocation } from "@shared/schema";
+
+const EMPTY_LOCATION = { name: "", address: "", postcode: "" };
+
+interface BusinessLocationsCardProps {
+  business: Business;
+}
+
+// The business's other sites; sessions can run at any of them or at the business's own address
+export default function BusinessLocationsCard({ business }: BusinessLocationsCardProps) {
+  const { toast } = useToast();
+  const locationsKey = `/api/businesses/${business.id}/locations`;
+  const [draft, setDraft] = useState(EMPTY_LOCATION);
+  const [editingId, setEditingId] = useState<number | null>(null);
+
+  const { data: locations = [] } = useQuery<BusinessLocation[]>({
+    queryKey: [locationsKey],
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = editingId
+        ? await apiRequest("PUT", `${locationsKey}/${editingId}`, draft)
+        : await apiRequest("POST", locationsKey, draft);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: editingId ? "Location Updated" : "Location Added",
+        description: `${draft.name} can now be chosen when you add a session.`,
+      });
+      setDraft(EMPTY_LOCATION);
+      setEditingId(null);
+      queryClient.invalidateQueries({ queryKey: [locationsKey] });
+      // Sessions show their location's address
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions/business", business.id] });
+    },
+    onError: onError("Save Failed"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (locationId: number) => {
+      await apiRequest("DELETE", `${locationsKey}/${locationId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [locationsKey] });
+    },
+    onError: onError("Delete Failed"),
+  });
+
+  const startEditing = (location: BusinessLocation) => {
+    setEditingId(location.id);
+    setDraft({ name: location.name, address: location.address, postcode: location.postcode });
+  };
+
+  const canSave = draft.name.trim().length >= 2 && draft.address.trim().length >= 5 && draft.postcode.trim().length >= 5;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Locations</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-start space-x-2 text-sm">
+          <MapPin className="w-4 h-4 mt-0.5 text-neutral-500 shrink-0" />
+          <div>
+            <p className="font-medium text-neutral-800">Main address</p>
+            <p className="text-xs text-neutral-500">{business.address}, {business.postcode}</p>
+          </div>
+        </div>
+        {locations.length === 0 ? (
+          <p className="text-sm text-neutral-500">
+            Run sessions at more than one site? Add each one here and they'll all be covered by your subscription.
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {locations.map((location) => (
+              <li key={location.id} className="flex items-start justify-between">
+                <div className="flex items-start space-x-2 text-sm">
+                  <MapPin className="w-4 h-4 mt-0.5 text-primary shrink-0" />
+                  <div>
+                    <p className="font-medium text-neutral-800">{location.name}</p>
+                    <p className="text-xs text-neutral-500">{location.address}, {location.postcode}</p>
+                  </div>
+                </div>
+                <div className="flex items-center">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    aria-label={`Edit ${location.name}`}
+                    onClick={() => startEditing(location)}
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    aria-label={`Delete ${location.name}`}
+                    onClick={() => deleteMutation.mutate(location.id)}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 className="w-4 h-4 text-red-500" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="space-y-3 border-t border-neutral-200 pt-4">
+          <div>
+            <Label htmlFor="locationName">Site name</Label>
+            <Input
+              id="locationName"
+              placeholder="e.g. Shoreditch"
+              value={draft.name}
+              maxLength={100}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="locationAddress">Address</Label>
+            <Input
+              id="locationAddress"
+              value={draft.address}
+              maxLength={300}
+              onChange={(e) => setDraft({ ...draft, address: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="locationPostcode">Postcode</Label>
+            <Input
+              id="locationPostcode"
+              value={draft.postcode}
+              maxLength={10}
+              onChange={(e) => setDraft({ ...draft, postcode: e.target.value })}
+            />
+          </div>
+          <div className="flex space-x-2">
+            {editingId && (
+              <Button
+                variant="outline"
+                className="flex-1"
+                onClick={() => {
+                  setEditingId(null);
+                  setDraft(EMPTY_LOCATION);
+                }}
+              >
+                Cancel
+              </Button>
+            )}
+            <Button
+              className="flex-1"
+              onClick={() => saveMutation.mutate()}
+              disabled={!canSave || saveMutation.isPending}
+            >
+              {!editingId && <Plus className="w-4 h-4 mr-2" />}
+              {saveMutation.isPending ? "Saving..." : editingId ? "Save Location" : "Add Location"}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
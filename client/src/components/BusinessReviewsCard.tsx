@@ -0,0 +1,224 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Flag, MessageSquare, Star } from "lucide-react";
+import StarRating from "@/components/StarRating";
+import { Business, ReviewWithAuthor } from "@shared/schema";
+
+interface BusinessReviewsCardProps {
+  business: Business;
+}
+
+export default function BusinessReviewsCard({ business }: BusinessReviewsCardProps) {
+  const { toast } = useToast();
+  const [replyingTo, setReplyingTo] = useState<number | null>(null);
+  const [replyText, setReplyText] = useState("");
+  const [flaggingReview, setFlaggingReview] = useState<ReviewWithAuthor | null>(null);
+  const [flagReason, setFlagReason] = useState("");
+
+  const reviewsQueryKey = [`/api/businesses/${business.id}/reviews`];
+  const { data: reviews = [] } = useQuery<ReviewWithAuthor[]>({
+    queryKey: reviewsQueryKey,
+  });
+
+  const replyMutation = useMutation({
+    mutationFn: async ({ reviewId, response }: { reviewId: number; response: string }) => {
+      const res = await apiRequest("PUT", `/api/reviews/${reviewId}/response`, { response });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Reply Posted",
+        description: "Your reply is now shown under the review.",
+      });
+      setReplyingTo(null);
+      setReplyText("");
+      queryClient.invalidateQueries({ queryKey: reviewsQueryKey });
+    },
+    onError: (error) => {
+      toast({
+        title: "Reply Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const flagMutation = useMutation({
+    mutationFn: async ({ reviewId, reason }: { reviewId: number; reason: string }) => {
+      const res = await apiRequest("POST", `/api/reviews/${reviewId}/flag`, { reason });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Review Flagged",
+        description: "Our team will check it against the review guidelines.",
+      });
+      setFlaggingReview(null);
+      setFlagReason("");
+      queryClient.invalidateQueries({ queryKey: reviewsQueryKey });
+    },
+    onError: (error) => {
+      toast({
+        title: "Flag Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center">
+            <Star className="w-5 h-5 mr-2" />
+            Reviews
+          </span>
+          <StarRating average={business.ratingAverage} count={business.ratingCount} />
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {reviews.length === 0 ? (
+          <p className="text-sm text-neutral-500 text-center py-4">
+            No reviews yet. Customers can review a session once their booking is completed.
+          </p>
+        ) : (
+          reviews.map((review) => (
+            <div key={review.id} className="border border-neutral-200 rounded-lg p-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-1">
+                  {[1, 2, 3, 4, 5].map((value) => (
+                    <Star
+                      key={value}
+                      className={`w-3 h-3 ${value <= review.rating ? "text-yellow-400 fill-yellow-400" : "text-neutral-300"}`}
+                    />
+                  ))}
+                </div>
+                {review.status === 'flagged' && (
+                  <Badge variant="secondary" className="bg-yellow-100 text-yellow-800">Flagged</Badge>
+                )}
+              </div>
+              {review.comment && <p className="text-sm text-neutral-700">{review.comment}</p>}
+              <p className="text-xs text-neutral-500">
+                {review.author.firstName} {review.author.lastName?.[0]}
+                {review.createdAt && ` • ${format(new Date(review.createdAt), "d MMM yyyy")}`}
+              </p>
+
+              {review.response && replyingTo !== review.id && (
+                <div className="bg-neutral-50 rounded p-2 text-sm">
+                  <p className="text-xs font-medium text-neutral-800 mb-1">Your reply</p>
+                  <p className="text-neutral-700">{review.response}</p>
+                </div>
+              )}
+
+              {replyingTo === review.id ? (
+                <div className="space-y-2">
+                  <Textarea
+                    value={replyText}
+                    maxLength={2000}
+                    onChange={(e) => setReplyText(e.target.value)}
+                    placeholder="Write a public reply..."
+                  />
+                  <div className="flex justify-end space-x-2">
+                    <Button size="sm" variant="outline" onClick={() => setReplyingTo(null)}>
+                      Cancel
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => replyMutation.mutate({ reviewId: review.id, response: replyText })}
+                      disabled={!replyText.trim() || replyMutation.isPending}
+                    >
+                      {replyMutation.isPending ? "Posting..." : "Post Reply"}
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex space-x-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-auto p-0 text-xs text-primary"
+                    onClick={() => {
+                      setReplyingTo(review.id);
+                      setReplyText(review.response || "");
+                    }}
+                  >
+                    <MessageSquare className="w-3 h-3 mr-1" />
+                    {review.response ? "Edit Reply" : "Reply"}
+                  </Button>
+                  {review.status !== 'flagged' && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-auto p-0 text-xs text-neutral-500"
+                      onClick={() => setFlaggingReview(review)}
+                    >
+                      <Flag className="w-3 h-3 mr-1" />
+                      Flag
+                    </Button>
+                  )}
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <Dialog
+        open={!!flaggingReview}
+        onOpenChange={(open) => {
+          if (!open) {
+            setFlaggingReview(null);
+            setFlagReason("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Flag Review</DialogTitle>
+            <DialogDescription>
+              Tell us why this review breaks the guidelines, e.g. abusive language or a customer who never attended.
+              It stays visible until an admin has looked at it.
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="flagReason">Reason</Label>
+            <Textarea
+              id="flagReason"
+              value={flagReason}
+              maxLength={1000}
+              onChange={(e) => setFlagReason(e.target.value)}
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setFlaggingReview(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => flaggingReview && flagMutation.mutate({ reviewId: flaggingReview.id, reason: flagReason })}
+              disabled={!flagReason.trim() || flagMutation.isPending}
+            >
+              {flagMutation.isPending ? "Flagging..." : "Flag Review"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
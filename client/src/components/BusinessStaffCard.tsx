@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Trash2, UserPlus } from "lucide-react";
+import { Business, BusinessStaff } from "@shared/schema";
+
+interface BusinessStaffCardProps {
+  business: Business;
+}
+
+export default function BusinessStaffCard({ business }: BusinessStaffCardProps) {
+  const { toast } = useToast();
+  const staffKey = `/api/businesses/${business.id}/staff`;
+  const [displayName, setDisplayName] = useState("");
+  const [email, setEmail] = useState("");
+
+  const { data: staff = [] } = useQuery<BusinessStaff[]>({
+    queryKey: [staffKey],
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", staffKey, { displayName, email });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Invitation Sent",
+        description: `We've emailed ${email} a link to join your staff.`,
+      });
+      setDisplayName("");
+      setEmail("");
+      queryClient.invalidateQueries({ queryKey: [staffKey] });
+    },
+    onError: onError("Invitation Failed"),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (staffId: number) => {
+      const response = await apiRequest("DELETE", `${staffKey}/${staffId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [staffKey] });
+      // Removed instructors are taken off the sessions and classes they were teaching
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions/business", business.id] });
+      queryClient.invalidateQueries({
+        predicate: (query) => (query.queryKey[0] as string).startsWith(`/api/businesses/${business.id}/schedule`),
+      });
+    },
+    onError: onError("Remove Failed"),
+  });
+
+  const canInvite = displayName.trim().length >= 2 && /\S+@\S+/.test(email);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Staff</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {staff.length === 0 ? (
+          <p className="text-sm text-neutral-500">
+            Invite your coaches so you can put them on your classes and they can see who's booked in.
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {staff.map((staffMember) => (
+              <li key={staffMember.id} className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-neutral-800">{staffMember.displayName}</p>
+                  <p className="text-xs text-neutral-500">{staffMember.email}</p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  {staffMember.status === 'invited' && <Badge variant="secondary">Invited</Badge>}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    aria-label={`Remove ${staffMember.displayName}`}
+                    onClick={() => removeMutation.mutate(staffMember.id)}
+                    disabled={removeMutation.isPending}
+                  >
+                    <Trash2 className="w-4 h-4 text-red-500" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="space-y-3 border-t border-neutral-200 pt-4">
+          <div>
+            <Label htmlFor="staffDisplayName">Name shown to customers</Label>
+            <Input
+              id="staffDisplayName"
+              value={displayName}
+              maxLength={100}
+              onChange={(e) => setDisplayName(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="staffEmail">Email</Label>
+            <Input
+              id="staffEmail"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+            />
+          </div>
+          <Button
+            className="w-full"
+            onClick={() => inviteMutation.mutate()}
+            disabled={!canInvite || inviteMutation.isPending}
+          >
+            <UserPlus className="w-4 h-4 mr-2" />
+            {inviteMutation.isPending ? "Sending..." : "Invite Staff Member"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Business } from "@shared/schema";
+
+interface CancellationPolicyCardProps {
+  business: Business;
+}
+
+export default function CancellationPolicyCard({ business }: CancellationPolicyCardProps) {
+  const { toast } = useToast();
+  const [freeCancellationHours, setFreeCancellationHours] = useState(business.freeCancellationHours);
+  const [lateCancellationRefundPercent, setLateCancellationRefundPercent] = useState(business.lateCancellationRefundPercent);
+
+  const updatePolicyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/businesses/${business.id}/cancellation-policy`, {
+        freeCancellationHours,
+        lateCancellationRefundPercent,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Policy Updated",
+        description: "Your cancellation policy has been saved.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/businesses/my"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Update Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Cancellation Policy</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label htmlFor="freeCancellationHours">Free cancellation up to (hours before)</Label>
+          <Input
+            id="freeCancellationHours"
+            type="number"
+            min={0}
+            max={168}
+            value={freeCancellationHours}
+            onChange={(e) => setFreeCancellationHours(parseInt(e.target.value) || 0)}
+          />
+        </div>
+        <div>
+          <Label htmlFor="lateCancellationRefundPercent">Refund for later cancellations (%)</Label>
+          <Input
+            id="lateCancellationRefundPercent"
+            type="number"
+            min={0}
+            max={100}
+            value={lateCancellationRefundPercent}
+            onChange={(e) => setLateCancellationRefundPercent(parseInt(e.target.value) || 0)}
+          />
+        </div>
+        <p className="text-xs text-neutral-500">
+          Customers can reschedule for free until the free cancellation window closes.
+        </p>
+        <Button
+          className="w-full"
+          onClick={() => updatePolicyMutation.mutate()}
+          disabled={updatePolicyMutation.isPending}
+        >
+          {updatePolicyMutation.isPending ? "Saving..." : "Save Policy"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
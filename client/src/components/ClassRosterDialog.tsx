@@ -0,0 +1,119 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { User } from "lucide-react";
+import { RosterEntry, TeachingScheduleEntry } from "@shared/schema";
+
+interface ClassRosterDialogProps {
+  entry: TeachingScheduleEntry | null;
+  onClose: () => void;
+}
+
+// Who's booked on a class, with a tick box to check in each customer and every guest they brought
+export default function ClassRosterDialog({ entry, onClose }: ClassRosterDialogProps) {
+  const { toast } = useToast();
+  const rosterKey = `/api/occurrences/${entry?.id}/roster`;
+
+  const { data: roster = [], isLoading } = useQuery<RosterEntry[]>({
+    queryKey: [rosterKey],
+    enabled: !!entry,
+  });
+
+  const checkInMutation = useMutation({
+    mutationFn: async ({ bookingId, guestId, checkedIn }: { bookingId: number; guestId?: number; checkedIn: boolean }) => {
+      const response = await apiRequest("PUT", `/api/bookings/${bookingId}/check-in`, { guestId, checkedIn });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [rosterKey] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Check-in Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const booked = roster.reduce((total, booking) => total + booking.attendees, 0);
+  const checkedIn = roster.reduce(
+    (total, booking) => total + (booking.checkedInAt ? 1 : 0) + booking.guests.filter((guest) => guest.checkedInAt).length,
+    0,
+  );
+
+  return (
+    <Dialog open={!!entry} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        {entry && (
+          <>
+            <DialogHeader>
+              <DialogTitle>{entry.session.title}</DialogTitle>
+              <p className="text-sm text-neutral-600">
+                {format(new Date(entry.startsAt), "EEEE d MMMM 'at' HH:mm")} • {entry.business.name}
+                {entry.location && ` – ${entry.location.name}`}
+              </p>
+            </DialogHeader>
+            <p className="text-sm font-medium text-neutral-800">
+              {booked} of {entry.session.maxParticipants} booked • {checkedIn} checked in
+            </p>
+            {isLoading ? (
+              <div className="animate-spin w-6 h-6 border-2 border-primary border-t-transparent rounded-full mx-auto my-4" />
+            ) : roster.length === 0 ? (
+              <p className="text-sm text-neutral-500">Nobody has booked this class yet.</p>
+            ) : (
+              <ul className="divide-y divide-neutral-200">
+                {roster.map((booking) => (
+                  <li key={booking.id} className="flex items-start space-x-3 py-2">
+                    <div className="w-8 h-8 bg-neutral-200 rounded-full flex items-center justify-center overflow-hidden shrink-0">
+                      {booking.customer.profileImageUrl ? (
+                        <img src={booking.customer.profileImageUrl} alt="" className="w-full h-full object-cover" />
+                      ) : (
+                        <User className="w-4 h-4 text-neutral-500" />
+                      )}
+                    </div>
+                    <div className="flex-1 space-y-1">
+                      <label className="flex items-center justify-between text-sm text-neutral-800">
+                        <span>{booking.customer.firstName} {booking.customer.lastName}</span>
+                        <Checkbox
+                          aria-label={`Check in ${booking.customer.firstName} ${booking.customer.lastName}`}
+                          checked={!!booking.checkedInAt}
+                          disabled={checkInMutation.isPending}
+                          onCheckedChange={(checked) => checkInMutation.mutate({
+                            bookingId: booking.id,
+                            checkedIn: checked === true,
+                          })}
+                        />
+                      </label>
+                      {booking.guests.map((guest) => (
+                        <label key={guest.id} className="flex items-center justify-between text-sm text-neutral-600 pl-3">
+                          <span>{guest.name} <span className="text-xs text-neutral-500">(guest)</span></span>
+                          <Checkbox
+                            aria-label={`Check in ${guest.name}`}
+                            checked={!!guest.checkedInAt}
+                            disabled={checkInMutation.isPending}
+                            onCheckedChange={(checked) => checkInMutation.mutate({
+                              bookingId: booking.id,
+                              guestId: guest.id,
+                              checkedIn: checked === true,
+                            })}
+                          />
+                        </label>
+                      ))}
+                      {booking.specialRequirements && (
+                        <p className="text-xs text-neutral-500">{booking.specialRequirements}</p>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { addDays, format, isSameDay, parseISO } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronLeft, ChevronRight, Users } from "lucide-react";
+import ClassRosterDialog from "@/components/ClassRosterDialog";
+import { BusinessStaff, TeachingSchedule, TeachingScheduleEntry } from "@shared/schema";
+
+const USUAL_INSTRUCTOR = "usual";
+
+interface ClassScheduleCardProps {
+  title: string;
+  // Schedule endpoint, e.g. /api/staff/schedule or /api/businesses/1/schedule
+  endpoint: string;
+  // When given, each class gets a picker for who covers it
+  staff?: BusinessStaff[];
+}
+
+// A week of classes with their rosters, for instructors and the businesses they teach for
+export default function ClassScheduleCard({ title, endpoint, staff }: ClassScheduleCardProps) {
+  const { toast } = useToast();
+  const [week, setWeek] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [rosterEntry, setRosterEntry] = useState<TeachingScheduleEntry | null>(null);
+
+  const { data: schedule, isLoading } = useQuery<TeachingSchedule>({
+    queryKey: [`${endpoint}?week=${week}`],
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: async ({ occurrenceId, instructorId }: { occurrenceId: number; instructorId: number | null }) => {
+      const response = await apiRequest("PUT", `/api/occurrences/${occurrenceId}/instructor`, { instructorId });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`${endpoint}?week=${week}`] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Assignment Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const weekStart = schedule ? parseISO(schedule.weekStart) : parseISO(week);
+  const days = Array.from({ length: 7 }, (_, index) => addDays(weekStart, index));
+  const activeStaff = staff?.filter((staffMember) => staffMember.status === 'active') ?? [];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>{title}</CardTitle>
+        <div className="flex items-center space-x-2">
+          <Button
+            variant="outline"
+            size="sm"
+            aria-label="Previous week"
+            onClick={() => setWeek(format(addDays(weekStart, -7), "yyyy-MM-dd"))}
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span className="text-sm text-neutral-600 min-w-[9rem] text-center">
+            {format(weekStart, "d MMM")} – {format(addDays(weekStart, 6), "d MMM yyyy")}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            aria-label="Next week"
+            onClick={() => setWeek(format(addDays(weekStart, 7), "yyyy-MM-dd"))}
+          >
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="animate-spin w-6 h-6 border-2 border-primary border-t-transparent rounded-full mx-auto my-8" />
+        ) : !schedule || schedule.classes.length === 0 ? (
+          <p className="text-sm text-neutral-500 text-center py-8">No classes this week.</p>
+        ) : (
+          <div className="space-y-4">
+            {days.map((day) => {
+              const classes = schedule.classes.filter((entry) => isSameDay(new Date(entry.startsAt), day));
+              if (classes.length === 0) return null;
+              return (
+                <div key={day.toISOString()}>
+                  <p className="text-xs font-semibold text-neutral-800 border-b border-neutral-200 pb-1 mb-2">
+                    {format(day, "EEEE d MMMM")}
+                  </p>
+                  <div className="space-y-2">
+                    {classes.map((entry) => {
+                      const booked = entry.session.maxParticipants - entry.spotsLeft;
+                      return (
+                        <div
+                          key={entry.id}
+                          className={`flex flex-wrap items-center justify-between gap-2 text-sm ${entry.status !== 'scheduled' ? "opacity-60" : ""}`}
+                        >
+                          <div>
+                            <p className="font-medium text-neutral-800">
+                              {format(new Date(entry.startsAt), "HH:mm")} {entry.session.title}
+                            </p>
+                            <p className="text-xs text-neutral-500">
+                              {staff ? entry.instructor?.displayName ?? "No instructor" : entry.business.name}
+                              {entry.location && ` • ${entry.location.name}`}
+                              {entry.status !== 'scheduled' && " • Cancelled"}
+                            </p>
+                          </div>
+                          <div className="flex items-center space-x-2">
+                            {staff && (
+                              <Select
+                                value={entry.instructorId?.toString() ?? USUAL_INSTRUCTOR}
+                                onValueChange={(value) => assignMutation.mutate({
+                                  occurrenceId: entry.id,
+                                  instructorId: value === USUAL_INSTRUCTOR ? null : parseInt(value),
+                                })}
+                              >
+                                <SelectTrigger className="w-40 h-8">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value={USUAL_INSTRUCTOR}>Usual instructor</SelectItem>
+                                  {activeStaff.map((staffMember) => (
+                                    <SelectItem key={staffMember.id} value={staffMember.id.toString()}>
+                                      Cover: {staffMember.displayName}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            )}
+                            <Button variant="outline" size="sm" onClick={() => setRosterEntry(entry)}>
+                              <Users className="w-4 h-4 mr-1" />
+                              {booked}/{entry.session.maxParticipants}
+                            </Button>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+      <ClassRosterDialog entry={rosterEntry} onClose={() => setRosterEntry(null)} />
+    </Card>
+  );
+}
@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Elements, PaymentElement, useElements, useStripe } from "@stripe/react-stripe-js";
+import { loadStripe } from "@stripe/stripe-js";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Lock, Ticket } from "lucide-react";
+import { CreditPack } from "@shared/schema";
+
+const stripePromise = import.meta.env.VITE_STRIPE_PUBLIC_KEY
+  ? loadStripe(import.meta.env.VITE_STRIPE_PUBLIC_KEY)
+  : null;
+
+interface PaymentDetails {
+  clientSecret: string;
+  paymentIntentId: string;
+  subtotal: number;
+  platformFee: number;
+  total: number;
+}
+
+interface CreditPackPurchaseCardProps {
+  businessId: number;
+}
+
+// Class packs on sale from a business; buying one adds credits the customer spends when booking its classes
+export default function CreditPackPurchaseCard({ businessId }: CreditPackPurchaseCardProps) {
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const [selectedPack, setSelectedPack] = useState<CreditPack | null>(null);
+  const [payment, setPayment] = useState<PaymentDetails | null>(null);
+
+  const { data: packs = [] } = useQuery<CreditPack[]>({
+    queryKey: [`/api/businesses/${businessId}/credit-packs`],
+  });
+
+  const paymentIntentMutation = useMutation({
+    mutationFn: async (pack: CreditPack) => {
+      const response = await apiRequest("POST", "/api/create-payment-intent", { creditPackId: pack.id });
+      return response.json() as Promise<PaymentDetails>;
+    },
+    onSuccess: setPayment,
+    onError: (error) => {
+      setSelectedPack(null);
+      toast({
+        title: "Payment Setup Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (packs.length === 0) return null;
+
+  const choosePack = (pack: CreditPack) => {
+    setSelectedPack(pack);
+    setPayment(null);
+    paymentIntentMutation.mutate(pack);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Class Packs</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ul className="space-y-3">
+          {packs.map((pack) => (
+            <li key={pack.id} className="flex items-start justify-between text-sm">
+              <div className="flex items-start">
+                <Ticket className="w-4 h-4 mr-2 mt-0.5 text-primary shrink-0" />
+                <div>
+                  <p className="font-medium text-neutral-800">{pack.name}</p>
+                  <p className="text-neutral-600">
+                    {pack.credits} classes for £{pack.price}
+                    {pack.expiryDays ? ` • use within ${pack.expiryDays} days` : ""}
+                  </p>
+                </div>
+              </div>
+              {isAuthenticated && (
+                <Button
+                  size="sm"
+                  variant={selectedPack?.id === pack.id ? "default" : "outline"}
+                  disabled={!stripePromise || paymentIntentMutation.isPending}
+                  onClick={() => choosePack(pack)}
+                >
+                  Buy
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        {!isAuthenticated ? (
+          <Button className="w-full" onClick={() => window.location.href = "/api/login"}>
+            Log In to Buy
+          </Button>
+        ) : paymentIntentMutation.isPending ? (
+          <p className="text-sm text-neutral-500 text-center">Preparing payment...</p>
+        ) : payment && selectedPack ? (
+          <Elements stripe={stripePromise} options={{ clientSecret: payment.clientSecret }}>
+            <CreditPackPaymentForm
+              pack={selectedPack}
+              payment={payment}
+              onPurchased={() => {
+                setPayment(null);
+                setSelectedPack(null);
+              }}
+            />
+          </Elements>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface CreditPackPaymentFormProps {
+  pack: CreditPack;
+  payment: PaymentDetails;
+  onPurchased: () => void;
+}
+
+function CreditPackPaymentForm({ pack, payment, onPurchased }: CreditPackPaymentFormProps) {
+  const { toast } = useToast();
+  const stripe = useStripe();
+  const elements = useElements();
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const recordPurchaseMutation = useMutation({
+    mutationFn: async (paymentIntentId: string) => {
+      const response = await apiRequest("POST", "/api/credit-purchases", { paymentIntentId });
+      return { status: response.status, body: await response.json() };
+    },
+    onSuccess: ({ status, body }) => {
+      toast(status === 202 ? {
+        title: "Payment Processing",
+        description: body.message,
+      } : {
+        title: "Class Pack Purchased!",
+        description: `${pack.credits} credits have been added to your account.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/credits/my"] });
+      onPurchased();
+    },
+  });
+
+  const handlePay = async () => {
+    if (!stripe || !elements) return;
+
+    setIsProcessing(true);
+    try {
+      const { error, paymentIntent } = await stripe.confirmPayment({
+        elements,
+        confirmParams: {
+          return_url: window.location.href,
+        },
+        redirect: "if_required",
+      });
+      if (error) {
+        throw new Error(error.message);
+      }
+      await recordPurchaseMutation.mutateAsync(paymentIntent.id);
+    } catch (error) {
+      toast({
+        title: "Purchase Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 border-t border-neutral-200 pt-4">
+      <div className="space-y-1 text-sm">
+        <div className="flex justify-between">
+          <span className="text-neutral-600">{pack.name}</span>
+          <span>£{payment.subtotal.toFixed(2)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-neutral-600">Booking fee</span>
+          <span>£{payment.platformFee.toFixed(2)}</span>
+        </div>
+        <div className="flex justify-between font-semibold">
+          <span>Total</span>
+          <span>£{payment.total.toFixed(2)}</span>
+        </div>
+      </div>
+      <PaymentElement />
+      <Button className="w-full" onClick={handlePay} disabled={!stripe || isProcessing}>
+        <Lock className="w-4 h-4 mr-2" />
+        {isProcessing ? "Processing..." : `Pay £${payment.total.toFixed(2)}`}
+      </Button>
+    </div>
+  );
+}
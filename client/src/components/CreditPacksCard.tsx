@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Plus, Ticket, Trash2 } from "lucide-react";
+import { Business, CreditPack, SessionType } from "@shared/schema";
+
+const EMPTY_PACK = { name: "", credits: "", price: "", expiryDays: "" };
+
+interface CreditPacksCardProps {
+  business: Business;
+}
+
+// Class packs the business sells, e.g. "10 classes for £80"; customers spend a credit instead of paying per class
+export default function CreditPacksCard({ business }: CreditPacksCardProps) {
+  const { toast } = useToast();
+  const packsKey = `/api/businesses/${business.id}/credit-packs`;
+  const [draft, setDraft] = useState(EMPTY_PACK);
+  const [sessionTypeIds, setSessionTypeIds] = useState<number[]>([]);
+
+  const { data: packs = [] } = useQuery<CreditPack[]>({
+    queryKey: [packsKey],
+  });
+
+  const { data: sessionTypes = [] } = useQuery<SessionType[]>({
+    queryKey: ["/api/session-types"],
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", packsKey, {
+        name: draft.name,
+        credits: parseInt(draft.credits),
+        price: parseFloat(draft.price),
+        expiryDays: draft.expiryDays ? parseInt(draft.expiryDays) : null,
+        sessionTypeIds,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Class Pack Added",
+        description: `${draft.name} is now on sale on your profile.`,
+      });
+      setDraft(EMPTY_PACK);
+      setSessionTypeIds([]);
+      queryClient.invalidateQueries({ queryKey: [packsKey] });
+    },
+    onError: onError("Save Failed"),
+  });
+
+  const retireMutation = useMutation({
+    mutationFn: async (packId: number) => {
+      await apiRequest("DELETE", `${packsKey}/${packId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [packsKey] });
+    },
+    onError: onError("Couldn't Remove Pack"),
+  });
+
+  const toggleSessionType = (id: number, checked: boolean) => {
+    setSessionTypeIds(checked ? [...sessionTypeIds, id] : sessionTypeIds.filter((typeId) => typeId !== id));
+  };
+
+  const describeCoverage = (pack: CreditPack) => {
+    if (pack.sessionTypeIds.length === 0) return "Any class";
+    return sessionTypes
+      .filter((type) => pack.sessionTypeIds.includes(type.id))
+      .map((type) => type.name)
+      .join(", ");
+  };
+
+  const canSave = draft.name.trim().length >= 2 && parseInt(draft.credits) > 0 && parseFloat(draft.price) > 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Class Packs</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {packs.length === 0 ? (
+          <p className="text-sm text-neutral-500">
+            Sell bundles of classes at a discount. Customers buy a pack once and spend a credit each time they book.
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {packs.map((pack) => (
+              <li key={pack.id} className="flex items-start justify-between">
+                <div className="flex items-start space-x-2 text-sm">
+                  <Ticket className="w-4 h-4 mt-0.5 text-primary shrink-0" />
+                  <div>
+                    <p className="font-medium text-neutral-800">{pack.name}</p>
+                    <p className="text-xs text-neutral-500">
+                      {pack.credits} credits for £{pack.price}
+                      {pack.expiryDays ? ` • valid ${pack.expiryDays} days` : " • no expiry"}
+                    </p>
+                    <p className="text-xs text-neutral-500">{describeCoverage(pack)}</p>
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  aria-label={`Stop selling ${pack.name}`}
+                  onClick={() => retireMutation.mutate(pack.id)}
+                  disabled={retireMutation.isPending}
+                >
+                  <Trash2 className="w-4 h-4 text-red-500" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="space-y-3 border-t border-neutral-200 pt-4">
+          <div>
+            <Label htmlFor="packName">Pack name</Label>
+            <Input
+              id="packName"
+              placeholder="e.g. 10 Class Pass"
+              value={draft.name}
+              maxLength={100}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <Label htmlFor="packCredits">Classes</Label>
+              <Input
+                id="packCredits"
+                type="number"
+                min={1}
+                max={100}
+                value={draft.credits}
+                onChange={(e) => setDraft({ ...draft, credits: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="packPrice">Price (£)</Label>
+              <Input
+                id="packPrice"
+                type="number"
+                min={0}
+                step="0.01"
+                value={draft.price}
+                onChange={(e) => setDraft({ ...draft, price: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="packExpiry">Valid (days)</Label>
+              <Input
+                id="packExpiry"
+                type="number"
+                min={1}
+                max={730}
+                placeholder="Never"
+                value={draft.expiryDays}
+                onChange={(e) => setDraft({ ...draft, expiryDays: e.target.value })}
+              />
+            </div>
+          </div>
+          {sessionTypes.length > 0 && (
+            <div>
+              <Label>Covers</Label>
+              <p className="text-xs text-neutral-500 mb-2">Leave all unticked to cover any class.</p>
+              <div className="grid grid-cols-2 gap-2">
+                {sessionTypes.map((type) => (
+                  <label key={type.id} className="flex items-center space-x-2 text-sm">
+                    <Checkbox
+                      checked={sessionTypeIds.includes(type.id)}
+                      onCheckedChange={(checked) => toggleSessionType(type.id, checked === true)}
+                    />
+                    <span>{type.name}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+          <Button
+            className="w-full"
+            onClick={() => createMutation.mutate()}
+            disabled={!canSave || createMutation.isPending}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            {createMutation.isPending ? "Saving..." : "Add Class Pack"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,111 @@
+import { useRef, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { FileText, Loader2, Upload, X } from "lucide-react";
+import { UploadedFileSummary } from "@shared/schema";
+
+const MAX_FILE_MB = 10;
+const ACCEPTED_TYPES = "application/pdf,image/jpeg,image/png,image/webp";
+
+interface DocumentUploadFieldProps {
+  purpose: "business_claim" | "trainer_certification";
+  files: UploadedFileSummary[];
+  onChange: (files: UploadedFileSummary[]) => void;
+  maxFiles?: number;
+}
+
+function formatSize(bytes: number): string {
+  return bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+}
+
+export default function DocumentUploadField({ purpose, files, onChange, maxFiles = 10 }: DocumentUploadFieldProps) {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+
+  // Multipart uploads can't go through apiRequest, which always sends JSON
+  const uploadFile = async (file: File) => {
+    if (file.size > MAX_FILE_MB * 1024 * 1024) {
+      toast({
+        title: "File Too Large",
+        description: `${file.name} is over ${MAX_FILE_MB}MB.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const formData = new FormData();
+    formData.append("purpose", purpose);
+    formData.append("file", file);
+
+    setIsUploading(true);
+    try {
+      const res = await fetch("/api/uploads", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(body.message || res.statusText);
+      }
+      onChange([...files, body as UploadedFileSummary]);
+    } catch (error) {
+      toast({
+        title: "Upload Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+      if (inputRef.current) inputRef.current.value = "";
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {files.map((file) => (
+        <div key={file.id} className="flex items-center justify-between border border-neutral-200 rounded-lg px-3 py-2 text-sm">
+          <span className="flex items-center min-w-0">
+            <FileText className="w-4 h-4 mr-2 text-neutral-500 shrink-0" />
+            <span className="truncate">{file.originalName}</span>
+            <span className="text-neutral-500 ml-2 shrink-0">{formatSize(file.size)}</span>
+          </span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            aria-label={`Remove ${file.originalName}`}
+            onClick={() => onChange(files.filter((existing) => existing.id !== file.id))}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ACCEPTED_TYPES}
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) uploadFile(file);
+        }}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => inputRef.current?.click()}
+        disabled={isUploading || files.length >= maxFiles}
+      >
+        {isUploading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+        {isUploading ? "Uploading..." : "Upload Document"}
+      </Button>
+      <p className="text-xs text-neutral-500">PDF, JPEG, PNG or WebP, up to {MAX_FILE_MB}MB each.</p>
+    </div>
+  );
+}
@@ -12,12 +12,16 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { X, Plus, Clock, Users, Calendar } from "lucide-react";
 import type { SessionFormData } from "@/lib/types";
+import type { BusinessLocation } from "@shared/schema";
+
+const MAIN_ADDRESS = "main";
 
 // Enhanced session form schema
 const sessionFormSchema = z.object({
   title: z.string().min(1, "Title is required"),
   description: z.string().optional(),
   sessionTypeId: z.number().min(1, "Session type is required"),
+  locationId: z.number().nullable(),
   difficulty: z.array(z.string()).min(1, "At least one difficulty level is required"),
   ageGroups: z.array(z.string()).min(1, "At least one age group is required"),
   gender: z.enum(["mixed", "female_only", "male_only"]),
@@ -36,6 +40,7 @@ interface EnhancedSessionFormProps {
   isLoading?: boolean;
   onCancel: () => void;
   sessionTypes: Array<{ id: number; name: string; description?: string }>;
+  locations?: BusinessLocation[];
 }
 
 const difficultyOptions = [
@@ -85,7 +90,8 @@ export default function EnhancedSessionForm({
   onSubmit, 
   isLoading, 
   onCancel, 
-  sessionTypes 
+  sessionTypes,
+  locations = [],
 }: EnhancedSessionFormProps) {
   const form = useForm<SessionFormData>({
     resolver: zodResolver(sessionFormSchema),
@@ -93,6 +99,7 @@ export default function EnhancedSessionForm({
       title: "",
       description: "",
       sessionTypeId: 0,
+      locationId: null,
       difficulty: ["beginner"],
       ageGroups: ["18-25"],
       gender: "mixed",
@@ -192,6 +199,28 @@ export default function EnhancedSessionForm({
               <p className="text-sm text-red-600 mt-1">{form.formState.errors.sessionTypeId.message}</p>
             )}
           </div>
+
+          {locations.length > 0 && (
+            <div>
+              <Label htmlFor="locationId">Location</Label>
+              <Select
+                defaultValue={MAIN_ADDRESS}
+                onValueChange={(value) => form.setValue("locationId", value === MAIN_ADDRESS ? null : parseInt(value))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={MAIN_ADDRESS}>Main address</SelectItem>
+                  {locations.map((location) => (
+                    <SelectItem key={location.id} value={location.id.toString()}>
+                      {location.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -0,0 +1,77 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Gift, X } from "lucide-react";
+import { GiftVoucherQuote } from "@shared/schema";
+
+// What the voucher is going towards: a class for everyone booked (with any promo code already applied) or a
+// personal training session
+export type GiftVoucherBooking =
+  | { sessionId: number; attendees?: number; promoCode?: string }
+  | { trainerId: number; duration: number };
+
+interface GiftVoucherFieldProps {
+  booking: GiftVoucherBooking;
+  applied: GiftVoucherQuote | null;
+  onChange: (voucher: GiftVoucherQuote | null) => void;
+}
+
+// Checks a gift voucher against the booking and hands the price left to pay back to the checkout
+export default function GiftVoucherField({ booking, applied, onChange }: GiftVoucherFieldProps) {
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+
+  const validateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/gift-vouchers/validate", { code, ...booking });
+      return response.json() as Promise<GiftVoucherQuote>;
+    },
+    onSuccess: (voucher) => {
+      onChange(voucher);
+      setCode("");
+    },
+    onError: (error) => {
+      toast({
+        title: "Gift Voucher Not Applied",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (applied) {
+    return (
+      <div className="flex items-center justify-between bg-green-50 border border-green-200 rounded-lg p-3 text-sm">
+        <span className="flex items-center text-green-800">
+          <Gift className="w-4 h-4 mr-2" />
+          £{applied.giftVoucher.toFixed(2)} from gift voucher {applied.code} (£{applied.balance} balance)
+        </span>
+        <Button type="button" variant="ghost" size="sm" aria-label="Remove gift voucher" onClick={() => onChange(null)}>
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex space-x-2">
+      <Input
+        placeholder="Gift voucher code"
+        value={code}
+        maxLength={20}
+        onChange={(e) => setCode(e.target.value)}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => validateMutation.mutate()}
+        disabled={!code.trim() || validateMutation.isPending}
+      >
+        {validateMutation.isPending ? "Checking..." : "Apply"}
+      </Button>
+    </div>
+  );
+}
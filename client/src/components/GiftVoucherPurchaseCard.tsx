@@ -0,0 +1,256 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Elements, PaymentElement, useElements, useStripe } from "@stripe/react-stripe-js";
+import { loadStripe } from "@stripe/stripe-js";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Gift, Lock } from "lucide-react";
+
+const stripePromise = import.meta.env.VITE_STRIPE_PUBLIC_KEY
+  ? loadStripe(import.meta.env.VITE_STRIPE_PUBLIC_KEY)
+  : null;
+
+const PRESET_AMOUNTS = [25, 50, 100];
+const MIN_AMOUNT = 10;
+const MAX_AMOUNT = 500;
+
+const EMPTY_VOUCHER = { amount: "50", recipientName: "", recipientEmail: "", message: "" };
+
+interface PaymentDetails {
+  clientSecret: string;
+  paymentIntentId: string;
+  subtotal: number;
+  platformFee: number;
+  total: number;
+}
+
+interface GiftVoucherPurchaseCardProps {
+  provider: { businessId: number } | { trainerId: number };
+  providerName: string;
+}
+
+// Gift vouchers for a business or trainer, paid for here and emailed straight to the person they're for
+export default function GiftVoucherPurchaseCard({ provider, providerName }: GiftVoucherPurchaseCardProps) {
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState(EMPTY_VOUCHER);
+  const [payment, setPayment] = useState<PaymentDetails | null>(null);
+
+  const update = (changes: Partial<typeof draft>) => {
+    setDraft({ ...draft, ...changes });
+    // Changing the voucher after starting payment needs a fresh payment
+    setPayment(null);
+  };
+
+  const paymentIntentMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/create-payment-intent", {
+        giftVoucher: {
+          ...provider,
+          amount: parseInt(draft.amount),
+          recipientName: draft.recipientName,
+          recipientEmail: draft.recipientEmail,
+          message: draft.message || undefined,
+        },
+      });
+      return response.json() as Promise<PaymentDetails>;
+    },
+    onSuccess: setPayment,
+    onError: (error) => {
+      toast({
+        title: "Payment Setup Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const amount = parseInt(draft.amount);
+  const canContinue = amount >= MIN_AMOUNT &&
+    amount <= MAX_AMOUNT &&
+    draft.recipientName.trim().length > 0 &&
+    /\S+@\S+/.test(draft.recipientEmail);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Gift Vouchers</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-neutral-600">
+          Treat someone to sessions with {providerName}. We'll email them a code they can spend over as many
+          bookings as they like within 12 months.
+        </p>
+
+        {!isAuthenticated ? (
+          <Button className="w-full" onClick={() => window.location.href = "/api/login"}>
+            Log In to Buy a Voucher
+          </Button>
+        ) : payment ? (
+          <Elements stripe={stripePromise} options={{ clientSecret: payment.clientSecret }}>
+            <GiftVoucherPaymentForm
+              payment={payment}
+              recipientName={draft.recipientName}
+              onPurchased={() => {
+                setPayment(null);
+                setDraft(EMPTY_VOUCHER);
+              }}
+            />
+          </Elements>
+        ) : (
+          <div className="space-y-3">
+            <div>
+              <Label>Amount</Label>
+              <div className="flex space-x-2 mt-1">
+                {PRESET_AMOUNTS.map((preset) => (
+                  <Button
+                    key={preset}
+                    type="button"
+                    size="sm"
+                    variant={amount === preset ? "default" : "outline"}
+                    onClick={() => update({ amount: preset.toString() })}
+                  >
+                    £{preset}
+                  </Button>
+                ))}
+                <Input
+                  aria-label="Other amount (£)"
+                  type="number"
+                  min={MIN_AMOUNT}
+                  max={MAX_AMOUNT}
+                  step="1"
+                  value={draft.amount}
+                  onChange={(e) => update({ amount: e.target.value })}
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="voucherRecipientName">Their name</Label>
+              <Input
+                id="voucherRecipientName"
+                value={draft.recipientName}
+                maxLength={100}
+                onChange={(e) => update({ recipientName: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="voucherRecipientEmail">Their email</Label>
+              <Input
+                id="voucherRecipientEmail"
+                type="email"
+                value={draft.recipientEmail}
+                onChange={(e) => update({ recipientEmail: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="voucherMessage">Message (optional)</Label>
+              <Textarea
+                id="voucherMessage"
+                value={draft.message}
+                maxLength={300}
+                rows={2}
+                onChange={(e) => update({ message: e.target.value })}
+              />
+            </div>
+            <Button
+              className="w-full"
+              disabled={!canContinue || !stripePromise || paymentIntentMutation.isPending}
+              onClick={() => paymentIntentMutation.mutate()}
+            >
+              <Gift className="w-4 h-4 mr-2" />
+              {paymentIntentMutation.isPending ? "Preparing payment..." : "Continue to Payment"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface GiftVoucherPaymentFormProps {
+  payment: PaymentDetails;
+  recipientName: string;
+  onPurchased: () => void;
+}
+
+function GiftVoucherPaymentForm({ payment, recipientName, onPurchased }: GiftVoucherPaymentFormProps) {
+  const { toast } = useToast();
+  const stripe = useStripe();
+  const elements = useElements();
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const recordPurchaseMutation = useMutation({
+    mutationFn: async (paymentIntentId: string) => {
+      const response = await apiRequest("POST", "/api/gift-vouchers", { paymentIntentId });
+      return { status: response.status, body: await response.json() };
+    },
+    onSuccess: ({ status, body }) => {
+      toast(status === 202 ? {
+        title: "Payment Processing",
+        description: body.message,
+      } : {
+        title: "Gift Voucher Sent!",
+        description: `We've emailed ${recipientName} their voucher code.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/gift-vouchers/my"] });
+      onPurchased();
+    },
+  });
+
+  const handlePay = async () => {
+    if (!stripe || !elements) return;
+
+    setIsProcessing(true);
+    try {
+      const { error, paymentIntent } = await stripe.confirmPayment({
+        elements,
+        confirmParams: {
+          return_url: window.location.href,
+        },
+        redirect: "if_required",
+      });
+      if (error) {
+        throw new Error(error.message);
+      }
+      await recordPurchaseMutation.mutateAsync(paymentIntent.id);
+    } catch (error) {
+      toast({
+        title: "Purchase Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1 text-sm">
+        <div className="flex justify-between">
+          <span className="text-neutral-600">Gift voucher for {recipientName}</span>
+          <span>£{payment.subtotal.toFixed(2)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-neutral-600">Booking fee</span>
+          <span>£{payment.platformFee.toFixed(2)}</span>
+        </div>
+        <div className="flex justify-between font-semibold">
+          <span>Total</span>
+          <span>£{payment.total.toFixed(2)}</span>
+        </div>
+      </div>
+      <PaymentElement />
+      <Button className="w-full" onClick={handlePay} disabled={!stripe || isProcessing}>
+        <Lock className="w-4 h-4 mr-2" />
+        {isProcessing ? "Processing..." : `Pay £${payment.total.toFixed(2)}`}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { BookingWithDetails } from "@shared/schema";
+
+interface GoodwillRefundDialogProps {
+  booking: BookingWithDetails | null;
+  onClose: () => void;
+}
+
+export default function GoodwillRefundDialog({ booking, onClose }: GoodwillRefundDialogProps) {
+  const { toast } = useToast();
+  const [amount, setAmount] = useState("");
+  const [note, setNote] = useState("");
+
+  const alreadyRefunded = (booking?.refunds || [])
+    .filter((refund) => refund.status === 'pending' || refund.status === 'succeeded')
+    .reduce((sum, refund) => sum + parseFloat(refund.amount), 0);
+  const refundable = booking ? Math.max(0, parseFloat(booking.totalAmount) - alreadyRefunded) : 0;
+
+  const handleClose = () => {
+    setAmount("");
+    setNote("");
+    onClose();
+  };
+
+  const refundMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/bookings/${booking!.id}/refunds`, {
+        amount: parseFloat(amount),
+        note: note || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Refund Issued",
+        description: `£${parseFloat(amount).toFixed(2)} is on its way back to the customer.`,
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/bookings/business/${booking!.session.businessId}`] });
+      handleClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Refund Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!booking} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Issue Goodwill Refund</DialogTitle>
+          <DialogDescription>
+            {booking && `${booking.user.firstName} ${booking.user.lastName} • ${booking.session.title}. Up to £${refundable.toFixed(2)} can be refunded.`}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="refundAmount">Amount (£)</Label>
+            <Input
+              id="refundAmount"
+              type="number"
+              min={0.01}
+              max={refundable}
+              step={0.01}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="refundNote">Note to customer (optional)</Label>
+            <Textarea id="refundNote" value={note} onChange={(e) => setNote(e.target.value)} />
+          </div>
+        </div>
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => refundMutation.mutate()}
+            disabled={!amount || parseFloat(amount) <= 0 || parseFloat(amount) > refundable || refundMutation.isPending}
+          >
+            {refundMutation.isPending ? "Refunding..." : "Issue Refund"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
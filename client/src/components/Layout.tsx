@@ -89,6 +89,11 @@ export default function Layout({ children }: LayoutProps) {
                     <DropdownMenuItem asChild>
                       <Link href="/business">Business Dashboard</Link>
                     </DropdownMenuItem>
+                    {user?.role === 'staff' && (
+                      <DropdownMenuItem asChild>
+                        <Link href="/teaching">Teaching Schedule</Link>
+                      </DropdownMenuItem>
+                    )}
                     {user?.role === 'admin' && (
                       <DropdownMenuItem asChild>
                         <Link href="/admin">Admin Dashboard</Link>
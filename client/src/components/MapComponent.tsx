@@ -17,6 +17,8 @@ interface MapComponentProps {
   sessions?: SessionLocation[];
   onSessionClick?: (session: SessionLocation) => void;
   interactive?: boolean;
+  showPopups?: boolean;
+  radiusKm?: number; // shades an area of this radius around the center, e.g. a trainer's travel radius
   className?: string;
 }
 
@@ -26,11 +28,14 @@ export default function MapComponent({
   sessions = [],
   onSessionClick,
   interactive = true,
+  showPopups = true,
+  radiusKm,
   className = "w-full h-full"
 }: MapComponentProps) {
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<L.Map | null>(null);
   const markersRef = useRef<L.Marker[]>([]);
+  const circleRef = useRef<L.Circle | null>(null);
 
   useEffect(() => {
     if (!mapRef.current) return;
@@ -83,20 +88,23 @@ export default function MapComponent({
       // Create popup content
       const popupContent = `
         <div class="p-2">
+          ${session.imageUrl ? `<img src="${session.imageUrl}" alt="" class="w-full h-24 object-cover rounded mb-2" />` : ''}
           <h3 class="font-semibold text-sm">${session.title}</h3>
           <p class="text-xs text-gray-600 mb-1">${session.business}</p>
           <div class="flex items-center justify-between">
             <span class="text-sm font-medium text-green-600">£${session.price}</span>
             <div class="flex items-center text-xs">
               <span class="text-yellow-500">★</span>
-              <span class="ml-1">${session.rating}</span>
+              <span class="ml-1">${session.rating > 0 ? session.rating.toFixed(1) : 'New'}</span>
             </div>
           </div>
           <p class="text-xs text-gray-500 mt-1">${session.difficulty} • ${session.sessionType}</p>
         </div>
       `;
 
-      marker.bindPopup(popupContent);
+      if (showPopups) {
+        marker.bindPopup(popupContent);
+      }
       
       if (onSessionClick) {
         marker.on('click', () => {
@@ -107,7 +115,18 @@ export default function MapComponent({
       marker.addTo(mapInstanceRef.current!);
       markersRef.current.push(marker);
     });
-  }, [sessions, onSessionClick]);
+  }, [sessions, onSessionClick, showPopups]);
+
+  useEffect(() => {
+    if (!mapInstanceRef.current) return;
+
+    circleRef.current?.remove();
+    circleRef.current = null;
+    if (!radiusKm) return;
+
+    circleRef.current = L.circle(center, { radius: radiusKm * 1000, color: 'hsl(142, 71%, 45%)', weight: 1, fillOpacity: 0.1 })
+      .addTo(mapInstanceRef.current);
+  }, [center[0], center[1], radiusKm]);
 
   return <div ref={mapRef} className={className} />;
 }
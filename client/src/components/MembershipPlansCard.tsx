@@ -0,0 +1,192 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { IdCard, Plus, Trash2 } from "lucide-react";
+import { Business, MembershipPlan, SessionType } from "@shared/schema";
+
+const EMPTY_PLAN = { name: "", price: "", classesPerPeriod: "" };
+
+interface MembershipPlansCardProps {
+  business: Business;
+}
+
+// Monthly memberships the business sells; members book classes at no extra charge within their allowance
+export default function MembershipPlansCard({ business }: MembershipPlansCardProps) {
+  const { toast } = useToast();
+  const plansKey = `/api/businesses/${business.id}/membership-plans`;
+  const [draft, setDraft] = useState(EMPTY_PLAN);
+  const [sessionTypeIds, setSessionTypeIds] = useState<number[]>([]);
+
+  const { data: plans = [] } = useQuery<MembershipPlan[]>({
+    queryKey: [plansKey],
+  });
+
+  const { data: sessionTypes = [] } = useQuery<SessionType[]>({
+    queryKey: ["/api/session-types"],
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", plansKey, {
+        name: draft.name,
+        price: parseFloat(draft.price),
+        classesPerPeriod: draft.classesPerPeriod ? parseInt(draft.classesPerPeriod) : null,
+        sessionTypeIds,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Membership Added",
+        description: `Customers can now join ${draft.name} from your profile.`,
+      });
+      setDraft(EMPTY_PLAN);
+      setSessionTypeIds([]);
+      queryClient.invalidateQueries({ queryKey: [plansKey] });
+    },
+    onError: onError("Save Failed"),
+  });
+
+  const retireMutation = useMutation({
+    mutationFn: async (planId: number) => {
+      await apiRequest("DELETE", `${plansKey}/${planId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [plansKey] });
+    },
+    onError: onError("Couldn't Remove Membership"),
+  });
+
+  const toggleSessionType = (id: number, checked: boolean) => {
+    setSessionTypeIds(checked ? [...sessionTypeIds, id] : sessionTypeIds.filter((typeId) => typeId !== id));
+  };
+
+  const describeCoverage = (plan: MembershipPlan) => {
+    if (plan.sessionTypeIds.length === 0) return "Any class";
+    return sessionTypes
+      .filter((type) => plan.sessionTypeIds.includes(type.id))
+      .map((type) => type.name)
+      .join(", ");
+  };
+
+  const canSave = draft.name.trim().length >= 2 && parseFloat(draft.price) > 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Memberships</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {plans.length === 0 ? (
+          <p className="text-sm text-neutral-500">
+            Sell monthly memberships, unlimited or with a set number of classes. Members are billed automatically
+            each month.
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {plans.map((plan) => (
+              <li key={plan.id} className="flex items-start justify-between">
+                <div className="flex items-start space-x-2 text-sm">
+                  <IdCard className="w-4 h-4 mt-0.5 text-primary shrink-0" />
+                  <div>
+                    <p className="font-medium text-neutral-800">{plan.name}</p>
+                    <p className="text-xs text-neutral-500">
+                      £{plan.price}/month • {plan.classesPerPeriod ? `${plan.classesPerPeriod} classes` : "unlimited"}
+                    </p>
+                    <p className="text-xs text-neutral-500">{describeCoverage(plan)}</p>
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  aria-label={`Stop selling ${plan.name}`}
+                  onClick={() => retireMutation.mutate(plan.id)}
+                  disabled={retireMutation.isPending}
+                >
+                  <Trash2 className="w-4 h-4 text-red-500" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="space-y-3 border-t border-neutral-200 pt-4">
+          <div>
+            <Label htmlFor="planName">Membership name</Label>
+            <Input
+              id="planName"
+              placeholder="e.g. Unlimited Monthly"
+              value={draft.name}
+              maxLength={100}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="planPrice">Price per month (£)</Label>
+              <Input
+                id="planPrice"
+                type="number"
+                min={0}
+                step="0.01"
+                value={draft.price}
+                onChange={(e) => setDraft({ ...draft, price: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="planClasses">Classes per month</Label>
+              <Input
+                id="planClasses"
+                type="number"
+                min={1}
+                max={100}
+                placeholder="Unlimited"
+                value={draft.classesPerPeriod}
+                onChange={(e) => setDraft({ ...draft, classesPerPeriod: e.target.value })}
+              />
+            </div>
+          </div>
+          {sessionTypes.length > 0 && (
+            <div>
+              <Label>Covers</Label>
+              <p className="text-xs text-neutral-500 mb-2">Leave all unticked to cover any class.</p>
+              <div className="grid grid-cols-2 gap-2">
+                {sessionTypes.map((type) => (
+                  <label key={type.id} className="flex items-center space-x-2 text-sm">
+                    <Checkbox
+                      checked={sessionTypeIds.includes(type.id)}
+                      onCheckedChange={(checked) => toggleSessionType(type.id, checked === true)}
+                    />
+                    <span>{type.name}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+          <Button
+            className="w-full"
+            onClick={() => createMutation.mutate()}
+            disabled={!canSave || createMutation.isPending}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            {createMutation.isPending ? "Saving..." : "Add Membership"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Elements, PaymentElement, useElements, useStripe } from "@stripe/react-stripe-js";
+import { loadStripe } from "@stripe/stripe-js";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isMembershipEntitled } from "@/lib/memberships";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { IdCard, Lock } from "lucide-react";
+import { Membership, MembershipPlan, MembershipWithDetails } from "@shared/schema";
+
+const stripePromise = import.meta.env.VITE_STRIPE_PUBLIC_KEY
+  ? loadStripe(import.meta.env.VITE_STRIPE_PUBLIC_KEY)
+  : null;
+
+interface PendingMembership {
+  plan: MembershipPlan;
+  membership: Membership;
+  clientSecret: string;
+}
+
+interface MembershipPurchaseCardProps {
+  businessId: number;
+}
+
+// Monthly memberships on sale from a business. The first month is paid here and Stripe bills each month after.
+export default function MembershipPurchaseCard({ businessId }: MembershipPurchaseCardProps) {
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const [pending, setPending] = useState<PendingMembership | null>(null);
+
+  const { data: plans = [] } = useQuery<MembershipPlan[]>({
+    queryKey: [`/api/businesses/${businessId}/membership-plans`],
+  });
+
+  const { data: memberships = [] } = useQuery<MembershipWithDetails[]>({
+    queryKey: ["/api/memberships/my"],
+    enabled: isAuthenticated,
+  });
+
+  const joinMutation = useMutation({
+    mutationFn: async (plan: MembershipPlan) => {
+      const response = await apiRequest("POST", "/api/memberships", { membershipPlanId: plan.id });
+      const { membership, clientSecret } = await response.json();
+      if (!clientSecret) {
+        throw new Error("Payment couldn't be set up for this membership. Please try again.");
+      }
+      return { plan, membership, clientSecret } as PendingMembership;
+    },
+    onSuccess: setPending,
+    onError: (error) => {
+      toast({
+        title: "Payment Setup Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (plans.length === 0) return null;
+
+  const isMember = (plan: MembershipPlan) => memberships.some((membership) =>
+    membership.membershipPlanId === plan.id && isMembershipEntitled(membership),
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Memberships</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ul className="space-y-3">
+          {plans.map((plan) => (
+            <li key={plan.id} className="flex items-start justify-between text-sm">
+              <div className="flex items-start">
+                <IdCard className="w-4 h-4 mr-2 mt-0.5 text-primary shrink-0" />
+                <div>
+                  <p className="font-medium text-neutral-800">{plan.name}</p>
+                  <p className="text-neutral-600">
+                    £{plan.price}/month • {plan.classesPerPeriod ? `${plan.classesPerPeriod} classes a month` : "unlimited classes"}
+                  </p>
+                </div>
+              </div>
+              {isAuthenticated && (isMember(plan) ? (
+                <Badge variant="secondary">Member</Badge>
+              ) : (
+                <Button
+                  size="sm"
+                  variant={pending?.plan.id === plan.id ? "default" : "outline"}
+                  disabled={!stripePromise || joinMutation.isPending}
+                  onClick={() => {
+                    setPending(null);
+                    joinMutation.mutate(plan);
+                  }}
+                >
+                  Join
+                </Button>
+              ))}
+            </li>
+          ))}
+        </ul>
+
+        {!isAuthenticated ? (
+          <Button className="w-full" onClick={() => window.location.href = "/api/login"}>
+            Log In to Join
+          </Button>
+        ) : joinMutation.isPending ? (
+          <p className="text-sm text-neutral-500 text-center">Preparing payment...</p>
+        ) : pending ? (
+          <Elements stripe={stripePromise} options={{ clientSecret: pending.clientSecret }}>
+            <MembershipPaymentForm pending={pending} onJoined={() => setPending(null)} />
+          </Elements>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface MembershipPaymentFormProps {
+  pending: PendingMembership;
+  onJoined: () => void;
+}
+
+function MembershipPaymentForm({ pending, onJoined }: MembershipPaymentFormProps) {
+  const { toast } = useToast();
+  const stripe = useStripe();
+  const elements = useElements();
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const syncMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/memberships/${pending.membership.id}/sync`);
+      return response.json() as Promise<Membership>;
+    },
+    onSuccess: (membership) => {
+      toast(membership.status === "active" ? {
+        title: "Welcome Aboard!",
+        description: `Your ${pending.plan.name} membership is active. Choose it when you book a class.`,
+      } : {
+        title: "Payment Processing",
+        description: "Your membership will start once your payment has cleared.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/memberships/my"] });
+      onJoined();
+    },
+  });
+
+  const handlePay = async () => {
+    if (!stripe || !elements) return;
+
+    setIsProcessing(true);
+    try {
+      const { error } = await stripe.confirmPayment({
+        elements,
+        confirmParams: {
+          return_url: window.location.href,
+        },
+        redirect: "if_required",
+      });
+      if (error) {
+        throw new Error(error.message);
+      }
+      await syncMutation.mutateAsync();
+    } catch (error) {
+      toast({
+        title: "Payment Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 border-t border-neutral-200 pt-4">
+      <p className="text-sm text-neutral-600">
+        {pending.plan.name} renews monthly until you cancel. The price includes the MYLES booking fee.
+      </p>
+      <PaymentElement />
+      <Button className="w-full" onClick={handlePay} disabled={!stripe || isProcessing}>
+        <Lock className="w-4 h-4 mr-2" />
+        {isProcessing ? "Processing..." : "Start Membership"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { ClassOccurrenceWithAvailability } from "@shared/schema";
+import { Calendar } from "lucide-react";
+
+interface OccurrencePickerProps {
+  sessionId: number;
+  selectedId: number | null;
+  onSelect: (occurrence: ClassOccurrenceWithAvailability) => void;
+  onJoinWaitlist?: (occurrence: ClassOccurrenceWithAvailability) => void;
+}
+
+export default function OccurrencePicker({ sessionId, selectedId, onSelect, onJoinWaitlist }: OccurrencePickerProps) {
+  const { data: occurrences = [], isLoading } = useQuery<ClassOccurrenceWithAvailability[]>({
+    queryKey: [`/api/sessions/${sessionId}/occurrences`],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="border border-neutral-200 rounded-lg p-4 text-center">
+        <div className="animate-spin w-6 h-6 border-2 border-primary border-t-transparent rounded-full mx-auto mb-2" />
+        <p className="text-sm text-neutral-600">Loading available dates...</p>
+      </div>
+    );
+  }
+
+  const available = occurrences.filter((occurrence) => occurrence.status === 'scheduled');
+
+  if (available.length === 0) {
+    return (
+      <p className="text-sm text-neutral-500 text-center py-4">
+        No upcoming classes are scheduled for this session.
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-3 gap-2 max-h-56 overflow-y-auto">
+      {available.map((occurrence) => {
+        const startsAt = new Date(occurrence.startsAt);
+        const isSelected = occurrence.id === selectedId;
+        const isFull = occurrence.spotsLeft === 0;
+        return (
+          <Button
+            key={occurrence.id}
+            type="button"
+            variant={isSelected ? "default" : "outline"}
+            className="h-auto flex flex-col items-start py-2"
+            disabled={isFull && !isSelected && !onJoinWaitlist}
+            onClick={() => isFull && onJoinWaitlist ? onJoinWaitlist(occurrence) : onSelect(occurrence)}
+          >
+            <span className="flex items-center text-sm font-medium">
+              <Calendar className="w-4 h-4 mr-1" />
+              {format(startsAt, "EEE d MMM")}
+            </span>
+            <span className="text-xs opacity-80">
+              {format(startsAt, "HH:mm")} • {isFull ? (onJoinWaitlist ? "Full - join waitlist" : "Full") : `${occurrence.spotsLeft} left`}
+            </span>
+          </Button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import { useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Banknote } from "lucide-react";
+import { Business } from "@shared/schema";
+
+interface EarningsLedger {
+  entries: {
+    bookingId: number;
+    sessionDate: string;
+    sessionTitle: string;
+    customerName: string;
+    status: string;
+    gross: number;
+    platformFee: number;
+    refunded: number;
+    net: number;
+  }[];
+  totals: {
+    gross: number;
+    platformFee: number;
+    refunded: number;
+    net: number;
+  };
+  payouts: {
+    id: string;
+    amount: number;
+    status: string;
+    arrivalDate: string;
+  }[];
+}
+
+interface PayoutsCardProps {
+  business: Business;
+}
+
+export default function PayoutsCard({ business }: PayoutsCardProps) {
+  const { toast } = useToast();
+  const payoutsEnabled = !!business.stripeAccountId && !!business.payoutsEnabled;
+
+  const { data: earnings } = useQuery<EarningsLedger>({
+    queryKey: [`/api/businesses/${business.id}/earnings`],
+    enabled: payoutsEnabled,
+  });
+
+  const onboardMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/businesses/${business.id}/payouts/onboard`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      window.location.href = data.url;
+    },
+    onError: (error) => {
+      toast({
+        title: "Payout Setup Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const refreshMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/businesses/${business.id}/payouts/refresh`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/businesses/my"] });
+    },
+  });
+
+  // Stripe sends the owner back here after onboarding; pick up the new account status straight away
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    if (params.get("payouts") === "return") {
+      refreshMutation.mutate();
+    }
+  }, []);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Banknote className="w-5 h-5 mr-2" />
+          Payouts
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!payoutsEnabled ? (
+          <>
+            <p className="text-sm text-neutral-600">
+              {business.stripeAccountId
+                ? "Your payout account isn't fully set up yet. Finish onboarding with Stripe to start taking bookings."
+                : "Connect a bank account with Stripe so booking revenue is paid straight to you. Customers can't pay for classes, passes or memberships until you do."}
+            </p>
+            <Button
+              className="w-full"
+              onClick={() => onboardMutation.mutate()}
+              disabled={onboardMutation.isPending}
+            >
+              {onboardMutation.isPending
+                ? "Redirecting..."
+                : business.stripeAccountId ? "Continue Setup" : "Set Up Payouts"}
+            </Button>
+          </>
+        ) : !earnings ? (
+          <div className="animate-spin w-6 h-6 border-2 border-primary border-t-transparent rounded-full mx-auto" />
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <div>
+                <p className="text-neutral-600">Gross sales</p>
+                <p className="font-semibold text-neutral-800">£{earnings.totals.gross.toFixed(2)}</p>
+              </div>
+              <div>
+                <p className="text-neutral-600">Platform fees</p>
+                <p className="font-semibold text-neutral-800">£{earnings.totals.platformFee.toFixed(2)}</p>
+              </div>
+              <div>
+                <p className="text-neutral-600">Refunded</p>
+                <p className="font-semibold text-neutral-800">£{earnings.totals.refunded.toFixed(2)}</p>
+              </div>
+              <div>
+                <p className="text-neutral-600">Your earnings</p>
+                <p className="font-semibold text-green-600">£{earnings.totals.net.toFixed(2)}</p>
+              </div>
+            </div>
+
+            <Separator />
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold text-neutral-800">Recent earnings</h4>
+              {earnings.entries.length === 0 ? (
+                <p className="text-xs text-neutral-500">No paid bookings yet.</p>
+              ) : (
+                earnings.entries.slice(0, 5).map((entry) => (
+                  <div key={entry.bookingId} className="flex items-center justify-between text-xs">
+                    <div>
+                      <p className="text-neutral-800">{entry.sessionTitle}</p>
+                      <p className="text-neutral-500">
+                        {entry.customerName} • {format(new Date(entry.sessionDate), "d MMM")}
+                      </p>
+                    </div>
+                    <span className="font-medium text-neutral-800">£{entry.net.toFixed(2)}</span>
+                  </div>
+                ))
+              )}
+            </div>
+
+            {earnings.payouts.length > 0 && (
+              <>
+                <Separator />
+                <div className="space-y-2">
+                  <h4 className="text-sm font-semibold text-neutral-800">Payouts to your bank</h4>
+                  {earnings.payouts.map((payout) => (
+                    <div key={payout.id} className="flex items-center justify-between text-xs">
+                      <span className="text-neutral-600">{format(new Date(payout.arrivalDate), "d MMM yyyy")}</span>
+                      <div className="flex items-center space-x-2">
+                        <Badge variant="secondary">{payout.status.replace("_", " ")}</Badge>
+                        <span className="font-medium text-neutral-800">£{payout.amount.toFixed(2)}</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
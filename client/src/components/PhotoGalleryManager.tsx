@@ -0,0 +1,203 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ChevronLeft, ChevronRight, ImagePlus, Loader2, Star, Trash2 } from "lucide-react";
+import { PhotoWithUrls } from "@shared/schema";
+
+const MAX_PHOTO_MB = 15;
+const MAX_PHOTOS_PER_UPLOAD = 10;
+
+interface PhotoGalleryManagerProps {
+  // Gallery endpoint, e.g. /api/businesses/1/photos
+  endpoint: string;
+}
+
+export default function PhotoGalleryManager({ endpoint }: PhotoGalleryManagerProps) {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const { data: photos = [] } = useQuery<PhotoWithUrls[]>({
+    queryKey: [endpoint],
+  });
+
+  // The cover photo is copied onto the profile, so listings showing it need refreshing too
+  const onGalleryChange = (updated: PhotoWithUrls[]) => {
+    queryClient.setQueryData([endpoint], updated);
+    queryClient.invalidateQueries({ queryKey: ["/api/businesses/my"] });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  // Multipart uploads can't go through apiRequest, which always sends JSON
+  const uploadPhotos = async (files: File[]) => {
+    const tooLarge = files.find((file) => file.size > MAX_PHOTO_MB * 1024 * 1024);
+    if (tooLarge) {
+      toast({
+        title: "Photo Too Large",
+        description: `${tooLarge.name} is over ${MAX_PHOTO_MB}MB.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const formData = new FormData();
+    files.slice(0, MAX_PHOTOS_PER_UPLOAD).forEach((file) => formData.append("photos", file));
+
+    setIsUploading(true);
+    try {
+      const res = await fetch(endpoint, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(body.message || res.statusText);
+      }
+      queryClient.invalidateQueries({ queryKey: [endpoint] });
+      queryClient.invalidateQueries({ queryKey: ["/api/businesses/my"] });
+    } catch (error) {
+      onError("Upload Failed")(error as Error);
+    } finally {
+      setIsUploading(false);
+      if (inputRef.current) inputRef.current.value = "";
+    }
+  };
+
+  const reorderMutation = useMutation({
+    mutationFn: async (photoIds: number[]) => {
+      const response = await apiRequest("PUT", `${endpoint}/order`, { photoIds });
+      return response.json();
+    },
+    onSuccess: onGalleryChange,
+    onError: onError("Reorder Failed"),
+  });
+
+  const coverMutation = useMutation({
+    mutationFn: async (photoId: number) => {
+      const response = await apiRequest("PUT", `${endpoint}/${photoId}/cover`, {});
+      return response.json();
+    },
+    onSuccess: onGalleryChange,
+    onError: onError("Couldn't Set Cover"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (photoId: number) => {
+      const response = await apiRequest("DELETE", `${endpoint}/${photoId}`);
+      return response.json();
+    },
+    onSuccess: onGalleryChange,
+    onError: onError("Delete Failed"),
+  });
+
+  const movePhoto = (index: number, offset: number) => {
+    const photoIds = photos.map((photo) => photo.id);
+    [photoIds[index], photoIds[index + offset]] = [photoIds[index + offset], photoIds[index]];
+    reorderMutation.mutate(photoIds);
+  };
+
+  const isBusy = reorderMutation.isPending || coverMutation.isPending || deleteMutation.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Photos</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {photos.length === 0 ? (
+          <p className="text-sm text-neutral-500">
+            Add photos of your space and classes. The cover photo is shown on your listings.
+          </p>
+        ) : (
+          <div className="grid grid-cols-2 gap-3">
+            {photos.map((photo, index) => (
+              <div key={photo.id} className="border border-neutral-200 rounded-lg overflow-hidden">
+                <div className="relative">
+                  <img src={photo.urls.thumbnail} alt="" className="w-full aspect-square object-cover" />
+                  {photo.isCover && (
+                    <Badge className="absolute top-1 left-1 bg-primary text-white">Cover</Badge>
+                  )}
+                </div>
+                <div className="flex items-center justify-between p-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    aria-label="Move earlier"
+                    disabled={index === 0 || isBusy}
+                    onClick={() => movePhoto(index, -1)}
+                  >
+                    <ChevronLeft className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    aria-label="Use as cover"
+                    disabled={photo.isCover || isBusy}
+                    onClick={() => coverMutation.mutate(photo.id)}
+                  >
+                    <Star className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    aria-label="Delete photo"
+                    disabled={isBusy}
+                    onClick={() => deleteMutation.mutate(photo.id)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    aria-label="Move later"
+                    disabled={index === photos.length - 1 || isBusy}
+                    onClick={() => movePhoto(index, 1)}
+                  >
+                    <ChevronRight className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <input
+          ref={inputRef}
+          type="file"
+          accept="image/jpeg,image/png,image/webp"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            const files = Array.from(e.target.files ?? []);
+            if (files.length > 0) uploadPhotos(files);
+          }}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          className="w-full"
+          onClick={() => inputRef.current?.click()}
+          disabled={isUploading}
+        >
+          {isUploading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <ImagePlus className="w-4 h-4 mr-2" />}
+          {isUploading ? "Uploading..." : "Add Photos"}
+        </Button>
+        <p className="text-xs text-neutral-500">
+          JPEG, PNG or WebP, up to {MAX_PHOTO_MB}MB each and {MAX_PHOTOS_PER_UPLOAD} at a time.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,72 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tag, X } from "lucide-react";
+import { PromoCodeQuote } from "@shared/schema";
+
+interface PromoCodeFieldProps {
+  sessionId: number;
+  attendees?: number;
+  applied: PromoCodeQuote | null;
+  onChange: (promo: PromoCodeQuote | null) => void;
+}
+
+// Checks a promo code against the session and hands the discounted price for everyone booked back to the checkout
+export default function PromoCodeField({ sessionId, attendees = 1, applied, onChange }: PromoCodeFieldProps) {
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+
+  const validateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/promo/validate", { code, sessionId, attendees });
+      return response.json() as Promise<PromoCodeQuote>;
+    },
+    onSuccess: (promo) => {
+      onChange(promo);
+      setCode("");
+    },
+    onError: (error) => {
+      toast({
+        title: "Promo Code Not Applied",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (applied) {
+    return (
+      <div className="flex items-center justify-between bg-green-50 border border-green-200 rounded-lg p-3 text-sm">
+        <span className="flex items-center text-green-800">
+          <Tag className="w-4 h-4 mr-2" />
+          {applied.code} applied: £{applied.discount.toFixed(2)} off
+        </span>
+        <Button type="button" variant="ghost" size="sm" aria-label="Remove promo code" onClick={() => onChange(null)}>
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex space-x-2">
+      <Input
+        placeholder="Promo code"
+        value={code}
+        maxLength={30}
+        onChange={(e) => setCode(e.target.value)}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => validateMutation.mutate()}
+        disabled={!code.trim() || validateMutation.isPending}
+      >
+        {validateMutation.isPending ? "Checking..." : "Apply"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,292 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Ban, Plus, Tag } from "lucide-react";
+import { Business, PromoCode, PromoCodeWithStats, SessionType } from "@shared/schema";
+
+const EMPTY_CODE = {
+  code: "",
+  discountType: "percent" as PromoCode["discountType"],
+  discountValue: "",
+  maxRedemptions: "",
+  maxRedemptionsPerCustomer: "",
+  validFrom: "",
+  validUntil: "",
+};
+
+interface PromoCodesCardProps {
+  business: Business;
+}
+
+// Discount codes customers enter at checkout, e.g. an introductory offer for first-time visitors
+export default function PromoCodesCard({ business }: PromoCodesCardProps) {
+  const { toast } = useToast();
+  const codesKey = `/api/businesses/${business.id}/promo-codes`;
+  const [draft, setDraft] = useState(EMPTY_CODE);
+  const [firstBookingOnly, setFirstBookingOnly] = useState(false);
+  const [sessionTypeIds, setSessionTypeIds] = useState<number[]>([]);
+
+  const { data: codes = [] } = useQuery<PromoCodeWithStats[]>({
+    queryKey: [codesKey],
+  });
+
+  const { data: sessionTypes = [] } = useQuery<SessionType[]>({
+    queryKey: ["/api/session-types"],
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", codesKey, {
+        code: draft.code,
+        discountType: draft.discountType,
+        discountValue: parseFloat(draft.discountValue),
+        firstBookingOnly,
+        sessionTypeIds,
+        maxRedemptions: draft.maxRedemptions ? parseInt(draft.maxRedemptions) : null,
+        maxRedemptionsPerCustomer: draft.maxRedemptionsPerCustomer ? parseInt(draft.maxRedemptionsPerCustomer) : null,
+        validFrom: draft.validFrom || null,
+        validUntil: draft.validUntil || null,
+      });
+      return response.json() as Promise<PromoCode>;
+    },
+    onSuccess: (promo) => {
+      toast({
+        title: "Promo Code Created",
+        description: `Customers can now use ${promo.code} when booking.`,
+      });
+      setDraft(EMPTY_CODE);
+      setFirstBookingOnly(false);
+      setSessionTypeIds([]);
+      queryClient.invalidateQueries({ queryKey: [codesKey] });
+    },
+    onError: onError("Save Failed"),
+  });
+
+  const deactivateMutation = useMutation({
+    mutationFn: async (promoCodeId: number) => {
+      await apiRequest("DELETE", `${codesKey}/${promoCodeId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [codesKey] });
+    },
+    onError: onError("Couldn't Deactivate Code"),
+  });
+
+  const toggleSessionType = (id: number, checked: boolean) => {
+    setSessionTypeIds(checked ? [...sessionTypeIds, id] : sessionTypeIds.filter((typeId) => typeId !== id));
+  };
+
+  const describeDiscount = (promo: PromoCode) => promo.discountType === "percent"
+    ? `${parseFloat(promo.discountValue)}% off`
+    : `£${promo.discountValue} off`;
+
+  const describeRules = (promo: PromoCode) => {
+    const rules: string[] = [];
+    if (promo.firstBookingOnly) rules.push("first booking only");
+    if (promo.sessionTypeIds.length > 0) {
+      rules.push(sessionTypes
+        .filter((type) => promo.sessionTypeIds.includes(type.id))
+        .map((type) => type.name)
+        .join(", "));
+    }
+    if (promo.maxRedemptionsPerCustomer) rules.push(`${promo.maxRedemptionsPerCustomer} per customer`);
+    if (promo.validFrom) rules.push(`from ${format(new Date(promo.validFrom), "d MMM yyyy")}`);
+    if (promo.validUntil) rules.push(`until ${format(new Date(promo.validUntil), "d MMM yyyy")}`);
+    return rules.join(" • ");
+  };
+
+  const isExpired = (promo: PromoCode) => !!promo.validUntil && new Date(promo.validUntil) <= new Date();
+
+  const discountValue = parseFloat(draft.discountValue);
+  const canSave = /^[A-Za-z0-9_-]{3,30}$/.test(draft.code) &&
+    discountValue > 0 &&
+    (draft.discountType === "fixed" || discountValue <= 100);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Promo Codes</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {codes.length === 0 ? (
+          <p className="text-sm text-neutral-500">
+            Create discount codes for introductory offers or campaigns. Customers enter them at checkout.
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {codes.map((promo) => (
+              <li key={promo.id} className="flex items-start justify-between">
+                <div className="flex items-start space-x-2 text-sm">
+                  <Tag className="w-4 h-4 mt-0.5 text-primary shrink-0" />
+                  <div>
+                    <p className="font-medium text-neutral-800">
+                      {promo.code}
+                      {!promo.active ? (
+                        <Badge variant="secondary" className="ml-2">Inactive</Badge>
+                      ) : isExpired(promo) ? (
+                        <Badge variant="secondary" className="ml-2">Expired</Badge>
+                      ) : null}
+                    </p>
+                    <p className="text-xs text-neutral-500">
+                      {describeDiscount(promo)} • used {promo.redemptionCount}
+                      {promo.maxRedemptions ? `/${promo.maxRedemptions}` : ""} times • £{promo.discountTotal} given
+                    </p>
+                    {describeRules(promo) && (
+                      <p className="text-xs text-neutral-500">{describeRules(promo)}</p>
+                    )}
+                  </div>
+                </div>
+                {promo.active && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    aria-label={`Deactivate ${promo.code}`}
+                    onClick={() => deactivateMutation.mutate(promo.id)}
+                    disabled={deactivateMutation.isPending}
+                  >
+                    <Ban className="w-4 h-4 text-red-500" />
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="space-y-3 border-t border-neutral-200 pt-4">
+          <div>
+            <Label htmlFor="promoCode">Code</Label>
+            <Input
+              id="promoCode"
+              placeholder="e.g. WELCOME20"
+              value={draft.code}
+              maxLength={30}
+              onChange={(e) => setDraft({ ...draft, code: e.target.value.toUpperCase() })}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label>Discount</Label>
+              <Select
+                value={draft.discountType}
+                onValueChange={(value) => setDraft({ ...draft, discountType: value as PromoCode["discountType"] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="percent">Percentage</SelectItem>
+                  <SelectItem value="fixed">Fixed amount</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="promoValue">{draft.discountType === "percent" ? "Percent off" : "Amount off (£)"}</Label>
+              <Input
+                id="promoValue"
+                type="number"
+                min={0}
+                max={draft.discountType === "percent" ? 100 : undefined}
+                step={draft.discountType === "percent" ? "1" : "0.01"}
+                value={draft.discountValue}
+                onChange={(e) => setDraft({ ...draft, discountValue: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="promoMaxRedemptions">Total uses</Label>
+              <Input
+                id="promoMaxRedemptions"
+                type="number"
+                min={1}
+                placeholder="Unlimited"
+                value={draft.maxRedemptions}
+                onChange={(e) => setDraft({ ...draft, maxRedemptions: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="promoPerCustomer">Uses per customer</Label>
+              <Input
+                id="promoPerCustomer"
+                type="number"
+                min={1}
+                placeholder="Unlimited"
+                value={draft.maxRedemptionsPerCustomer}
+                onChange={(e) => setDraft({ ...draft, maxRedemptionsPerCustomer: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="promoValidFrom">Valid from</Label>
+              <Input
+                id="promoValidFrom"
+                type="date"
+                value={draft.validFrom}
+                onChange={(e) => setDraft({ ...draft, validFrom: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="promoValidUntil">Valid until</Label>
+              <Input
+                id="promoValidUntil"
+                type="date"
+                value={draft.validUntil}
+                onChange={(e) => setDraft({ ...draft, validUntil: e.target.value })}
+              />
+            </div>
+          </div>
+          <label className="flex items-center space-x-2 text-sm">
+            <Checkbox
+              checked={firstBookingOnly}
+              onCheckedChange={(checked) => setFirstBookingOnly(checked === true)}
+            />
+            <span>First booking with {business.name} only</span>
+          </label>
+          {sessionTypes.length > 0 && (
+            <div>
+              <Label>Applies to</Label>
+              <p className="text-xs text-neutral-500 mb-2">Leave all unticked to apply to any class.</p>
+              <div className="grid grid-cols-2 gap-2">
+                {sessionTypes.map((type) => (
+                  <label key={type.id} className="flex items-center space-x-2 text-sm">
+                    <Checkbox
+                      checked={sessionTypeIds.includes(type.id)}
+                      onCheckedChange={(checked) => toggleSessionType(type.id, checked === true)}
+                    />
+                    <span>{type.name}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+          <Button
+            className="w-full"
+            onClick={() => createMutation.mutate()}
+            disabled={!canSave || createMutation.isPending}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            {createMutation.isPending ? "Saving..." : "Create Promo Code"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
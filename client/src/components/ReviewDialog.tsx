@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Star } from "lucide-react";
+
+export interface ReviewTarget {
+  kind: "class" | "trainer";
+  bookingId: number;
+  title: string;
+}
+
+interface ReviewDialogProps {
+  target: ReviewTarget | null;
+  onClose: () => void;
+}
+
+export default function ReviewDialog({ target, onClose }: ReviewDialogProps) {
+  const { toast } = useToast();
+  const [rating, setRating] = useState(0);
+  const [hoverRating, setHoverRating] = useState(0);
+  const [comment, setComment] = useState("");
+
+  const handleClose = () => {
+    setRating(0);
+    setHoverRating(0);
+    setComment("");
+    onClose();
+  };
+
+  const reviewMutation = useMutation({
+    mutationFn: async () => {
+      const url = target!.kind === "class"
+        ? `/api/bookings/${target!.bookingId}/review`
+        : `/api/trainer-bookings/${target!.bookingId}/review`;
+      const response = await apiRequest("POST", url, {
+        rating,
+        comment: comment || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Review Posted",
+        description: "Thanks for sharing your experience.",
+      });
+      queryClient.invalidateQueries({
+        queryKey: [target!.kind === "class" ? "/api/bookings/my" : "/api/trainer-bookings/my"],
+      });
+      handleClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Review Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const displayedRating = hoverRating || rating;
+
+  return (
+    <Dialog open={!!target} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Leave a Review</DialogTitle>
+          <DialogDescription>How was {target?.title}?</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="flex space-x-1" onMouseLeave={() => setHoverRating(0)}>
+            {[1, 2, 3, 4, 5].map((value) => (
+              <button
+                key={value}
+                type="button"
+                aria-label={`${value} star${value === 1 ? "" : "s"}`}
+                onClick={() => setRating(value)}
+                onMouseEnter={() => setHoverRating(value)}
+              >
+                <Star
+                  className={`w-8 h-8 ${value <= displayedRating ? "text-yellow-400 fill-yellow-400" : "text-neutral-300"}`}
+                />
+              </button>
+            ))}
+          </div>
+          <div>
+            <Label htmlFor="reviewComment">Comments (optional)</Label>
+            <Textarea
+              id="reviewComment"
+              value={comment}
+              maxLength={2000}
+              onChange={(e) => setComment(e.target.value)}
+            />
+          </div>
+        </div>
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => reviewMutation.mutate()}
+            disabled={rating === 0 || reviewMutation.isPending}
+          >
+            {reviewMutation.isPending ? "Posting..." : "Post Review"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
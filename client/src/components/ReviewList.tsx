@@ -0,0 +1,44 @@
+import { format } from "date-fns";
+import { Star } from "lucide-react";
+import { ReviewWithAuthor } from "@shared/schema";
+
+interface ReviewListProps {
+  reviews: ReviewWithAuthor[];
+  // Shown above the owner's replies, e.g. the business name
+  responderName: string;
+}
+
+// Read-only list of reviews for public profile pages
+export default function ReviewList({ reviews, responderName }: ReviewListProps) {
+  if (reviews.length === 0) {
+    return <p className="text-sm text-neutral-500 text-center py-4">No reviews yet.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {reviews.map((review) => (
+        <div key={review.id} className="border-b border-neutral-200 last:border-0 pb-4 last:pb-0 space-y-2">
+          <div className="flex items-center space-x-1">
+            {[1, 2, 3, 4, 5].map((value) => (
+              <Star
+                key={value}
+                className={`w-3 h-3 ${value <= review.rating ? "text-yellow-400 fill-yellow-400" : "text-neutral-300"}`}
+              />
+            ))}
+          </div>
+          {review.comment && <p className="text-sm text-neutral-700">{review.comment}</p>}
+          <p className="text-xs text-neutral-500">
+            {review.author.firstName} {review.author.lastName?.[0]}
+            {review.createdAt && ` • ${format(new Date(review.createdAt), "d MMM yyyy")}`}
+          </p>
+          {review.response && (
+            <div className="bg-neutral-50 rounded p-2 text-sm">
+              <p className="text-xs font-medium text-neutral-800 mb-1">Reply from {responderName}</p>
+              <p className="text-neutral-700">{review.response}</p>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Building, EyeOff, RotateCcw, Star, User } from "lucide-react";
+import { ReviewForModeration } from "@shared/schema";
+
+const actionLabels: Record<string, string> = {
+  flagged: "Flagged",
+  hidden: "Hidden",
+  restored: "Restored",
+};
+
+export default function ReviewModerationQueue() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<"flagged" | "hidden">("flagged");
+  const [notes, setNotes] = useState<Record<number, string>>({});
+
+  const { data: reviews = [] } = useQuery<ReviewForModeration[]>({
+    queryKey: [`/api/admin/reviews?status=${status}`],
+  });
+
+  const moderateMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: number; action: "hide" | "restore" }) => {
+      const response = await apiRequest("PUT", `/api/admin/reviews/${id}/moderate`, {
+        action,
+        note: notes[id] || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (_, variables) => {
+      toast({
+        title: variables.action === "hide" ? "Review Hidden" : "Review Restored",
+        description: variables.action === "hide"
+          ? "The review no longer appears publicly or counts towards ratings."
+          : "The review is visible again.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/reviews?status=flagged"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/reviews?status=hidden"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/stats"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Action Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Review Moderation</CardTitle>
+          <div className="flex space-x-2">
+            <Button
+              size="sm"
+              variant={status === "flagged" ? "default" : "outline"}
+              onClick={() => setStatus("flagged")}
+            >
+              Flagged
+            </Button>
+            <Button
+              size="sm"
+              variant={status === "hidden" ? "default" : "outline"}
+              onClick={() => setStatus("hidden")}
+            >
+              Hidden
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {reviews.length === 0 ? (
+            <p className="text-neutral-500 text-center py-8">
+              {status === "flagged" ? "No flagged reviews." : "No hidden reviews."}
+            </p>
+          ) : (
+            reviews.map((review) => (
+              <div key={review.id} className="border border-neutral-200 rounded-lg p-4">
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex items-center text-sm font-semibold text-neutral-800">
+                    {review.business ? (
+                      <>
+                        <Building className="w-4 h-4 mr-2" />
+                        {review.business.name}
+                      </>
+                    ) : review.trainer ? (
+                      <>
+                        <User className="w-4 h-4 mr-2" />
+                        {review.trainer.firstName} {review.trainer.lastName}
+                      </>
+                    ) : null}
+                  </div>
+                  <div className="flex items-center text-sm">
+                    <Star className="w-4 h-4 mr-1 text-yellow-400 fill-yellow-400" />
+                    {review.rating}/5
+                  </div>
+                </div>
+                <p className="text-sm text-neutral-700 mb-1">{review.comment || <em>No comment</em>}</p>
+                <p className="text-xs text-neutral-500 mb-3">
+                  By {review.author.firstName} {review.author.lastName}
+                  {review.createdAt && ` • ${format(new Date(review.createdAt), "d MMM yyyy")}`}
+                </p>
+                {review.response && (
+                  <div className="bg-neutral-50 rounded p-2 text-sm mb-3">
+                    <p className="text-xs font-medium text-neutral-800 mb-1">Owner's reply</p>
+                    <p className="text-neutral-700">{review.response}</p>
+                  </div>
+                )}
+
+                <div className="space-y-1 mb-3">
+                  {review.moderationActions.map((action) => (
+                    <div key={action.id} className="flex items-start text-xs text-neutral-600">
+                      <Badge variant="secondary" className="mr-2 text-xs">
+                        {actionLabels[action.action] || action.action}
+                      </Badge>
+                      <span>
+                        {action.actor.firstName} {action.actor.lastName}
+                        {action.actor.role === 'admin' && " (admin)"}
+                        {action.createdAt && `, ${format(new Date(action.createdAt), "d MMM yyyy HH:mm")}`}
+                        {action.note && ` — ${action.note}`}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="flex space-x-2">
+                  <Input
+                    placeholder="Moderation note (optional)"
+                    value={notes[review.id] || ""}
+                    onChange={(e) => setNotes({ ...notes, [review.id]: e.target.value })}
+                    className="h-8 text-sm"
+                  />
+                  {status === "flagged" && (
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      onClick={() => moderateMutation.mutate({ id: review.id, action: "hide" })}
+                      disabled={moderateMutation.isPending}
+                    >
+                      <EyeOff className="w-4 h-4 mr-1" />
+                      Hide
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => moderateMutation.mutate({ id: review.id, action: "restore" })}
+                    disabled={moderateMutation.isPending}
+                  >
+                    <RotateCcw className="w-4 h-4 mr-1" />
+                    {status === "flagged" ? "Keep" : "Restore"}
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
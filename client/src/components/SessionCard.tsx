@@ -1,7 +1,9 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { MapPin, Star, Clock, Users } from "lucide-react";
+import { Link } from "wouter";
+import { MapPin, Clock, Users, User } from "lucide-react";
+import StarRating from "@/components/StarRating";
 import { FitnessSessionWithDetails } from "@shared/schema";
 
 interface SessionCardProps {
@@ -15,6 +17,8 @@ export default function SessionCard({ session, onBook, onViewDetails }: SessionC
     return parseFloat(price).toFixed(2);
   };
 
+  const spotsLeft = session.nextOccurrence?.spotsLeft;
+
   const getDifficultyColor = (difficulty: string) => {
     switch (difficulty.toLowerCase()) {
       case 'beginner':
@@ -32,12 +36,21 @@ export default function SessionCard({ session, onBook, onViewDetails }: SessionC
     <Card className="overflow-hidden hover:shadow-lg transition-shadow cursor-pointer">
       <CardContent className="p-0">
         <div className="flex">
-          {/* Image placeholder */}
-          <div className="w-32 h-32 flex-shrink-0 bg-gradient-to-br from-primary/10 to-primary/20 flex items-center justify-center">
-            <div className="text-primary text-2xl font-bold">
-              {session.sessionType?.name?.[0] || 'F'}
+          {/* Business cover photo, or a placeholder */}
+          {session.business?.coverImage ? (
+            <img
+              src={session.business.coverImage.card}
+              alt={session.business.name}
+              loading="lazy"
+              className="w-32 h-32 flex-shrink-0 object-cover"
+            />
+          ) : (
+            <div className="w-32 h-32 flex-shrink-0 bg-gradient-to-br from-primary/10 to-primary/20 flex items-center justify-center">
+              <div className="text-primary text-2xl font-bold">
+                {session.sessionType?.name?.[0] || 'F'}
+              </div>
             </div>
-          </div>
+          )}
           
           <div className="p-4 flex-1">
             <div className="flex items-start justify-between mb-2">
@@ -47,17 +60,34 @@ export default function SessionCard({ session, onBook, onViewDetails }: SessionC
             
             <div className="flex items-center text-sm text-neutral-600 mb-2">
               <MapPin className="w-4 h-4 mr-1" />
-              <span>{session.business?.name}</span>
-              {session.business?.address && (
+              {session.business ? (
+                <Link
+                  href={`/business/${session.business.slug ?? session.business.id}`}
+                  className="hover:text-primary hover:underline"
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  {session.business.name}
+                </Link>
+              ) : null}
+              {session.location ? (
+                <span className="ml-2 text-neutral-500">• {session.location.name}, {session.location.address}</span>
+              ) : session.business?.address && (
                 <span className="ml-2 text-neutral-500">• {session.business.address}</span>
               )}
+              {session.distanceKm != null && (
+                <span className="ml-2 text-neutral-500">• {session.distanceKm} km away</span>
+              )}
             </div>
+
+            {session.instructor && (
+              <div className="flex items-center text-sm text-neutral-600 mb-2">
+                <User className="w-4 h-4 mr-1" />
+                with {session.instructor.displayName}
+              </div>
+            )}
             
             <div className="flex items-center space-x-3 mb-2">
-              <div className="flex items-center text-sm">
-                <Star className="w-4 h-4 text-yellow-400 mr-1" />
-                <span>4.8</span>
-              </div>
+              <StarRating average={session.ratingAverage} count={session.ratingCount} />
               <Badge className={getDifficultyColor(session.difficulty)}>
                 {session.difficulty}
               </Badge>
@@ -76,6 +106,11 @@ export default function SessionCard({ session, onBook, onViewDetails }: SessionC
                   <Users className="w-4 h-4 mr-1" />
                   <span>Max {session.maxParticipants}</span>
                 </div>
+                {spotsLeft !== undefined && (
+                  <span className={spotsLeft === 0 ? "text-red-600 font-medium" : spotsLeft <= 3 ? "text-orange-600 font-medium" : ""}>
+                    {spotsLeft === 0 ? "Next class full" : `${spotsLeft} spots left`}
+                  </span>
+                )}
               </div>
               
               <div className="flex space-x-2">
@@ -0,0 +1,24 @@
+import { Star } from "lucide-react";
+
+interface StarRatingProps {
+  average: string | number;
+  count: number;
+  className?: string;
+}
+
+// Average rating with its review count, or "New" until the first review comes in
+export default function StarRating({ average, count, className = "" }: StarRatingProps) {
+  return (
+    <div className={`flex items-center text-sm ${className}`}>
+      <Star className="w-4 h-4 text-yellow-400 fill-yellow-400 mr-1" />
+      {count > 0 ? (
+        <span>
+          {parseFloat(average.toString()).toFixed(1)}
+          <span className="text-neutral-500 ml-1">({count})</span>
+        </span>
+      ) : (
+        <span className="text-neutral-500">New</span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,415 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Elements, PaymentElement, useElements, useStripe } from "@stripe/react-stripe-js";
+import { loadStripe } from "@stripe/stripe-js";
+import { format } from "date-fns";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Gift, Lock } from "lucide-react";
+import TrainerSlotPicker from "@/components/TrainerSlotPicker";
+import GiftVoucherField from "@/components/GiftVoucherField";
+import { GiftVoucherQuote, PublicPersonalTrainer, TrainerSlot } from "@shared/schema";
+
+const stripePromise = import.meta.env.VITE_STRIPE_PUBLIC_KEY
+  ? loadStripe(import.meta.env.VITE_STRIPE_PUBLIC_KEY)
+  : null;
+
+const DURATIONS = [30, 45, 60, 90];
+
+const SESSION_TYPE_LABELS: Record<string, string> = {
+  one_on_one: "One-on-One Training",
+  small_group: "Small Group (2-4 people)",
+  online: "Online Session",
+};
+
+interface PaymentDetails {
+  clientSecret: string;
+  paymentIntentId: string;
+  subtotal: number;
+  giftVoucher: number;
+  platformFee: number;
+  total: number;
+}
+
+interface BookingDetails {
+  sessionType: string;
+  duration: number;
+  slot: TrainerSlot;
+  clientName: string;
+  clientEmail: string;
+  clientPhone: string;
+  location: string;
+  notes: string;
+}
+
+interface TrainerBookingWidgetProps {
+  trainer: PublicPersonalTrainer;
+}
+
+interface TrainerBookingRequest {
+  details: BookingDetails;
+  giftVoucherCode?: string;
+  paymentIntentId?: string;
+}
+
+// Creates the booking once it's been paid for, or straight away when a gift voucher covers the whole price
+function useCreateTrainerBooking(trainer: PublicPersonalTrainer, onBooked: () => void) {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ details, giftVoucherCode, paymentIntentId }: TrainerBookingRequest) => {
+      const response = await apiRequest("POST", "/api/trainer-bookings", {
+        trainerId: trainer.id,
+        sessionDate: details.slot.startsAt,
+        duration: details.duration,
+        sessionType: details.sessionType,
+        location: details.location || null,
+        notes: details.notes || null,
+        clientName: details.clientName,
+        clientEmail: details.clientEmail,
+        clientPhone: details.clientPhone || null,
+        stripePaymentIntentId: paymentIntentId,
+        giftVoucherCode,
+      });
+      return response.json();
+    },
+    onSuccess: (_booking, { details, giftVoucherCode }) => {
+      toast({
+        title: "Session Booked!",
+        description: `You're booked in with ${trainer.firstName} on ${format(new Date(details.slot.startsAt), "EEE d MMM 'at' HH:mm")}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/trainer-bookings/my"] });
+      queryClient.invalidateQueries({
+        predicate: (query) => (query.queryKey[0] as string).startsWith(`/api/personal-trainers/${trainer.id}/slots`),
+      });
+      if (giftVoucherCode) {
+        queryClient.invalidateQueries({ queryKey: ["/api/gift-vouchers/my"] });
+      }
+      onBooked();
+    },
+  });
+}
+
+// Pick a time, pay, and the booking is created once Stripe has taken the payment
+export default function TrainerBookingWidget({ trainer }: TrainerBookingWidgetProps) {
+  const { isAuthenticated, user } = useAuth();
+  const { toast } = useToast();
+  const sessionTypes = Array.isArray(trainer.sessionTypes) && trainer.sessionTypes.length > 0
+    ? (trainer.sessionTypes as string[])
+    : ["one_on_one"];
+
+  const [details, setDetails] = useState<Omit<BookingDetails, "slot"> & { slot: TrainerSlot | null }>({
+    sessionType: sessionTypes[0],
+    duration: 60,
+    slot: null,
+    clientName: user ? `${user.firstName || ""} ${user.lastName || ""}`.trim() : "",
+    clientEmail: user?.email || "",
+    clientPhone: "",
+    location: "",
+    notes: "",
+  });
+  const [payment, setPayment] = useState<PaymentDetails | null>(null);
+  const [giftVoucher, setGiftVoucher] = useState<GiftVoucherQuote | null>(null);
+
+  const update = (changes: Partial<typeof details>) => {
+    setDetails({ ...details, ...changes });
+    // Changing the booking after starting payment needs a fresh quote
+    setPayment(null);
+    if (changes.duration !== undefined) {
+      setGiftVoucher(null);
+    }
+  };
+
+  const onBooked = () => {
+    setPayment(null);
+    setGiftVoucher(null);
+    setDetails({ ...details, slot: null, notes: "" });
+  };
+
+  const voucherBookingMutation = useCreateTrainerBooking(trainer, onBooked);
+
+  const paymentIntentMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/create-payment-intent", {
+        trainerId: trainer.id,
+        duration: details.duration,
+        giftVoucherCode: giftVoucher?.code,
+      });
+      return response.json() as Promise<PaymentDetails>;
+    },
+    onSuccess: setPayment,
+    onError: (error) => {
+      toast({
+        title: "Payment Setup Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!trainer.bookingEnabled || !trainer.acceptsPayments || !trainer.hourlyRate) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Book a Session</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-neutral-500">This trainer isn't taking bookings through MYLES yet.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const estimate = giftVoucher ? giftVoucher.total : parseFloat(trainer.hourlyRate) * details.duration / 60;
+  const coveredByVoucher = giftVoucher?.total === 0;
+  const canContinue = !!details.slot && details.clientName.trim().length >= 2 && /\S+@\S+/.test(details.clientEmail);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Book a Session</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!isAuthenticated ? (
+          <div className="text-center space-y-3">
+            <p className="text-sm text-neutral-600">Log in to see available times and book.</p>
+            <Button className="w-full" onClick={() => window.location.href = "/api/login"}>
+              Log In to Book
+            </Button>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>Session type</Label>
+                <Select value={details.sessionType} onValueChange={(sessionType) => update({ sessionType })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sessionTypes.map((type) => (
+                      <SelectItem key={type} value={type}>{SESSION_TYPE_LABELS[type] ?? type}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Duration</Label>
+                <Select
+                  value={details.duration.toString()}
+                  onValueChange={(value) => update({ duration: parseInt(value), slot: null })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DURATIONS.map((duration) => (
+                      <SelectItem key={duration} value={duration.toString()}>{duration} minutes</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <TrainerSlotPicker
+              trainerId={trainer.id}
+              duration={details.duration}
+              selectedStartsAt={details.slot?.startsAt ?? null}
+              onSelect={(slot) => update({ slot })}
+            />
+
+            <div className="space-y-3">
+              <div>
+                <Label htmlFor="trainerClientName">Full name</Label>
+                <Input
+                  id="trainerClientName"
+                  value={details.clientName}
+                  onChange={(e) => update({ clientName: e.target.value })}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="trainerClientEmail">Email</Label>
+                  <Input
+                    id="trainerClientEmail"
+                    type="email"
+                    value={details.clientEmail}
+                    onChange={(e) => update({ clientEmail: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="trainerClientPhone">Phone</Label>
+                  <Input
+                    id="trainerClientPhone"
+                    type="tel"
+                    value={details.clientPhone}
+                    onChange={(e) => update({ clientPhone: e.target.value })}
+                  />
+                </div>
+              </div>
+              {details.sessionType !== "online" && (
+                <div>
+                  <Label htmlFor="trainerLocation">Where should you meet?</Label>
+                  <Input
+                    id="trainerLocation"
+                    placeholder="e.g. your home address or a local park"
+                    value={details.location}
+                    onChange={(e) => update({ location: e.target.value })}
+                  />
+                </div>
+              )}
+              <div>
+                <Label htmlFor="trainerNotes">Notes for the trainer</Label>
+                <Textarea
+                  id="trainerNotes"
+                  value={details.notes}
+                  maxLength={1000}
+                  onChange={(e) => update({ notes: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <Separator />
+
+            {payment && details.slot ? (
+              <Elements stripe={stripePromise} options={{ clientSecret: payment.clientSecret }}>
+                <TrainerPaymentForm
+                  trainer={trainer}
+                  payment={payment}
+                  details={{ ...details, slot: details.slot }}
+                  giftVoucherCode={giftVoucher?.code}
+                  onBooked={onBooked}
+                />
+              </Elements>
+            ) : (
+              <>
+                <GiftVoucherField
+                  booking={{ trainerId: trainer.id, duration: details.duration }}
+                  applied={giftVoucher}
+                  onChange={setGiftVoucher}
+                />
+                <div className="flex justify-between text-sm">
+                  <span className="text-neutral-600">
+                    {details.duration} minutes at £{trainer.hourlyRate}/hour{giftVoucher ? ", after gift voucher" : ""}
+                  </span>
+                  <span className="font-semibold">£{estimate.toFixed(2)}</span>
+                </div>
+                {coveredByVoucher ? (
+                  <Button
+                    className="w-full"
+                    disabled={!canContinue || voucherBookingMutation.isPending}
+                    onClick={() => voucherBookingMutation.mutate(
+                      { details: { ...details, slot: details.slot! }, giftVoucherCode: giftVoucher?.code },
+                      {
+                        onError: (error) => {
+                          toast({
+                            title: "Booking Failed",
+                            description: error.message,
+                            variant: "destructive",
+                          });
+                        },
+                      },
+                    )}
+                  >
+                    <Gift className="w-4 h-4 mr-2" />
+                    {voucherBookingMutation.isPending ? "Booking..." : "Book with Gift Voucher"}
+                  </Button>
+                ) : (
+                  <Button
+                    className="w-full"
+                    disabled={!canContinue || !stripePromise || paymentIntentMutation.isPending}
+                    onClick={() => paymentIntentMutation.mutate()}
+                  >
+                    {paymentIntentMutation.isPending ? "Preparing payment..." : "Continue to Payment"}
+                  </Button>
+                )}
+              </>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface TrainerPaymentFormProps {
+  trainer: PublicPersonalTrainer;
+  payment: PaymentDetails;
+  details: BookingDetails;
+  giftVoucherCode?: string;
+  onBooked: () => void;
+}
+
+function TrainerPaymentForm({ trainer, payment, details, giftVoucherCode, onBooked }: TrainerPaymentFormProps) {
+  const { toast } = useToast();
+  const stripe = useStripe();
+  const elements = useElements();
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const createBookingMutation = useCreateTrainerBooking(trainer, onBooked);
+
+  const handlePay = async () => {
+    if (!stripe || !elements) return;
+
+    setIsProcessing(true);
+    try {
+      const { error, paymentIntent } = await stripe.confirmPayment({
+        elements,
+        confirmParams: {
+          return_url: window.location.href,
+        },
+        redirect: "if_required",
+      });
+      if (error) {
+        throw new Error(error.message);
+      }
+      await createBookingMutation.mutateAsync({ details, giftVoucherCode, paymentIntentId: paymentIntent.id });
+    } catch (error) {
+      toast({
+        title: "Booking Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1 text-sm">
+        <div className="flex justify-between">
+          <span className="text-neutral-600">Session</span>
+          <span>£{payment.subtotal.toFixed(2)}</span>
+        </div>
+        {payment.giftVoucher > 0 && (
+          <div className="flex justify-between text-green-700">
+            <span>Gift voucher</span>
+            <span>-£{payment.giftVoucher.toFixed(2)}</span>
+          </div>
+        )}
+        <div className="flex justify-between">
+          <span className="text-neutral-600">Booking fee</span>
+          <span>£{payment.platformFee.toFixed(2)}</span>
+        </div>
+        <div className="flex justify-between font-semibold">
+          <span>Total</span>
+          <span>£{payment.total.toFixed(2)}</span>
+        </div>
+      </div>
+      <PaymentElement />
+      <Button className="w-full" onClick={handlePay} disabled={!stripe || isProcessing}>
+        <Lock className="w-4 h-4 mr-2" />
+        {isProcessing ? "Processing..." : `Pay £${payment.total.toFixed(2)}`}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { TrainerSlot } from "@shared/schema";
+import { Clock } from "lucide-react";
+
+interface TrainerSlotPickerProps {
+  trainerId: number;
+  duration: number;
+  selectedStartsAt: string | null;
+  onSelect: (slot: TrainerSlot) => void;
+}
+
+interface TrainerSlotsResponse {
+  date: string;
+  duration: number;
+  bufferMinutes: number;
+  slots: TrainerSlot[];
+}
+
+export default function TrainerSlotPicker({ trainerId, duration, selectedStartsAt, onSelect }: TrainerSlotPickerProps) {
+  const [date, setDate] = useState(format(new Date(), "yyyy-MM-dd"));
+
+  const { data, isLoading } = useQuery<TrainerSlotsResponse>({
+    queryKey: [`/api/personal-trainers/${trainerId}/slots?date=${date}&duration=${duration}`],
+    enabled: !!date,
+  });
+
+  const slots = data?.slots ?? [];
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label htmlFor="trainerSlotDate">Date</Label>
+        <Input
+          id="trainerSlotDate"
+          type="date"
+          value={date}
+          min={format(new Date(), "yyyy-MM-dd")}
+          onChange={(e) => setDate(e.target.value)}
+        />
+      </div>
+
+      {isLoading ? (
+        <div className="border border-neutral-200 rounded-lg p-4 text-center">
+          <div className="animate-spin w-6 h-6 border-2 border-primary border-t-transparent rounded-full mx-auto mb-2" />
+          <p className="text-sm text-neutral-600">Loading available times...</p>
+        </div>
+      ) : slots.length === 0 ? (
+        <p className="text-sm text-neutral-500 text-center py-4">
+          No times are available on this day. Try another date.
+        </p>
+      ) : (
+        <div className="grid grid-cols-3 md:grid-cols-4 gap-2 max-h-56 overflow-y-auto">
+          {slots.map((slot) => (
+            <Button
+              key={slot.startsAt}
+              type="button"
+              variant={slot.startsAt === selectedStartsAt ? "default" : "outline"}
+              size="sm"
+              onClick={() => onSelect(slot)}
+            >
+              <Clock className="w-3 h-3 mr-1" />
+              {format(new Date(slot.startsAt), "HH:mm")}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { addDays, format, isSameDay, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { BusinessTimetable } from "@shared/schema";
+
+interface WeeklyTimetableProps {
+  businessId: number;
+  bookingEnabled: boolean;
+}
+
+export default function WeeklyTimetable({ businessId, bookingEnabled }: WeeklyTimetableProps) {
+  // Any date in the week being shown; the server works out its Monday
+  const [week, setWeek] = useState(() => format(new Date(), "yyyy-MM-dd"));
+
+  const { data: timetable, isLoading } = useQuery<BusinessTimetable>({
+    queryKey: [`/api/businesses/${businessId}/timetable?week=${week}`],
+  });
+
+  const weekStart = timetable ? parseISO(timetable.weekStart) : parseISO(week);
+  const days = Array.from({ length: 7 }, (_, index) => addDays(weekStart, index));
+  const sessions = new Map(timetable?.sessions.map((session) => [session.id, session]));
+  const instructors = new Map(timetable?.instructors.map((instructor) => [instructor.id, instructor]));
+  const now = new Date();
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Timetable</CardTitle>
+        <div className="flex items-center space-x-2">
+          <Button
+            variant="outline"
+            size="sm"
+            aria-label="Previous week"
+            onClick={() => setWeek(format(addDays(weekStart, -7), "yyyy-MM-dd"))}
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span className="text-sm text-neutral-600 min-w-[9rem] text-center">
+            {format(weekStart, "d MMM")} – {format(addDays(weekStart, 6), "d MMM yyyy")}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            aria-label="Next week"
+            onClick={() => setWeek(format(addDays(weekStart, 7), "yyyy-MM-dd"))}
+          >
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="animate-spin w-6 h-6 border-2 border-primary border-t-transparent rounded-full mx-auto my-8" />
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-7 gap-2">
+            {days.map((day) => {
+              const occurrences = timetable?.occurrences.filter((occurrence) =>
+                isSameDay(new Date(occurrence.startsAt), day)) ?? [];
+              return (
+                <div key={day.toISOString()} className="min-h-[6rem]">
+                  <p className="text-xs font-semibold text-neutral-800 border-b border-neutral-200 pb-1 mb-2">
+                    {format(day, "EEE d")}
+                  </p>
+                  {occurrences.length === 0 ? (
+                    <p className="text-xs text-neutral-400">No classes</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {occurrences.map((occurrence) => {
+                        const session = sessions.get(occurrence.sessionId);
+                        const instructorId = occurrence.instructorId ?? session?.instructorId;
+                        const instructor = instructorId ? instructors.get(instructorId) : undefined;
+                        const startsAt = new Date(occurrence.startsAt);
+                        const isCancelled = occurrence.status !== 'scheduled';
+                        const canBook = bookingEnabled && !isCancelled && startsAt > now && occurrence.spotsLeft > 0;
+                        return (
+                          <div
+                            key={occurrence.id}
+                            className={`rounded border border-neutral-200 p-2 text-xs ${isCancelled ? "opacity-60" : ""}`}
+                          >
+                            <p className="font-medium text-neutral-800">
+                              {format(startsAt, "HH:mm")} {session?.title}
+                            </p>
+                            <p className="text-neutral-500">
+                              {session?.sessionType.name}
+                              {session && ` • £${parseFloat(session.price).toFixed(2)}`}
+                            </p>
+                            {instructor && <p className="text-neutral-500">with {instructor.displayName}</p>}
+                            {session?.location && <p className="text-neutral-500">at {session.location.name}</p>}
+                            <p className="text-neutral-500">
+                              {isCancelled ? "Cancelled" : occurrence.spotsLeft === 0 ? "Full" : `${occurrence.spotsLeft} spots left`}
+                            </p>
+                            {canBook && (
+                              <Link
+                                href={`/checkout/${occurrence.sessionId}?occurrenceId=${occurrence.id}`}
+                                className="text-primary font-medium hover:underline"
+                              >
+                                Book
+                              </Link>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+        {timetable && timetable.sessions.length === 0 && (
+          <p className="text-sm text-neutral-500 text-center mt-4">This business hasn't published any classes yet.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,16 @@
+import type { CreditPurchaseWithDetails, FitnessSession } from "@shared/schema";
+
+// Credits the customer could spend on a session: from its business, covering its session type and not yet
+// expired. The server makes the final check against the class's start time when the booking is made.
+export function countUsableCredits(
+  credits: CreditPurchaseWithDetails[],
+  session: Pick<FitnessSession, "businessId" | "sessionTypeId">,
+): number {
+  return credits
+    .filter((purchase) =>
+      purchase.businessId === session.businessId &&
+      (purchase.sessionTypeIds.length === 0 || purchase.sessionTypeIds.includes(session.sessionTypeId)) &&
+      (!purchase.expiresAt || new Date(purchase.expiresAt) > new Date()),
+    )
+    .reduce((total, purchase) => total + purchase.creditsRemaining, 0);
+}
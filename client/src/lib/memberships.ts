@@ -0,0 +1,28 @@
+import type { FitnessSession, MembershipWithDetails } from "@shared/schema";
+
+// Subscription statuses that still give access; past-due members keep the period they last paid for
+const ENTITLED_STATUSES = ["active", "trialing", "past_due"];
+
+export function isMembershipEntitled(membership: MembershipWithDetails): boolean {
+  return ENTITLED_STATUSES.includes(membership.status) &&
+    !!membership.currentPeriodEnd && new Date(membership.currentPeriodEnd) > new Date();
+}
+
+// Classes left this billing period, or null for unlimited
+export function getClassesLeft(membership: MembershipWithDetails): number | null {
+  if (membership.classesPerPeriod === null) return null;
+  return Math.max(membership.classesPerPeriod - membership.classesUsed, 0);
+}
+
+// The membership the customer could book a session under, if any. The server makes the final check.
+export function findUsableMembership(
+  memberships: MembershipWithDetails[],
+  session: Pick<FitnessSession, "businessId" | "sessionTypeId">,
+): MembershipWithDetails | undefined {
+  return memberships.find((membership) =>
+    membership.businessId === session.businessId &&
+    isMembershipEntitled(membership) &&
+    (membership.sessionTypeIds.length === 0 || membership.sessionTypeIds.includes(session.sessionTypeId)) &&
+    getClassesLeft(membership) !== 0,
+  );
+}
@@ -0,0 +1,10 @@
+import type { Business } from "@shared/schema";
+
+// Card payments are paid straight out to the business's Stripe account, so they can't be taken until the
+// business has finished payout onboarding. Credits, memberships and fully discounted bookings still work.
+export function acceptsCardPayments(business: Pick<Business, "stripeAccountId" | "payoutsEnabled"> | undefined): boolean {
+  return !!business?.stripeAccountId && !!business.payoutsEnabled;
+}
+
+export const CARD_PAYMENTS_UNAVAILABLE_MESSAGE =
+  "This business is still setting up online payments, so classes can't be paid for by card yet.";
@@ -43,6 +43,7 @@ export interface SessionLocation {
   rating: number;
   difficulty: string;
   sessionType: string;
+  imageUrl?: string;
 }
 
 export interface BookingFormData {
@@ -85,6 +86,7 @@ export interface SessionFormData {
   title: string;
   description: string;
   sessionTypeId: number;
+  locationId: number | null; // null runs at the business's own address
   difficulty: string[]; // ['beginner', 'intermediate', 'advanced'] or ['all_levels']
   ageGroups: string[]; // ['18-25', '26-35', '36-50', '50+'] or ['all_ages']
   gender: 'mixed' | 'female_only' | 'male_only';
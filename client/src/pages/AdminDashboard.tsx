@@ -21,7 +21,9 @@ import {
   Phone,
   PoundSterling,
 } from "lucide-react";
-import { BusinessWithUser, FitnessSessionWithDetails } from "@shared/schema";
+import { AdminStats, BusinessWithUser, FitnessSessionWithDetails } from "@shared/schema";
+import ReviewModerationQueue from "@/components/ReviewModerationQueue";
+import BusinessClaimQueue from "@/components/BusinessClaimQueue";
 
 export default function AdminDashboard() {
   const { user, isAuthenticated, isLoading } = useAuth();
@@ -53,21 +55,9 @@ export default function AdminDashboard() {
   }, [isAuthenticated, isLoading, user, toast]);
 
   // Fetch admin stats
-  const { data: stats = {} } = useQuery({
+  const { data: stats } = useQuery<AdminStats>({
     queryKey: ["/api/admin/stats"],
     enabled: isAuthenticated && user?.role === 'admin',
-    onError: (error) => {
-      if (isUnauthorizedError(error as Error)) {
-        toast({
-          title: "Unauthorized",
-          description: "You are logged out. Logging in again...",
-          variant: "destructive",
-        });
-        setTimeout(() => {
-          window.location.href = "/api/login";
-        }, 500);
-      }
-    },
   });
 
   // Fetch pending businesses
@@ -190,7 +180,7 @@ export default function AdminDashboard() {
     return null;
   }
 
-  const totalPendingApprovals = (stats.pendingBusinesses || 0) + (stats.pendingSessions || 0);
+  const totalPendingApprovals = (stats?.pendingBusinesses || 0) + (stats?.pendingSessions || 0) + (stats?.flaggedReviews || 0) + (stats?.pendingClaims || 0);
 
   return (
     <div className="min-h-screen bg-neutral-50">
@@ -223,7 +213,7 @@ export default function AdminDashboard() {
                 </div>
                 <div className="ml-4">
                   <p className="text-sm text-neutral-600">Total Businesses</p>
-                  <p className="text-2xl font-bold text-neutral-800">{stats.totalBusinesses || 0}</p>
+                  <p className="text-2xl font-bold text-neutral-800">{stats?.totalBusinesses || 0}</p>
                 </div>
               </div>
             </CardContent>
@@ -237,7 +227,7 @@ export default function AdminDashboard() {
                 </div>
                 <div className="ml-4">
                   <p className="text-sm text-neutral-600">Active Sessions</p>
-                  <p className="text-2xl font-bold text-neutral-800">{stats.totalSessions || 0}</p>
+                  <p className="text-2xl font-bold text-neutral-800">{stats?.totalSessions || 0}</p>
                 </div>
               </div>
             </CardContent>
@@ -251,7 +241,7 @@ export default function AdminDashboard() {
                 </div>
                 <div className="ml-4">
                   <p className="text-sm text-neutral-600">Total Users</p>
-                  <p className="text-2xl font-bold text-neutral-800">{stats.totalUsers || 0}</p>
+                  <p className="text-2xl font-bold text-neutral-800">{stats?.totalUsers || 0}</p>
                 </div>
               </div>
             </CardContent>
@@ -406,6 +396,14 @@ export default function AdminDashboard() {
               </div>
             </CardContent>
           </Card>
+
+          <div className="lg:col-span-2">
+            <BusinessClaimQueue />
+          </div>
+
+          <div className="lg:col-span-2">
+            <ReviewModerationQueue />
+          </div>
         </div>
       </div>
     </div>
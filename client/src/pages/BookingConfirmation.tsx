@@ -104,11 +104,11 @@ Thank you for booking with MYLES!
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div className="flex items-center gap-2">
                 <MapPin className="w-4 h-4 text-neutral-500" />
-                <span>{session.business.name}</span>
+                <span>{session.business.name}{session.location && ` – ${session.location.name}`}</span>
               </div>
               <div className="flex items-center gap-2">
                 <MapPin className="w-4 h-4 text-neutral-500" />
-                <span>{session.business.address}</span>
+                <span>{session.location?.address ?? session.business.address}</span>
               </div>
               <div className="flex items-center gap-2">
                 <Clock className="w-4 h-4 text-neutral-500" />
@@ -15,6 +15,8 @@ import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import DocumentUploadField from "@/components/DocumentUploadField";
+import { UploadedFileSummary } from "@shared/schema";
 import { 
   Building2, 
   MapPin, 
@@ -31,7 +33,7 @@ import {
 
 const claimFormSchema = z.object({
   claimMessage: z.string().min(20, "Please provide a detailed explanation (minimum 20 characters)"),
-  verificationDocuments: z.array(z.string()).optional(),
+  verificationDocuments: z.array(z.number()).optional(),
 });
 
 type ClaimFormData = z.infer<typeof claimFormSchema>;
@@ -55,6 +57,7 @@ export default function BusinessClaim() {
   const [selectedBusiness, setSelectedBusiness] = useState<UnclaimedBusiness | null>(null);
   const [showClaimForm, setShowClaimForm] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
+  const [verificationFiles, setVerificationFiles] = useState<UploadedFileSummary[]>([]);
   const { toast } = useToast();
   const { isAuthenticated, isLoading: authLoading } = useAuth();
 
@@ -89,6 +92,7 @@ export default function BusinessClaim() {
       setShowClaimForm(false);
       setSelectedBusiness(null);
       claimForm.reset();
+      setVerificationFiles([]);
       queryClient.invalidateQueries({ queryKey: ["/api/businesses/unclaimed"] });
     },
     onError: (error) => {
@@ -139,6 +143,7 @@ export default function BusinessClaim() {
     
     claimBusinessMutation.mutate({
       ...data,
+      verificationDocuments: verificationFiles.map((file) => file.id),
       businessId: selectedBusiness.id,
     });
   };
@@ -331,6 +336,19 @@ export default function BusinessClaim() {
                 )}
               </div>
 
+              <div>
+                <Label>Verification documents</Label>
+                <p className="text-sm text-neutral-600 mb-2">
+                  Upload proof that you run this business, such as a utility bill, business rates notice or Companies House record.
+                  Only our review team can see these files.
+                </p>
+                <DocumentUploadField
+                  purpose="business_claim"
+                  files={verificationFiles}
+                  onChange={setVerificationFiles}
+                />
+              </div>
+
               <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                 <h4 className="font-semibold text-blue-800 mb-2 flex items-center gap-2">
                   <AlertCircle className="w-4 h-4" />
@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -42,11 +43,32 @@ import {
   AlertCircle,
   User,
   CheckCircle,
+  MapPin,
 } from "lucide-react";
-import { BusinessWithUser, FitnessSessionWithDetails, BookingWithDetails } from "@shared/schema";
+import {
+  BusinessWithUser,
+  BusinessLocation,
+  BusinessStaff,
+  FitnessSessionWithDetails,
+  BookingWithDetails,
+} from "@shared/schema";
 import { BusinessFormData, SessionFormData } from "@/lib/types";
 import EnhancedBusinessForm from "@/components/EnhancedBusinessForm";
 import EnhancedSessionForm from "@/components/EnhancedSessionForm";
+import CancellationPolicyCard from "@/components/CancellationPolicyCard";
+import GoodwillRefundDialog from "@/components/GoodwillRefundDialog";
+import PayoutsCard from "@/components/PayoutsCard";
+import StarRating from "@/components/StarRating";
+import BusinessReviewsCard from "@/components/BusinessReviewsCard";
+import PhotoGalleryManager from "@/components/PhotoGalleryManager";
+import BusinessStaffCard from "@/components/BusinessStaffCard";
+import BusinessLocationsCard from "@/components/BusinessLocationsCard";
+import CreditPacksCard from "@/components/CreditPacksCard";
+import MembershipPlansCard from "@/components/MembershipPlansCard";
+import PromoCodesCard from "@/components/PromoCodesCard";
+import ClassScheduleCard from "@/components/ClassScheduleCard";
+
+const NO_INSTRUCTOR = "none";
 
 const businessFormSchema = z.object({
   name: z.string().min(2, "Business name is required"),
@@ -78,6 +100,7 @@ export default function BusinessDashboard() {
   const { toast } = useToast();
   const [showBusinessForm, setShowBusinessForm] = useState(false);
   const [showSessionForm, setShowSessionForm] = useState(false);
+  const [refundingBooking, setRefundingBooking] = useState<BookingWithDetails | null>(null);
 
   // Redirect to login if not authenticated
   useEffect(() => {
@@ -128,8 +151,19 @@ export default function BusinessDashboard() {
   });
 
   // Fetch recent bookings
-  const { data: bookings = [] } = useQuery({
-    queryKey: ["/api/bookings/business", approvedBusiness?.id],
+  const { data: bookings = [] } = useQuery<BookingWithDetails[]>({
+    queryKey: [`/api/bookings/business/${approvedBusiness?.id}`],
+    enabled: hasApprovedBusiness,
+  });
+
+  const { data: staff = [] } = useQuery<BusinessStaff[]>({
+    queryKey: [`/api/businesses/${approvedBusiness?.id}/staff`],
+    enabled: hasApprovedBusiness,
+  });
+  const activeStaff = staff.filter((staffMember) => staffMember.status === 'active');
+
+  const { data: locations = [] } = useQuery<BusinessLocation[]>({
+    queryKey: [`/api/businesses/${approvedBusiness?.id}/locations`],
     enabled: hasApprovedBusiness,
   });
 
@@ -231,6 +265,26 @@ export default function BusinessDashboard() {
     },
   });
 
+  const assignInstructorMutation = useMutation({
+    mutationFn: async ({ sessionId, instructorId }: { sessionId: number; instructorId: number | null }) => {
+      const response = await apiRequest("PUT", `/api/sessions/${sessionId}/instructor`, { instructorId });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions/business", approvedBusiness?.id] });
+      queryClient.invalidateQueries({
+        predicate: (query) => (query.queryKey[0] as string).startsWith(`/api/businesses/${approvedBusiness?.id}/schedule`),
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Assignment Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
   if (isLoading || businessesLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -295,6 +349,11 @@ export default function BusinessDashboard() {
                   Pending Approval
                 </Badge>
               )}
+              {approvedBusiness && (
+                <Link href={`/business/${approvedBusiness.slug ?? approvedBusiness.id}`}>
+                  <Button variant="outline">View Public Page</Button>
+                </Link>
+              )}
               {hasApprovedBusiness && (
                 <Dialog open={showSessionForm} onOpenChange={setShowSessionForm}>
                   <DialogTrigger asChild>
@@ -312,6 +371,7 @@ export default function BusinessDashboard() {
                       isLoading={createSessionMutation.isPending}
                       onCancel={() => setShowSessionForm(false)}
                       sessionTypes={sessionTypes || []}
+                      locations={locations}
                     />
                   </DialogContent>
                 </Dialog>
@@ -450,7 +510,9 @@ export default function BusinessDashboard() {
                     </div>
                     <div className="ml-4">
                       <p className="text-sm text-neutral-600">Avg Rating</p>
-                      <p className="text-2xl font-bold text-neutral-800">4.8</p>
+                      <p className="text-2xl font-bold text-neutral-800">
+                        {approvedBusiness?.ratingCount ? parseFloat(approvedBusiness.ratingAverage).toFixed(1) : "–"}
+                      </p>
                     </div>
                   </div>
                 </CardContent>
@@ -507,10 +569,35 @@ export default function BusinessDashboard() {
                               <PoundSterling className="w-4 h-4 mr-2" />
                               <span>£{parseFloat(session.price).toFixed(2)}</span>
                             </div>
-                            <div className="flex items-center">
-                              <Star className="w-4 h-4 mr-2" />
-                              <span>4.8 rating</span>
-                            </div>
+                            <StarRating average={session.ratingAverage} count={session.ratingCount} />
+                            {locations.length > 0 && (
+                              <div className="flex items-center col-span-2">
+                                <MapPin className="w-4 h-4 mr-2" />
+                                <span>{session.location?.name ?? "Main address"}</span>
+                              </div>
+                            )}
+                          </div>
+                          <div className="flex items-center space-x-2 text-sm text-neutral-600 mb-3">
+                            <User className="w-4 h-4" />
+                            <Select
+                              value={session.instructorId?.toString() ?? NO_INSTRUCTOR}
+                              onValueChange={(value) => assignInstructorMutation.mutate({
+                                sessionId: session.id,
+                                instructorId: value === NO_INSTRUCTOR ? null : parseInt(value),
+                              })}
+                            >
+                              <SelectTrigger className="w-48 h-8">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={NO_INSTRUCTOR}>No instructor</SelectItem>
+                                {activeStaff.map((staffMember) => (
+                                  <SelectItem key={staffMember.id} value={staffMember.id.toString()}>
+                                    {staffMember.displayName}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
                           </div>
                           <div className="flex space-x-2">
                             <Button variant="ghost" size="sm" className="text-primary hover:text-primary-dark">
@@ -532,10 +619,20 @@ export default function BusinessDashboard() {
                   </div>
                 </CardContent>
               </Card>
+
+              {approvedBusiness && (
+                <div className="mt-8">
+                  <ClassScheduleCard
+                    title="Class Schedule"
+                    endpoint={`/api/businesses/${approvedBusiness.id}/schedule`}
+                    staff={staff}
+                  />
+                </div>
+              )}
             </div>
 
             {/* Recent Bookings */}
-            <div className="lg:col-span-1">
+            <div className="lg:col-span-1 space-y-6">
               <Card>
                 <CardHeader>
                   <CardTitle>Recent Bookings</CardTitle>
@@ -555,20 +652,44 @@ export default function BusinessDashboard() {
                           <div className="flex-1">
                             <p className="font-medium text-neutral-800 text-sm">
                               {booking.user?.firstName} {booking.user?.lastName}
+                              {booking.attendees > 1 && ` + ${booking.attendees - 1} ${booking.attendees === 2 ? "guest" : "guests"}`}
                             </p>
                             <p className="text-xs text-neutral-600">
                               {booking.session?.title} • {new Date(booking.sessionDate).toLocaleDateString()}
                             </p>
                           </div>
-                          <span className="text-xs text-green-600 font-medium">
-                            £{parseFloat(booking.totalAmount || "0").toFixed(2)}
-                          </span>
+                          <div className="text-right">
+                            <span className="text-xs text-green-600 font-medium block">
+                              £{parseFloat(booking.totalAmount || "0").toFixed(2)}
+                            </span>
+                            {booking.paymentIntentId && booking.status !== 'pending' && (
+                              <Button
+                                variant="link"
+                                size="sm"
+                                className="h-auto p-0 text-xs"
+                                onClick={() => setRefundingBooking(booking)}
+                              >
+                                Refund
+                              </Button>
+                            )}
+                          </div>
                         </div>
                       ))
                     )}
                   </div>
                 </CardContent>
               </Card>
+
+              {approvedBusiness && <PayoutsCard business={approvedBusiness} />}
+              {approvedBusiness && <BusinessReviewsCard business={approvedBusiness} />}
+              {approvedBusiness && <BusinessLocationsCard business={approvedBusiness} />}
+              {approvedBusiness && <CreditPacksCard business={approvedBusiness} />}
+              {approvedBusiness && <MembershipPlansCard business={approvedBusiness} />}
+              {approvedBusiness && <PromoCodesCard business={approvedBusiness} />}
+              {approvedBusiness && <BusinessStaffCard business={approvedBusiness} />}
+              {approvedBusiness && <PhotoGalleryManager endpoint={`/api/businesses/${approvedBusiness.id}/photos`} />}
+              {approvedBusiness && <CancellationPolicyCard business={approvedBusiness} />}
+              <GoodwillRefundDialog booking={refundingBooking} onClose={() => setRefundingBooking(null)} />
             </div>
           </div>
         )}
@@ -0,0 +1,257 @@
+import { useQuery } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Facebook, Globe, Instagram, Mail, MapPin, Phone, Twitter, Youtube } from "lucide-react";
+import MapComponent from "@/components/MapComponent";
+import StarRating from "@/components/StarRating";
+import ReviewList from "@/components/ReviewList";
+import WeeklyTimetable from "@/components/WeeklyTimetable";
+import CreditPackPurchaseCard from "@/components/CreditPackPurchaseCard";
+import MembershipPurchaseCard from "@/components/MembershipPurchaseCard";
+import GiftVoucherPurchaseCard from "@/components/GiftVoucherPurchaseCard";
+import NotFound from "@/pages/not-found";
+import { CARD_PAYMENTS_UNAVAILABLE_MESSAGE } from "@/lib/payments";
+import { BusinessLocation, PhotoWithUrls, PublicBusiness, ReviewWithAuthor } from "@shared/schema";
+
+function toStringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+}
+
+// Reached at /business/:ref, where ref is the business's id or its slug
+export default function BusinessProfile() {
+  const { ref = "" } = useParams<{ ref: string }>();
+  const businessUrl = /^\d+$/.test(ref) ? `/api/businesses/${ref}` : `/api/businesses/slug/${encodeURIComponent(ref)}`;
+
+  const { data: business, isLoading } = useQuery<PublicBusiness>({
+    queryKey: [businessUrl],
+  });
+
+  const { data: photos = [] } = useQuery<PhotoWithUrls[]>({
+    queryKey: [`/api/businesses/${business?.id}/photos`],
+    enabled: !!business,
+  });
+
+  const { data: reviews = [] } = useQuery<ReviewWithAuthor[]>({
+    queryKey: [`/api/businesses/${business?.id}/reviews`],
+    enabled: !!business,
+  });
+
+  const { data: locations = [] } = useQuery<BusinessLocation[]>({
+    queryKey: [`/api/businesses/${business?.id}/locations`],
+    enabled: !!business,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  if (!business) {
+    return <NotFound />;
+  }
+
+  // One marker for the main address and one for each other site that could be geocoded
+  const sites = [
+    { id: 0, name: business.name, latitude: business.latitude, longitude: business.longitude },
+    ...locations.map((location) => ({
+      id: location.id,
+      name: `${business.name} – ${location.name}`,
+      latitude: location.latitude,
+      longitude: location.longitude,
+    })),
+  ].filter((site) => site.latitude && site.longitude);
+  const amenities = toStringList(business.amenities);
+  const specialties = toStringList(business.specialties);
+  const socialLinks = [
+    { url: business.facebookUrl, label: "Facebook", icon: Facebook },
+    { url: business.instagramUrl, label: "Instagram", icon: Instagram },
+    { url: business.twitterUrl, label: "Twitter", icon: Twitter },
+    { url: business.youtubeUrl, label: "YouTube", icon: Youtube },
+  ].filter((link) => !!link.url);
+
+  return (
+    <div className="min-h-screen bg-neutral-50">
+      {business.coverImage && (
+        <img src={business.coverImage.hero} alt={business.name} className="w-full h-64 md:h-80 object-cover" />
+      )}
+
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold text-neutral-800 mb-2">{business.name}</h1>
+          <div className="flex flex-wrap items-center gap-3 text-neutral-600">
+            <StarRating average={business.ratingAverage} count={business.ratingCount} />
+            <span className="flex items-center text-sm">
+              <MapPin className="w-4 h-4 mr-1" />
+              {business.address}, {business.postcode}
+            </span>
+            {business.businessType && (
+              <Badge variant="outline" className="capitalize">{business.businessType.replace(/_/g, " ")}</Badge>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <div className="lg:col-span-2 space-y-8">
+            {business.description && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>About</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-neutral-700 whitespace-pre-line">{business.description}</p>
+                </CardContent>
+              </Card>
+            )}
+
+            {photos.length > 0 && (
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                {photos.map((photo) => (
+                  <a key={photo.id} href={photo.urls.hero} target="_blank" rel="noopener noreferrer">
+                    <img src={photo.urls.card} alt="" loading="lazy" className="w-full aspect-[16/10] object-cover rounded-lg" />
+                  </a>
+                ))}
+              </div>
+            )}
+
+            {business.bookingEnabled && !business.acceptsPayments && (
+              <p className="text-sm text-neutral-600">{CARD_PAYMENTS_UNAVAILABLE_MESSAGE}</p>
+            )}
+            <WeeklyTimetable businessId={business.id} bookingEnabled={!!business.bookingEnabled} />
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Reviews</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ReviewList reviews={reviews} responderName={business.name} />
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="space-y-8">
+            <Card>
+              <CardHeader>
+                <CardTitle>Contact</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3 text-sm">
+                {business.phone && (
+                  <a href={`tel:${business.phone}`} className="flex items-center text-neutral-700 hover:text-primary">
+                    <Phone className="w-4 h-4 mr-2" />
+                    {business.phone}
+                  </a>
+                )}
+                {business.email && (
+                  <a href={`mailto:${business.email}`} className="flex items-center text-neutral-700 hover:text-primary">
+                    <Mail className="w-4 h-4 mr-2" />
+                    {business.email}
+                  </a>
+                )}
+                {business.website && (
+                  <a href={business.website} target="_blank" rel="noopener noreferrer" className="flex items-center text-neutral-700 hover:text-primary">
+                    <Globe className="w-4 h-4 mr-2" />
+                    {business.website.replace(/^https?:\/\//, "")}
+                  </a>
+                )}
+                {socialLinks.length > 0 && (
+                  <div className="flex space-x-3 pt-2">
+                    {socialLinks.map(({ url, label, icon: Icon }) => (
+                      <a key={label} href={url!} target="_blank" rel="noopener noreferrer" aria-label={label} className="text-neutral-500 hover:text-primary">
+                        <Icon className="w-5 h-5" />
+                      </a>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {sites.length > 0 && (
+              <Card className="overflow-hidden">
+                <MapComponent
+                  center={[parseFloat(sites[0].latitude!), parseFloat(sites[0].longitude!)]}
+                  zoom={sites.length > 1 ? 11 : 15}
+                  interactive={false}
+                  showPopups={false}
+                  className="w-full h-64"
+                  sessions={sites.map((site) => ({
+                    id: site.id,
+                    title: site.name,
+                    business: site.name,
+                    latitude: parseFloat(site.latitude!),
+                    longitude: parseFloat(site.longitude!),
+                    price: 0,
+                    rating: 0,
+                    difficulty: "",
+                    sessionType: "",
+                  }))}
+                />
+              </Card>
+            )}
+
+            {business.acceptsPayments && (
+              <>
+                <MembershipPurchaseCard businessId={business.id} />
+                <CreditPackPurchaseCard businessId={business.id} />
+                <GiftVoucherPurchaseCard provider={{ businessId: business.id }} providerName={business.name} />
+              </>
+            )}
+
+            {locations.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Locations</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ul className="space-y-3">
+                    {locations.map((location) => (
+                      <li key={location.id} className="flex items-start text-sm">
+                        <MapPin className="w-4 h-4 mr-2 mt-0.5 text-primary shrink-0" />
+                        <div>
+                          <p className="font-medium text-neutral-800">{location.name}</p>
+                          <p className="text-neutral-600">{location.address}, {location.postcode}</p>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </CardContent>
+              </Card>
+            )}
+
+            {(amenities.length > 0 || specialties.length > 0) && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Facilities</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {specialties.length > 0 && (
+                    <div>
+                      <p className="text-xs font-medium text-neutral-800 mb-2">Specialties</p>
+                      <div className="flex flex-wrap gap-2">
+                        {specialties.map((specialty) => (
+                          <Badge key={specialty} variant="secondary">{specialty}</Badge>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  {amenities.length > 0 && (
+                    <div>
+                      <p className="text-xs font-medium text-neutral-800 mb-2">Amenities</p>
+                      <div className="flex flex-wrap gap-2">
+                        {amenities.map((amenity) => (
+                          <Badge key={amenity} variant="outline">{amenity}</Badge>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
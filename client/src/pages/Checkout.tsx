@@ -8,8 +8,9 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { acceptsCardPayments, CARD_PAYMENTS_UNAVAILABLE_MESSAGE } from "@/lib/payments";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
@@ -22,12 +23,17 @@ import {
   Clock,
   Calendar,
   Users,
-  Star,
   Lock,
   CreditCard,
   ArrowLeft,
 } from "lucide-react";
-import { FitnessSessionWithDetails } from "@shared/schema";
+import OccurrencePicker from "@/components/OccurrencePicker";
+import StarRating from "@/components/StarRating";
+import BookingPaymentOptions, { BookingPaymentMethod } from "@/components/BookingPaymentOptions";
+import PromoCodeField from "@/components/PromoCodeField";
+import GiftVoucherField from "@/components/GiftVoucherField";
+import BookingGuestsField from "@/components/BookingGuestsField";
+import { FitnessSessionWithDetails, GiftVoucherQuote, PromoCodeQuote } from "@shared/schema";
 
 // Validate Stripe public key
 if (!import.meta.env.VITE_STRIPE_PUBLIC_KEY) {
@@ -48,6 +54,14 @@ const bookingFormSchema = z.object({
 type BookingFormData = z.infer<typeof bookingFormSchema>;
 
 function CheckoutForm({ session }: { session: FitnessSessionWithDetails }) {
+  // Waitlist offer emails link here with the held occurrence and a claim token
+  const [claimParams] = useState(() => {
+    const params = new URLSearchParams(window.location.search);
+    return {
+      occurrenceId: params.get('occurrenceId') ? parseInt(params.get('occurrenceId')!) : null,
+      waitlistToken: params.get('waitlistToken') || undefined,
+    };
+  });
   const { user } = useAuth();
   const { toast } = useToast();
   const [, setLocation] = useLocation();
@@ -55,6 +69,12 @@ function CheckoutForm({ session }: { session: FitnessSessionWithDetails }) {
   const elements = useElements();
   const [isProcessing, setIsProcessing] = useState(false);
   const [clientSecret, setClientSecret] = useState<string>("");
+  const [selectedOccurrenceId, setSelectedOccurrenceId] = useState<number | null>(claimParams.occurrenceId);
+  const [spotsLeft, setSpotsLeft] = useState<number | null>(null);
+  const [guests, setGuests] = useState<string[]>([]);
+  const [paymentMethod, setPaymentMethod] = useState<BookingPaymentMethod>("card");
+  const [promo, setPromo] = useState<PromoCodeQuote | null>(null);
+  const [giftVoucher, setGiftVoucher] = useState<GiftVoucherQuote | null>(null);
 
   const form = useForm<BookingFormData>({
     resolver: zodResolver(bookingFormSchema),
@@ -66,15 +86,24 @@ function CheckoutForm({ session }: { session: FitnessSessionWithDetails }) {
     },
   });
 
-  const platformFee = parseFloat(session.price) * 0.1;
-  const totalAmount = parseFloat(session.price) + platformFee;
+  // Everyone on the booking pays the class price. A gift voucher's quote already includes any promo discount.
+  const attendees = guests.length + 1;
+  const subtotal = parseFloat(session.price) * attendees;
+  const quote = giftVoucher ?? promo;
+  const platformFee = quote ? quote.platformFee : subtotal * 0.1;
+  const totalAmount = quote ? quote.total : subtotal + platformFee;
+  // Promo codes and gift vouchers only apply to card bookings, and covering the whole price means there's nothing to pay
+  const needsCard = paymentMethod === "card" && totalAmount > 0;
+  const canPayByCard = acceptsCardPayments(session.business);
 
   // Create payment intent
   const createPaymentIntentMutation = useMutation({
-    mutationFn: async () => {
+    mutationFn: async ({ attendees, promoCode, giftVoucherCode }: { attendees: number; promoCode?: string; giftVoucherCode?: string }) => {
       const response = await apiRequest("POST", "/api/create-payment-intent", {
-        amount: totalAmount,
         sessionId: session.id,
+        attendees,
+        promoCode,
+        giftVoucherCode,
       });
       return response.json();
     },
@@ -103,17 +132,34 @@ function CheckoutForm({ session }: { session: FitnessSessionWithDetails }) {
 
   // Create booking
   const createBookingMutation = useMutation({
-    mutationFn: async (data: BookingFormData) => {
+    mutationFn: async ({ data, paymentIntentId }: { data: BookingFormData; paymentIntentId?: string }) => {
       const response = await apiRequest("POST", "/api/bookings", {
-        sessionId: session.id,
-        sessionDate: new Date().toISOString(), // This should be selected by user
-        totalAmount: totalAmount,
+        occurrenceId: selectedOccurrenceId,
+        waitlistToken: claimParams.waitlistToken,
+        paymentIntentId,
+        useCredit: paymentMethod === "credit",
+        useMembership: paymentMethod === "membership",
+        promoCode: paymentMethod === "card" ? promo?.code : undefined,
+        giftVoucherCode: paymentMethod === "card" ? giftVoucher?.code : undefined,
+        guests,
         specialRequirements: data.specialRequirements,
       });
       return response.json();
     },
-    onSuccess: () => {
-      toast({
+    onSuccess: (booking) => {
+      if (booking.creditPurchaseId) {
+        queryClient.invalidateQueries({ queryKey: ["/api/credits/my"] });
+      }
+      if (booking.membershipId) {
+        queryClient.invalidateQueries({ queryKey: ["/api/memberships/my"] });
+      }
+      if (giftVoucher) {
+        queryClient.invalidateQueries({ queryKey: ["/api/gift-vouchers/my"] });
+      }
+      toast(booking.status === 'pending' ? {
+        title: "Booking Received",
+        description: "Your spot is held while your payment is processed. We'll email you once it's confirmed.",
+      } : {
         title: "Booking Confirmed!",
         description: "Your session has been booked successfully. You'll receive a confirmation email shortly.",
       });
@@ -140,11 +186,76 @@ function CheckoutForm({ session }: { session: FitnessSessionWithDetails }) {
   });
 
   // Initialize payment intent when component mounts
+  // The payment has to be for the new price
+  const refreshPaymentIntent = (newQuote: { total: number } | null, promoCode?: string, giftVoucherCode?: string) => {
+    setClientSecret("");
+    if (canPayByCard && (!newQuote || newQuote.total > 0)) {
+      createPaymentIntentMutation.mutate({ attendees, promoCode, giftVoucherCode });
+    }
+  };
+
+  const changeGuests = (updated: string[]) => {
+    setGuests(updated);
+    if (updated.length === guests.length) return;
+
+    // A different party size is a different price, so codes are applied again and a new payment is set up
+    if (updated.length > 0) {
+      setPaymentMethod("card");
+    }
+    setPromo(null);
+    setGiftVoucher(null);
+    setClientSecret("");
+    if (canPayByCard) {
+      createPaymentIntentMutation.mutate({ attendees: updated.length + 1 });
+    }
+  };
+
+  const applyPromo = (applied: PromoCodeQuote | null) => {
+    setPromo(applied);
+    // What a voucher pays depends on the discounted price, so it has to be applied again
+    setGiftVoucher(null);
+    refreshPaymentIntent(applied, applied?.code);
+  };
+
+  const applyGiftVoucher = (applied: GiftVoucherQuote | null) => {
+    setGiftVoucher(applied);
+    refreshPaymentIntent(applied ?? promo, promo?.code, applied?.code);
+  };
+
   useEffect(() => {
-    createPaymentIntentMutation.mutate();
+    if (canPayByCard) {
+      createPaymentIntentMutation.mutate({ attendees: 1 });
+    }
   }, []);
 
   const handleSubmit = async (data: BookingFormData) => {
+    if (guests.some((name) => !name.trim())) {
+      toast({
+        title: "Guest Names Needed",
+        description: "Please add a name for each guest, or remove the ones who aren't coming.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!needsCard) {
+      if (!selectedOccurrenceId) {
+        toast({
+          title: "Choose a Class",
+          description: "Please select the date and time you'd like to attend.",
+          variant: "destructive",
+        });
+        return;
+      }
+      setIsProcessing(true);
+      try {
+        await createBookingMutation.mutateAsync({ data });
+      } finally {
+        setIsProcessing(false);
+      }
+      return;
+    }
+
     if (!stripe || !elements || !clientSecret) {
       toast({
         title: "Payment Error",
@@ -154,11 +265,20 @@ function CheckoutForm({ session }: { session: FitnessSessionWithDetails }) {
       return;
     }
 
+    if (!selectedOccurrenceId) {
+      toast({
+        title: "Choose a Class",
+        description: "Please select the date and time you'd like to attend.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsProcessing(true);
 
     try {
       // Confirm payment
-      const { error } = await stripe.confirmPayment({
+      const { error, paymentIntent } = await stripe.confirmPayment({
         elements,
         confirmParams: {
           return_url: `${window.location.origin}/booking-success`,
@@ -170,7 +290,7 @@ function CheckoutForm({ session }: { session: FitnessSessionWithDetails }) {
         throw new Error(error.message);
       } else {
         // Create booking record
-        await createBookingMutation.mutateAsync(data);
+        await createBookingMutation.mutateAsync({ data, paymentIntentId: paymentIntent.id });
       }
     } catch (error: any) {
       toast({
@@ -239,8 +359,10 @@ function CheckoutForm({ session }: { session: FitnessSessionWithDetails }) {
                   <div className="flex items-center text-sm">
                     <MapPin className="w-4 h-4 mr-2 text-neutral-500" />
                     <div>
-                      <p className="font-medium">{session.business?.name}</p>
-                      <p className="text-neutral-600">{session.business?.address}</p>
+                      <p className="font-medium">
+                        {session.business?.name}{session.location && ` – ${session.location.name}`}
+                      </p>
+                      <p className="text-neutral-600">{session.location?.address ?? session.business?.address}</p>
                     </div>
                   </div>
 
@@ -254,10 +376,7 @@ function CheckoutForm({ session }: { session: FitnessSessionWithDetails }) {
                     <span>Max {session.maxParticipants} participants</span>
                   </div>
 
-                  <div className="flex items-center text-sm">
-                    <Star className="w-4 h-4 mr-2 text-yellow-400" />
-                    <span>4.8 rating</span>
-                  </div>
+                  <StarRating average={session.ratingAverage} count={session.ratingCount} />
                 </div>
 
                 <div className="flex items-center space-x-2">
@@ -274,9 +393,21 @@ function CheckoutForm({ session }: { session: FitnessSessionWithDetails }) {
                 {/* Pricing */}
                 <div className="space-y-2">
                   <div className="flex justify-between text-sm">
-                    <span>Session Fee</span>
-                    <span>£{parseFloat(session.price).toFixed(2)}</span>
+                    <span>Session Fee{attendees > 1 && ` × ${attendees}`}</span>
+                    <span>£{subtotal.toFixed(2)}</span>
                   </div>
+                  {promo && (
+                    <div className="flex justify-between text-sm text-green-700">
+                      <span>Promo ({promo.code})</span>
+                      <span>-£{promo.discount.toFixed(2)}</span>
+                    </div>
+                  )}
+                  {giftVoucher && (
+                    <div className="flex justify-between text-sm text-green-700">
+                      <span>Gift voucher ({giftVoucher.code})</span>
+                      <span>-£{giftVoucher.giftVoucher.toFixed(2)}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between text-sm">
                     <span>Platform Fee</span>
                     <span>£{platformFee.toFixed(2)}</span>
@@ -302,6 +433,38 @@ function CheckoutForm({ session }: { session: FitnessSessionWithDetails }) {
               </CardHeader>
               <CardContent>
                 <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+                  {/* Class Date */}
+                  <div>
+                    <h3 className="font-semibold text-neutral-800 mb-4">Choose a Class</h3>
+                    {claimParams.waitlistToken ? (
+                      <p className="text-sm text-green-700 bg-green-50 border border-green-200 rounded-lg p-3">
+                        A spot has been held for you from the waitlist. Complete your booking to claim it.
+                      </p>
+                    ) : (
+                      <OccurrencePicker
+                        sessionId={session.id}
+                        selectedId={selectedOccurrenceId}
+                        onSelect={(occurrence) => {
+                          setSelectedOccurrenceId(occurrence.id);
+                          setSpotsLeft(occurrence.spotsLeft);
+                        }}
+                      />
+                    )}
+                  </div>
+
+                  <Separator />
+
+                  {/* Guests */}
+                  <div>
+                    <h3 className="font-semibold text-neutral-800 mb-2">Bringing Friends?</h3>
+                    <p className="text-sm text-neutral-600 mb-4">
+                      Add a name for each friend coming with you and pay for everyone in one go.
+                    </p>
+                    <BookingGuestsField guests={guests} spotsLeft={spotsLeft} onChange={changeGuests} />
+                  </div>
+
+                  <Separator />
+
                   {/* Personal Information */}
                   <div>
                     <h3 className="font-semibold text-neutral-800 mb-4">Personal Information</h3>
@@ -367,7 +530,22 @@ function CheckoutForm({ session }: { session: FitnessSessionWithDetails }) {
                   {/* Payment Method */}
                   <div>
                     <h3 className="font-semibold text-neutral-800 mb-4">Payment Method</h3>
-                    {clientSecret ? (
+                    <BookingPaymentOptions session={session} attendees={attendees} value={paymentMethod} onChange={setPaymentMethod} />
+                    {paymentMethod === "card" && (
+                      <div className="mb-4 space-y-2">
+                        <PromoCodeField sessionId={session.id} attendees={attendees} applied={promo} onChange={applyPromo} />
+                        <GiftVoucherField
+                          booking={{ sessionId: session.id, attendees, promoCode: promo?.code }}
+                          applied={giftVoucher}
+                          onChange={applyGiftVoucher}
+                        />
+                      </div>
+                    )}
+                    {!needsCard ? null : !canPayByCard ? (
+                      <div className="border border-neutral-200 rounded-lg p-4 text-center">
+                        <p className="text-sm text-neutral-600">{CARD_PAYMENTS_UNAVAILABLE_MESSAGE}</p>
+                      </div>
+                    ) : clientSecret ? (
                       <div className="border border-neutral-200 rounded-lg p-4">
                         <PaymentElement />
                       </div>
@@ -383,10 +561,16 @@ function CheckoutForm({ session }: { session: FitnessSessionWithDetails }) {
                   <Button
                     type="submit"
                     className="w-full bg-primary hover:bg-primary/90 text-white py-4 text-lg font-semibold"
-                    disabled={!stripe || !clientSecret || isProcessing || form.formState.isSubmitting}
+                    disabled={(needsCard && (!stripe || !clientSecret)) || !selectedOccurrenceId || isProcessing || form.formState.isSubmitting}
                   >
                     <Lock className="w-4 h-4 mr-2" />
-                    {isProcessing ? "Processing Payment..." : `Book & Pay £${totalAmount.toFixed(2)}`}
+                    {isProcessing
+                      ? "Processing Payment..."
+                      : paymentMethod === "credit"
+                        ? "Book with 1 Class Credit"
+                        : paymentMethod === "membership"
+                          ? "Book with Membership"
+                          : needsCard ? `Book & Pay £${totalAmount.toFixed(2)}` : "Book for Free"}
                   </Button>
 
                   <p className="text-xs text-neutral-500 text-center">
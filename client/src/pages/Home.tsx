@@ -12,6 +12,8 @@ export default function Home() {
       setLocation('/admin-dashboard');
     } else if (user?.role === 'business') {
       setLocation('/business-dashboard');
+    } else if (user?.role === 'staff') {
+      setLocation('/teaching');
     } else {
       setLocation('/search');
     }
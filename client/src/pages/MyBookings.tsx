@@ -0,0 +1,789 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format, subHours } from "date-fns";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Calendar, Clock, MapPin, Hourglass, User, Star, Ticket, IdCard, Gift } from "lucide-react";
+import OccurrencePicker from "@/components/OccurrencePicker";
+import TrainerSlotPicker from "@/components/TrainerSlotPicker";
+import ReviewDialog, { ReviewTarget } from "@/components/ReviewDialog";
+import {
+  BookingWithDetails,
+  CreditPurchaseWithDetails,
+  GiftVoucherWithProvider,
+  MembershipWithDetails,
+  Refund,
+  TrainerBookingWithDetails,
+  WaitlistEntryWithDetails,
+} from "@shared/schema";
+
+const statusStyles: Record<string, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  confirmed: "bg-green-100 text-green-800",
+  completed: "bg-blue-100 text-blue-800",
+  cancelled: "bg-red-100 text-red-800",
+};
+
+interface PolicyHolder {
+  freeCancellationHours: number;
+  lateCancellationRefundPercent: number;
+}
+
+// Mirrors the server's policy check so customers can see what a cancellation will refund
+function describeCancellation(policy: PolicyHolder, sessionDate: Date | string) {
+  const startsAt = new Date(sessionDate);
+  const freeUntil = subHours(startsAt, policy.freeCancellationHours);
+  const withinFreeWindow = new Date() <= freeUntil;
+  return {
+    freeUntil,
+    withinFreeWindow,
+    refundPercent: withinFreeWindow ? 100 : policy.lateCancellationRefundPercent,
+  };
+}
+
+const refundStatusLabels: Record<string, string> = {
+  pending: "processing",
+  succeeded: "refunded",
+  failed: "failed",
+  canceled: "cancelled",
+};
+
+function RefundList({ refunds }: { refunds?: Refund[] }) {
+  if (!refunds || refunds.length === 0) return null;
+  return (
+    <div className="mt-3 space-y-1">
+      {refunds.map((refund) => (
+        <div key={refund.id} className="flex items-center justify-between text-sm bg-neutral-50 rounded px-3 py-2">
+          <span className="text-neutral-700">
+            Refund of £{parseFloat(refund.amount).toFixed(2)}
+            {refund.reason === 'goodwill' && " (goodwill)"}
+          </span>
+          <Badge
+            variant="secondary"
+            className={refund.status === 'failed' ? "bg-red-100 text-red-800" : refund.status === 'succeeded' ? "bg-green-100 text-green-800" : ""}
+          >
+            {refundStatusLabels[refund.status] || refund.status}
+          </Badge>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ReviewAction({ status, reviewed, onReview }: { status: string; reviewed: boolean; onReview: () => void }) {
+  if (status !== 'completed') return null;
+  if (reviewed) {
+    return (
+      <p className="flex items-center text-sm text-neutral-500 mt-3">
+        <Star className="w-4 h-4 mr-1 text-yellow-400 fill-yellow-400" />
+        Thanks for your review
+      </p>
+    );
+  }
+  return (
+    <Button size="sm" variant="outline" className="mt-3" onClick={onReview}>
+      <Star className="w-4 h-4 mr-1" />
+      Leave a Review
+    </Button>
+  );
+}
+
+type CancelTarget =
+  | { kind: "class"; booking: BookingWithDetails }
+  | { kind: "trainer"; booking: TrainerBookingWithDetails };
+
+export default function MyBookings() {
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const { toast } = useToast();
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+    }
+  }, [isAuthenticated, isLoading, toast]);
+
+  const { data: bookings = [], isLoading: bookingsLoading } = useQuery<BookingWithDetails[]>({
+    queryKey: ["/api/bookings/my"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: waitlistEntries = [] } = useQuery<WaitlistEntryWithDetails[]>({
+    queryKey: ["/api/waitlist/my"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: trainerBookings = [] } = useQuery<TrainerBookingWithDetails[]>({
+    queryKey: ["/api/trainer-bookings/my"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: credits = [] } = useQuery<CreditPurchaseWithDetails[]>({
+    queryKey: ["/api/credits/my"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: memberships = [] } = useQuery<MembershipWithDetails[]>({
+    queryKey: ["/api/memberships/my"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: giftVouchers = [] } = useQuery<GiftVoucherWithProvider[]>({
+    queryKey: ["/api/gift-vouchers/my"],
+    enabled: isAuthenticated,
+  });
+
+  const [cancelTarget, setCancelTarget] = useState<CancelTarget | null>(null);
+  const [reschedulingBooking, setReschedulingBooking] = useState<BookingWithDetails | null>(null);
+  const [selectedOccurrenceId, setSelectedOccurrenceId] = useState<number | null>(null);
+  const [reschedulingTrainerBooking, setReschedulingTrainerBooking] = useState<TrainerBookingWithDetails | null>(null);
+  const [newTrainerSessionDate, setNewTrainerSessionDate] = useState("");
+  const [reviewTarget, setReviewTarget] = useState<ReviewTarget | null>(null);
+
+  const cancelMutation = useMutation({
+    mutationFn: async (target: CancelTarget) => {
+      const url = target.kind === "class"
+        ? `/api/bookings/${target.booking.id}/cancel`
+        : `/api/trainer-bookings/${target.booking.id}/cancel`;
+      const response = await apiRequest("POST", url);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Booking Cancelled",
+        description: result.creditRestored
+          ? "Your class credit has been returned."
+          : result.membershipClassReturned
+            ? "This class no longer counts towards your membership allowance."
+            : result.refundAmount > 0 || result.giftVoucherRestored > 0
+            ? [
+                result.refundAmount > 0 && `You'll be refunded £${result.refundAmount.toFixed(2)}.`,
+                result.giftVoucherRestored > 0 && `£${result.giftVoucherRestored.toFixed(2)} has gone back on your gift voucher.`,
+              ].filter(Boolean).join(" ")
+            : "This cancellation is outside the refund window.",
+      });
+      setCancelTarget(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings/my"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/credits/my"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/memberships/my"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/gift-vouchers/my"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trainer-bookings/my"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Cancellation Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelMembershipMutation = useMutation({
+    mutationFn: async (membershipId: number) => {
+      const response = await apiRequest("POST", `/api/memberships/${membershipId}/cancel`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Membership Cancelled",
+        description: "You can keep booking until the end of the month you've paid for.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/memberships/my"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Cancellation Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rescheduleMutation = useMutation({
+    mutationFn: async ({ bookingId, occurrenceId }: { bookingId: number; occurrenceId: number }) => {
+      const response = await apiRequest("POST", `/api/bookings/${bookingId}/reschedule`, { occurrenceId });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Booking Rescheduled",
+        description: "Your booking has been moved to the new date.",
+      });
+      setReschedulingBooking(null);
+      setSelectedOccurrenceId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings/my"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Reschedule Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rescheduleTrainerMutation = useMutation({
+    mutationFn: async ({ bookingId, sessionDate }: { bookingId: number; sessionDate: string }) => {
+      const response = await apiRequest("POST", `/api/trainer-bookings/${bookingId}/reschedule`, {
+        sessionDate: new Date(sessionDate).toISOString(),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Session Rescheduled",
+        description: "Your trainer has been notified of the new time.",
+      });
+      setReschedulingTrainerBooking(null);
+      setNewTrainerSessionDate("");
+      queryClient.invalidateQueries({ queryKey: ["/api/trainer-bookings/my"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Reschedule Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const leaveWaitlistMutation = useMutation({
+    mutationFn: async (entryId: number) => {
+      const response = await apiRequest("DELETE", `/api/waitlist/${entryId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Left Waitlist",
+        description: "You've been removed from the waitlist.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/waitlist/my"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Action Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || bookingsLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  const sortedBookings = [...bookings].sort(
+    (a, b) => new Date(b.sessionDate).getTime() - new Date(a.sessionDate).getTime()
+  );
+  const sortedTrainerBookings = [...trainerBookings].sort(
+    (a, b) => new Date(b.sessionDate).getTime() - new Date(a.sessionDate).getTime()
+  );
+
+  const cancelPreview = cancelTarget && describeCancellation(
+    cancelTarget.kind === "class" ? cancelTarget.booking.session.business : cancelTarget.booking.trainer,
+    cancelTarget.booking.sessionDate,
+  );
+
+  return (
+    <div className="min-h-screen bg-neutral-50">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <h1 className="text-2xl font-bold text-neutral-800">My Bookings</h1>
+
+        {/* Waitlist */}
+        {waitlistEntries.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Hourglass className="w-5 h-5 mr-2" />
+                Waitlists
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {waitlistEntries.map((entry) => (
+                <div key={entry.id} className="border border-neutral-200 rounded-lg p-4">
+                  <div className="flex items-center justify-between mb-2">
+                    <h3 className="font-semibold text-neutral-800">{entry.session.title}</h3>
+                    {entry.status === 'offered' ? (
+                      <Badge className="bg-green-100 text-green-800">Spot available</Badge>
+                    ) : (
+                      <Badge variant="secondary" className="bg-yellow-100 text-yellow-800">
+                        #{entry.position} in line
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="text-sm text-neutral-600 space-y-1 mb-3">
+                    <div className="flex items-center">
+                      <MapPin className="w-4 h-4 mr-2" />
+                      <span>{entry.session.business.name}</span>
+                    </div>
+                    <div className="flex items-center">
+                      <Calendar className="w-4 h-4 mr-2" />
+                      <span>{format(new Date(entry.occurrence.startsAt), "EEE d MMM yyyy, HH:mm")}</span>
+                    </div>
+                    {entry.status === 'offered' && entry.offerExpiresAt && (
+                      <div className="flex items-center text-green-700">
+                        <Clock className="w-4 h-4 mr-2" />
+                        <span>Held for you until {format(new Date(entry.offerExpiresAt), "EEE d MMM, HH:mm")}</span>
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex space-x-2">
+                    {entry.status === 'offered' && (
+                      <Button
+                        size="sm"
+                        className="bg-primary hover:bg-primary/90"
+                        onClick={() => window.location.href = `/checkout/${entry.session.id}?occurrenceId=${entry.occurrenceId}&waitlistToken=${entry.claimToken}`}
+                      >
+                        Claim Spot
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => leaveWaitlistMutation.mutate(entry.id)}
+                      disabled={leaveWaitlistMutation.isPending}
+                    >
+                      Leave Waitlist
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Class pack credits */}
+        {credits.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Ticket className="w-5 h-5 mr-2" />
+                Class Credits
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {credits.map((purchase) => (
+                <div key={purchase.id} className="flex items-center justify-between border border-neutral-200 rounded-lg p-4">
+                  <div>
+                    <h3 className="font-semibold text-neutral-800">{purchase.pack.name}</h3>
+                    <Link
+                      href={`/business/${purchase.business.slug ?? purchase.business.id}`}
+                      className="text-sm text-neutral-600 hover:text-primary hover:underline"
+                    >
+                      {purchase.business.name}
+                    </Link>
+                    <p className="text-xs text-neutral-500">
+                      {purchase.expiresAt
+                        ? `Expires ${format(new Date(purchase.expiresAt), "d MMM yyyy")}`
+                        : "No expiry"}
+                    </p>
+                  </div>
+                  <span className="text-lg font-semibold text-primary">
+                    {purchase.creditsRemaining}/{purchase.credits}
+                  </span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Memberships */}
+        {memberships.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <IdCard className="w-5 h-5 mr-2" />
+                Memberships
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {memberships.map((membership) => (
+                <div key={membership.id} className="flex items-center justify-between border border-neutral-200 rounded-lg p-4">
+                  <div>
+                    <h3 className="font-semibold text-neutral-800">{membership.plan.name}</h3>
+                    <Link
+                      href={`/business/${membership.business.slug ?? membership.business.id}`}
+                      className="text-sm text-neutral-600 hover:text-primary hover:underline"
+                    >
+                      {membership.business.name}
+                    </Link>
+                    <p className="text-xs text-neutral-500">
+                      {membership.status === "incomplete"
+                        ? "Waiting for your first payment"
+                        : membership.currentPeriodEnd
+                          ? `${membership.cancelAtPeriodEnd ? "Ends" : "Renews"} ${format(new Date(membership.currentPeriodEnd), "d MMM yyyy")}`
+                          : null}
+                      {membership.status === "past_due" && " • Payment overdue"}
+                    </p>
+                  </div>
+                  <div className="text-right space-y-1">
+                    <span className="block text-lg font-semibold text-primary">
+                      {membership.classesPerPeriod === null
+                        ? "Unlimited"
+                        : `${membership.classesUsed}/${membership.classesPerPeriod}`}
+                    </span>
+                    {!membership.cancelAtPeriodEnd && membership.status !== "incomplete" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => cancelMembershipMutation.mutate(membership.id)}
+                        disabled={cancelMembershipMutation.isPending}
+                      >
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Gift vouchers */}
+        {giftVouchers.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Gift className="w-5 h-5 mr-2" />
+                Gift Vouchers
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {giftVouchers.map((voucher) => {
+                const expired = new Date(voucher.expiresAt) <= new Date();
+                return (
+                  <div key={voucher.id} className="flex items-center justify-between border border-neutral-200 rounded-lg p-4">
+                    <div>
+                      {voucher.business ? (
+                        <Link
+                          href={`/business/${voucher.business.slug ?? voucher.business.id}`}
+                          className="font-semibold text-neutral-800 hover:text-primary hover:underline"
+                        >
+                          {voucher.business.name}
+                        </Link>
+                      ) : voucher.trainer ? (
+                        <Link
+                          href={`/personal-trainers/${voucher.trainer.id}`}
+                          className="font-semibold text-neutral-800 hover:text-primary hover:underline"
+                        >
+                          {voucher.trainer.firstName} {voucher.trainer.lastName}
+                        </Link>
+                      ) : null}
+                      <p className="text-sm text-neutral-600">
+                        {voucher.purchaserId === user?.id
+                          ? `Sent to ${voucher.recipientName}`
+                          : `Code ${voucher.code}`}
+                      </p>
+                      <p className="text-xs text-neutral-500">
+                        {expired
+                          ? `Expired ${format(new Date(voucher.expiresAt), "d MMM yyyy")}`
+                          : `Expires ${format(new Date(voucher.expiresAt), "d MMM yyyy")}`}
+                      </p>
+                    </div>
+                    <span className={`text-lg font-semibold ${expired ? "text-neutral-400" : "text-primary"}`}>
+                      £{voucher.balance}/£{voucher.amount}
+                    </span>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Bookings */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Calendar className="w-5 h-5 mr-2" />
+              Bookings
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {sortedBookings.length === 0 ? (
+              <p className="text-neutral-500 text-center py-8">
+                You haven't booked any sessions yet.
+              </p>
+            ) : (
+              sortedBookings.map((booking) => {
+                const isUpcoming = booking.status === 'confirmed' && new Date(booking.sessionDate) > new Date();
+                const policy = describeCancellation(booking.session.business, booking.sessionDate);
+                return (
+                  <div key={booking.id} className="border border-neutral-200 rounded-lg p-4">
+                    <div className="flex items-center justify-between mb-2">
+                      <h3 className="font-semibold text-neutral-800">{booking.session?.title}</h3>
+                      <Badge className={statusStyles[booking.status] || "bg-gray-100 text-gray-800"}>
+                        {booking.status}
+                      </Badge>
+                    </div>
+                    <div className="text-sm text-neutral-600 space-y-1">
+                      <div className="flex items-center">
+                        <MapPin className="w-4 h-4 mr-2" />
+                        <span>{booking.session?.business?.name}</span>
+                      </div>
+                      <div className="flex items-center">
+                        <Calendar className="w-4 h-4 mr-2" />
+                        <span>{format(new Date(booking.sessionDate), "EEE d MMM yyyy, HH:mm")}</span>
+                      </div>
+                      {booking.guests && booking.guests.length > 0 && (
+                        <div className="flex items-center">
+                          <User className="w-4 h-4 mr-2" />
+                          <span>You and {booking.guests.map((guest) => guest.name).join(", ")}</span>
+                        </div>
+                      )}
+                      <div className="flex items-center">
+                        <span className="font-medium text-neutral-800">
+                          {booking.creditPurchaseId
+                            ? "1 class credit"
+                            : booking.membershipId ? "Membership" : `£${parseFloat(booking.totalAmount).toFixed(2)}`}
+                        </span>
+                      </div>
+                      {isUpcoming && (
+                        <div className="flex items-center text-neutral-500">
+                          <Clock className="w-4 h-4 mr-2" />
+                          <span>
+                            {policy.withinFreeWindow
+                              ? `Free cancellation until ${format(policy.freeUntil, "EEE d MMM, HH:mm")}`
+                              : booking.creditPurchaseId
+                                ? "Cancelling now uses up your credit"
+                                : booking.membershipId
+                                  ? "Cancelling now still counts towards your allowance"
+                                  : `Cancelling now refunds ${policy.refundPercent}%`}
+                          </span>
+                        </div>
+                      )}
+                    </div>
+                    <RefundList refunds={booking.refunds} />
+                    <ReviewAction
+                      status={booking.status}
+                      reviewed={!!booking.review}
+                      onReview={() => setReviewTarget({ kind: "class", bookingId: booking.id, title: booking.session.title })}
+                    />
+                    {isUpcoming && (
+                      <div className="flex space-x-2 mt-3">
+                        {policy.withinFreeWindow && booking.occurrenceId && (
+                          <Button size="sm" variant="outline" onClick={() => setReschedulingBooking(booking)}>
+                            Reschedule
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="text-red-600 hover:text-red-700"
+                          onClick={() => setCancelTarget({ kind: "class", booking })}
+                        >
+                          Cancel Booking
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Personal training */}
+        {sortedTrainerBookings.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <User className="w-5 h-5 mr-2" />
+                Personal Training
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {sortedTrainerBookings.map((booking) => {
+                const isUpcoming = booking.status === 'confirmed' && new Date(booking.sessionDate) > new Date();
+                const policy = describeCancellation(booking.trainer, booking.sessionDate);
+                return (
+                  <div key={booking.id} className="border border-neutral-200 rounded-lg p-4">
+                    <div className="flex items-center justify-between mb-2">
+                      <h3 className="font-semibold text-neutral-800">
+                        {booking.sessionType} with {booking.trainer.firstName} {booking.trainer.lastName}
+                      </h3>
+                      <Badge className={statusStyles[booking.status] || "bg-gray-100 text-gray-800"}>
+                        {booking.status}
+                      </Badge>
+                    </div>
+                    <div className="text-sm text-neutral-600 space-y-1">
+                      <div className="flex items-center">
+                        <Calendar className="w-4 h-4 mr-2" />
+                        <span>{format(new Date(booking.sessionDate), "EEE d MMM yyyy, HH:mm")} • {booking.duration} minutes</span>
+                      </div>
+                      <div className="flex items-center">
+                        <span className="font-medium text-neutral-800">£{parseFloat(booking.totalAmount).toFixed(2)}</span>
+                      </div>
+                    </div>
+                    <RefundList refunds={booking.refunds} />
+                    <ReviewAction
+                      status={booking.status}
+                      reviewed={!!booking.review}
+                      onReview={() => setReviewTarget({
+                        kind: "trainer",
+                        bookingId: booking.id,
+                        title: `your session with ${booking.trainer.firstName}`,
+                      })}
+                    />
+                    {isUpcoming && (
+                      <div className="flex space-x-2 mt-3">
+                        {policy.withinFreeWindow && (
+                          <Button size="sm" variant="outline" onClick={() => setReschedulingTrainerBooking(booking)}>
+                            Reschedule
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="text-red-600 hover:text-red-700"
+                          onClick={() => setCancelTarget({ kind: "trainer", booking })}
+                        >
+                          Cancel Booking
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Cancel confirmation */}
+        <Dialog open={!!cancelTarget} onOpenChange={(open) => !open && setCancelTarget(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Cancel Booking</DialogTitle>
+              <DialogDescription>
+                {cancelTarget?.kind === "class" && cancelTarget.booking.creditPurchaseId
+                  ? cancelPreview?.withinFreeWindow
+                    ? "You're within the free cancellation window and your class credit will be returned."
+                    : "This is a late cancellation, so the class credit won't be returned."
+                  : cancelTarget?.kind === "class" && cancelTarget.booking.membershipId
+                    ? cancelPreview?.withinFreeWindow
+                      ? "You're within the free cancellation window, so this class won't count towards your membership allowance."
+                      : "This is a late cancellation, so the class still counts towards your membership allowance."
+                  : cancelPreview?.withinFreeWindow
+                    ? "You're within the free cancellation window and will receive a full refund."
+                    : `This is a late cancellation. You'll be refunded ${cancelPreview?.refundPercent ?? 0}% of the booking price.`}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setCancelTarget(null)}>
+                Keep Booking
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={() => cancelTarget && cancelMutation.mutate(cancelTarget)}
+                disabled={cancelMutation.isPending}
+              >
+                {cancelMutation.isPending ? "Cancelling..." : "Cancel Booking"}
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+
+        {/* Reschedule class booking */}
+        <Dialog
+          open={!!reschedulingBooking}
+          onOpenChange={(open) => {
+            if (!open) {
+              setReschedulingBooking(null);
+              setSelectedOccurrenceId(null);
+            }
+          }}
+        >
+          <DialogContent className="max-w-xl">
+            <DialogHeader>
+              <DialogTitle>Reschedule Booking</DialogTitle>
+              <DialogDescription>
+                Choose a new date for {reschedulingBooking?.session.title}.
+              </DialogDescription>
+            </DialogHeader>
+            {reschedulingBooking && (
+              <OccurrencePicker
+                sessionId={reschedulingBooking.sessionId}
+                selectedId={selectedOccurrenceId}
+                onSelect={(occurrence) => setSelectedOccurrenceId(occurrence.id)}
+              />
+            )}
+            <div className="flex justify-end">
+              <Button
+                onClick={() => reschedulingBooking && selectedOccurrenceId && rescheduleMutation.mutate({
+                  bookingId: reschedulingBooking.id,
+                  occurrenceId: selectedOccurrenceId,
+                })}
+                disabled={!selectedOccurrenceId || selectedOccurrenceId === reschedulingBooking?.occurrenceId || rescheduleMutation.isPending}
+              >
+                {rescheduleMutation.isPending ? "Rescheduling..." : "Confirm New Date"}
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+
+        {/* Reschedule trainer booking */}
+        <Dialog
+          open={!!reschedulingTrainerBooking}
+          onOpenChange={(open) => {
+            if (!open) {
+              setReschedulingTrainerBooking(null);
+              setNewTrainerSessionDate("");
+            }
+          }}
+        >
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Reschedule Session</DialogTitle>
+              <DialogDescription>
+                Pick a new time for your session with {reschedulingTrainerBooking?.trainer.firstName}.
+              </DialogDescription>
+            </DialogHeader>
+            {reschedulingTrainerBooking && (
+              <TrainerSlotPicker
+                trainerId={reschedulingTrainerBooking.trainerId}
+                duration={reschedulingTrainerBooking.duration}
+                selectedStartsAt={newTrainerSessionDate || null}
+                onSelect={(slot) => setNewTrainerSessionDate(slot.startsAt)}
+              />
+            )}
+            <div className="flex justify-end">
+              <Button
+                onClick={() => reschedulingTrainerBooking && rescheduleTrainerMutation.mutate({
+                  bookingId: reschedulingTrainerBooking.id,
+                  sessionDate: newTrainerSessionDate,
+                })}
+                disabled={!newTrainerSessionDate || rescheduleTrainerMutation.isPending}
+              >
+                {rescheduleTrainerMutation.isPending ? "Rescheduling..." : "Confirm New Time"}
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+
+        <ReviewDialog target={reviewTarget} onClose={() => setReviewTarget(null)} />
+      </div>
+    </div>
+  );
+}
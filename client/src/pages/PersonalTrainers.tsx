@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -15,6 +16,7 @@ import {
   Filter,
   Calendar
 } from "lucide-react";
+import StarRating from "@/components/StarRating";
 import { PersonalTrainerWithUser } from "@shared/schema";
 
 export default function PersonalTrainers() {
@@ -22,6 +24,7 @@ export default function PersonalTrainers() {
   const [selectedSpecialty, setSelectedSpecialty] = useState("");
   const [selectedLocation, setSelectedLocation] = useState("");
   const [maxRate, setMaxRate] = useState("");
+  const [, setLocation] = useLocation();
 
   const { data: trainers = [], isLoading } = useQuery<PersonalTrainerWithUser[]>({
     queryKey: ["/api/personal-trainers/search", { 
@@ -39,7 +42,7 @@ export default function PersonalTrainers() {
   ];
 
   const handleBookTrainer = (trainer: PersonalTrainerWithUser) => {
-    window.location.href = `/book-trainer/${trainer.id}`;
+    setLocation(`/personal-trainers/${trainer.id}`);
   };
 
   if (isLoading) {
@@ -131,6 +134,14 @@ export default function PersonalTrainers() {
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
               {trainers.map((trainer) => (
                 <Card key={trainer.id} className="overflow-hidden hover:shadow-lg transition-shadow">
+                  {trainer.coverImage && (
+                    <img
+                      src={trainer.coverImage.card}
+                      alt=""
+                      loading="lazy"
+                      className="w-full h-40 object-cover"
+                    />
+                  )}
                   <CardHeader className="pb-4">
                     <div className="flex items-center gap-4">
                       <div className="w-16 h-16 bg-neutral-200 rounded-full flex items-center justify-center overflow-hidden">
@@ -146,7 +157,9 @@ export default function PersonalTrainers() {
                       </div>
                       <div className="flex-1">
                         <h3 className="font-semibold text-lg">
-                          {trainer.firstName} {trainer.lastName}
+                          <Link href={`/personal-trainers/${trainer.id}`} className="hover:text-primary">
+                            {trainer.firstName} {trainer.lastName}
+                          </Link>
                         </h3>
                         <div className="flex items-center gap-2 text-sm text-neutral-600">
                           <MapPin className="w-4 h-4" />
@@ -158,6 +171,7 @@ export default function PersonalTrainers() {
                             <span>{trainer.experience} years experience</span>
                           </div>
                         )}
+                        <StarRating average={trainer.ratingAverage} count={trainer.ratingCount} className="text-neutral-600" />
                       </div>
                     </div>
                   </CardHeader>
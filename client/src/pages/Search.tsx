@@ -14,8 +14,8 @@ import MapComponent from "@/components/MapComponent";
 import SessionCard from "@/components/SessionCard";
 import BookingModal from "@/components/BookingModal";
 import { FitnessSessionWithDetails } from "@shared/schema";
-import { SearchFilters, SessionLocation } from "@/lib/types";
-import { Search, Filter, SlidersHorizontal } from "lucide-react";
+import { PostcodeResult, SearchFilters, SessionLocation } from "@/lib/types";
+import { Search, Filter, SlidersHorizontal, LocateFixed } from "lucide-react";
 
 // Validate Stripe public key
 if (!import.meta.env.VITE_STRIPE_PUBLIC_KEY) {
@@ -26,6 +26,10 @@ const stripePromise = import.meta.env.VITE_STRIPE_PUBLIC_KEY
   ? loadStripe(import.meta.env.VITE_STRIPE_PUBLIC_KEY)
   : null;
 
+const FULL_POSTCODE_PATTERN = /^[A-Z]{1,2}[0-9][A-Z0-9]?[0-9][A-Z]{2}$/;
+const OUTCODE_PATTERN = /^[A-Z]{1,2}[0-9][A-Z0-9]?$/;
+const DEFAULT_RADIUS_KM = '10';
+
 export default function SearchPage() {
   const [location] = useLocation();
   const [searchParams, setSearchParams] = useState(() => {
@@ -36,6 +40,12 @@ export default function SearchPage() {
       ageGroup: params.get('ageGroup') || '',
       difficulty: params.get('difficulty') || '',
       priceRange: params.get('priceRange') || '',
+      lat: params.get('lat') || '',
+      lng: params.get('lng') || '',
+      radiusKm: params.get('radiusKm') || '',
+      minRating: params.get('minRating') || '',
+      instructor: params.get('instructor') || '',
+      sort: params.get('sort') || '',
     };
   });
 
@@ -44,12 +54,30 @@ export default function SearchPage() {
   const [mapCenter, setMapCenter] = useState<[number, number]>([51.5074, -0.1278]);
   const [showFilters, setShowFilters] = useState(false);
 
+  // Geocode the postcode (or just its outward code, e.g. "SW1A") once enough has been typed
+  const postcode = searchParams.postcode.replace(/\s+/g, '').toUpperCase();
+  const geocodeUrl = FULL_POSTCODE_PATTERN.test(postcode)
+    ? `/api/geo/postcode/${postcode}`
+    : OUTCODE_PATTERN.test(postcode) ? `/api/geo/outcode/${postcode}` : null;
+  const { data: postcodeLocation } = useQuery<Pick<PostcodeResult, 'latitude' | 'longitude'>>({
+    queryKey: [geocodeUrl],
+    enabled: !!geocodeUrl,
+  });
+
+  // A geocoded postcode becomes a radius search; otherwise fall back to matching the postcode text
+  const origin = postcodeLocation
+    ? { lat: postcodeLocation.latitude.toFixed(6), lng: postcodeLocation.longitude.toFixed(6) }
+    : searchParams.lat && searchParams.lng ? { lat: searchParams.lat, lng: searchParams.lng } : null;
+  const sessionSearchParams = origin
+    ? { ...searchParams, postcode: '', ...origin, radiusKm: searchParams.radiusKm || DEFAULT_RADIUS_KM }
+    : searchParams;
+
   // Fetch sessions based on search params
   const { data: sessions = [], isLoading, error } = useQuery({
-    queryKey: ['/api/sessions/search', searchParams],
+    queryKey: ['/api/sessions/search', sessionSearchParams],
     queryFn: async () => {
       const params = new URLSearchParams();
-      Object.entries(searchParams).forEach(([key, value]) => {
+      Object.entries(sessionSearchParams).forEach(([key, value]) => {
         if (value) params.set(key, value);
       });
       
@@ -59,17 +87,18 @@ export default function SearchPage() {
     },
   });
 
-  // Convert sessions to map locations
+  // Convert sessions to map locations, marking each at the site it runs at
   const sessionLocations: SessionLocation[] = sessions.map((session: FitnessSessionWithDetails) => ({
     id: session.id,
     title: session.title,
-    business: session.business?.name || '',
-    latitude: parseFloat(session.business?.latitude || '51.5074'),
-    longitude: parseFloat(session.business?.longitude || '-0.1278'),
+    business: session.location ? `${session.business?.name} – ${session.location.name}` : session.business?.name || '',
+    latitude: parseFloat(session.location?.latitude || session.business?.latitude || '51.5074'),
+    longitude: parseFloat(session.location?.longitude || session.business?.longitude || '-0.1278'),
     price: parseFloat(session.price),
-    rating: 4.8, // TODO: Calculate from reviews
+    rating: session.ratingCount > 0 ? parseFloat(session.ratingAverage) : 0,
     difficulty: session.difficulty,
     sessionType: session.sessionType?.name || '',
+    imageUrl: session.business?.coverImage?.thumbnail,
   }));
 
   const handleSearch = () => {
@@ -96,14 +125,27 @@ export default function SearchPage() {
     }
   };
 
+  const handleUseMyLocation = () => {
+    if (!navigator.geolocation) return;
+    navigator.geolocation.getCurrentPosition((position) => {
+      setSearchParams({
+        ...searchParams,
+        postcode: '',
+        lat: position.coords.latitude.toFixed(6),
+        lng: position.coords.longitude.toFixed(6),
+        radiusKm: searchParams.radiusKm || DEFAULT_RADIUS_KM,
+        sort: 'distance',
+      });
+      setMapCenter([position.coords.latitude, position.coords.longitude]);
+    });
+  };
+
   // Update map center when postcode changes
   useEffect(() => {
-    if (searchParams.postcode) {
-      // TODO: Implement postcode geocoding
-      // For now, default to London
-      setMapCenter([51.5074, -0.1278]);
+    if (postcodeLocation) {
+      setMapCenter([postcodeLocation.latitude, postcodeLocation.longitude]);
     }
-  }, [searchParams.postcode]);
+  }, [postcodeLocation]);
 
   return (
     <div className="min-h-screen bg-white">
@@ -123,6 +165,12 @@ export default function SearchPage() {
                     ageGroup: '',
                     difficulty: '',
                     priceRange: '',
+                    lat: '',
+                    lng: '',
+                    radiusKm: '',
+                    minRating: '',
+                    instructor: '',
+                    sort: '',
                   });
                 }}
                 className="text-primary"
@@ -138,12 +186,31 @@ export default function SearchPage() {
                 <Input
                   placeholder="Enter postcode"
                   value={searchParams.postcode}
-                  onChange={(e) => setSearchParams({...searchParams, postcode: e.target.value})}
+                  onChange={(e) => setSearchParams({...searchParams, postcode: e.target.value, lat: '', lng: ''})}
                 />
                 <Button onClick={handleSearch} size="sm">
                   <Search className="w-4 h-4" />
                 </Button>
               </div>
+              <Button variant="link" size="sm" className="px-0 text-primary" onClick={handleUseMyLocation}>
+                <LocateFixed className="w-4 h-4 mr-1" />
+                Use my location
+              </Button>
+              {origin && (
+                <Select
+                  value={searchParams.radiusKm || DEFAULT_RADIUS_KM}
+                  onValueChange={(value) => setSearchParams({ ...searchParams, radiusKm: value })}
+                >
+                  <SelectTrigger className="mt-2">
+                    <SelectValue placeholder="Distance" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {['2', '5', '10', '25', '50'].map((km) => (
+                      <SelectItem key={km} value={km}>Within {km} km</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
             </div>
 
             {/* Activity Type Filter */}
@@ -245,6 +312,41 @@ export default function SearchPage() {
                 ))}
               </div>
             </div>
+
+            {/* Rating Filter */}
+            <div>
+              <Label className="text-sm font-medium text-neutral-800 mb-3 block">Rating</Label>
+              <div className="space-y-2">
+                {['4.5', '4', '3'].map((minRating) => (
+                  <div key={minRating} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`rating-${minRating}`}
+                      checked={searchParams.minRating === minRating}
+                      onCheckedChange={(checked) => {
+                        setSearchParams({
+                          ...searchParams,
+                          minRating: checked ? minRating : ''
+                        });
+                      }}
+                    />
+                    <Label htmlFor={`rating-${minRating}`} className="text-sm text-neutral-600 cursor-pointer">
+                      {minRating}+ stars
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Instructor Filter */}
+            <div>
+              <Label htmlFor="instructor" className="text-sm font-medium text-neutral-800 mb-2 block">Instructor</Label>
+              <Input
+                id="instructor"
+                placeholder="Instructor name"
+                value={searchParams.instructor}
+                onChange={(e) => setSearchParams({ ...searchParams, instructor: e.target.value })}
+              />
+            </div>
           </div>
         </div>
 
@@ -268,13 +370,16 @@ export default function SearchPage() {
                     Filters
                   </Button>
                 </div>
-                <Select defaultValue="relevance">
+                <Select
+                  value={searchParams.sort || 'relevance'}
+                  onValueChange={(value) => setSearchParams({ ...searchParams, sort: value === 'relevance' ? '' : value })}
+                >
                   <SelectTrigger className="w-48">
                     <SelectValue placeholder="Sort by" />
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="relevance">Relevance</SelectItem>
-                    <SelectItem value="distance">Distance</SelectItem>
+                    <SelectItem value="distance" disabled={!origin}>Distance</SelectItem>
                     <SelectItem value="price-low">Price: Low to High</SelectItem>
                     <SelectItem value="price-high">Price: High to Low</SelectItem>
                     <SelectItem value="rating">Rating</SelectItem>
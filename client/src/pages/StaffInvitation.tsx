@@ -0,0 +1,89 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation, useParams } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { AlertCircle, Users } from "lucide-react";
+import { StaffInvitation as StaffInvitationDetails } from "@shared/schema";
+
+// Reached from the link in a staff invitation email
+export default function StaffInvitation() {
+  const { token = "" } = useParams<{ token: string }>();
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+
+  const { data: invitation, isLoading } = useQuery<StaffInvitationDetails>({
+    queryKey: [`/api/staff/invitations/${token}`],
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/staff/invitations/${token}/accept`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Welcome to the Team!",
+        description: `You're now on the staff at ${invitation?.business.name}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      setLocation("/teaching");
+    },
+    onError: (error) => {
+      toast({
+        title: "Couldn't Accept Invitation",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-neutral-50 flex items-center justify-center px-4">
+      <Card className="w-full max-w-md">
+        {!invitation ? (
+          <CardContent className="p-8 text-center">
+            <AlertCircle className="w-12 h-12 text-yellow-500 mx-auto mb-4" />
+            <h1 className="text-xl font-bold text-neutral-800 mb-2">Invitation Not Found</h1>
+            <p className="text-neutral-600">
+              This invitation has already been used or was withdrawn. Ask the business to send you a new one.
+            </p>
+          </CardContent>
+        ) : (
+          <>
+            <CardHeader className="text-center">
+              <Users className="w-12 h-12 text-primary mx-auto mb-2" />
+              <CardTitle>Join {invitation.business.name}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4 text-center">
+              <p className="text-neutral-600">
+                You've been invited to teach at {invitation.business.name} as <strong>{invitation.displayName}</strong>.
+                Once you've joined you can see your classes and who's booked in.
+              </p>
+              {isAuthenticated ? (
+                <Button className="w-full" onClick={() => acceptMutation.mutate()} disabled={acceptMutation.isPending}>
+                  {acceptMutation.isPending ? "Joining..." : "Accept Invitation"}
+                </Button>
+              ) : (
+                <Button className="w-full" onClick={() => window.location.href = "/api/login"}>
+                  Log In to Accept
+                </Button>
+              )}
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import ClassScheduleCard from "@/components/ClassScheduleCard";
+
+// The classes a staff member is teaching, with who's booked into each
+export default function TeachingSchedule() {
+  return (
+    <div className="min-h-screen bg-neutral-50">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-neutral-800">Teaching Schedule</h1>
+          <p className="text-neutral-600 mt-1">The classes you're teaching, including any you're covering</p>
+        </div>
+        <ClassScheduleCard title="Your Classes" endpoint="/api/staff/schedule" />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import { useQuery } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Award, Clock, MapPin, PoundSterling, User } from "lucide-react";
+import MapComponent from "@/components/MapComponent";
+import StarRating from "@/components/StarRating";
+import ReviewList from "@/components/ReviewList";
+import TrainerBookingWidget from "@/components/TrainerBookingWidget";
+import GiftVoucherPurchaseCard from "@/components/GiftVoucherPurchaseCard";
+import NotFound from "@/pages/not-found";
+import { PhotoWithUrls, PublicPersonalTrainer, ReviewWithAuthor } from "@shared/schema";
+
+function toStringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+}
+
+// Roughly the zoom at which a circle of this radius fills a small map
+function zoomForRadius(radiusKm: number): number {
+  return Math.max(5, Math.min(14, Math.round(13 - Math.log2(radiusKm / 1.5))));
+}
+
+export default function TrainerProfile() {
+  const { id } = useParams<{ id: string }>();
+
+  const { data: trainer, isLoading } = useQuery<PublicPersonalTrainer>({
+    queryKey: [`/api/personal-trainers/${id}`],
+  });
+
+  const { data: photos = [] } = useQuery<PhotoWithUrls[]>({
+    queryKey: [`/api/personal-trainers/${id}/photos`],
+    enabled: !!trainer,
+  });
+
+  const { data: reviews = [] } = useQuery<ReviewWithAuthor[]>({
+    queryKey: [`/api/personal-trainers/${id}/reviews`],
+    enabled: !!trainer,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  if (!trainer) {
+    return <NotFound />;
+  }
+
+  const name = `${trainer.firstName} ${trainer.lastName}`;
+  const latitude = trainer.latitude ? parseFloat(trainer.latitude) : null;
+  const longitude = trainer.longitude ? parseFloat(trainer.longitude) : null;
+  const specialties = toStringList(trainer.specialties);
+  const certifications = toStringList(trainer.certifications);
+
+  return (
+    <div className="min-h-screen bg-neutral-50">
+      {trainer.coverImage && (
+        <img src={trainer.coverImage.hero} alt={name} className="w-full h-64 md:h-80 object-cover" />
+      )}
+
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <div className="flex items-center gap-6">
+          <div className="w-24 h-24 bg-neutral-200 rounded-full flex items-center justify-center overflow-hidden shrink-0">
+            {trainer.profileImageUrl ? (
+              <img src={trainer.profileImageUrl} alt={name} className="w-full h-full object-cover" />
+            ) : (
+              <User className="w-12 h-12 text-neutral-500" />
+            )}
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold text-neutral-800 mb-2">{name}</h1>
+            <div className="flex flex-wrap items-center gap-4 text-sm text-neutral-600">
+              <StarRating average={trainer.ratingAverage} count={trainer.ratingCount} />
+              {trainer.location && (
+                <span className="flex items-center">
+                  <MapPin className="w-4 h-4 mr-1" />
+                  {trainer.location}
+                </span>
+              )}
+              {trainer.experience && (
+                <span className="flex items-center">
+                  <Clock className="w-4 h-4 mr-1" />
+                  {trainer.experience} years experience
+                </span>
+              )}
+              {trainer.hourlyRate && (
+                <span className="flex items-center font-semibold text-green-600">
+                  <PoundSterling className="w-4 h-4 mr-1" />
+                  {trainer.hourlyRate}/hour
+                </span>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <div className="lg:col-span-2 space-y-8">
+            <Card>
+              <CardHeader>
+                <CardTitle>About</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {trainer.bio && <p className="text-neutral-700 whitespace-pre-line">{trainer.bio}</p>}
+                {specialties.length > 0 && (
+                  <div>
+                    <p className="text-xs font-medium text-neutral-800 mb-2">Specialties</p>
+                    <div className="flex flex-wrap gap-2">
+                      {specialties.map((specialty) => (
+                        <Badge key={specialty} variant="secondary">{specialty}</Badge>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                {certifications.length > 0 && (
+                  <div>
+                    <p className="text-xs font-medium text-neutral-800 mb-2">Certifications</p>
+                    <ul className="space-y-1">
+                      {certifications.map((certification) => (
+                        <li key={certification} className="flex items-center text-sm text-neutral-700">
+                          <Award className="w-4 h-4 mr-2 text-primary" />
+                          {certification}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {photos.length > 0 && (
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                {photos.map((photo) => (
+                  <a key={photo.id} href={photo.urls.hero} target="_blank" rel="noopener noreferrer">
+                    <img src={photo.urls.card} alt="" loading="lazy" className="w-full aspect-[16/10] object-cover rounded-lg" />
+                  </a>
+                ))}
+              </div>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Reviews</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ReviewList reviews={reviews} responderName={trainer.firstName} />
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="space-y-8">
+            <TrainerBookingWidget trainer={trainer} />
+            {trainer.acceptsPayments && (
+              <GiftVoucherPurchaseCard
+                provider={{ trainerId: trainer.id }}
+                providerName={`${trainer.firstName} ${trainer.lastName}`}
+              />
+            )}
+
+            {latitude !== null && longitude !== null && (
+              <Card className="overflow-hidden">
+                <CardHeader>
+                  <CardTitle>Area Covered</CardTitle>
+                </CardHeader>
+                <MapComponent
+                  center={[latitude, longitude]}
+                  zoom={trainer.travelRadius ? zoomForRadius(trainer.travelRadius) : 12}
+                  radiusKm={trainer.travelRadius ?? undefined}
+                  interactive={false}
+                  className="w-full h-64"
+                />
+                {trainer.travelRadius && (
+                  <p className="text-sm text-neutral-600 p-4">
+                    Travels up to {trainer.travelRadius}km from {trainer.location || "their base"}.
+                  </p>
+                )}
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
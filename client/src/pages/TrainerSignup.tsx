@@ -14,6 +14,8 @@ import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
+import DocumentUploadField from "@/components/DocumentUploadField";
+import { UploadedFileSummary } from "@shared/schema";
 import { X, Plus, User, Award, MapPin, DollarSign, Clock } from "lucide-react";
 
 const trainerSchema = z.object({
@@ -49,9 +51,9 @@ const certificationOptions = [
 ];
 
 const timeOptions = [
-  { value: "morning", label: "Morning (6AM - 12PM)" },
-  { value: "afternoon", label: "Afternoon (12PM - 6PM)" },
-  { value: "evening", label: "Evening (6PM - 10PM)" }
+  { value: "morning", label: "Morning (6AM - 12PM)", startTime: "06:00", endTime: "12:00" },
+  { value: "afternoon", label: "Afternoon (12PM - 6PM)", startTime: "12:00", endTime: "18:00" },
+  { value: "evening", label: "Evening (6PM - 10PM)", startTime: "18:00", endTime: "22:00" }
 ];
 
 const sessionTypeOptions = [
@@ -67,6 +69,7 @@ export default function TrainerSignup() {
   const { toast } = useToast();
   const [selectedSpecialties, setSelectedSpecialties] = useState<string[]>([]);
   const [selectedCertifications, setSelectedCertifications] = useState<string[]>([]);
+  const [certificationFiles, setCertificationFiles] = useState<UploadedFileSummary[]>([]);
   const [selectedDays, setSelectedDays] = useState<number[]>([]);
   const [selectedTimes, setSelectedTimes] = useState<string[]>([]);
   const [selectedSessionTypes, setSelectedSessionTypes] = useState<string[]>([]);
@@ -93,7 +96,17 @@ export default function TrainerSignup() {
 
   const createTrainerMutation = useMutation({
     mutationFn: async (data: TrainerFormData) => {
-      const response = await apiRequest("POST", "/api/personal-trainers", data);
+      // Seed bookable weekly availability from the chosen days and times of day
+      const weeklyAvailability = data.availableDays.flatMap((dayOfWeek) =>
+        timeOptions
+          .filter((time) => data.preferredTimes.includes(time.value))
+          .map((time) => ({ dayOfWeek, startTime: time.startTime, endTime: time.endTime }))
+      );
+      const response = await apiRequest("POST", "/api/personal-trainers", {
+        ...data,
+        weeklyAvailability,
+        certificationDocuments: certificationFiles.map((file) => file.id),
+      });
       return response.json();
     },
     onSuccess: () => {
@@ -342,6 +355,18 @@ export default function TrainerSignup() {
                   ))}
                 </div>
               </div>
+
+              <div>
+                <Label>Certificate Copies</Label>
+                <p className="text-sm text-neutral-600 mb-2">
+                  Upload your certificates so we can verify them. They're only visible to our review team.
+                </p>
+                <DocumentUploadField
+                  purpose="trainer_certification"
+                  files={certificationFiles}
+                  onChange={setCertificationFiles}
+                />
+              </div>
             </CardContent>
           </Card>
 
@@ -0,0 +1,36 @@
+import { readFileSync } from 'fs';
+import Stripe from 'stripe';
+
+// Replays a recorded Stripe event against a running server, signed the way Stripe signs webhooks, e.g.
+//   node scripts/replay-stripe-event.js scripts/stripe-fixtures/invoice.paid.json '{"subscription":"sub_123"}'
+// The optional JSON is merged into the event's data.object so it can point at records in your database.
+
+const [fixturePath, overrides] = process.argv.slice(2);
+if (!fixturePath) {
+  console.error('Usage: node scripts/replay-stripe-event.js <fixture.json> [data.object overrides as JSON]');
+  process.exit(1);
+}
+
+if (!process.env.STRIPE_WEBHOOK_SECRET) {
+  throw new Error("STRIPE_WEBHOOK_SECRET must be set to the secret the server verifies with");
+}
+
+const event = JSON.parse(readFileSync(fixturePath, 'utf8'));
+if (overrides) {
+  Object.assign(event.data.object, JSON.parse(overrides));
+}
+
+const payload = JSON.stringify(event);
+const signature = Stripe.webhooks.generateTestHeaderString({
+  payload,
+  secret: process.env.STRIPE_WEBHOOK_SECRET,
+});
+
+const url = `${process.env.WEBHOOK_URL || 'http://localhost:5000'}/api/stripe/webhook`;
+const response = await fetch(url, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json', 'Stripe-Signature': signature },
+  body: payload,
+});
+
+console.log(`${event.type} -> ${response.status} ${await response.text()}`);
@@ -0,0 +1,65 @@
+import { storage } from "./storage";
+import { sendEmail, escapeHtml } from "./emailService";
+import { formatOccurrenceTime } from "./occurrences";
+import { offerFreedSpots } from "./waitlist";
+
+// Confirms a booking once its payment has cleared and sends the customer their confirmation.
+// Safe to call more than once: only the call that moves the booking out of 'pending' sends the email.
+export async function confirmBookingPayment(bookingId: number): Promise<void> {
+  const booking = await storage.transitionBookingStatus(bookingId, 'pending', 'confirmed');
+  if (!booking) return;
+
+  await sendBookingConfirmation(booking.id);
+}
+
+export async function sendBookingConfirmation(bookingId: number): Promise<void> {
+  const bookingDetails = await storage.getBookingById(bookingId);
+  if (!bookingDetails?.user.email) return;
+
+  const payment = bookingDetails.creditPurchaseId
+    ? `<p><strong>Paid with:</strong> 1 class credit</p>`
+    : bookingDetails.membershipId
+      ? `<p><strong>Paid with:</strong> Your membership</p>`
+      : `<p><strong>Total:</strong> £${bookingDetails.totalAmount}</p>`;
+  const guests = bookingDetails.guests ?? [];
+
+  await sendEmail({
+    to: bookingDetails.user.email,
+    subject: 'Booking Confirmation - MYLES',
+    html: `
+      <h2>Booking Confirmed!</h2>
+      <p>Your booking has been confirmed for:</p>
+      <p><strong>Session:</strong> ${escapeHtml(bookingDetails.session.title)}</p>
+      <p><strong>Date:</strong> ${formatOccurrenceTime(bookingDetails.sessionDate)}</p>
+      ${guests.length > 0 ? `<p><strong>Guests:</strong> ${guests.map(guest => escapeHtml(guest.name)).join(', ')}</p>` : ''}
+      ${payment}
+      <p>Thank you for choosing MYLES!</p>
+    `
+  });
+}
+
+// Releases the spot held by a booking whose payment failed
+export async function failBookingPayment(bookingId: number): Promise<void> {
+  const booking = await storage.transitionBookingStatus(bookingId, 'pending', 'cancelled');
+  if (!booking) return;
+
+  await storage.restoreGiftVoucherBalance({ bookingId: booking.id }, 100);
+  if (booking.occurrenceId) {
+    await offerFreedSpots(booking.occurrenceId);
+  }
+
+  const bookingDetails = await storage.getBookingById(booking.id);
+  if (!bookingDetails?.user.email) return;
+
+  await sendEmail({
+    to: bookingDetails.user.email,
+    subject: 'Payment Failed - MYLES',
+    html: `
+      <h2>Payment Failed</h2>
+      <p>We couldn't take payment for your booking, so it has been cancelled:</p>
+      <p><strong>Session:</strong> ${escapeHtml(bookingDetails.session.title)}</p>
+      <p><strong>Date:</strong> ${formatOccurrenceTime(bookingDetails.sessionDate)}</p>
+      <p>You're welcome to book again with a different payment method.</p>
+    `
+  });
+}
@@ -0,0 +1,46 @@
+export interface CancellationPolicy {
+  freeCancellationHours: number;
+  lateCancellationRefundPercent: number;
+}
+
+export interface CancellationOutcome {
+  allowed: boolean;
+  withinFreeWindow: boolean;
+  refundPercent: number;
+  message?: string;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export function evaluateCancellation(
+  policy: CancellationPolicy,
+  startsAt: Date,
+  now: Date = new Date(),
+): CancellationOutcome {
+  if (startsAt <= now) {
+    return {
+      allowed: false,
+      withinFreeWindow: false,
+      refundPercent: 0,
+      message: "This session has already started",
+    };
+  }
+
+  const hoursUntilStart = (startsAt.getTime() - now.getTime()) / HOUR_MS;
+  const withinFreeWindow = hoursUntilStart >= policy.freeCancellationHours;
+
+  return {
+    allowed: true,
+    withinFreeWindow,
+    refundPercent: withinFreeWindow ? 100 : policy.lateCancellationRefundPercent,
+  };
+}
+
+// Moving a booking is only free while it could still be cancelled for a full refund
+export function canReschedule(policy: CancellationPolicy, startsAt: Date, now: Date = new Date()): boolean {
+  return evaluateCancellation(policy, startsAt, now).withinFreeWindow;
+}
+
+export function calculateRefundAmount(totalAmount: string, refundPercent: number): number {
+  return Math.round(parseFloat(totalAmount) * refundPercent) / 100;
+}
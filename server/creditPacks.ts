@@ -0,0 +1,63 @@
+import type Stripe from "stripe";
+import type { CreditPack, CreditPurchase } from "@shared/schema";
+import { storage } from "./storage";
+import { sendEmail, escapeHtml } from "./emailService";
+import { formatOccurrenceTime } from "./occurrences";
+import { fromMinorUnits } from "./pricing";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getCreditExpiry(pack: Pick<CreditPack, 'expiryDays'>, purchasedAt: Date = new Date()): Date | null {
+  return pack.expiryDays ? new Date(purchasedAt.getTime() + pack.expiryDays * DAY_MS) : null;
+}
+
+// Turns a succeeded class pack payment into credits and emails the customer a receipt. Called when the
+// customer returns from paying and again from the webhook; only the first call adds credits or sends email.
+export async function fulfilCreditPackPayment(paymentIntent: Stripe.PaymentIntent): Promise<CreditPurchase | undefined> {
+  const creditPackId = parseInt(paymentIntent.metadata.creditPackId);
+  if (!creditPackId || paymentIntent.status !== 'succeeded') return undefined;
+
+  const pack = await storage.getCreditPackById(creditPackId);
+  if (!pack) return undefined;
+
+  const destination = paymentIntent.transfer_data?.destination;
+  const purchase = await storage.createCreditPurchase({
+    userId: paymentIntent.metadata.userId,
+    businessId: pack.businessId,
+    creditPackId: pack.id,
+    credits: pack.credits,
+    creditsRemaining: pack.credits,
+    sessionTypeIds: pack.sessionTypeIds,
+    expiresAt: getCreditExpiry(pack),
+    paymentIntentId: paymentIntent.id,
+    applicationFeeAmount: paymentIntent.application_fee_amount === null
+      ? null
+      : fromMinorUnits(paymentIntent.application_fee_amount).toFixed(2),
+    transferDestination: typeof destination === 'string' ? destination : destination?.id ?? null,
+    totalAmount: fromMinorUnits(paymentIntent.amount).toFixed(2),
+  });
+  if (!purchase) {
+    return storage.getCreditPurchaseByPaymentIntentId(paymentIntent.id);
+  }
+
+  const [user, business] = await Promise.all([
+    storage.getUser(purchase.userId),
+    storage.getBusinessById(purchase.businessId),
+  ]);
+  if (user?.email && business) {
+    await sendEmail({
+      to: user.email,
+      subject: 'Your Class Pack - MYLES',
+      html: `
+        <h2>Your class pack is ready</h2>
+        <p><strong>Pack:</strong> ${escapeHtml(pack.name)}</p>
+        <p><strong>Business:</strong> ${escapeHtml(business.name)}</p>
+        <p><strong>Credits:</strong> ${purchase.credits}</p>
+        <p><strong>Valid until:</strong> ${purchase.expiresAt ? formatOccurrenceTime(purchase.expiresAt) : 'No expiry'}</p>
+        <p><strong>Total:</strong> £${purchase.totalAmount}</p>
+        <p>Choose "Use a class credit" when you book to spend one.</p>
+      `
+    });
+  }
+  return purchase;
+}
@@ -16,6 +16,16 @@ interface EmailParams {
   html?: string;
 }
 
+// Text customers typed, like a gift message or a guest's name, goes into emails as text rather than markup.
+// Missing optional fields come out empty.
+export function escapeHtml(text: string | null | undefined): string {
+  return (text ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
 export async function sendEmail(params: EmailParams): Promise<boolean> {
   if (!process.env.SENDGRID_API_KEY) {
     console.log("Email would be sent:", params.subject, "to", params.to);
@@ -0,0 +1,217 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand, NoSuchKey } from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import type { UploadedFile, UploadedFileLink } from "@shared/schema";
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+// Download links are handed to admins on demand, so they only need to outlive a page view
+export const DOWNLOAD_LINK_TTL_SECONDS = 15 * 60;
+
+export const UPLOAD_PURPOSES = ['business_claim', 'trainer_certification'] as const;
+export type UploadPurpose = typeof UPLOAD_PURPOSES[number];
+
+// Thrown when an upload is missing, too large or not an accepted document type
+export class UploadError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "UploadError";
+  }
+}
+
+interface FileType {
+  mimeType: string;
+  extension: string;
+}
+
+// Accepted document types, recognised from the file's leading bytes rather than the browser-supplied type
+const FILE_SIGNATURES: (FileType & { matches: (buffer: Buffer) => boolean })[] = [
+  {
+    mimeType: 'application/pdf',
+    extension: '.pdf',
+    matches: (buffer) => buffer.subarray(0, 5).toString('latin1') === '%PDF-',
+  },
+  {
+    mimeType: 'image/jpeg',
+    extension: '.jpg',
+    matches: (buffer) => buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff,
+  },
+  {
+    mimeType: 'image/png',
+    extension: '.png',
+    matches: (buffer) => buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  },
+  {
+    mimeType: 'image/webp',
+    extension: '.webp',
+    matches: (buffer) =>
+      buffer.subarray(0, 4).toString('latin1') === 'RIFF' && buffer.subarray(8, 12).toString('latin1') === 'WEBP',
+  },
+];
+
+export const ALLOWED_UPLOAD_TYPES = FILE_SIGNATURES.map((signature) => signature.mimeType);
+
+export function detectFileType(buffer: Buffer): FileType | undefined {
+  const signature = FILE_SIGNATURES.find((candidate) => candidate.matches(buffer));
+  return signature && { mimeType: signature.mimeType, extension: signature.extension };
+}
+
+// Keys are generated by us, so anything else reaching the download route is rejected outright
+const STORAGE_KEY_PATTERN = /^[\w-]+\.[a-z]+$/;
+
+export function isValidStorageKey(key: string): boolean {
+  return STORAGE_KEY_PATTERN.test(key);
+}
+
+// Keeps the suggested download name safe to put in a Content-Disposition header
+function toDownloadName(fileName: string): string {
+  return fileName.replace(/[^\w.\- ]/g, '_').slice(0, 200) || 'document';
+}
+
+export interface FileStore {
+  put(key: string, body: Buffer, mimeType: string): Promise<void>;
+  // Resolves to undefined when the file doesn't exist
+  read(key: string): Promise<Readable | undefined>;
+  delete(key: string): Promise<void>;
+  getDownloadUrl(key: string, fileName: string, expiresInSeconds: number): Promise<string>;
+}
+
+// Files on the server's disk, downloaded through /api/files with an HMAC-signed, expiring query string
+export class LocalDiskFileStore implements FileStore {
+  constructor(private readonly root: string) {}
+
+  private get signingSecret(): string {
+    const secret = process.env.FILE_SIGNING_SECRET || process.env.SESSION_SECRET;
+    if (!secret) {
+      throw new Error('Missing FILE_SIGNING_SECRET (or SESSION_SECRET) for signing download links');
+    }
+    return secret;
+  }
+
+  private sign(key: string, fileName: string, expires: number): string {
+    return crypto
+      .createHmac('sha256', this.signingSecret)
+      .update(`${key}\n${fileName}\n${expires}`)
+      .digest('hex');
+  }
+
+  resolvePath(key: string): string {
+    if (!isValidStorageKey(key)) {
+      throw new UploadError("Invalid file key");
+    }
+    return path.join(this.root, key);
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    await fs.promises.mkdir(this.root, { recursive: true });
+    await fs.promises.writeFile(this.resolvePath(key), body, { flag: 'wx' });
+  }
+
+  async read(key: string): Promise<Readable | undefined> {
+    const filePath = this.resolvePath(key);
+    try {
+      await fs.promises.access(filePath);
+    } catch {
+      return undefined;
+    }
+    return fs.createReadStream(filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolvePath(key), { force: true });
+  }
+
+  async getDownloadUrl(key: string, fileName: string, expiresInSeconds: number): Promise<string> {
+    const name = toDownloadName(fileName);
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    const params = new URLSearchParams({
+      name,
+      expires: expires.toString(),
+      signature: this.sign(key, name, expires),
+    });
+    return `/api/files/${encodeURIComponent(key)}?${params}`;
+  }
+
+  verifyDownload(key: string, fileName: string, expires: number, signature: string): boolean {
+    if (!isValidStorageKey(key) || !Number.isFinite(expires) || expires < Date.now() / 1000) {
+      return false;
+    }
+    const expected = Buffer.from(this.sign(key, fileName, expires));
+    const provided = Buffer.from(signature);
+    return expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+  }
+}
+
+// AWS S3 or any S3-compatible server such as MinIO; S3_ENDPOINT switches to path-style addressing
+export class S3FileStore implements FileStore {
+  private readonly client: S3Client;
+
+  constructor(private readonly bucket: string) {
+    this.client = new S3Client({
+      region: process.env.S3_REGION || 'us-east-1',
+      ...(process.env.S3_ENDPOINT && {
+        endpoint: process.env.S3_ENDPOINT,
+        forcePathStyle: true,
+      }),
+      ...(process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY && {
+        credentials: {
+          accessKeyId: process.env.S3_ACCESS_KEY_ID,
+          secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+        },
+      }),
+    });
+  }
+
+  async put(key: string, body: Buffer, mimeType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: body,
+      ContentType: mimeType,
+    }));
+  }
+
+  async read(key: string): Promise<Readable | undefined> {
+    try {
+      const object = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      return object.Body as Readable;
+    } catch (error) {
+      if (error instanceof NoSuchKey) return undefined;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+
+  async getDownloadUrl(key: string, fileName: string, expiresInSeconds: number): Promise<string> {
+    return getSignedUrl(
+      this.client,
+      new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        ResponseContentDisposition: `attachment; filename="${toDownloadName(fileName)}"`,
+      }),
+      { expiresIn: expiresInSeconds },
+    );
+  }
+}
+
+// Uploads go to S3 when a bucket is configured, otherwise to UPLOAD_DIR on local disk
+export const fileStore: FileStore = process.env.S3_BUCKET
+  ? new S3FileStore(process.env.S3_BUCKET)
+  : new LocalDiskFileStore(process.env.UPLOAD_DIR || path.resolve('data/uploads'));
+
+export async function linkUploadedFiles(files: UploadedFile[]): Promise<UploadedFileLink[]> {
+  return Promise.all(files.map(async (file) => ({
+    id: file.id,
+    originalName: file.originalName,
+    mimeType: file.mimeType,
+    size: file.size,
+    url: await fileStore.getDownloadUrl(file.storageKey, file.originalName, DOWNLOAD_LINK_TTL_SECONDS),
+  })));
+}
@@ -0,0 +1,375 @@
+import fs from "fs";
+import path from "path";
+import readline from "readline";
+import { log } from "./vite";
+
+// Mirrors the postcodes.io response shape the client already works with
+export interface PostcodeResult {
+  postcode: string;
+  latitude: number;
+  longitude: number;
+  admin_district: string;
+  admin_county: string;
+  admin_ward: string;
+  parish: string;
+  parliamentary_constituency: string;
+  ccg: string;
+  ced: string;
+  nuts: string;
+  codes: {
+    admin_district: string;
+    admin_county: string;
+    admin_ward: string;
+    parish: string;
+    parliamentary_constituency: string;
+    ccg: string;
+    ced: string;
+    nuts: string;
+  };
+}
+
+export interface OutcodeResult {
+  outcode: string;
+  latitude: number;
+  longitude: number;
+  admin_district: string[];
+}
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+// Thrown when the ONS postcode file hasn't been provided or can't be read
+export class PostcodeDataUnavailableError extends Error {
+  constructor(message = "Postcode data is not available") {
+    super(message);
+    this.name = "PostcodeDataUnavailableError";
+  }
+}
+
+const CODE_FIELDS = [
+  'admin_district',
+  'admin_county',
+  'admin_ward',
+  'parish',
+  'parliamentary_constituency',
+  'ccg',
+  'ced',
+  'nuts',
+] as const;
+
+// ONSPD column for each code; later releases renamed ccg to sicbl and nuts to itl
+const ONSPD_COLUMNS: Record<typeof CODE_FIELDS[number], string[]> = {
+  admin_district: ['oslaua'],
+  admin_county: ['oscty'],
+  admin_ward: ['osward'],
+  parish: ['parish'],
+  parliamentary_constituency: ['pcon'],
+  ccg: ['ccg', 'sicbl'],
+  ced: ['ced'],
+  nuts: ['nuts', 'itl'],
+};
+
+interface OutcodeAccumulator {
+  latitudeSum: number;
+  longitudeSum: number;
+  count: number;
+  districts: Set<string>;
+}
+
+// Held as parallel arrays rather than an object per postcode, which keeps the full ONSPD's 1.8 million or so
+// live postcodes to about 200MB (see the README).
+interface PostcodeData {
+  keys: string[]; // compact postcodes, sorted, for exact and prefix lookups
+  latitudes: Float64Array; // in keys order
+  longitudes: Float64Array;
+  codeIndexes: Uint32Array; // CODE_FIELDS.length entries per postcode, into codeTable
+  codeTable: string[];
+  outcodes: Map<string, OutcodeResult>;
+  names: Map<string, string>;
+}
+
+const FULL_POSTCODE_PATTERN = /^[A-Z]{1,2}[0-9][A-Z0-9]?[0-9][A-Z]{2}$/;
+const OUTCODE_PATTERN = /^[A-Z]{1,2}[0-9][A-Z0-9]?$/;
+
+// "sw1a 1aa" / "SW1A1AA" -> "SW1A1AA"
+function compactPostcode(input: string): string {
+  return input.replace(/\s+/g, '').toUpperCase();
+}
+
+// "SW1A1AA" -> "SW1A 1AA"; the inward code is always the last three characters
+function formatPostcode(compact: string): string {
+  return `${compact.slice(0, -3)} ${compact.slice(-3)}`;
+}
+
+export function isFullPostcode(input: string): boolean {
+  return FULL_POSTCODE_PATTERN.test(compactPostcode(input));
+}
+
+export function isOutcode(input: string): boolean {
+  return OUTCODE_PATTERN.test(compactPostcode(input));
+}
+
+// ONSPD quotes every field, and names such as "Bath and North East Somerset" can contain commas
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+  return fields;
+}
+
+async function* readCsv(filePath: string): AsyncGenerator<string[]> {
+  const lines = readline.createInterface({
+    input: fs.createReadStream(filePath),
+    crlfDelay: Infinity,
+  });
+  for await (const line of lines) {
+    if (line.trim()) yield parseCsvLine(line);
+  }
+}
+
+// ONS ships area names as separate "<area> names and codes" CSVs whose first two columns are code and name
+async function loadAreaNames(directory: string): Promise<Map<string, string>> {
+  const names = new Map<string, string>();
+  if (!fs.existsSync(directory)) return names;
+
+  for (const file of fs.readdirSync(directory)) {
+    if (!file.toLowerCase().endsWith('.csv')) continue;
+    let isHeader = true;
+    for await (const [code, name] of readCsv(path.join(directory, file))) {
+      if (isHeader) {
+        isHeader = false;
+        continue;
+      }
+      if (code && name) names.set(code, name);
+    }
+  }
+  return names;
+}
+
+async function loadPostcodeFile(filePath: string): Promise<PostcodeData> {
+  if (!fs.existsSync(filePath)) {
+    throw new PostcodeDataUnavailableError(`Postcode data file not found at ${filePath}`);
+  }
+
+  const rowKeys: string[] = [];
+  const rowLatitudes: number[] = [];
+  const rowLongitudes: number[] = [];
+  const rowCodes: number[] = [];
+  const outcodeTotals = new Map<string, OutcodeAccumulator>();
+  // Area codes repeat across hundreds of thousands of rows, so each postcode stores an index into one table
+  const codeTable: string[] = [];
+  const codeIndexByCode = new Map<string, number>();
+  const codeIndex = (code: string) => {
+    let index = codeIndexByCode.get(code);
+    if (index === undefined) {
+      index = codeTable.push(code) - 1;
+      codeIndexByCode.set(code, index);
+    }
+    return index;
+  };
+
+  let columns: Record<string, number> | null = null;
+  for await (const fields of readCsv(filePath)) {
+    if (!columns) {
+      columns = Object.fromEntries(fields.map((name, index) => [name.trim().toLowerCase(), index]));
+      if (columns.pcds === undefined || columns.lat === undefined || columns.long === undefined) {
+        throw new PostcodeDataUnavailableError(`${filePath} is missing the pcds, lat or long columns`);
+      }
+      continue;
+    }
+
+    // Skip terminated postcodes and ones ONS couldn't place (recorded as lat 99.999999)
+    if (columns.doterm !== undefined && fields[columns.doterm]) continue;
+    const latitude = parseFloat(fields[columns.lat]);
+    const longitude = parseFloat(fields[columns.long]);
+    if (isNaN(latitude) || isNaN(longitude) || latitude > 90) continue;
+
+    const key = compactPostcode(fields[columns.pcds]);
+    const codes = CODE_FIELDS.map((field) => {
+      const column = ONSPD_COLUMNS[field].find((name) => columns![name] !== undefined);
+      return column ? fields[columns![column]] || '' : '';
+    });
+    rowKeys.push(key);
+    rowLatitudes.push(latitude);
+    rowLongitudes.push(longitude);
+    for (const code of codes) rowCodes.push(codeIndex(code));
+
+    const outcode = key.slice(0, -3);
+    const totals = outcodeTotals.get(outcode) || { latitudeSum: 0, longitudeSum: 0, count: 0, districts: new Set<string>() };
+    totals.latitudeSum += latitude;
+    totals.longitudeSum += longitude;
+    totals.count++;
+    totals.districts.add(codes[0]);
+    outcodeTotals.set(outcode, totals);
+  }
+
+  const names = await loadAreaNames(process.env.POSTCODE_NAMES_DIR || path.join(path.dirname(filePath), 'names'));
+
+  const outcodes = new Map<string, OutcodeResult>();
+  outcodeTotals.forEach((totals, outcode) => {
+    outcodes.set(outcode, {
+      outcode,
+      latitude: totals.latitudeSum / totals.count,
+      longitude: totals.longitudeSum / totals.count,
+      admin_district: Array.from(totals.districts).map((code) => names.get(code) || code),
+    });
+  });
+
+  // ONSPD is ordered by its padded pcd column, which doesn't match the order of compact postcodes
+  const order = Uint32Array.from(rowKeys.keys()).sort((a, b) => (rowKeys[a] < rowKeys[b] ? -1 : rowKeys[a] > rowKeys[b] ? 1 : 0));
+  const keys: string[] = [];
+  const latitudes = new Float64Array(order.length);
+  const longitudes = new Float64Array(order.length);
+  const codeIndexes = new Uint32Array(order.length * CODE_FIELDS.length);
+  order.forEach((row, index) => {
+    keys.push(rowKeys[row]);
+    latitudes[index] = rowLatitudes[row];
+    longitudes[index] = rowLongitudes[row];
+    for (let offset = 0; offset < CODE_FIELDS.length; offset++) {
+      codeIndexes[index * CODE_FIELDS.length + offset] = rowCodes[row * CODE_FIELDS.length + offset];
+    }
+  });
+
+  return { keys, latitudes, longitudes, codeIndexes, codeTable, outcodes, names };
+}
+
+// Position of the first key that isn't before the given one
+function lowerBound(keys: string[], key: string): number {
+  let low = 0;
+  let high = keys.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (keys[mid] < key) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+// Index of a postcode in the dataset, or -1 if it isn't there
+function findPostcode(data: PostcodeData, postcode: string): number {
+  const key = compactPostcode(postcode);
+  const index = lowerBound(data.keys, key);
+  return data.keys[index] === key ? index : -1;
+}
+
+let postcodeData: Promise<PostcodeData> | null = null;
+let loadedPostcodeData: PostcodeData | null = null;
+
+// The dataset is read once, when the server starts (or on first lookup if that failed). Set POSTCODE_DATA_PATH
+// to an ONS Postcode Directory (ONSPD) CSV, or a regional extract of one with the same columns.
+function getPostcodeData(): Promise<PostcodeData> {
+  if (!postcodeData) {
+    const filePath = process.env.POSTCODE_DATA_PATH || path.resolve(process.cwd(), 'data', 'onspd.csv');
+    postcodeData = loadPostcodeFile(filePath).then((data) => {
+      loadedPostcodeData = data;
+      return data;
+    }).catch((error) => {
+      // Let a later request retry once the file is in place
+      postcodeData = null;
+      throw error instanceof PostcodeDataUnavailableError
+        ? error
+        : new PostcodeDataUnavailableError(`Failed to load postcode data: ${(error as Error).message}`);
+    });
+  }
+  return postcodeData;
+}
+
+// Starts reading the dataset at startup so no request has to wait for the whole file to load
+export function preloadPostcodeData(): void {
+  getPostcodeData().then(
+    (data) => log(`loaded ${data.keys.length} postcodes`, "geocoding"),
+    (error) => log(`postcode data unavailable: ${(error as Error).message}`, "geocoding"),
+  );
+}
+
+function toPostcodeResult(data: PostcodeData, index: number): PostcodeResult {
+  const codes = Object.fromEntries(
+    CODE_FIELDS.map((field, offset) => [field, data.codeTable[data.codeIndexes[index * CODE_FIELDS.length + offset]]]),
+  ) as PostcodeResult['codes'];
+  const areaName = (code: string) => data.names.get(code) || '';
+
+  return {
+    postcode: formatPostcode(data.keys[index]),
+    latitude: data.latitudes[index],
+    longitude: data.longitudes[index],
+    admin_district: areaName(codes.admin_district),
+    admin_county: areaName(codes.admin_county),
+    admin_ward: areaName(codes.admin_ward),
+    parish: areaName(codes.parish),
+    parliamentary_constituency: areaName(codes.parliamentary_constituency),
+    ccg: areaName(codes.ccg),
+    ced: areaName(codes.ced),
+    nuts: areaName(codes.nuts),
+    codes,
+  };
+}
+
+export async function lookupPostcode(postcode: string): Promise<PostcodeResult | null> {
+  const data = await getPostcodeData();
+  const index = findPostcode(data, postcode);
+  return index >= 0 ? toPostcodeResult(data, index) : null;
+}
+
+export async function lookupOutcode(outcode: string): Promise<OutcodeResult | null> {
+  const data = await getPostcodeData();
+  return data.outcodes.get(compactPostcode(outcode)) || null;
+}
+
+// Postcodes starting with what has been typed so far, e.g. "SW1A 1" -> ["SW1A 1AA", "SW1A 1AB", ...]
+export async function autocompletePostcode(partial: string, limit = 10): Promise<string[]> {
+  const data = await getPostcodeData();
+  const prefix = compactPostcode(partial);
+  if (!prefix) return [];
+
+  const matches: string[] = [];
+  for (let i = lowerBound(data.keys, prefix); i < data.keys.length && matches.length < limit; i++) {
+    const key = data.keys[i];
+    if (!key.startsWith(prefix)) break;
+    matches.push(formatPostcode(key));
+  }
+  return matches;
+}
+
+// Best-effort coordinates for a postcode or outward code. Never throws or waits for the dataset to load, so
+// a missing or still-loading dataset doesn't hold up businesses or trainers signing up - they just won't
+// show in radius searches.
+export async function findCoordinates(query: string | null | undefined): Promise<Coordinates | null> {
+  const data = loadedPostcodeData;
+  if (!query || !data) return null;
+
+  // Fall back to the outward code's centre for postcodes too new (or mistyped) to be in the dataset
+  let outcode = query;
+  if (isFullPostcode(query)) {
+    const index = findPostcode(data, query);
+    if (index >= 0) return { latitude: data.latitudes[index], longitude: data.longitudes[index] };
+    outcode = compactPostcode(query).slice(0, -3);
+  }
+  if (isOutcode(outcode)) {
+    const result = data.outcodes.get(compactPostcode(outcode));
+    if (result) return { latitude: result.latitude, longitude: result.longitude };
+  }
+  return null;
+}
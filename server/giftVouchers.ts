@@ -0,0 +1,178 @@
+import type Stripe from "stripe";
+import { customAlphabet } from "nanoid";
+import type { GiftVoucher, GiftVoucherQuote } from "@shared/schema";
+import { storage, GiftVoucherError } from "./storage";
+import { trainerStorage } from "./trainerStorage";
+import { sendEmail, escapeHtml } from "./emailService";
+import { formatOccurrenceTime } from "./occurrences";
+import { fromMinorUnits, type PriceQuote } from "./pricing";
+
+// How long a voucher can be spent for after it's bought
+export const GIFT_VOUCHER_VALIDITY_MONTHS = 12;
+
+// Holders are reminded this long before an unspent voucher expires
+const EXPIRY_REMINDER_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+// Letters and digits that can't be mistaken for each other when read out of an email
+const generateCodeSuffix = customAlphabet("23456789ABCDEFGHJKLMNPQRSTUVWXYZ", 10);
+
+function generateGiftVoucherCode(): string {
+  return `GIFT-${generateCodeSuffix()}`;
+}
+
+function getAppUrl(): string {
+  return process.env.APP_URL || 'https://mylesfitness.co.uk';
+}
+
+// Who a voucher can be spent with, and where to book them
+async function describeProvider(voucher: Pick<GiftVoucher, 'businessId' | 'trainerId'>): Promise<{ name: string; url: string } | undefined> {
+  if (voucher.businessId) {
+    const business = await storage.getBusinessById(voucher.businessId);
+    return business && { name: business.name, url: `${getAppUrl()}/business/${business.slug || business.id}` };
+  }
+  if (voucher.trainerId) {
+    const trainer = await trainerStorage.getPersonalTrainerById(voucher.trainerId);
+    return trainer && { name: `${trainer.firstName} ${trainer.lastName}`, url: `${getAppUrl()}/personal-trainers/${trainer.id}` };
+  }
+  return undefined;
+}
+
+// Finds a voucher that can go towards a booking with this business or trainer, throwing GiftVoucherError with
+// the reason when it can't. The balance is checked again when the booking is saved.
+export async function findRedeemableGiftVoucher(
+  code: string,
+  provider: { businessId: number } | { trainerId: number },
+): Promise<GiftVoucher> {
+  const voucher = await storage.getGiftVoucherByCode(code);
+  const forProvider = voucher && ('businessId' in provider
+    ? voucher.businessId === provider.businessId
+    : voucher.trainerId === provider.trainerId);
+  if (!voucher || !forProvider) {
+    throw new GiftVoucherError("That gift voucher can't be used for this booking");
+  }
+
+  if (voucher.expiresAt <= new Date()) {
+    throw new GiftVoucherError("This gift voucher has expired");
+  }
+  if (parseFloat(voucher.balance) <= 0) {
+    throw new GiftVoucherError("This gift voucher has been spent");
+  }
+  return voucher;
+}
+
+export function quoteWithGiftVoucher(voucher: GiftVoucher, quote: PriceQuote): GiftVoucherQuote {
+  return {
+    code: voucher.code,
+    balance: voucher.balance,
+    expiresAt: voucher.expiresAt.toISOString(),
+    ...quote,
+  };
+}
+
+// Turns a succeeded voucher payment into a voucher and emails the code to the recipient, with a receipt for the
+// purchaser. Called when the purchaser returns from paying and again from the webhook; only the first call
+// creates the voucher or sends email.
+export async function fulfilGiftVoucherPayment(paymentIntent: Stripe.PaymentIntent): Promise<GiftVoucher | undefined> {
+  const { metadata } = paymentIntent;
+  const amount = parseInt(metadata.giftVoucherAmount);
+  if (!amount || paymentIntent.status !== 'succeeded') return undefined;
+
+  const expiresAt = new Date();
+  expiresAt.setMonth(expiresAt.getMonth() + GIFT_VOUCHER_VALIDITY_MONTHS);
+
+  const destination = paymentIntent.transfer_data?.destination;
+  const voucher = await storage.createGiftVoucher({
+    code: generateGiftVoucherCode(),
+    businessId: metadata.businessId ? parseInt(metadata.businessId) : null,
+    trainerId: metadata.trainerId ? parseInt(metadata.trainerId) : null,
+    purchaserId: metadata.userId,
+    recipientName: metadata.recipientName,
+    recipientEmail: metadata.recipientEmail,
+    message: metadata.message || null,
+    amount: amount.toFixed(2),
+    balance: amount.toFixed(2),
+    expiresAt,
+    paymentIntentId: paymentIntent.id,
+    applicationFeeAmount: paymentIntent.application_fee_amount === null
+      ? null
+      : fromMinorUnits(paymentIntent.application_fee_amount).toFixed(2),
+    transferDestination: typeof destination === 'string' ? destination : destination?.id ?? null,
+    totalAmount: fromMinorUnits(paymentIntent.amount).toFixed(2),
+  });
+  if (!voucher) {
+    return storage.getGiftVoucherByPaymentIntentId(paymentIntent.id);
+  }
+
+  const [purchaser, provider] = await Promise.all([
+    storage.getUser(voucher.purchaserId),
+    describeProvider(voucher),
+  ]);
+  if (!provider) return voucher;
+
+  const purchaserName = purchaser ? `${purchaser.firstName || ''} ${purchaser.lastName || ''}`.trim() : '';
+  await sendEmail({
+    to: voucher.recipientEmail,
+    subject: `You've Been Sent a Gift Voucher for ${provider.name} - MYLES`,
+    html: `
+      <h2>${escapeHtml(purchaserName || 'Someone')} has sent you a gift voucher</h2>
+      <p>Hi ${escapeHtml(voucher.recipientName)},</p>
+      ${voucher.message ? `<p>"${escapeHtml(voucher.message)}"</p>` : ''}
+      <p><strong>Value:</strong> £${voucher.amount}</p>
+      <p><strong>For:</strong> ${escapeHtml(provider.name)}</p>
+      <p><strong>Code:</strong> ${voucher.code}</p>
+      <p><strong>Valid until:</strong> ${formatOccurrenceTime(voucher.expiresAt)}</p>
+      <p>Enter the code at checkout when you <a href="${provider.url}">book with ${escapeHtml(provider.name)}</a>. You can spend it
+      across as many bookings as you like until the balance runs out.</p>
+    `
+  });
+
+  if (purchaser?.email) {
+    await sendEmail({
+      to: purchaser.email,
+      subject: 'Your Gift Voucher - MYLES',
+      html: `
+        <h2>Your gift voucher is on its way</h2>
+        <p>We've emailed ${escapeHtml(voucher.recipientName)} (${voucher.recipientEmail}) their voucher.</p>
+        <p><strong>Value:</strong> £${voucher.amount}</p>
+        <p><strong>For:</strong> ${escapeHtml(provider.name)}</p>
+        <p><strong>Valid until:</strong> ${formatOccurrenceTime(voucher.expiresAt)}</p>
+        <p><strong>Total paid:</strong> £${voucher.totalAmount}</p>
+      `
+    });
+  }
+  return voucher;
+}
+
+// Emails recipients whose unspent vouchers are about to expire
+export async function sendGiftVoucherExpiryReminders(): Promise<void> {
+  const vouchers = await storage.getGiftVouchersDueExpiryReminder(new Date(Date.now() + EXPIRY_REMINDER_DAYS * DAY_MS));
+
+  for (const voucher of vouchers) {
+    const provider = await describeProvider(voucher);
+    if (provider) {
+      await sendEmail({
+        to: voucher.recipientEmail,
+        subject: 'Your Gift Voucher Expires Soon - MYLES',
+        html: `
+          <h2>Don't forget your gift voucher</h2>
+          <p>Hi ${escapeHtml(voucher.recipientName)}, you have £${voucher.balance} left to spend with ${escapeHtml(provider.name)}.</p>
+          <p><strong>Code:</strong> ${voucher.code}</p>
+          <p><strong>Expires:</strong> ${formatOccurrenceTime(voucher.expiresAt)}</p>
+          <p><a href="${provider.url}">Book with ${escapeHtml(provider.name)}</a> before then to use it.</p>
+        `
+      });
+    }
+    await storage.markGiftVoucherExpiryReminderSent(voucher.id);
+  }
+}
+
+export function startGiftVoucherExpirySweep(): NodeJS.Timeout {
+  return setInterval(() => {
+    sendGiftVoucherExpiryReminders().catch((error) => {
+      console.error("Error sending gift voucher expiry reminders:", error);
+    });
+  }, SWEEP_INTERVAL_MS);
+}
@@ -1,9 +1,23 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startWaitlistSweep } from "./waitlist";
+import { startGiftVoucherExpirySweep } from "./giftVouchers";
+import { preloadPostcodeData } from "./geocoding";
 
 const app = express();
-app.use(express.json());
+
+declare module 'http' {
+  interface IncomingMessage {
+    rawBody: unknown
+  }
+}
+// Keep the raw body around so Stripe webhook signatures can be verified
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -66,5 +80,8 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startWaitlistSweep();
+    startGiftVoucherExpirySweep();
+    preloadPostcodeData();
   });
 })();
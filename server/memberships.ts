@@ -0,0 +1,95 @@
+import type Stripe from "stripe";
+import type { Business, Membership, MembershipPlan, User } from "@shared/schema";
+import { stripe } from "./stripe";
+import { storage } from "./storage";
+import { getSubscriptionPeriod } from "./stripeFields";
+import { quoteMembershipPrice, getCommissionRate, calculateApplicationFeePercent, toMinorUnits } from "./pricing";
+
+// Reuses the customer a user already has with Stripe, creating one on their first subscription
+export async function getOrCreateStripeCustomer(user: User, metadata: Record<string, string>): Promise<string> {
+  if (user.stripeCustomerId) return user.stripeCustomerId;
+
+  const customer = await stripe.customers.create({
+    email: user.email || '',
+    name: `${user.firstName} ${user.lastName}`,
+    metadata: { userId: user.id, ...metadata },
+  });
+  await storage.updateUserStripeCustomerId(user.id, customer.id);
+  return customer.id;
+}
+
+// The monthly Stripe price members are billed, including the MYLES booking fee
+export async function createMembershipPrice(business: Pick<Business, 'id' | 'name'>, plan: Pick<MembershipPlan, 'name' | 'price'>): Promise<string> {
+  const quote = quoteMembershipPrice(plan);
+  const price = await stripe.prices.create({
+    currency: 'gbp',
+    unit_amount: toMinorUnits(quote.total),
+    recurring: { interval: 'month' },
+    product_data: { name: `${business.name} - ${plan.name}` },
+    metadata: { businessId: business.id.toString() },
+  });
+  return price.id;
+}
+
+// Subscribes the user to a plan, paid to the business's connected account with MYLES's share taken from each
+// invoice. The membership gives access once Stripe reports the first invoice paid.
+export async function startMembership(
+  user: User,
+  plan: MembershipPlan,
+  business: Business,
+): Promise<{ membership: Membership; clientSecret: string | undefined }> {
+  const customerId = await getOrCreateStripeCustomer(user, { businessId: business.id.toString() });
+  const commissionRate = getCommissionRate(business.subscriptionTier || 'free');
+
+  const subscription = await stripe.subscriptions.create({
+    customer: customerId,
+    items: [{ price: plan.stripePriceId }],
+    payment_behavior: 'default_incomplete',
+    expand: ['latest_invoice.payment_intent'],
+    application_fee_percent: calculateApplicationFeePercent(quoteMembershipPrice(plan), commissionRate),
+    transfer_data: { destination: business.stripeAccountId! },
+    metadata: {
+      membershipPlanId: plan.id.toString(),
+      businessId: business.id.toString(),
+      userId: user.id,
+    },
+  });
+
+  const membership = await storage.createMembership({
+    userId: user.id,
+    businessId: business.id,
+    membershipPlanId: plan.id,
+    stripeSubscriptionId: subscription.id,
+    status: subscription.status,
+    classesPerPeriod: plan.classesPerPeriod,
+    sessionTypeIds: plan.sessionTypeIds,
+  });
+
+  return {
+    membership,
+    clientSecret: (subscription.latest_invoice as any)?.payment_intent?.client_secret,
+  };
+}
+
+// Copies a subscription's status and billing period onto its membership
+export async function syncMembership(subscription: Stripe.Subscription): Promise<Membership | undefined> {
+  const period = getSubscriptionPeriod(subscription);
+  return storage.syncMembershipSubscription(subscription.id, {
+    status: subscription.status,
+    currentPeriodStart: period?.start,
+    currentPeriodEnd: period?.end,
+    cancelAtPeriodEnd: subscription.cancel_at_period_end,
+  });
+}
+
+// A paid invoice opens the period it covers, which may arrive before the subscription update does
+export async function recordMembershipInvoice(subscriptionId: string, invoice: Stripe.Invoice): Promise<void> {
+  const periodStart = Math.min(...invoice.lines.data.map((line) => line.period.start));
+  const periodEnd = Math.max(...invoice.lines.data.map((line) => line.period.end));
+
+  await storage.syncMembershipSubscription(subscriptionId, {
+    status: 'active',
+    currentPeriodStart: new Date(periodStart * 1000),
+    currentPeriodEnd: new Date(periodEnd * 1000),
+  });
+}
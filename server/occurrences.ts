@@ -0,0 +1,146 @@
+import { z } from "zod";
+
+// Schedules are entered as UK wall-clock times, so occurrences are expanded in this zone
+export const BUSINESS_TIME_ZONE = "Europe/London";
+
+// How far ahead occurrences are materialized from a session's weekly schedule
+export const OCCURRENCE_HORIZON_DAYS = 56;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const scheduleSlotSchema = z.object({
+  dayOfWeek: z.coerce.number().int().min(0).max(6),
+  startTime: z.string().regex(/^\d{1,2}:\d{2}$/),
+  endTime: z.string().regex(/^\d{1,2}:\d{2}$/),
+});
+
+export type ScheduleSlot = z.infer<typeof scheduleSlotSchema>;
+
+export interface OccurrenceWindow {
+  startsAt: Date;
+  endsAt: Date;
+}
+
+const zonedPartsFormatter = new Intl.DateTimeFormat("en-GB", {
+  timeZone: BUSINESS_TIME_ZONE,
+  hourCycle: "h23",
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit",
+});
+
+function getZonedParts(date: Date) {
+  const parts: Record<string, number> = {};
+  for (const part of zonedPartsFormatter.formatToParts(date)) {
+    if (part.type !== "literal") {
+      parts[part.type] = parseInt(part.value);
+    }
+  }
+  return parts;
+}
+
+function getTimeZoneOffset(date: Date): number {
+  const parts = getZonedParts(date);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - (date.getTime() - date.getMilliseconds());
+}
+
+// Converts a UK wall-clock time to the matching UTC instant, accounting for BST
+function zonedTimeToUtc(year: number, month: number, day: number, time: string): Date {
+  const [hours, minutes] = time.split(":").map((value) => parseInt(value));
+  const wallClock = Date.UTC(year, month, day, hours, minutes);
+  const firstPass = wallClock - getTimeZoneOffset(new Date(wallClock));
+  // Second pass corrects guesses that land on the other side of a DST change
+  return new Date(wallClock - getTimeZoneOffset(new Date(firstPass)));
+}
+
+export function parseSchedule(schedule: unknown): ScheduleSlot[] {
+  if (!Array.isArray(schedule)) return [];
+
+  return schedule.flatMap((slot) => {
+    const parsed = scheduleSlotSchema.safeParse(slot);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+export function expandSchedule(schedule: unknown, from: Date, to: Date): OccurrenceWindow[] {
+  const slots = parseSchedule(schedule);
+  if (slots.length === 0 || from >= to) return [];
+
+  const start = getZonedParts(from);
+  const dayCount = Math.ceil((to.getTime() - from.getTime()) / DAY_MS) + 1;
+  const occurrences: OccurrenceWindow[] = [];
+
+  for (let offset = 0; offset <= dayCount; offset++) {
+    const calendarDay = new Date(Date.UTC(start.year, start.month - 1, start.day + offset));
+    const year = calendarDay.getUTCFullYear();
+    const month = calendarDay.getUTCMonth();
+    const day = calendarDay.getUTCDate();
+
+    for (const slot of slots) {
+      if (slot.dayOfWeek !== calendarDay.getUTCDay()) continue;
+
+      const startsAt = zonedTimeToUtc(year, month, day, slot.startTime);
+      let endsAt = zonedTimeToUtc(year, month, day, slot.endTime);
+      if (endsAt <= startsAt) {
+        // Classes running past midnight finish on the following day
+        endsAt = zonedTimeToUtc(year, month, day + 1, slot.endTime);
+      }
+
+      if (startsAt >= from && startsAt < to) {
+        occurrences.push({ startsAt, endsAt });
+      }
+    }
+  }
+
+  return occurrences.sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+}
+
+// The UTC instants bounding a UK calendar day given as YYYY-MM-DD (23 or 25 hours long on DST changes)
+export function getZonedDayWindow(date: string): OccurrenceWindow {
+  const [year, month, day] = date.split("-").map((value) => parseInt(value));
+  return {
+    startsAt: zonedTimeToUtc(year, month - 1, day, "00:00"),
+    endsAt: zonedTimeToUtc(year, month - 1, day + 1, "00:00"),
+  };
+}
+
+// The Monday-to-Sunday UK week containing a YYYY-MM-DD date, with the Monday's date
+export function getZonedWeekWindow(date: string): OccurrenceWindow & { weekStart: string } {
+  const [year, month, day] = date.split("-").map((value) => parseInt(value));
+  const monday = new Date(Date.UTC(year, month - 1, day));
+  monday.setUTCDate(monday.getUTCDate() - (monday.getUTCDay() + 6) % 7);
+  return {
+    weekStart: monday.toISOString().slice(0, 10),
+    startsAt: zonedTimeToUtc(monday.getUTCFullYear(), monday.getUTCMonth(), monday.getUTCDate(), "00:00"),
+    endsAt: zonedTimeToUtc(monday.getUTCFullYear(), monday.getUTCMonth(), monday.getUTCDate() + 7, "00:00"),
+  };
+}
+
+export function toZonedDateString(date: Date): string {
+  const parts = getZonedParts(date);
+  return [
+    parts.year.toString(),
+    parts.month.toString().padStart(2, "0"),
+    parts.day.toString().padStart(2, "0"),
+  ].join("-");
+}
+
+export function getOccurrenceHorizon(from: Date = new Date()): Date {
+  return new Date(from.getTime() + OCCURRENCE_HORIZON_DAYS * DAY_MS);
+}
+
+export function formatOccurrenceTime(date: Date): string {
+  return date.toLocaleString("en-GB", {
+    timeZone: BUSINESS_TIME_ZONE,
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
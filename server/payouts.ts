@@ -0,0 +1,148 @@
+import type Stripe from "stripe";
+import type { BookingWithDetails } from "@shared/schema";
+import { stripe } from "./stripe";
+import { storage } from "./storage";
+import { trainerStorage } from "./trainerStorage";
+import { getRefundableAmount } from "./refunds";
+import { fromMinorUnits } from "./pricing";
+
+export interface EarningsLedgerEntry {
+  bookingId: number;
+  sessionDate: Date;
+  sessionTitle: string;
+  customerName: string;
+  status: string;
+  gross: number;
+  platformFee: number;
+  refunded: number;
+  net: number;
+}
+
+export interface PayoutSummary {
+  id: string;
+  amount: number;
+  status: string;
+  arrivalDate: Date;
+}
+
+export interface EarningsLedger {
+  entries: EarningsLedgerEntry[];
+  totals: {
+    gross: number;
+    platformFee: number;
+    refunded: number;
+    net: number;
+  };
+  payouts: PayoutSummary[];
+}
+
+function roundToPence(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function getAppUrl(): string {
+  return process.env.APP_URL || 'https://mylesfitness.co.uk';
+}
+
+// Creates an Express connected account on first use and returns a Stripe-hosted onboarding link for it
+export async function createOnboardingLink(options: {
+  stripeAccountId: string | null;
+  email?: string | null;
+  metadata: Record<string, string>;
+  returnPath: string;
+}): Promise<{ stripeAccountId: string; url: string }> {
+  let stripeAccountId = options.stripeAccountId;
+  if (!stripeAccountId) {
+    const account = await stripe.accounts.create({
+      type: 'express',
+      country: 'GB',
+      email: options.email || undefined,
+      capabilities: {
+        card_payments: { requested: true },
+        transfers: { requested: true },
+      },
+      metadata: options.metadata,
+    });
+    stripeAccountId = account.id;
+  }
+
+  const link = await stripe.accountLinks.create({
+    account: stripeAccountId,
+    refresh_url: `${getAppUrl()}${options.returnPath}?payouts=refresh`,
+    return_url: `${getAppUrl()}${options.returnPath}?payouts=return`,
+    type: 'account_onboarding',
+  });
+
+  return { stripeAccountId, url: link.url };
+}
+
+// Records whether Stripe will currently accept charges and pay out for a connected account
+export async function syncConnectedAccount(account: Stripe.Account): Promise<void> {
+  const payoutsEnabled = account.charges_enabled && account.payouts_enabled;
+
+  const business = await storage.getBusinessByStripeAccountId(account.id);
+  if (business) {
+    await storage.updateBusinessStripeAccount(business.id, account.id, payoutsEnabled);
+  }
+
+  const trainer = await trainerStorage.getPersonalTrainerByStripeAccountId(account.id);
+  if (trainer) {
+    await trainerStorage.updatePersonalTrainerStripeAccount(trainer.id, account.id, payoutsEnabled);
+  }
+}
+
+async function getRecentPayouts(stripeAccountId: string): Promise<PayoutSummary[]> {
+  const payouts = await stripe.payouts.list({ limit: 10 }, { stripeAccount: stripeAccountId });
+  return payouts.data.map((payout) => ({
+    id: payout.id,
+    amount: fromMinorUnits(payout.amount),
+    status: payout.status,
+    arrivalDate: new Date(payout.arrival_date * 1000),
+  }));
+}
+
+// Refunds on destination charges reverse the transfer and the application fee proportionally,
+// so the business's net share shrinks by the same fraction as the amount refunded
+export async function getBusinessEarnings(stripeAccountId: string | null, bookings: BookingWithDetails[]): Promise<EarningsLedger> {
+  const entries = bookings
+    .filter((booking) => booking.transferDestination && booking.status !== 'pending')
+    .sort((a, b) => new Date(b.sessionDate).getTime() - new Date(a.sessionDate).getTime())
+    .map((booking) => {
+      const gross = parseFloat(booking.totalAmount);
+      const platformFee = parseFloat(booking.applicationFeeAmount || '0');
+      const refunded = roundToPence(gross - getRefundableAmount(booking.totalAmount, booking.refunds || []));
+      const net = gross > 0 ? roundToPence((gross - platformFee) * (gross - refunded) / gross) : 0;
+      return {
+        bookingId: booking.id,
+        sessionDate: booking.sessionDate,
+        sessionTitle: booking.session.title,
+        customerName: `${booking.user.firstName || ''} ${booking.user.lastName || ''}`.trim(),
+        status: booking.status,
+        gross,
+        platformFee,
+        refunded,
+        net,
+      };
+    });
+
+  const totals = entries.reduce(
+    (sum, entry) => ({
+      gross: roundToPence(sum.gross + entry.gross),
+      platformFee: roundToPence(sum.platformFee + entry.platformFee),
+      refunded: roundToPence(sum.refunded + entry.refunded),
+      net: roundToPence(sum.net + entry.net),
+    }),
+    { gross: 0, platformFee: 0, refunded: 0, net: 0 },
+  );
+
+  let payouts: PayoutSummary[] = [];
+  if (stripeAccountId) {
+    try {
+      payouts = await getRecentPayouts(stripeAccountId);
+    } catch (error) {
+      console.error("Error fetching Stripe payouts:", error);
+    }
+  }
+
+  return { entries, totals, payouts };
+}
@@ -0,0 +1,88 @@
+import sharp, { type ResizeOptions } from "sharp";
+import { nanoid } from "nanoid";
+import type { Photo, PhotoUrls } from "@shared/schema";
+import { fileStore, detectFileType, UploadError } from "./fileStorage";
+
+export const MAX_PHOTO_BYTES = 15 * 1024 * 1024;
+export const MAX_PHOTOS_PER_UPLOAD = 10;
+export const MAX_GALLERY_PHOTOS = 30;
+
+// Photos are only served publicly under this key prefix; everything else in the file store stays private
+export const PHOTO_KEY_PREFIX = 'photo-';
+
+// Galleries belong to either a business or a personal trainer
+export type PhotoOwner = { businessId: number } | { trainerId: number };
+
+type PhotoVariant = keyof PhotoUrls;
+
+const PHOTO_VARIANTS: Record<PhotoVariant, ResizeOptions> = {
+  thumbnail: { width: 200, height: 200, fit: 'cover' },
+  card: { width: 640, height: 400, fit: 'cover' },
+  hero: { width: 1600, height: 900, fit: 'inside', withoutEnlargement: true },
+};
+
+export interface ProcessedPhoto {
+  thumbnailKey: string;
+  cardKey: string;
+  heroKey: string;
+  width: number;
+  height: number;
+}
+
+export function mediaUrl(key: string): string {
+  return `/api/media/${key}`;
+}
+
+export function getPhotoUrls(photo: Pick<Photo, 'thumbnailKey' | 'cardKey' | 'heroKey'>): PhotoUrls {
+  return {
+    thumbnail: mediaUrl(photo.thumbnailKey),
+    card: mediaUrl(photo.cardKey),
+    hero: mediaUrl(photo.heroKey),
+  };
+}
+
+// Resizes an uploaded image into each gallery variant as WebP and stores them. EXIF orientation is
+// applied and metadata (including any location) is dropped from the output.
+export async function processPhoto(buffer: Buffer): Promise<ProcessedPhoto> {
+  if (!detectFileType(buffer)?.mimeType.startsWith('image/')) {
+    throw new UploadError("Photos must be JPEG, PNG or WebP images", 415);
+  }
+
+  const id = nanoid();
+  const keys = {} as Record<PhotoVariant, string>;
+  let heroSize = { width: 0, height: 0 };
+
+  try {
+    for (const [variant, resize] of Object.entries(PHOTO_VARIANTS) as [PhotoVariant, ResizeOptions][]) {
+      const { data, info } = await sharp(buffer)
+        .rotate()
+        .resize(resize)
+        .webp({ quality: 80 })
+        .toBuffer({ resolveWithObject: true });
+
+      const key = `${PHOTO_KEY_PREFIX}${id}-${variant}.webp`;
+      await fileStore.put(key, data, 'image/webp');
+      keys[variant] = key;
+      if (variant === 'hero') {
+        heroSize = { width: info.width, height: info.height };
+      }
+    }
+  } catch (error) {
+    await Promise.all(Object.values(keys).map((key) => fileStore.delete(key)));
+    if (error instanceof Error && /unsupported image format|Input buffer/i.test(error.message)) {
+      throw new UploadError("This image couldn't be read", 415);
+    }
+    throw error;
+  }
+
+  return {
+    thumbnailKey: keys.thumbnail,
+    cardKey: keys.card,
+    heroKey: keys.hero,
+    ...heroSize,
+  };
+}
+
+export async function deletePhotoFiles(photo: Pick<Photo, 'thumbnailKey' | 'cardKey' | 'heroKey'>): Promise<void> {
+  await Promise.all([photo.thumbnailKey, photo.cardKey, photo.heroKey].map((key) => fileStore.delete(key)));
+}
@@ -0,0 +1,118 @@
+import type { CreditPack, FitnessSession, GiftVoucher, MembershipPlan, PersonalTrainer, PromoCode } from "@shared/schema";
+
+// MYLES's commission, charged to the customer on top of the listed price
+export const PLATFORM_FEE_RATE = 0.1;
+
+export interface PriceQuote {
+  subtotal: number;
+  discount: number; // from a promo code, taken off the subtotal before the platform fee is added
+  giftVoucher: number; // paid from a gift voucher's balance, whose booking fee was charged when it was bought
+  platformFee: number;
+  total: number;
+}
+
+function roundToPence(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function quoteFromSubtotal(subtotal: number, discount = 0, giftVoucher = 0): PriceQuote {
+  const due = roundToPence(subtotal - discount - giftVoucher);
+  const platformFee = roundToPence(due * PLATFORM_FEE_RATE);
+  return {
+    subtotal: roundToPence(subtotal),
+    discount: roundToPence(discount),
+    giftVoucher: roundToPence(giftVoucher),
+    platformFee,
+    total: roundToPence(due + platformFee),
+  };
+}
+
+// Percentage codes take a share of the price; fixed codes take an amount, never more than the price itself
+export function calculatePromoDiscount(subtotal: number, promo: Pick<PromoCode, 'discountType' | 'discountValue'>): number {
+  const value = parseFloat(promo.discountValue);
+  const discount = promo.discountType === 'percent' ? subtotal * value / 100 : value;
+  return roundToPence(Math.min(discount, subtotal));
+}
+
+// A voucher pays what it can of the price left after any discount
+export function calculateGiftVoucherAmount(amountDue: number, giftVoucher: Pick<GiftVoucher, 'balance'>): number {
+  return roundToPence(Math.min(parseFloat(giftVoucher.balance), amountDue));
+}
+
+// Group bookings pay the class price for every attendee. A promo code applies once, to the booking as a whole.
+export function quoteSessionPrice(
+  session: Pick<FitnessSession, 'price'>,
+  attendees: number,
+  promo?: Pick<PromoCode, 'discountType' | 'discountValue'>,
+  giftVoucher?: Pick<GiftVoucher, 'balance'>,
+): PriceQuote {
+  const subtotal = roundToPence(parseFloat(session.price) * attendees);
+  const discount = promo ? calculatePromoDiscount(subtotal, promo) : 0;
+  return quoteFromSubtotal(
+    subtotal,
+    discount,
+    giftVoucher ? calculateGiftVoucherAmount(subtotal - discount, giftVoucher) : 0,
+  );
+}
+
+export function quoteCreditPackPrice(pack: Pick<CreditPack, 'price'>): PriceQuote {
+  return quoteFromSubtotal(parseFloat(pack.price));
+}
+
+// A membership's monthly charge; the booking fee is added to every billing period
+export function quoteMembershipPrice(plan: Pick<MembershipPlan, 'price'>): PriceQuote {
+  return quoteFromSubtotal(parseFloat(plan.price));
+}
+
+// Vouchers are bought like any other booking, with the booking fee added to their face value
+export function quoteGiftVoucherPrice(amount: number): PriceQuote {
+  return quoteFromSubtotal(amount);
+}
+
+export function quoteTrainerPrice(
+  trainer: Pick<PersonalTrainer, 'hourlyRate'>,
+  durationMinutes: number,
+  giftVoucher?: Pick<GiftVoucher, 'balance'>,
+): PriceQuote {
+  if (!trainer.hourlyRate) {
+    throw new Error("Trainer has no hourly rate set");
+  }
+  const subtotal = roundToPence(parseFloat(trainer.hourlyRate) * durationMinutes / 60);
+  return quoteFromSubtotal(subtotal, 0, giftVoucher ? calculateGiftVoucherAmount(subtotal, giftVoucher) : 0);
+}
+
+// Share of the listed price MYLES keeps from the business or trainer, by subscription tier.
+// Each rate can be overridden with PLATFORM_COMMISSION_<TIER>, e.g. PLATFORM_COMMISSION_BASIC=0.08
+const DEFAULT_COMMISSION_RATES: Record<string, number> = {
+  free: 0.15,
+  basic: 0.1,
+  premium: 0.05,
+  trainer: 0.1,
+};
+
+export function getCommissionRate(tier: string): number {
+  const override = parseFloat(process.env[`PLATFORM_COMMISSION_${tier.toUpperCase()}`] || '');
+  if (!isNaN(override)) return override;
+  return DEFAULT_COMMISSION_RATES[tier] ?? DEFAULT_COMMISSION_RATES.free;
+}
+
+// What MYLES keeps from a destination charge: the customer's platform fee plus commission on the price paid.
+// Promo discounts come out of the provider's share, so commission is on the discounted price. Commission on
+// the part a gift voucher pays was taken when the voucher was bought.
+export function calculateApplicationFee(quote: PriceQuote, commissionRate: number): number {
+  return roundToPence(quote.platformFee + (quote.subtotal - quote.discount - quote.giftVoucher) * commissionRate);
+}
+
+// Subscriptions take the application fee as a percentage of each invoice rather than a fixed amount
+export function calculateApplicationFeePercent(quote: PriceQuote, commissionRate: number): number {
+  return Math.round(calculateApplicationFee(quote, commissionRate) / quote.total * 10000) / 100;
+}
+
+// Stripe amounts are in the currency's minor unit (pence)
+export function toMinorUnits(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+export function fromMinorUnits(amount: number): number {
+  return amount / 100;
+}
@@ -0,0 +1,51 @@
+import type { FitnessSession, PromoCode, PromoCodeQuote } from "@shared/schema";
+import { storage, PromoCodeError } from "./storage";
+import { quoteSessionPrice } from "./pricing";
+
+// Finds the business's code and checks the customer can use it on this session, throwing PromoCodeError with
+// the reason when they can't. Usage limits are checked again when the booking is saved.
+export async function findApplicablePromoCode(
+  code: string,
+  userId: string,
+  session: Pick<FitnessSession, 'businessId' | 'sessionTypeId'>,
+): Promise<PromoCode> {
+  const promo = await storage.getPromoCodeByCode(session.businessId, code);
+  if (!promo || !promo.active) {
+    throw new PromoCodeError("That promo code isn't valid for this session");
+  }
+
+  const now = new Date();
+  if (promo.validFrom && promo.validFrom > now) {
+    throw new PromoCodeError("This promo code isn't active yet");
+  }
+  if (promo.validUntil && promo.validUntil <= now) {
+    throw new PromoCodeError("This promo code has expired");
+  }
+
+  if (promo.sessionTypeIds.length > 0 && !promo.sessionTypeIds.includes(session.sessionTypeId)) {
+    throw new PromoCodeError("This promo code doesn't cover this type of session");
+  }
+
+  if (promo.firstBookingOnly && await storage.hasBookedWithBusiness(userId, session.businessId)) {
+    throw new PromoCodeError("This promo code is only for your first booking");
+  }
+
+  const usage = await storage.getPromoCodeUsage(promo.id, userId);
+  if (promo.maxRedemptions !== null && usage.used >= promo.maxRedemptions) {
+    throw new PromoCodeError("This promo code has been fully redeemed");
+  }
+  if (promo.maxRedemptionsPerCustomer !== null && usage.usedByCustomer >= promo.maxRedemptionsPerCustomer) {
+    throw new PromoCodeError("You've already used this promo code");
+  }
+
+  return promo;
+}
+
+export function quoteWithPromoCode(session: Pick<FitnessSession, 'price'>, attendees: number, promo: PromoCode): PromoCodeQuote {
+  return {
+    code: promo.code,
+    discountType: promo.discountType,
+    discountValue: promo.discountValue,
+    ...quoteSessionPrice(session, attendees, promo),
+  };
+}
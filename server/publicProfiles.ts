@@ -0,0 +1,49 @@
+import type {
+  Business,
+  BusinessStaff,
+  PersonalTrainer,
+  PublicBusiness,
+  PublicInstructor,
+  PublicPersonalTrainer,
+} from "@shared/schema";
+
+// Strips owner, billing and payout details before a business is shown on its public page.
+// Also drops the owner's user record when given a BusinessWithUser.
+export function toPublicBusiness(business: Business & { user?: unknown }): PublicBusiness {
+  const {
+    userId,
+    user,
+    stripeSubscriptionId,
+    subscriptionExpiry,
+    stripeAccountId,
+    payoutsEnabled,
+    manuallyAdded,
+    ...publicBusiness
+  } = business;
+  return { ...publicBusiness, acceptsPayments: !!stripeAccountId && !!payoutsEnabled };
+}
+
+// Same for a trainer: their contact details stay private as customers book through MYLES
+export function toPublicTrainer(trainer: PersonalTrainer & { user?: unknown; certificationFiles?: unknown }): PublicPersonalTrainer {
+  const {
+    userId,
+    user,
+    email,
+    phoneNumber,
+    certificationDocuments,
+    certificationFiles,
+    stripeAccountId,
+    payoutsEnabled,
+    ...publicTrainer
+  } = trainer;
+  return { ...publicTrainer, acceptsPayments: !!stripeAccountId && !!payoutsEnabled };
+}
+
+// Instructors are shown by the name and bio their business gave them, never their account details
+export function toPublicInstructor(staffMember: BusinessStaff): PublicInstructor {
+  return {
+    id: staffMember.id,
+    displayName: staffMember.displayName,
+    bio: staffMember.bio,
+  };
+}
@@ -0,0 +1,152 @@
+import type Stripe from "stripe";
+import type { Booking, Refund, TrainerBooking } from "@shared/schema";
+import { stripe } from "./stripe";
+import { storage } from "./storage";
+import { trainerStorage } from "./trainerStorage";
+import { toMinorUnits } from "./pricing";
+
+// Thrown when a refund can't be issued, e.g. the booking was never paid or is already fully refunded
+export class RefundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RefundError";
+  }
+}
+
+export type RefundReason = 'customer_cancellation' | 'business_cancellation' | 'admin_cancellation' | 'goodwill';
+
+interface RefundRequest {
+  reason: RefundReason;
+  initiatedBy: string;
+  amount?: number; // defaults to everything not yet refunded
+  note?: string;
+}
+
+function toRefundStatus(status: Stripe.Refund['status']): string {
+  switch (status) {
+    case 'succeeded':
+    case 'failed':
+    case 'canceled':
+      return status;
+    default:
+      return 'pending';
+  }
+}
+
+// Refunds that have gone (or are going) back to the customer count against what is left to refund
+export function getRefundableAmount(totalAmount: string, existingRefunds: Refund[]): number {
+  const refunded = existingRefunds
+    .filter((refund) => refund.status === 'pending' || refund.status === 'succeeded')
+    .reduce((sum, refund) => sum + parseFloat(refund.amount), 0);
+  return Math.max(0, Math.round((parseFloat(totalAmount) - refunded) * 100) / 100);
+}
+
+// Cancellation refunds are best-effort: unpaid bookings or ones already refunded in full are
+// simply cancelled. Goodwill refunds are explicit, so anything that can't be paid out is an error.
+async function issueRefund(
+  paymentIntentId: string | null,
+  isDestinationCharge: boolean,
+  refundable: number,
+  request: RefundRequest,
+  target: { bookingId: number } | { trainerBookingId: number },
+): Promise<Refund | undefined> {
+  const isGoodwill = request.reason === 'goodwill';
+  let amount = request.amount ?? refundable;
+
+  if (!paymentIntentId) {
+    if (isGoodwill) throw new RefundError("This booking has no completed payment to refund");
+    return undefined;
+  }
+
+  if (!isGoodwill) {
+    amount = Math.min(amount, refundable);
+    if (amount <= 0) return undefined;
+  } else if (amount <= 0) {
+    throw new RefundError("Refund amount must be greater than zero");
+  } else if (toMinorUnits(amount) > toMinorUnits(refundable)) {
+    throw new RefundError(`Only £${refundable.toFixed(2)} of this booking can still be refunded`);
+  }
+
+  const metadata: Record<string, string> = { reason: request.reason };
+  if ('bookingId' in target) {
+    metadata.bookingId = target.bookingId.toString();
+  } else {
+    metadata.trainerBookingId = target.trainerBookingId.toString();
+  }
+
+  const stripeRefund = await stripe.refunds.create({
+    payment_intent: paymentIntentId,
+    amount: toMinorUnits(amount),
+    metadata,
+    // Pull the refund back from the connected account that was paid, along with our share of the fee
+    ...(isDestinationCharge && { reverse_transfer: true, refund_application_fee: true }),
+  });
+
+  return await storage.createRefund({
+    ...target,
+    stripeRefundId: stripeRefund.id,
+    amount: amount.toFixed(2),
+    reason: request.reason,
+    status: toRefundStatus(stripeRefund.status),
+    note: request.note,
+    initiatedBy: request.initiatedBy,
+  });
+}
+
+export async function refundBooking(booking: Booking, request: RefundRequest): Promise<Refund | undefined> {
+  // Pending bookings haven't been paid for yet, so there is nothing to give back
+  const paymentIntentId = booking.status === 'pending' ? null : booking.paymentIntentId;
+  const existingRefunds = await storage.getRefundsByBookingIds([booking.id]);
+  const refundable = getRefundableAmount(booking.totalAmount, existingRefunds);
+  return await issueRefund(paymentIntentId, !!booking.transferDestination, refundable, request, { bookingId: booking.id });
+}
+
+export async function refundTrainerBooking(booking: TrainerBooking, request: RefundRequest): Promise<Refund | undefined> {
+  const existingRefunds = await storage.getRefundsByTrainerBookingIds([booking.id]);
+  const refundable = getRefundableAmount(booking.totalAmount, existingRefunds);
+  return await issueRefund(
+    booking.stripePaymentIntentId,
+    !!booking.transferDestination,
+    refundable,
+    request,
+    { trainerBookingId: booking.id },
+  );
+}
+
+// Hands back a customer's payment when the booking it was for is turned down after they paid, e.g. because the
+// class filled up meanwhile. Payments made by someone else or already used for a booking are left alone, and
+// ones still processing can't be touched until they settle. Returns whether the money is on its way back.
+export async function releaseUnusedPayment(paymentIntentId: string, userId: string): Promise<boolean> {
+  try {
+    const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+    if (paymentIntent.metadata.userId !== userId) return false;
+    if (
+      await storage.getBookingByPaymentIntentId(paymentIntent.id) ||
+      await trainerStorage.getTrainerBookingByPaymentIntentId(paymentIntent.id)
+    ) {
+      return false;
+    }
+
+    if (paymentIntent.status === 'succeeded') {
+      await stripe.refunds.create({
+        payment_intent: paymentIntent.id,
+        metadata: { reason: 'booking_rejected' },
+        ...(paymentIntent.transfer_data && { reverse_transfer: true, refund_application_fee: true }),
+      });
+      return true;
+    }
+    // Authorised but not yet captured, so cancelling releases the hold on the card
+    if (paymentIntent.status === 'requires_capture') {
+      await stripe.paymentIntents.cancel(paymentIntent.id);
+      return true;
+    }
+    return false;
+  } catch (error) {
+    console.error("Error releasing payment for rejected booking:", error);
+    return false;
+  }
+}
+
+export async function syncRefundStatus(stripeRefund: Stripe.Refund): Promise<void> {
+  await storage.updateRefundStatusByStripeId(stripeRefund.id, toRefundStatus(stripeRefund.status));
+}
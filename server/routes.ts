@@ -1,21 +1,244 @@
-import type { Express } from "express";
+import type { Express, RequestHandler } from "express";
 import { createServer, type Server } from "http";
-import Stripe from "stripe";
-import { storage } from "./storage";
+import type Stripe from "stripe";
+import multer from "multer";
+import { nanoid } from "nanoid";
+import { stripe } from "./stripe";
+import {
+  storage,
+  OccurrenceFullError,
+  BusinessClaimError,
+  BusinessLocationError,
+  CreditError,
+  MembershipError,
+  PromoCodeError,
+  GiftVoucherError,
+  PaymentAlreadyUsedError,
+  PhotoGalleryError,
+  StaffError,
+} from "./storage";
 import { trainerStorage } from "./trainerStorage";
 import { setupAuth, isAuthenticated } from "./replitAuth";
-import { sendEmail } from "./emailService";
+import { sendEmail, escapeHtml } from "./emailService";
+import {
+  getOccurrenceHorizon,
+  formatOccurrenceTime,
+  getZonedDayWindow,
+  getZonedWeekWindow,
+  toZonedDateString,
+} from "./occurrences";
+import { toPublicBusiness, toPublicInstructor, toPublicTrainer } from "./publicProfiles";
+import { sendStaffInvitation } from "./staff";
+import { getAvailableSlots, TrainerSlotUnavailableError } from "./trainerAvailability";
+import { offerFreedSpots } from "./waitlist";
+import { evaluateCancellation, canReschedule, calculateRefundAmount } from "./cancellationPolicy";
+import { confirmBookingPayment, sendBookingConfirmation } from "./bookingPayments";
+import { fulfilCreditPackPayment } from "./creditPacks";
+import { createMembershipPrice, getOrCreateStripeCustomer, startMembership, syncMembership } from "./memberships";
+import { findApplicablePromoCode, quoteWithPromoCode } from "./promoCodes";
+import { findRedeemableGiftVoucher, fulfilGiftVoucherPayment, quoteWithGiftVoucher } from "./giftVouchers";
+import { handleStripeEvent } from "./stripeWebhooks";
+import {
+  quoteSessionPrice,
+  quoteTrainerPrice,
+  quoteCreditPackPrice,
+  quoteGiftVoucherPrice,
+  getCommissionRate,
+  calculateApplicationFee,
+  toMinorUnits,
+  fromMinorUnits,
+  type PriceQuote,
+} from "./pricing";
+import { refundBooking, refundTrainerBooking, releaseUnusedPayment, RefundError } from "./refunds";
+import { createOnboardingLink, syncConnectedAccount, getBusinessEarnings } from "./payouts";
+import {
+  lookupPostcode,
+  lookupOutcode,
+  autocompletePostcode,
+  isFullPostcode,
+  isOutcode,
+  PostcodeDataUnavailableError,
+} from "./geocoding";
+import {
+  fileStore,
+  LocalDiskFileStore,
+  linkUploadedFiles,
+  detectFileType,
+  isValidStorageKey,
+  MAX_UPLOAD_BYTES,
+  DOWNLOAD_LINK_TTL_SECONDS,
+  UPLOAD_PURPOSES,
+  UploadError,
+  type UploadPurpose,
+} from "./fileStorage";
+import {
+  processPhoto,
+  deletePhotoFiles,
+  getPhotoUrls,
+  MAX_PHOTO_BYTES,
+  MAX_PHOTOS_PER_UPLOAD,
+  PHOTO_KEY_PREFIX,
+  type PhotoOwner,
+} from "./photos";
 import { insertPersonalTrainerSchema, insertTrainerBookingSchema } from "@shared/schema";
 import { z } from "zod";
-import { insertBusinessSchema, insertFitnessSessionSchema, insertBookingSchema } from "@shared/schema";
+import {
+  insertBusinessSchema,
+  insertFitnessSessionSchema,
+  insertBookingSchema,
+  cancellationPolicySchema,
+  reviewSubmissionSchema,
+  reviewResponseSchema,
+  reviewFlagSchema,
+  reviewModerationSchema,
+  trainerAvailabilitySchema,
+  businessClaimRequestSchema,
+  businessClaimApprovalSchema,
+  businessClaimRejectionSchema,
+  trainerBlackoutDateRequestSchema,
+  photoOrderSchema,
+  businessLocationRequestSchema,
+  creditPackRequestSchema,
+  membershipPlanRequestSchema,
+  promoCodeRequestSchema,
+  giftVoucherRequestSchema,
+  bookingGuestNamesSchema,
+  bookingAttendeesSchema,
+  checkInSchema,
+  staffInvitationSchema,
+  instructorAssignmentSchema,
+  sessionScheduleSchema,
+  trainerSessionDurationSchema,
+  type BusinessStaff,
+  type ClassOccurrence,
+  type FitnessSession,
+  type FitnessSessionWithDetails,
+  type Photo,
+  type PhotoWithUrls,
+  type BusinessTimetable,
+  type TeachingSchedule,
+  type Review,
+  type UploadedFile,
+} from "@shared/schema";
+
+// What MYLES kept and who was paid, recorded on the booking for the provider's earnings ledger
+function getDestinationChargeDetails(paymentIntent: Stripe.PaymentIntent) {
+  const destination = paymentIntent.transfer_data?.destination;
+  return {
+    applicationFeeAmount: paymentIntent.application_fee_amount === null
+      ? null
+      : fromMinorUnits(paymentIntent.application_fee_amount).toFixed(2),
+    transferDestination: typeof destination === 'string' ? destination : destination?.id ?? null,
+  };
+}
+
+// Payments the customer has confirmed: settled, still clearing, or authorised and waiting to be captured
+const CONFIRMED_PAYMENT_STATUSES: Stripe.PaymentIntent.Status[] = ['succeeded', 'processing', 'requires_capture'];
+
+// Reviews are answered and flagged by whoever owns the business or trainer profile reviewed
+async function ownsReviewedProfile(review: Review, userId: string): Promise<boolean> {
+  if (review.businessId) {
+    const business = await storage.getBusinessById(review.businessId);
+    return business?.userId === userId;
+  }
+  if (review.trainerId) {
+    const trainer = await trainerStorage.getPersonalTrainerById(review.trainerId);
+    return trainer?.userId === userId;
+  }
+  return false;
+}
+
+// Uploaded file ids held in a JSON column; older rows may hold plain URL strings instead
+function getUploadIds(value: unknown): number[] {
+  return Array.isArray(value) ? value.filter((item): item is number => Number.isInteger(item)) : [];
+}
+
+// Files attached to a claim or profile must be the user's own uploads, made for that purpose
+async function findOwnedUploads(ids: number[], userId: string, purpose: UploadPurpose): Promise<UploadedFile[] | null> {
+  const files = await storage.getUploadedFilesByIds(ids);
+  const allOwned = files.length === new Set(ids).size &&
+    files.every((file) => file.userId === userId && file.purpose === purpose);
+  return allOwned ? files : null;
+}
+
+// Runs a multer handler, answering its size and field errors as client errors rather than 500s
+function handleUpload(upload: RequestHandler, maxBytes: number): RequestHandler {
+  return (req, res, next) => {
+    upload(req, res, (error) => {
+      if (error instanceof multer.MulterError) {
+        return error.code === 'LIMIT_FILE_SIZE'
+          ? res.status(413).json({ message: `Files must be ${maxBytes / (1024 * 1024)}MB or smaller` })
+          : res.status(400).json({ message: error.message });
+      }
+      next(error);
+    });
+  };
+}
+
+const documentUpload = handleUpload(multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 },
+}).single('file'), MAX_UPLOAD_BYTES);
+
+const photoUpload = handleUpload(multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_PHOTO_BYTES, files: MAX_PHOTOS_PER_UPLOAD },
+}).array('photos', MAX_PHOTOS_PER_UPLOAD), MAX_PHOTO_BYTES);
+
+// Galleries hang off either /api/businesses/:id or /api/personal-trainers/:id
+async function findGalleryOwner(kind: string, id: number): Promise<{ owner: PhotoOwner; userId: string | null } | undefined> {
+  if (kind === 'businesses') {
+    const business = await storage.getBusinessById(id);
+    return business && { owner: { businessId: business.id }, userId: business.userId };
+  }
+  const trainer = await trainerStorage.getPersonalTrainerById(id);
+  return trainer && { owner: { trainerId: trainer.id }, userId: trainer.userId };
+}
+
+function withPhotoUrls(photos: Photo[]): PhotoWithUrls[] {
+  return photos.map((photo) => ({ ...photo, urls: getPhotoUrls(photo) }));
+}
+
+// ?week= takes any date in the week wanted and defaults to the current week; null when it isn't a valid date
+function getRequestedWeek(week: unknown): ReturnType<typeof getZonedWeekWindow> | null {
+  const date = typeof week === 'string' ? week : toZonedDateString(new Date());
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(date).getTime())) {
+    return null;
+  }
+  return getZonedWeekWindow(date);
+}
 
-if (!process.env.STRIPE_SECRET_KEY) {
-  throw new Error('Missing required Stripe secret: STRIPE_SECRET_KEY');
+// Occurrences are only materialized from now up to the rolling horizon
+async function materializeWeek(sessions: FitnessSession[], week: { startsAt: Date; endsAt: Date }): Promise<void> {
+  const now = new Date();
+  const horizon = getOccurrenceHorizon(now);
+  const from = week.startsAt > now ? week.startsAt : now;
+  const until = week.endsAt > horizon ? horizon : week.endsAt;
+  if (from >= until) return;
+
+  for (const session of sessions) {
+    await storage.materializeClassOccurrences(session, from, until);
+  }
 }
 
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
-  apiVersion: "2024-06-20",
-});
+// Instructors are assigned from the business's own staff, once they've accepted their invitation
+async function isActiveInstructor(businessId: number, instructorId: number): Promise<boolean> {
+  const staffMember = await storage.getStaffMemberById(instructorId);
+  return staffMember?.businessId === businessId && staffMember.status === 'active';
+}
+
+// The business owner and whoever is teaching an occurrence can see who's booked on and check them in
+async function runsOccurrence(occurrence: Pick<ClassOccurrence, 'instructorId'>, session: FitnessSessionWithDetails, userId: string): Promise<boolean> {
+  if (session.business.userId === userId) return true;
+  const instructorId = occurrence.instructorId ?? session.instructorId;
+  const instructor = instructorId ? await storage.getStaffMemberById(instructorId) : undefined;
+  return instructor?.status === 'active' && instructor.userId === userId;
+}
+
+// Invitation tokens only ever go to the invited person
+function withoutInviteToken({ inviteToken, ...staffMember }: BusinessStaff): Omit<BusinessStaff, 'inviteToken'> {
+  return staffMember;
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
@@ -56,9 +279,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         subject: 'New Business Registration - Pending Approval',
         html: `
           <h2>New Business Registration</h2>
-          <p><strong>Business Name:</strong> ${business.name}</p>
-          <p><strong>Address:</strong> ${business.address}</p>
-          <p><strong>User:</strong> ${user.firstName} ${user.lastName} (${user.email})</p>
+          <p><strong>Business Name:</strong> ${escapeHtml(business.name)}</p>
+          <p><strong>Address:</strong> ${escapeHtml(business.address)}</p>
+          <p><strong>User:</strong> ${escapeHtml(user.firstName)} ${escapeHtml(user.lastName)} (${escapeHtml(user.email)})</p>
           <p>Please review and approve this business registration.</p>
         `
       });
@@ -81,369 +304,2642 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Business claiming routes
-  app.get('/api/businesses/unclaimed', async (req, res) => {
-    try {
-      const unclaimedBusinesses = await storage.getUnclaimedBusinesses();
-      res.json(unclaimedBusinesses);
-    } catch (error) {
-      console.error("Error fetching unclaimed businesses:", error);
-      res.status(500).json({ message: "Failed to fetch unclaimed businesses" });
-    }
-  });
-
-  app.post('/api/businesses/:id/claim', isAuthenticated, async (req: any, res) => {
+  // Verification document uploads - stored privately and only downloadable through signed admin links
+  app.post('/api/uploads', isAuthenticated, documentUpload, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const businessId = parseInt(req.params.id);
-      const { claimMessage, verificationDocuments } = req.body;
+      const purpose = req.body.purpose as UploadPurpose;
 
-      // Check if business exists and is unclaimed
-      const business = await storage.getBusinessById(businessId);
-      if (!business) {
-        return res.status(404).json({ message: "Business not found" });
+      if (!UPLOAD_PURPOSES.includes(purpose)) {
+        return res.status(400).json({ message: "Unknown upload purpose" });
+      }
+      if (!req.file) {
+        return res.status(400).json({ message: "A file is required" });
       }
 
-      if (business.claimed || business.userId) {
-        return res.status(400).json({ message: "Business is already claimed" });
+      const fileType = detectFileType(req.file.buffer);
+      if (!fileType) {
+        return res.status(415).json({ message: "Only PDF, JPEG, PNG or WebP files can be uploaded" });
       }
 
-      // Create claim request
-      const claim = await storage.createBusinessClaim({
-        businessId,
+      const storageKey = `${purpose}-${nanoid()}${fileType.extension}`;
+      await fileStore.put(storageKey, req.file.buffer, fileType.mimeType);
+
+      const file = await storage.createUploadedFile({
         userId,
-        claimMessage,
-        verificationDocuments: verificationDocuments || [],
-        status: 'pending'
+        purpose,
+        storageKey,
+        originalName: req.file.originalname.slice(0, 255),
+        mimeType: fileType.mimeType,
+        size: req.file.size,
       });
 
-      // Send notification email to admin
-      const user = await storage.getUser(userId);
-      await sendEmail({
-        to: process.env.ADMIN_EMAIL || 'admin@mylesfitness.co.uk',
-        subject: 'Business Claim Request - Pending Review',
-        html: `
-          <h2>Business Claim Request</h2>
-          <p><strong>Business:</strong> ${business.name}</p>
-          <p><strong>Address:</strong> ${business.address}</p>
-          <p><strong>Claimant:</strong> ${user?.firstName} ${user?.lastName} (${user?.email})</p>
-          <p><strong>Message:</strong> ${claimMessage}</p>
-          <p>Please review and approve this business claim request.</p>
-        `
+      res.status(201).json({
+        id: file.id,
+        originalName: file.originalName,
+        mimeType: file.mimeType,
+        size: file.size,
       });
-
-      res.status(201).json(claim);
     } catch (error) {
-      console.error("Error creating business claim:", error);
-      res.status(500).json({ message: "Failed to create business claim" });
+      console.error("Error uploading file:", error);
+      res.status(500).json({ message: "Failed to upload file" });
     }
   });
 
-  // Business subscription routes
-  app.post('/api/businesses/:id/upgrade', isAuthenticated, async (req: any, res) => {
+  app.get('/api/admin/uploads/:id/link', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const businessId = parseInt(req.params.id);
-      const { subscriptionTier } = req.body;
-
-      // Check if user owns the business
-      const business = await storage.getBusinessById(businessId);
-      if (!business || business.user.id !== userId) {
-        return res.status(403).json({ message: "Not authorized to upgrade this business" });
+      const user = await storage.getUser(req.user.claims.sub);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
       }
 
-      if (subscriptionTier === 'free') {
-        // Downgrade to free
-        const updatedBusiness = await storage.updateBusinessSubscription(businessId, {
-          subscriptionTier: 'free',
-          bookingEnabled: false,
-          subscriptionExpiry: null,
-          stripeSubscriptionId: null,
-        });
-        res.json(updatedBusiness);
-      } else {
-        // Create Stripe subscription for paid plans
-        let priceId: string;
-        switch (subscriptionTier) {
-          case 'basic':
-            priceId = process.env.STRIPE_BASIC_PRICE_ID || '';
-            break;
-          case 'premium':
-            priceId = process.env.STRIPE_PREMIUM_PRICE_ID || '';
-            break;
-          default:
-            return res.status(400).json({ message: "Invalid subscription tier" });
-        }
+      const file = await storage.getUploadedFileById(parseInt(req.params.id));
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
 
-        if (!priceId) {
-          return res.status(500).json({ message: "Subscription pricing not configured" });
-        }
+      const [link] = await linkUploadedFiles([file]);
+      res.json({ ...link, expiresAt: new Date(Date.now() + DOWNLOAD_LINK_TTL_SECONDS * 1000) });
+    } catch (error) {
+      console.error("Error creating download link:", error);
+      res.status(500).json({ message: "Failed to create download link" });
+    }
+  });
 
-        // Get or create Stripe customer
-        const user = await storage.getUser(userId);
-        let customerId = user?.stripeCustomerId;
-
-        if (!customerId) {
-          const customer = await stripe.customers.create({
-            email: user?.email || '',
-            name: `${user?.firstName} ${user?.lastName}`,
-            metadata: {
-              userId: userId,
-              businessId: businessId.toString(),
-            },
-          });
-          customerId = customer.id;
-          await storage.updateUserStripeCustomerId(userId, customerId);
-        }
+  // Signed downloads for files kept on local disk (S3 links go straight to the bucket)
+  app.get('/api/files/:key', async (req, res) => {
+    try {
+      if (!(fileStore instanceof LocalDiskFileStore)) {
+        return res.status(404).json({ message: "File not found" });
+      }
 
-        // Create subscription
-        const subscription = await stripe.subscriptions.create({
-          customer: customerId,
-          items: [{ price: priceId }],
-          payment_behavior: 'default_incomplete',
-          expand: ['latest_invoice.payment_intent'],
-        });
+      const key = req.params.key;
+      const name = req.query.name as string;
+      const expires = parseInt(req.query.expires as string);
+      const signature = req.query.signature as string;
+      if (!name || !signature || !fileStore.verifyDownload(key, name, expires, signature)) {
+        return res.status(403).json({ message: "This download link is invalid or has expired" });
+      }
 
-        // Update business with subscription details
-        const updatedBusiness = await storage.updateBusinessSubscription(businessId, {
-          subscriptionTier,
-          bookingEnabled: true,
-          subscriptionExpiry: new Date(subscription.current_period_end * 1000),
-          stripeSubscriptionId: subscription.id,
-        });
+      res.download(fileStore.resolvePath(key), name, (error) => {
+        if (error && !res.headersSent) {
+          res.status(404).json({ message: "File not found" });
+        }
+      });
+    } catch (error) {
+      console.error("Error downloading file:", error);
+      res.status(500).json({ message: "Failed to download file" });
+    }
+  });
 
-        res.json({
-          business: updatedBusiness,
-          clientSecret: (subscription.latest_invoice as any)?.payment_intent?.client_secret,
-          subscriptionId: subscription.id,
-        });
+  // Public business profiles - only approved businesses, without owner or payment details
+  app.get('/api/businesses/slug/:slug', async (req, res) => {
+    try {
+      const business = await storage.getBusinessBySlug(req.params.slug.toLowerCase());
+      if (!business || !business.approved) {
+        return res.status(404).json({ message: "Business not found" });
       }
+      res.json(toPublicBusiness(business));
     } catch (error) {
-      console.error("Error upgrading business subscription:", error);
-      res.status(500).json({ message: "Failed to upgrade subscription" });
+      console.error("Error fetching business:", error);
+      res.status(500).json({ message: "Failed to fetch business" });
     }
   });
 
-  // Session types routes
-  app.get('/api/session-types', async (req, res) => {
+  app.get('/api/businesses/:id(\\d+)', async (req, res) => {
     try {
-      const sessionTypes = await storage.getSessionTypes();
-      res.json(sessionTypes);
+      const business = await storage.getBusinessById(parseInt(req.params.id));
+      if (!business || !business.approved) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+      res.json(toPublicBusiness(business));
     } catch (error) {
-      console.error("Error fetching session types:", error);
-      res.status(500).json({ message: "Failed to fetch session types" });
+      console.error("Error fetching business:", error);
+      res.status(500).json({ message: "Failed to fetch business" });
     }
   });
 
-  // Fitness sessions routes
-  app.post('/api/sessions', isAuthenticated, async (req: any, res) => {
+  // A week of the business's classes; defaults to the current week
+  app.get('/api/businesses/:id/timetable', async (req, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const businesses = await storage.getBusinessesByUserId(userId);
-      
-      if (businesses.length === 0) {
-        return res.status(403).json({ message: "No approved business found" });
+      const businessId = parseInt(req.params.id);
+      const week = getRequestedWeek(req.query.week);
+      if (!week) {
+        return res.status(400).json({ message: "Week must be a date in YYYY-MM-DD format" });
       }
 
-      const sessionData = insertFitnessSessionSchema.parse(req.body);
-      const session = await storage.createFitnessSession(sessionData);
-      
-      // Send notification email to admin
-      await sendEmail({
-        to: process.env.ADMIN_EMAIL || 'admin@mylesfitness.co.uk',
-        subject: 'New Session Submission - Pending Approval',
-        html: `
-          <h2>New Session Submission</h2>
-          <p><strong>Session:</strong> ${session.title}</p>
-          <p><strong>Business:</strong> ${businesses[0].name}</p>
-          <p><strong>Price:</strong> £${session.price}</p>
-          <p>Please review and approve this session.</p>
-        `
-      });
+      const business = await storage.getBusinessById(businessId);
+      if (!business || !business.approved) {
+        return res.status(404).json({ message: "Business not found" });
+      }
 
-      res.status(201).json(session);
+      const sessions = await storage.getTimetableSessions(businessId);
+      await materializeWeek(sessions, week);
+
+      const occurrences = await storage.getClassOccurrencesByBusinessId(businessId, week.startsAt, week.endsAt);
+      const instructorIds = new Set([...sessions, ...occurrences].map((item) => item.instructorId));
+      const staff = await storage.getStaffByBusinessId(businessId);
+
+      const timetable: BusinessTimetable = {
+        weekStart: week.weekStart,
+        sessions,
+        occurrences,
+        instructors: staff
+          .filter((staffMember) => staffMember.status === 'active' && instructorIds.has(staffMember.id))
+          .map(toPublicInstructor),
+      };
+      res.json(timetable);
     } catch (error) {
-      console.error("Error creating session:", error);
-      res.status(500).json({ message: "Failed to create session" });
+      console.error("Error fetching timetable:", error);
+      res.status(500).json({ message: "Failed to fetch timetable" });
     }
   });
 
-  app.get('/api/sessions/search', async (req, res) => {
+  // Business locations - every site an approved business runs sessions at besides its own address
+  app.get('/api/businesses/:id/locations', async (req, res) => {
     try {
-      const filters = {
-        postcode: req.query.postcode as string,
-        sessionType: req.query.sessionType as string,
-        ageGroup: req.query.ageGroup as string,
-        difficulty: req.query.difficulty as string,
-        maxPrice: req.query.maxPrice ? parseFloat(req.query.maxPrice as string) : undefined,
-        minPrice: req.query.minPrice ? parseFloat(req.query.minPrice as string) : undefined,
-      };
+      const business = await storage.getBusinessById(parseInt(req.params.id));
+      if (!business || !business.approved) {
+        return res.status(404).json({ message: "Business not found" });
+      }
 
-      const sessions = await storage.searchFitnessSessions(filters);
-      res.json(sessions);
+      const locations = await storage.getBusinessLocations(business.id);
+      res.json(locations);
     } catch (error) {
-      console.error("Error searching sessions:", error);
-      res.status(500).json({ message: "Failed to search sessions" });
+      console.error("Error fetching business locations:", error);
+      res.status(500).json({ message: "Failed to fetch business locations" });
     }
   });
 
-  app.get('/api/sessions/business/:businessId', isAuthenticated, async (req: any, res) => {
+  app.post('/api/businesses/:id/locations', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const businessId = parseInt(req.params.businessId);
-      
-      // Verify user owns this business
-      const businesses = await storage.getBusinessesByUserId(userId);
-      const ownsBusiness = businesses.some(b => b.id === businessId);
-      
-      if (!ownsBusiness) {
+      const business = await storage.getBusinessById(parseInt(req.params.id));
+      if (!business || business.userId !== userId) {
         return res.status(403).json({ message: "Access denied" });
       }
 
-      const sessions = await storage.getFitnessSessionsByBusinessId(businessId);
-      res.json(sessions);
+      const locationData = businessLocationRequestSchema.parse(req.body);
+      const location = await storage.createBusinessLocation({ ...locationData, businessId: business.id });
+      res.status(201).json(location);
     } catch (error) {
-      console.error("Error fetching business sessions:", error);
-      res.status(500).json({ message: "Failed to fetch sessions" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid location", errors: error.errors });
+      }
+      console.error("Error creating business location:", error);
+      res.status(500).json({ message: "Failed to create business location" });
     }
   });
 
-  // Booking routes
-  app.post('/api/bookings', isAuthenticated, async (req: any, res) => {
+  app.put('/api/businesses/:id/locations/:locationId', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const bookingData = insertBookingSchema.parse({
-        ...req.body,
-        userId
-      });
+      const business = await storage.getBusinessById(parseInt(req.params.id));
+      if (!business || business.userId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
 
-      const booking = await storage.createBooking(bookingData);
-      const bookingDetails = await storage.getBookingById(booking.id);
-      
-      if (bookingDetails) {
-        // Send confirmation email to user
-        const user = await storage.getUser(userId);
-        if (user?.email) {
-          await sendEmail({
-            to: user.email,
-            subject: 'Booking Confirmation - MYLES',
-            html: `
-              <h2>Booking Confirmed!</h2>
-              <p>Your booking has been confirmed for:</p>
-              <p><strong>Session:</strong> ${bookingDetails.session.title}</p>
-              <p><strong>Date:</strong> ${bookingDetails.sessionDate}</p>
-              <p><strong>Total:</strong> £${bookingDetails.totalAmount}</p>
-              <p>Thank you for choosing MYLES!</p>
-            `
-          });
-        }
+      const location = await storage.getBusinessLocationById(parseInt(req.params.locationId));
+      if (!location || location.businessId !== business.id) {
+        return res.status(404).json({ message: "Location not found" });
       }
 
-      res.status(201).json(booking);
+      const locationData = businessLocationRequestSchema.parse(req.body);
+      const updated = await storage.updateBusinessLocation(location.id, locationData);
+      res.json(updated);
     } catch (error) {
-      console.error("Error creating booking:", error);
-      res.status(500).json({ message: "Failed to create booking" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid location", errors: error.errors });
+      }
+      console.error("Error updating business location:", error);
+      res.status(500).json({ message: "Failed to update business location" });
     }
   });
 
-  app.get('/api/bookings/my', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/businesses/:id/locations/:locationId', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const bookings = await storage.getBookingsByUserId(userId);
-      res.json(bookings);
+      const business = await storage.getBusinessById(parseInt(req.params.id));
+      if (!business || business.userId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const location = await storage.getBusinessLocationById(parseInt(req.params.locationId));
+      if (!location || location.businessId !== business.id) {
+        return res.status(404).json({ message: "Location not found" });
+      }
+
+      await storage.deleteBusinessLocation(location.id);
+      res.status(204).end();
     } catch (error) {
-      console.error("Error fetching bookings:", error);
-      res.status(500).json({ message: "Failed to fetch bookings" });
+      if (error instanceof BusinessLocationError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error deleting business location:", error);
+      res.status(500).json({ message: "Failed to delete business location" });
     }
   });
 
-  // Stripe payment routes
-  app.post("/api/create-payment-intent", isAuthenticated, async (req, res) => {
+  // Class packs - bought up front and spent one credit per booking instead of paying per class
+  app.get('/api/businesses/:id/credit-packs', async (req, res) => {
     try {
-      const { amount, sessionId } = req.body;
-      
-      if (!amount || !sessionId) {
-        return res.status(400).json({ message: "Amount and session ID are required" });
+      const business = await storage.getBusinessById(parseInt(req.params.id));
+      if (!business || !business.approved) {
+        return res.status(404).json({ message: "Business not found" });
       }
 
-      const paymentIntent = await stripe.paymentIntents.create({
-        amount: Math.round(amount * 100), // Convert to cents
-        currency: "gbp",
-        metadata: {
-          sessionId: sessionId.toString()
-        }
-      });
-
-      res.json({ clientSecret: paymentIntent.client_secret });
-    } catch (error: any) {
-      res.status(500).json({ message: "Error creating payment intent: " + error.message });
+      const packs = await storage.getActiveCreditPacks(business.id);
+      res.json(packs);
+    } catch (error) {
+      console.error("Error fetching class packs:", error);
+      res.status(500).json({ message: "Failed to fetch class packs" });
     }
   });
 
-  // Admin routes
-  app.get('/api/admin/stats', isAuthenticated, async (req: any, res) => {
+  app.post('/api/businesses/:id/credit-packs', isAuthenticated, async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      const userId = req.user.claims.sub;
+      const business = await storage.getBusinessById(parseInt(req.params.id));
+      if (!business || business.userId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
       }
 
-      const stats = await storage.getStats();
-      res.json(stats);
+      const { price, ...packData } = creditPackRequestSchema.parse(req.body);
+      const pack = await storage.createCreditPack({
+        ...packData,
+        businessId: business.id,
+        price: price.toFixed(2),
+      });
+      res.status(201).json(pack);
     } catch (error) {
-      console.error("Error fetching admin stats:", error);
-      res.status(500).json({ message: "Failed to fetch stats" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid class pack", errors: error.errors });
+      }
+      console.error("Error creating class pack:", error);
+      res.status(500).json({ message: "Failed to create class pack" });
+    }
+  });
+
+  // Retired packs come off sale, but credits customers have already bought can still be used
+  app.delete('/api/businesses/:id/credit-packs/:packId', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const business = await storage.getBusinessById(parseInt(req.params.id));
+      if (!business || business.userId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const pack = await storage.getCreditPackById(parseInt(req.params.packId));
+      if (!pack || pack.businessId !== business.id) {
+        return res.status(404).json({ message: "Class pack not found" });
+      }
+
+      const retired = await storage.retireCreditPack(pack.id);
+      res.json(retired);
+    } catch (error) {
+      console.error("Error retiring class pack:", error);
+      res.status(500).json({ message: "Failed to retire class pack" });
+    }
+  });
+
+  // Membership plans - monthly subscriptions with unlimited or capped classes, public to view and managed by the owner
+  app.get('/api/businesses/:id/membership-plans', async (req, res) => {
+    try {
+      const business = await storage.getBusinessById(parseInt(req.params.id));
+      if (!business || !business.approved) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      const plans = await storage.getActiveMembershipPlans(business.id);
+      res.json(plans);
+    } catch (error) {
+      console.error("Error fetching membership plans:", error);
+      res.status(500).json({ message: "Failed to fetch membership plans" });
+    }
+  });
+
+  app.post('/api/businesses/:id/membership-plans', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const business = await storage.getBusinessById(parseInt(req.params.id));
+      if (!business || business.userId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { price, ...planData } = membershipPlanRequestSchema.parse(req.body);
+      // Stripe prices can't change, so a new price means a new plan
+      const stripePriceId = await createMembershipPrice(business, { name: planData.name, price: price.toFixed(2) });
+      const plan = await storage.createMembershipPlan({
+        ...planData,
+        businessId: business.id,
+        price: price.toFixed(2),
+        stripePriceId,
+      });
+      res.status(201).json(plan);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid membership plan", errors: error.errors });
+      }
+      console.error("Error creating membership plan:", error);
+      res.status(500).json({ message: "Failed to create membership plan" });
+    }
+  });
+
+  // Retired plans can't be joined, but existing members keep their membership until they cancel
+  app.delete('/api/businesses/:id/membership-plans/:planId', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const business = await storage.getBusinessById(parseInt(req.params.id));
+      if (!business || business.userId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const plan = await storage.getMembershipPlanById(parseInt(req.params.planId));
+      if (!plan || plan.businessId !== business.id) {
+        return res.status(404).json({ message: "Membership plan not found" });
+      }
+
+      const retired = await storage.retireMembershipPlan(plan.id);
+      res.json(retired);
+    } catch (error) {
+      console.error("Error retiring membership plan:", error);
+      res.status(500).json({ message: "Failed to retire membership plan" });
+    }
+  });
+
+  // Promo codes - private to the business, with how often each has been redeemed
+  app.get('/api/businesses/:id/promo-codes', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const business = await storage.getBusinessById(parseInt(req.params.id));
+      if (!business || business.userId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const promoCodes = await storage.getPromoCodesByBusinessId(business.id);
+      res.json(promoCodes);
+    } catch (error) {
+      console.error("Error fetching promo codes:", error);
+      res.status(500).json({ message: "Failed to fetch promo codes" });
+    }
+  });
+
+  app.post('/api/businesses/:id/promo-codes', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const business = await storage.getBusinessById(parseInt(req.params.id));
+      if (!business || business.userId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { discountValue, ...promoData } = promoCodeRequestSchema.parse(req.body);
+      if (await storage.getPromoCodeByCode(business.id, promoData.code)) {
+        return res.status(409).json({ message: "You already have a promo code with that name" });
+      }
+
+      const promo = await storage.createPromoCode({
+        ...promoData,
+        businessId: business.id,
+        discountValue: discountValue.toFixed(2),
+      });
+      res.status(201).json(promo);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid promo code", errors: error.errors });
+      }
+      console.error("Error creating promo code:", error);
+      res.status(500).json({ message: "Failed to create promo code" });
+    }
+  });
+
+  // Deactivated codes stop working straight away; their redemption history is kept
+  app.delete('/api/businesses/:id/promo-codes/:promoId', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const business = await storage.getBusinessById(parseInt(req.params.id));
+      if (!business || business.userId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const promo = await storage.getPromoCodeById(parseInt(req.params.promoId));
+      if (!promo || promo.businessId !== business.id) {
+        return res.status(404).json({ message: "Promo code not found" });
+      }
+
+      const deactivated = await storage.deactivatePromoCode(promo.id);
+      res.json(deactivated);
+    } catch (error) {
+      console.error("Error deactivating promo code:", error);
+      res.status(500).json({ message: "Failed to deactivate promo code" });
+    }
+  });
+
+  // Checks a code against a session for the signed-in customer and returns the discounted price
+  app.post('/api/promo/validate', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { code } = req.body;
+      if (typeof code !== 'string' || !code.trim()) {
+        return res.status(400).json({ message: "Promo code is required" });
+      }
+
+      const session = await storage.getFitnessSessionById(parseInt(req.body.sessionId));
+      if (!session || !session.approved) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      const attendees = bookingAttendeesSchema.parse(req.body.attendees);
+      const promo = await findApplicablePromoCode(code, userId, session);
+      res.json(quoteWithPromoCode(session, attendees, promo));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid number of attendees", errors: error.errors });
+      }
+      if (error instanceof PromoCodeError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error validating promo code:", error);
+      res.status(500).json({ message: "Failed to validate promo code" });
+    }
+  });
+
+  // Gift vouchers - bought for a business or trainer, and spent by whoever has the code
+  app.get('/api/gift-vouchers/my', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      const vouchers = await storage.getGiftVouchersForUser(userId, user?.email ?? null);
+      res.json(vouchers);
+    } catch (error) {
+      console.error("Error fetching gift vouchers:", error);
+      res.status(500).json({ message: "Failed to fetch gift vouchers" });
+    }
+  });
+
+  // Called once the purchaser has paid for a voucher; the webhook covers payments that settle later
+  app.post('/api/gift-vouchers', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { paymentIntentId } = req.body;
+      if (!paymentIntentId) {
+        return res.status(400).json({ message: "Payment intent ID is required" });
+      }
+
+      const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+      if (paymentIntent.metadata.userId !== userId || !paymentIntent.metadata.giftVoucherAmount) {
+        return res.status(400).json({ message: "Invalid payment for this gift voucher" });
+      }
+
+      if (paymentIntent.status !== 'succeeded') {
+        return res.status(202).json({ message: "The voucher will be sent once your payment has cleared" });
+      }
+
+      const voucher = await fulfilGiftVoucherPayment(paymentIntent);
+      if (!voucher) {
+        return res.status(404).json({ message: "Gift voucher not found" });
+      }
+      res.status(201).json(voucher);
+    } catch (error) {
+      console.error("Error recording gift voucher purchase:", error);
+      res.status(500).json({ message: "Failed to record gift voucher purchase" });
+    }
+  });
+
+  // Shows the customer what a voucher will pay towards a class or a personal training session
+  app.post('/api/gift-vouchers/validate', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { code, sessionId, trainerId, duration, promoCode } = req.body;
+      if (typeof code !== 'string' || !code.trim()) {
+        return res.status(400).json({ message: "Gift voucher code is required" });
+      }
+
+      if (sessionId) {
+        const session = await storage.getFitnessSessionById(parseInt(sessionId));
+        if (!session || !session.approved) {
+          return res.status(404).json({ message: "Session not found" });
+        }
+        const attendees = bookingAttendeesSchema.parse(req.body.attendees);
+        const voucher = await findRedeemableGiftVoucher(code, { businessId: session.businessId });
+        const promo = promoCode ? await findApplicablePromoCode(promoCode, userId, session) : undefined;
+        return res.json(quoteWithGiftVoucher(voucher, quoteSessionPrice(session, attendees, promo, voucher)));
+      }
+
+      if (trainerId && duration) {
+        const trainer = await trainerStorage.getPersonalTrainerById(parseInt(trainerId));
+        if (!trainer || !trainer.approved || !trainer.hourlyRate) {
+          return res.status(404).json({ message: "Trainer not found" });
+        }
+        const voucher = await findRedeemableGiftVoucher(code, { trainerId: trainer.id });
+        return res.json(quoteWithGiftVoucher(voucher, quoteTrainerPrice(trainer, parseInt(duration), voucher)));
+      }
+
+      res.status(400).json({ message: "Session ID, or trainer ID and duration are required" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid number of attendees", errors: error.errors });
+      }
+      if (error instanceof GiftVoucherError || error instanceof PromoCodeError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error validating gift voucher:", error);
+      res.status(500).json({ message: "Failed to validate gift voucher" });
+    }
+  });
+
+  // Photo galleries for businesses and personal trainers - public to view, managed by the profile's owner
+  app.get('/api/:kind(businesses|personal-trainers)/:id/photos', async (req, res) => {
+    try {
+      const gallery = await findGalleryOwner(req.params.kind, parseInt(req.params.id));
+      if (!gallery) {
+        return res.status(404).json({ message: "Profile not found" });
+      }
+
+      const photos = await storage.getPhotos(gallery.owner);
+      res.json(withPhotoUrls(photos));
+    } catch (error) {
+      console.error("Error fetching photos:", error);
+      res.status(500).json({ message: "Failed to fetch photos" });
+    }
+  });
+
+  app.post('/api/:kind(businesses|personal-trainers)/:id/photos', isAuthenticated, photoUpload, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const gallery = await findGalleryOwner(req.params.kind, parseInt(req.params.id));
+      if (!gallery) {
+        return res.status(404).json({ message: "Profile not found" });
+      }
+      if (gallery.userId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const files = (req.files ?? []) as Express.Multer.File[];
+      if (files.length === 0) {
+        return res.status(400).json({ message: "At least one photo is required" });
+      }
+
+      const processed = [];
+      try {
+        for (const file of files) {
+          processed.push(await processPhoto(file.buffer));
+        }
+        const photos = await storage.addPhotos(gallery.owner, userId, processed);
+        res.status(201).json(withPhotoUrls(photos));
+      } catch (error) {
+        await Promise.all(processed.map(deletePhotoFiles));
+        throw error;
+      }
+    } catch (error) {
+      if (error instanceof UploadError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof PhotoGalleryError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error uploading photos:", error);
+      res.status(500).json({ message: "Failed to upload photos" });
+    }
+  });
+
+  app.put('/api/:kind(businesses|personal-trainers)/:id/photos/order', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const gallery = await findGalleryOwner(req.params.kind, parseInt(req.params.id));
+      if (!gallery) {
+        return res.status(404).json({ message: "Profile not found" });
+      }
+      if (gallery.userId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { photoIds } = photoOrderSchema.parse(req.body);
+      const photos = await storage.reorderPhotos(gallery.owner, photoIds);
+      res.json(withPhotoUrls(photos));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid photo order", errors: error.errors });
+      }
+      if (error instanceof PhotoGalleryError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error reordering photos:", error);
+      res.status(500).json({ message: "Failed to reorder photos" });
+    }
+  });
+
+  app.put('/api/:kind(businesses|personal-trainers)/:id/photos/:photoId/cover', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const gallery = await findGalleryOwner(req.params.kind, parseInt(req.params.id));
+      if (!gallery) {
+        return res.status(404).json({ message: "Profile not found" });
+      }
+      if (gallery.userId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const photos = await storage.setCoverPhoto(gallery.owner, parseInt(req.params.photoId));
+      res.json(withPhotoUrls(photos));
+    } catch (error) {
+      if (error instanceof PhotoGalleryError) {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error("Error setting cover photo:", error);
+      res.status(500).json({ message: "Failed to set cover photo" });
+    }
+  });
+
+  app.delete('/api/:kind(businesses|personal-trainers)/:id/photos/:photoId', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const gallery = await findGalleryOwner(req.params.kind, parseInt(req.params.id));
+      if (!gallery) {
+        return res.status(404).json({ message: "Profile not found" });
+      }
+      if (gallery.userId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const deleted = await storage.deletePhoto(gallery.owner, parseInt(req.params.photoId));
+      if (!deleted) {
+        return res.status(404).json({ message: "Photo not found" });
+      }
+
+      // The row is already gone, so a storage hiccup here only leaves orphaned files behind
+      await deletePhotoFiles(deleted).catch((error) => console.error("Error deleting photo files:", error));
+
+      const photos = await storage.getPhotos(gallery.owner);
+      res.json(withPhotoUrls(photos));
+    } catch (error) {
+      console.error("Error deleting photo:", error);
+      res.status(500).json({ message: "Failed to delete photo" });
+    }
+  });
+
+  // Resized gallery images; keys are random and never reused, so they can be cached indefinitely
+  app.get('/api/media/:key', async (req, res) => {
+    try {
+      const key = req.params.key;
+      if (!key.startsWith(PHOTO_KEY_PREFIX) || !isValidStorageKey(key)) {
+        return res.status(404).json({ message: "Image not found" });
+      }
+
+      const image = await fileStore.read(key);
+      if (!image) {
+        return res.status(404).json({ message: "Image not found" });
+      }
+
+      res.set({
+        'Content-Type': 'image/webp',
+        'Cache-Control': 'public, max-age=31536000, immutable',
+      });
+      image.on('error', (error) => {
+        console.error("Error streaming image:", error);
+        res.destroy(error);
+      });
+      image.pipe(res);
+    } catch (error) {
+      console.error("Error serving image:", error);
+      res.status(500).json({ message: "Failed to load image" });
+    }
+  });
+
+  // Business claiming routes
+  app.get('/api/businesses/unclaimed', async (req, res) => {
+    try {
+      const unclaimedBusinesses = await storage.getUnclaimedBusinesses();
+      res.json(unclaimedBusinesses);
+    } catch (error) {
+      console.error("Error fetching unclaimed businesses:", error);
+      res.status(500).json({ message: "Failed to fetch unclaimed businesses" });
+    }
+  });
+
+  app.post('/api/businesses/:id/claim', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const businessId = parseInt(req.params.id);
+      const { claimMessage, verificationDocuments } = businessClaimRequestSchema.parse(req.body);
+
+      // Check if business exists and is unclaimed
+      const business = await storage.getBusinessById(businessId);
+      if (!business) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      if (business.claimed || business.userId) {
+        return res.status(400).json({ message: "Business is already claimed" });
+      }
+
+      if (!(await findOwnedUploads(verificationDocuments, userId, 'business_claim'))) {
+        return res.status(400).json({ message: "Verification documents must be files you uploaded for this claim" });
+      }
+
+      // Create claim request
+      const claim = await storage.createBusinessClaim({
+        businessId,
+        userId,
+        claimMessage,
+        verificationDocuments,
+        status: 'pending'
+      });
+
+      // Send notification email to admin
+      const user = await storage.getUser(userId);
+      await sendEmail({
+        to: process.env.ADMIN_EMAIL || 'admin@mylesfitness.co.uk',
+        subject: 'Business Claim Request - Pending Review',
+        html: `
+          <h2>Business Claim Request</h2>
+          <p><strong>Business:</strong> ${escapeHtml(business.name)}</p>
+          <p><strong>Address:</strong> ${escapeHtml(business.address)}</p>
+          <p><strong>Claimant:</strong> ${escapeHtml(user?.firstName)} ${escapeHtml(user?.lastName)} (${escapeHtml(user?.email)})</p>
+          <p><strong>Message:</strong> ${escapeHtml(claimMessage)}</p>
+          <p>Please review and approve this business claim request.</p>
+        `
+      });
+
+      res.status(201).json(claim);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid claim request", errors: error.errors });
+      }
+      console.error("Error creating business claim:", error);
+      res.status(500).json({ message: "Failed to create business claim" });
+    }
+  });
+
+  app.put('/api/businesses/:id/cancellation-policy', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const businessId = parseInt(req.params.id);
+
+      const business = await storage.getBusinessById(businessId);
+      if (!business || business.user.id !== userId) {
+        return res.status(403).json({ message: "Not authorized to update this business" });
+      }
+
+      const policy = cancellationPolicySchema.parse(req.body);
+      const updatedBusiness = await storage.updateBusinessCancellationPolicy(businessId, policy);
+      res.json(updatedBusiness);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid cancellation policy", errors: error.errors });
+      }
+      console.error("Error updating cancellation policy:", error);
+      res.status(500).json({ message: "Failed to update cancellation policy" });
+    }
+  });
+
+  // Stripe Connect payout routes
+  app.post('/api/businesses/:id/payouts/onboard', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const businessId = parseInt(req.params.id);
+
+      const business = await storage.getBusinessById(businessId);
+      if (!business || business.user.id !== userId) {
+        return res.status(403).json({ message: "Not authorized to manage payouts for this business" });
+      }
+
+      const { stripeAccountId, url } = await createOnboardingLink({
+        stripeAccountId: business.stripeAccountId,
+        email: business.email || business.user.email,
+        metadata: { businessId: business.id.toString() },
+        returnPath: '/business',
+      });
+      if (stripeAccountId !== business.stripeAccountId) {
+        await storage.updateBusinessStripeAccount(business.id, stripeAccountId, false);
+      }
+
+      res.json({ url });
+    } catch (error) {
+      console.error("Error starting payout onboarding:", error);
+      res.status(500).json({ message: "Failed to start payout onboarding" });
+    }
+  });
+
+  // Re-checks the connected account on return from onboarding, without waiting for the webhook
+  app.post('/api/businesses/:id/payouts/refresh', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const businessId = parseInt(req.params.id);
+
+      const business = await storage.getBusinessById(businessId);
+      if (!business || business.user.id !== userId) {
+        return res.status(403).json({ message: "Not authorized to manage payouts for this business" });
+      }
+
+      if (business.stripeAccountId) {
+        await syncConnectedAccount(await stripe.accounts.retrieve(business.stripeAccountId));
+      }
+
+      const updatedBusiness = await storage.getBusinessById(businessId);
+      res.json(updatedBusiness);
+    } catch (error) {
+      console.error("Error refreshing payout status:", error);
+      res.status(500).json({ message: "Failed to refresh payout status" });
+    }
+  });
+
+  app.get('/api/businesses/:id/earnings', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const businessId = parseInt(req.params.id);
+
+      const business = await storage.getBusinessById(businessId);
+      const user = await storage.getUser(userId);
+      if (!business || (business.user.id !== userId && user?.role !== 'admin')) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const bookings = await storage.getBookingsByBusinessId(businessId);
+      const earnings = await getBusinessEarnings(business.stripeAccountId, bookings);
+      res.json(earnings);
+    } catch (error) {
+      console.error("Error fetching earnings:", error);
+      res.status(500).json({ message: "Failed to fetch earnings" });
+    }
+  });
+
+  // Business subscription routes
+  app.post('/api/businesses/:id/upgrade', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const businessId = parseInt(req.params.id);
+      const { subscriptionTier } = req.body;
+
+      // Check if user owns the business
+      const business = await storage.getBusinessById(businessId);
+      if (!business || business.user.id !== userId) {
+        return res.status(403).json({ message: "Not authorized to upgrade this business" });
+      }
+
+      if (subscriptionTier === 'free') {
+        // Downgrade to free
+        const updatedBusiness = await storage.updateBusinessSubscription(businessId, {
+          subscriptionTier: 'free',
+          bookingEnabled: false,
+          subscriptionExpiry: null,
+          stripeSubscriptionId: null,
+        });
+        res.json(updatedBusiness);
+      } else {
+        // Create Stripe subscription for paid plans
+        let priceId: string;
+        switch (subscriptionTier) {
+          case 'basic':
+            priceId = process.env.STRIPE_BASIC_PRICE_ID || '';
+            break;
+          case 'premium':
+            priceId = process.env.STRIPE_PREMIUM_PRICE_ID || '';
+            break;
+          default:
+            return res.status(400).json({ message: "Invalid subscription tier" });
+        }
+
+        if (!priceId) {
+          return res.status(500).json({ message: "Subscription pricing not configured" });
+        }
+
+        const user = await storage.getUser(userId);
+        if (!user) {
+          return res.status(404).json({ message: "User not found" });
+        }
+        const customerId = await getOrCreateStripeCustomer(user, { businessId: businessId.toString() });
+
+        // Create subscription
+        const subscription = await stripe.subscriptions.create({
+          customer: customerId,
+          items: [{ price: priceId }],
+          payment_behavior: 'default_incomplete',
+          expand: ['latest_invoice.payment_intent'],
+          metadata: {
+            businessId: businessId.toString(),
+            subscriptionTier,
+          },
+        });
+
+        // The plan is only activated by the Stripe webhook once the first invoice is paid
+        const updatedBusiness = await storage.updateBusinessStripeSubscriptionId(businessId, subscription.id);
+
+        res.json({
+          business: updatedBusiness,
+          clientSecret: (subscription.latest_invoice as any)?.payment_intent?.client_secret,
+          subscriptionId: subscription.id,
+        });
+      }
+    } catch (error) {
+      console.error("Error upgrading business subscription:", error);
+      res.status(500).json({ message: "Failed to upgrade subscription" });
+    }
+  });
+
+  // Business staff routes - owners invite instructors, who accept by signing in from the emailed link
+  app.get('/api/businesses/:id/staff', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const business = await storage.getBusinessById(parseInt(req.params.id));
+      if (!business || business.userId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const staff = await storage.getStaffByBusinessId(business.id);
+      res.json(staff.map(withoutInviteToken));
+    } catch (error) {
+      console.error("Error fetching staff:", error);
+      res.status(500).json({ message: "Failed to fetch staff" });
+    }
+  });
+
+  app.post('/api/businesses/:id/staff', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const business = await storage.getBusinessById(parseInt(req.params.id));
+      if (!business || business.userId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const invitation = staffInvitationSchema.parse(req.body);
+      const staffMember = await storage.createStaffInvitation({
+        ...invitation,
+        businessId: business.id,
+        inviteToken: nanoid(32),
+        invitedBy: userId,
+      });
+      await sendStaffInvitation(staffMember, business.name);
+
+      res.status(201).json(withoutInviteToken(staffMember));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid invitation", errors: error.errors });
+      }
+      if (error instanceof StaffError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error inviting staff member:", error);
+      res.status(500).json({ message: "Failed to invite staff member" });
+    }
+  });
+
+  app.delete('/api/businesses/:id/staff/:staffId', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const business = await storage.getBusinessById(parseInt(req.params.id));
+      if (!business || business.userId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const staffMember = await storage.getStaffMemberById(parseInt(req.params.staffId));
+      if (!staffMember || staffMember.businessId !== business.id || staffMember.status === 'removed') {
+        return res.status(404).json({ message: "Staff member not found" });
+      }
+
+      const removed = await storage.removeStaffMember(staffMember.id);
+      res.json(withoutInviteToken(removed));
+    } catch (error) {
+      console.error("Error removing staff member:", error);
+      res.status(500).json({ message: "Failed to remove staff member" });
+    }
+  });
+
+  // Every class a business runs in a week, with who is teaching each one
+  app.get('/api/businesses/:id/schedule', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const business = await storage.getBusinessById(parseInt(req.params.id));
+      if (!business || business.userId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const week = getRequestedWeek(req.query.week);
+      if (!week) {
+        return res.status(400).json({ message: "Week must be a date in YYYY-MM-DD format" });
+      }
+
+      await materializeWeek(await storage.getTimetableSessions(business.id), week);
+
+      const schedule: TeachingSchedule = {
+        weekStart: week.weekStart,
+        classes: await storage.getTeachingSchedule({ businessId: business.id }, week.startsAt, week.endsAt),
+      };
+      res.json(schedule);
+    } catch (error) {
+      console.error("Error fetching business schedule:", error);
+      res.status(500).json({ message: "Failed to fetch schedule" });
+    }
+  });
+
+  app.get('/api/staff/invitations/:token', async (req, res) => {
+    try {
+      const invitation = await storage.getStaffInvitation(req.params.token);
+      if (!invitation) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      res.json(invitation);
+    } catch (error) {
+      console.error("Error fetching staff invitation:", error);
+      res.status(500).json({ message: "Failed to fetch invitation" });
+    }
+  });
+
+  app.post('/api/staff/invitations/:token/accept', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const staffMember = await storage.acceptStaffInvitation(req.params.token, userId);
+      res.json(withoutInviteToken(staffMember));
+    } catch (error) {
+      if (error instanceof StaffError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error accepting staff invitation:", error);
+      res.status(500).json({ message: "Failed to accept invitation" });
+    }
+  });
+
+  // The classes the signed-in user teaches in a week, across every business they're on the staff of
+  app.get('/api/staff/schedule', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const week = getRequestedWeek(req.query.week);
+      if (!week) {
+        return res.status(400).json({ message: "Week must be a date in YYYY-MM-DD format" });
+      }
+
+      const memberships = await storage.getActiveStaffByUserId(userId);
+      const businessIds = new Set(memberships.map((staffMember) => staffMember.businessId));
+      for (const businessId of Array.from(businessIds)) {
+        await materializeWeek(await storage.getTimetableSessions(businessId), week);
+      }
+
+      const schedule: TeachingSchedule = {
+        weekStart: week.weekStart,
+        classes: await storage.getTeachingSchedule(
+          { staffIds: memberships.map((staffMember) => staffMember.id) },
+          week.startsAt,
+          week.endsAt,
+        ),
+      };
+      res.json(schedule);
+    } catch (error) {
+      console.error("Error fetching teaching schedule:", error);
+      res.status(500).json({ message: "Failed to fetch teaching schedule" });
+    }
+  });
+
+  // Postcode geocoding routes
+  app.get('/api/geo/postcode/:postcode', async (req, res) => {
+    try {
+      if (!isFullPostcode(req.params.postcode)) {
+        return res.status(400).json({ message: "Invalid postcode" });
+      }
+
+      const result = await lookupPostcode(req.params.postcode);
+      if (!result) {
+        return res.status(404).json({ message: "Postcode not found" });
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof PostcodeDataUnavailableError) {
+        return res.status(503).json({ message: "Postcode lookup is unavailable" });
+      }
+      console.error("Error looking up postcode:", error);
+      res.status(500).json({ message: "Failed to look up postcode" });
+    }
+  });
+
+  app.get('/api/geo/postcode/:partial/autocomplete', async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 10, 100);
+      const postcodes = await autocompletePostcode(req.params.partial, limit);
+      res.json(postcodes);
+    } catch (error) {
+      if (error instanceof PostcodeDataUnavailableError) {
+        return res.status(503).json({ message: "Postcode lookup is unavailable" });
+      }
+      console.error("Error autocompleting postcode:", error);
+      res.status(500).json({ message: "Failed to autocomplete postcode" });
+    }
+  });
+
+  app.get('/api/geo/outcode/:outcode', async (req, res) => {
+    try {
+      if (!isOutcode(req.params.outcode)) {
+        return res.status(400).json({ message: "Invalid outward code" });
+      }
+
+      const result = await lookupOutcode(req.params.outcode);
+      if (!result) {
+        return res.status(404).json({ message: "Outward code not found" });
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof PostcodeDataUnavailableError) {
+        return res.status(503).json({ message: "Postcode lookup is unavailable" });
+      }
+      console.error("Error looking up outward code:", error);
+      res.status(500).json({ message: "Failed to look up outward code" });
+    }
+  });
+
+  // Session types routes
+  app.get('/api/session-types', async (req, res) => {
+    try {
+      const sessionTypes = await storage.getSessionTypes();
+      res.json(sessionTypes);
+    } catch (error) {
+      console.error("Error fetching session types:", error);
+      res.status(500).json({ message: "Failed to fetch session types" });
+    }
+  });
+
+  // Fitness sessions routes
+  app.post('/api/sessions', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const businesses = await storage.getBusinessesByUserId(userId);
+      
+      if (businesses.length === 0) {
+        return res.status(403).json({ message: "No approved business found" });
+      }
+
+      const sessionData = insertFitnessSessionSchema.parse(req.body);
+      if (sessionData.instructorId && !await isActiveInstructor(sessionData.businessId, sessionData.instructorId)) {
+        return res.status(400).json({ message: "The instructor must be on this business's staff" });
+      }
+      if (sessionData.locationId) {
+        const location = await storage.getBusinessLocationById(sessionData.locationId);
+        if (location?.businessId !== sessionData.businessId) {
+          return res.status(400).json({ message: "The location must be one of this business's sites" });
+        }
+      }
+
+      const session = await storage.createFitnessSession(sessionData);
+      
+      // Send notification email to admin
+      await sendEmail({
+        to: process.env.ADMIN_EMAIL || 'admin@mylesfitness.co.uk',
+        subject: 'New Session Submission - Pending Approval',
+        html: `
+          <h2>New Session Submission</h2>
+          <p><strong>Session:</strong> ${escapeHtml(session.title)}</p>
+          <p><strong>Business:</strong> ${escapeHtml(businesses[0].name)}</p>
+          <p><strong>Price:</strong> £${session.price}</p>
+          <p>Please review and approve this session.</p>
+        `
+      });
+
+      res.status(201).json(session);
+    } catch (error) {
+      console.error("Error creating session:", error);
+      res.status(500).json({ message: "Failed to create session" });
+    }
+  });
+
+  app.get('/api/sessions/search', async (req, res) => {
+    try {
+      const filters = {
+        postcode: req.query.postcode as string,
+        sessionType: req.query.sessionType as string,
+        ageGroup: req.query.ageGroup as string,
+        difficulty: req.query.difficulty as string,
+        maxPrice: req.query.maxPrice ? parseFloat(req.query.maxPrice as string) : undefined,
+        minPrice: req.query.minPrice ? parseFloat(req.query.minPrice as string) : undefined,
+        latitude: req.query.lat ? parseFloat(req.query.lat as string) : undefined,
+        longitude: req.query.lng ? parseFloat(req.query.lng as string) : undefined,
+        radiusKm: req.query.radiusKm ? parseFloat(req.query.radiusKm as string) : undefined,
+        minRating: req.query.minRating ? parseFloat(req.query.minRating as string) : undefined,
+        instructor: req.query.instructor as string,
+        sortBy: req.query.sort === 'distance' || req.query.sort === 'rating' ? req.query.sort as 'distance' | 'rating' : undefined,
+      };
+
+      const hasOrigin = filters.latitude !== undefined || filters.longitude !== undefined;
+      if (hasOrigin && (!Number.isFinite(filters.latitude) || !Number.isFinite(filters.longitude))) {
+        return res.status(400).json({ message: "lat and lng must both be valid coordinates" });
+      }
+      if (filters.radiusKm !== undefined) {
+        if (!hasOrigin) {
+          return res.status(400).json({ message: "lat and lng are required for a radius search" });
+        }
+        if (!Number.isFinite(filters.radiusKm) || filters.radiusKm <= 0) {
+          return res.status(400).json({ message: "radiusKm must be a positive number" });
+        }
+      }
+
+      const sessions = await storage.searchFitnessSessions(filters);
+      res.json(sessions);
+    } catch (error) {
+      console.error("Error searching sessions:", error);
+      res.status(500).json({ message: "Failed to search sessions" });
+    }
+  });
+
+  app.get('/api/sessions/business/:businessId', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const businessId = parseInt(req.params.businessId);
+      
+      // Verify user owns this business
+      const businesses = await storage.getBusinessesByUserId(userId);
+      const ownsBusiness = businesses.some(b => b.id === businessId);
+      
+      if (!ownsBusiness) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const sessions = await storage.getFitnessSessionsByBusinessId(businessId);
+      res.json(sessions);
+    } catch (error) {
+      console.error("Error fetching business sessions:", error);
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+
+  app.get('/api/sessions/:id', async (req, res) => {
+    try {
+      const sessionId = parseInt(req.params.id);
+      const session = await storage.getFitnessSessionById(sessionId);
+
+      if (!session || !session.approved) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      res.json(session);
+    } catch (error) {
+      console.error("Error fetching session:", error);
+      res.status(500).json({ message: "Failed to fetch session" });
+    }
+  });
+
+  app.get('/api/sessions/:id/occurrences', async (req, res) => {
+    try {
+      const sessionId = parseInt(req.params.id);
+      const session = await storage.getFitnessSessionById(sessionId);
+
+      if (!session || !session.approved) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      const now = new Date();
+      const horizon = getOccurrenceHorizon(now);
+      const from = req.query.from ? new Date(req.query.from as string) : now;
+      const to = req.query.to ? new Date(req.query.to as string) : horizon;
+
+      if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) {
+        return res.status(400).json({ message: "Invalid date range" });
+      }
+
+      // Occurrences are only materialized up to the rolling horizon
+      const until = to > horizon ? horizon : to;
+      await storage.materializeClassOccurrences(session, from > now ? from : now, until);
+
+      const occurrences = await storage.getClassOccurrencesBySessionId(sessionId, from, until);
+      res.json(occurrences);
+    } catch (error) {
+      console.error("Error fetching session occurrences:", error);
+      res.status(500).json({ message: "Failed to fetch session occurrences" });
+    }
+  });
+
+  app.put('/api/sessions/:id/instructor', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const session = await storage.getFitnessSessionById(parseInt(req.params.id));
+      if (!session || session.business.userId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { instructorId } = instructorAssignmentSchema.parse(req.body);
+      if (instructorId !== null && !await isActiveInstructor(session.businessId, instructorId)) {
+        return res.status(400).json({ message: "The instructor must be on this business's staff" });
+      }
+
+      const updatedSession = await storage.assignSessionInstructor(session.id, instructorId);
+      res.json(updatedSession);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid instructor", errors: error.errors });
+      }
+      console.error("Error assigning session instructor:", error);
+      res.status(500).json({ message: "Failed to assign instructor" });
+    }
+  });
+
+  // Changing the weekly schedule cancels upcoming classes it drops, except ones people have booked, which still
+  // run; those customers are told the time won't be repeated
+  app.put('/api/sessions/:id/schedule', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const session = await storage.getFitnessSessionById(parseInt(req.params.id));
+      if (!session || session.business.userId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { schedule } = sessionScheduleSchema.parse(req.body);
+      const now = new Date();
+      const { session: updatedSession, displacedBookings } = await storage.updateSessionSchedule(
+        session.id,
+        schedule,
+        now,
+        getOccurrenceHorizon(now),
+      );
+
+      for (const booking of displacedBookings) {
+        if (!booking.customer.email) continue;
+        await sendEmail({
+          to: booking.customer.email,
+          subject: 'Timetable Change - MYLES',
+          html: `
+            <h2>Timetable Change</h2>
+            <p>Hi ${escapeHtml(booking.customer.firstName || 'there')},</p>
+            <p>${escapeHtml(session.business.name)} has changed the weekly times for ${escapeHtml(session.title)}.</p>
+            <p>Your class on ${formatOccurrenceTime(booking.sessionDate)} still goes ahead as booked, but won't be
+            repeated at that time. You can reschedule or cancel it from My Bookings.</p>
+          `
+        });
+      }
+
+      res.json(updatedSession);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid schedule", errors: error.errors });
+      }
+      console.error("Error updating session schedule:", error);
+      res.status(500).json({ message: "Failed to update schedule" });
+    }
+  });
+
+  // Booking routes
+  app.post('/api/bookings', isAuthenticated, async (req: any, res) => {
+    // Card payments are taken before the booking is made, so turning the booking down hands the payment back
+    const rejectPaidBooking = async (status: number, message: string, details?: Record<string, unknown>) => {
+      const paymentIntentId = req.body.useCredit === true || req.body.useMembership === true
+        ? undefined
+        : req.body.paymentIntentId;
+      const released = typeof paymentIntentId === 'string' &&
+        await releaseUnusedPayment(paymentIntentId, req.user.claims.sub);
+      return res.status(status).json({
+        message: released ? `${message}. Your payment has been refunded.` : message,
+        ...details,
+      });
+    };
+
+    try {
+      const userId = req.user.claims.sub;
+      const occurrenceId = parseInt(req.body.occurrenceId);
+      const { paymentIntentId, promoCode, giftVoucherCode } = req.body;
+      const useCredit = req.body.useCredit === true;
+      const useMembership = req.body.useMembership === true;
+
+      if (!occurrenceId) {
+        return res.status(400).json({ message: "Class occurrence ID is required" });
+      }
+
+      if (!paymentIntentId && !useCredit && !useMembership && !promoCode && !giftVoucherCode) {
+        return res.status(400).json({ message: "Payment intent ID is required" });
+      }
+
+      const occurrence = await storage.getClassOccurrenceById(occurrenceId);
+      if (!occurrence || occurrence.status !== 'scheduled') {
+        return await rejectPaidBooking(404, "Class occurrence not found");
+      }
+
+      if (occurrence.startsAt <= new Date()) {
+        return await rejectPaidBooking(400, "This class has already started");
+      }
+
+      // Customers claiming a waitlist offer book into the spot held for them
+      let waitlistEntryId: number | undefined;
+      if (req.body.waitlistToken) {
+        const entry = await storage.getWaitlistEntryByClaimToken(req.body.waitlistToken);
+        if (
+          !entry ||
+          entry.userId !== userId ||
+          entry.occurrenceId !== occurrence.id ||
+          entry.status !== 'offered' ||
+          !entry.offerExpiresAt ||
+          entry.offerExpiresAt <= new Date()
+        ) {
+          return await rejectPaidBooking(400, "This waitlist offer is no longer valid");
+        }
+        waitlistEntryId = entry.id;
+      }
+
+      const session = await storage.getFitnessSessionById(occurrence.sessionId);
+      if (!session) {
+        return await rejectPaidBooking(404, "Session not found");
+      }
+
+      // Friends booked on alongside the customer, each paying for a spot of their own
+      const guests = bookingGuestNamesSchema.parse(req.body.guests);
+      const attendees = 1 + guests.length;
+
+      // Covered by a class pack credit or a membership, so there's nothing to charge and the booking is
+      // confirmed straight away
+      if (useCredit || useMembership) {
+        if (guests.length > 0) {
+          return res.status(400).json({ message: "Credits and memberships cover one place, so guests need to be paid for by card" });
+        }
+        const bookingData = insertBookingSchema.parse({
+          userId,
+          sessionId: occurrence.sessionId,
+          occurrenceId: occurrence.id,
+          sessionDate: occurrence.startsAt,
+          status: 'confirmed',
+          totalAmount: '0.00',
+          specialRequirements: req.body.specialRequirements,
+        });
+        const booking = useCredit
+          ? await storage.createCreditBooking(bookingData, session, waitlistEntryId)
+          : await storage.createMembershipBooking(bookingData, session, waitlistEntryId);
+        await sendBookingConfirmation(booking.id);
+
+        const confirmedBooking = await storage.getBookingById(booking.id);
+        return res.status(201).json(confirmedBooking);
+      }
+
+      // Promo codes and gift vouchers are checked again here, as limits may have been reached or the balance
+      // spent since the customer applied them
+      const promo = promoCode ? await findApplicablePromoCode(promoCode, userId, session) : undefined;
+      const giftVoucher = giftVoucherCode
+        ? await findRedeemableGiftVoucher(giftVoucherCode, { businessId: session.businessId })
+        : undefined;
+      const quote = quoteSessionPrice(session, attendees, promo, giftVoucher);
+      const promoRedemption = promo && { promoCodeId: promo.id, discountAmount: quote.discount.toFixed(2) };
+      const giftVoucherRedemption = giftVoucher && quote.giftVoucher > 0
+        ? { giftVoucherId: giftVoucher.id, change: quote.giftVoucher.toFixed(2) }
+        : undefined;
+
+      // A promo code or gift voucher covering the whole price leaves nothing to charge
+      if (quote.total === 0) {
+        const bookingData = insertBookingSchema.parse({
+          userId,
+          sessionId: occurrence.sessionId,
+          occurrenceId: occurrence.id,
+          sessionDate: occurrence.startsAt,
+          status: 'confirmed',
+          attendees,
+          totalAmount: '0.00',
+          specialRequirements: req.body.specialRequirements,
+        });
+        const booking = await storage.createBooking(bookingData, waitlistEntryId, promoRedemption, giftVoucherRedemption, guests);
+        await sendBookingConfirmation(booking.id);
+
+        const confirmedBooking = await storage.getBookingById(booking.id);
+        return res.status(201).json(confirmedBooking);
+      }
+
+      if (!paymentIntentId) {
+        return res.status(400).json({ message: "Payment intent ID is required" });
+      }
+
+      // The payment must belong to this customer and session, cover the full price, have been confirmed by the
+      // customer, and can only pay for one booking. Unconfirmed payments would otherwise hold spots for free.
+      const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+      if (
+        paymentIntent.metadata.userId !== userId ||
+        paymentIntent.metadata.sessionId !== occurrence.sessionId.toString() ||
+        !CONFIRMED_PAYMENT_STATUSES.includes(paymentIntent.status)
+      ) {
+        return res.status(400).json({ message: "Invalid payment for this booking" });
+      }
+
+      if (paymentIntent.amount !== toMinorUnits(quote.total) || paymentIntent.currency !== 'gbp') {
+        return await rejectPaidBooking(400, "Payment amount does not match the session price");
+      }
+
+      if (await storage.getBookingByPaymentIntentId(paymentIntent.id)) {
+        return res.status(400).json({ message: "This payment has already been used for a booking" });
+      }
+
+      // Bookings hold their spot as 'pending' until Stripe confirms the payment
+      const bookingData = insertBookingSchema.parse({
+        userId,
+        sessionId: occurrence.sessionId,
+        occurrenceId: occurrence.id,
+        sessionDate: occurrence.startsAt,
+        status: 'pending',
+        paymentIntentId: paymentIntent.id,
+        ...getDestinationChargeDetails(paymentIntent),
+        attendees,
+        totalAmount: quote.total.toFixed(2),
+        specialRequirements: req.body.specialRequirements,
+      });
+
+      const booking = await storage.createBooking(bookingData, waitlistEntryId, promoRedemption, giftVoucherRedemption, guests);
+
+      // Card payments have usually settled by now; anything slower is confirmed by the webhook
+      if (paymentIntent.status === 'succeeded') {
+        await confirmBookingPayment(booking.id);
+      }
+
+      const confirmedBooking = await storage.getBookingById(booking.id);
+      res.status(201).json(confirmedBooking);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return await rejectPaidBooking(400, "Invalid guest details", { errors: error.errors });
+      }
+      if (error instanceof OccurrenceFullError) {
+        return await rejectPaidBooking(409, error.message);
+      }
+      // The payment went on another booking, so it must not be refunded
+      if (error instanceof PaymentAlreadyUsedError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (
+        error instanceof CreditError ||
+        error instanceof MembershipError ||
+        error instanceof PromoCodeError ||
+        error instanceof GiftVoucherError
+      ) {
+        return await rejectPaidBooking(400, error.message);
+      }
+      console.error("Error creating booking:", error);
+      res.status(500).json({ message: "Failed to create booking" });
+    }
+  });
+
+  app.get('/api/bookings/my', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const bookings = await storage.getBookingsByUserId(userId);
+      res.json(bookings);
+    } catch (error) {
+      console.error("Error fetching bookings:", error);
+      res.status(500).json({ message: "Failed to fetch bookings" });
+    }
+  });
+
+  app.get('/api/bookings/business/:businessId', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const businessId = parseInt(req.params.businessId);
+
+      const business = await storage.getBusinessById(businessId);
+      const user = await storage.getUser(userId);
+      if (!business || (business.userId !== userId && user?.role !== 'admin')) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const bookings = await storage.getBookingsByBusinessId(businessId);
+      res.json(bookings);
+    } catch (error) {
+      console.error("Error fetching business bookings:", error);
+      res.status(500).json({ message: "Failed to fetch bookings" });
+    }
+  });
+
+  app.put('/api/bookings/:id/status', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const bookingId = parseInt(req.params.id);
+      const { status } = req.body;
+
+      // Businesses can only cancel or complete a confirmed booking; anything else (reviving a refunded
+      // booking, confirming an unpaid one) would bypass payment and capacity checks
+      if (!['cancelled', 'completed'].includes(status)) {
+        return res.status(400).json({ message: "Invalid booking status" });
+      }
+
+      const booking = await storage.getBookingById(bookingId);
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+
+      // Only the owning business or an admin can change a booking's status
+      const user = await storage.getUser(userId);
+      if (booking.session.business.userId !== userId && user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      // Only the request that actually moves the booking on refunds it, so a double submit can't pay out twice
+      const updatedBooking = await storage.transitionBookingStatus(bookingId, 'confirmed', status);
+      if (!updatedBooking) {
+        return res.status(409).json({ message: "Only confirmed bookings can be cancelled or completed" });
+      }
+      if (status === 'cancelled') {
+        // Cancellations by the business (or an admin) are refunded in full, and any credit, membership class
+        // or gift voucher balance used is given back
+        await refundBooking(booking, {
+          reason: booking.session.business.userId === userId ? 'business_cancellation' : 'admin_cancellation',
+          initiatedBy: userId,
+        });
+        await storage.restoreBookingCredit(booking.id);
+        await storage.releaseMembershipClass(booking.id);
+        await storage.restoreGiftVoucherBalance({ bookingId: booking.id }, 100);
+        if (updatedBooking.occurrenceId) {
+          await offerFreedSpots(updatedBooking.occurrenceId);
+        }
+      }
+
+      res.json(updatedBooking);
+    } catch (error) {
+      console.error("Error updating booking status:", error);
+      res.status(500).json({ message: "Failed to update booking status" });
+    }
+  });
+
+  // Customer self-service cancellation, refunded according to the business's policy
+  app.post('/api/bookings/:id/cancel', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const bookingId = parseInt(req.params.id);
+
+      const booking = await storage.getBookingById(bookingId);
+      if (!booking || booking.userId !== userId) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+
+      if (booking.status !== 'confirmed') {
+        return res.status(400).json({ message: "Only confirmed bookings can be cancelled" });
+      }
+
+      const outcome = evaluateCancellation(booking.session.business, booking.sessionDate);
+      if (!outcome.allowed) {
+        return res.status(400).json({ message: outcome.message });
+      }
+
+      // Only the request that actually cancels the booking refunds it, so a double submit can't pay out twice
+      const updatedBooking = await storage.transitionBookingStatus(bookingId, 'confirmed', 'cancelled');
+      if (!updatedBooking) {
+        return res.status(409).json({ message: "This booking can no longer be cancelled" });
+      }
+      if (updatedBooking.occurrenceId) {
+        await offerFreedSpots(updatedBooking.occurrenceId);
+      }
+
+      const refund = await refundBooking(booking, {
+        reason: 'customer_cancellation',
+        initiatedBy: userId,
+        amount: calculateRefundAmount(booking.totalAmount, outcome.refundPercent),
+      });
+      const refundAmount = refund ? parseFloat(refund.amount) : 0;
+      // Credits and membership classes only come back inside the free cancellation window; late cancellations
+      // use up the class
+      const creditRestored = outcome.withinFreeWindow && await storage.restoreBookingCredit(booking.id);
+      const membershipClassReturned = outcome.withinFreeWindow && await storage.releaseMembershipClass(booking.id);
+      // Gift voucher balance goes back in the same share as a card refund
+      const giftVoucherRestored = await storage.restoreGiftVoucherBalance({ bookingId: booking.id }, outcome.refundPercent);
+
+      if (booking.user.email) {
+        await sendEmail({
+          to: booking.user.email,
+          subject: 'Booking Cancelled - MYLES',
+          html: `
+            <h2>Booking Cancelled</h2>
+            <p>Your booking has been cancelled.</p>
+            <p><strong>Session:</strong> ${escapeHtml(booking.session.title)}</p>
+            <p><strong>Business:</strong> ${escapeHtml(booking.session.business.name)}</p>
+            <p><strong>Date:</strong> ${formatOccurrenceTime(booking.sessionDate)}</p>
+            ${booking.creditPurchaseId
+              ? `<p><strong>Class credit:</strong> ${creditRestored ? 'Returned to your pack' : 'Used, as the class was cancelled late'}</p>`
+              : booking.membershipId
+                ? `<p><strong>Membership:</strong> ${membershipClassReturned ? "This class no longer counts towards this month's allowance" : 'The class still counts towards your allowance'}</p>`
+                : `<p><strong>Refund:</strong> £${refundAmount.toFixed(2)}</p>`}
+            ${giftVoucherRestored > 0 ? `<p><strong>Returned to your gift voucher:</strong> £${giftVoucherRestored.toFixed(2)}</p>` : ''}
+          `
+        });
+      }
+
+      res.json({
+        booking: updatedBooking,
+        refund,
+        refundPercent: outcome.refundPercent,
+        refundAmount,
+        creditRestored,
+        membershipClassReturned,
+        giftVoucherRestored,
+      });
+    } catch (error) {
+      console.error("Error cancelling booking:", error);
+      res.status(500).json({ message: "Failed to cancel booking" });
+    }
+  });
+
+  app.post('/api/bookings/:id/reschedule', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const bookingId = parseInt(req.params.id);
+      const occurrenceId = parseInt(req.body.occurrenceId);
+
+      const booking = await storage.getBookingById(bookingId);
+      if (!booking || booking.userId !== userId) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+
+      if (booking.status !== 'confirmed') {
+        return res.status(400).json({ message: "Only confirmed bookings can be rescheduled" });
+      }
+
+      if (!canReschedule(booking.session.business, booking.sessionDate)) {
+        return res.status(400).json({
+          message: `Bookings can only be rescheduled at least ${booking.session.business.freeCancellationHours} hours before the class starts`,
+        });
+      }
+
+      // Rescheduling moves the booking to another date of the same class
+      const occurrence = await storage.getClassOccurrenceById(occurrenceId);
+      if (!occurrence || occurrence.sessionId !== booking.sessionId ||
+          occurrence.status !== 'scheduled' || occurrence.startsAt <= new Date()) {
+        return res.status(400).json({ message: "Selected class date is not available" });
+      }
+
+      if (occurrence.id === booking.occurrenceId) {
+        return res.status(400).json({ message: "Booking is already for this class date" });
+      }
+
+      // A membership class counts against the billing period it's in, so it can't move past the paid-for one
+      if (booking.membershipId) {
+        const membership = await storage.getMembershipById(booking.membershipId);
+        if (!membership?.currentPeriodEnd || occurrence.startsAt > membership.currentPeriodEnd) {
+          return res.status(400).json({
+            message: "Membership bookings can only be moved to a class within the current billing period",
+          });
+        }
+      }
+
+      const updatedBooking = await storage.rescheduleBooking(booking, occurrence);
+      if (booking.occurrenceId) {
+        await offerFreedSpots(booking.occurrenceId);
+      }
+
+      if (booking.user.email) {
+        await sendEmail({
+          to: booking.user.email,
+          subject: 'Booking Rescheduled - MYLES',
+          html: `
+            <h2>Booking Rescheduled</h2>
+            <p>Your booking has been moved to a new date.</p>
+            <p><strong>Session:</strong> ${escapeHtml(booking.session.title)}</p>
+            <p><strong>Business:</strong> ${escapeHtml(booking.session.business.name)}</p>
+            <p><strong>New date:</strong> ${formatOccurrenceTime(occurrence.startsAt)}</p>
+          `
+        });
+      }
+
+      res.json(updatedBooking);
+    } catch (error) {
+      if (error instanceof OccurrenceFullError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error rescheduling booking:", error);
+      res.status(500).json({ message: "Failed to reschedule booking" });
+    }
+  });
+
+  // Goodwill refunds issued by the business, independent of any cancellation
+  app.post('/api/bookings/:id/refunds', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const bookingId = parseInt(req.params.id);
+      const amount = parseFloat(req.body.amount);
+
+      if (isNaN(amount)) {
+        return res.status(400).json({ message: "Refund amount is required" });
+      }
+
+      const booking = await storage.getBookingById(bookingId);
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+
+      const user = await storage.getUser(userId);
+      if (booking.session.business.userId !== userId && user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const refund = await refundBooking(booking, {
+        reason: 'goodwill',
+        initiatedBy: userId,
+        amount,
+        note: req.body.note,
+      });
+
+      if (refund && booking.user.email) {
+        await sendEmail({
+          to: booking.user.email,
+          subject: 'Refund Issued - MYLES',
+          html: `
+            <h2>You've Been Refunded</h2>
+            <p>${escapeHtml(booking.session.business.name)} has issued you a refund.</p>
+            <p><strong>Session:</strong> ${escapeHtml(booking.session.title)}</p>
+            <p><strong>Date:</strong> ${formatOccurrenceTime(booking.sessionDate)}</p>
+            <p><strong>Refund:</strong> £${refund.amount}</p>
+            ${refund.note ? `<p><strong>Note:</strong> ${escapeHtml(refund.note)}</p>` : ''}
+          `
+        });
+      }
+
+      res.status(201).json(refund);
+    } catch (error) {
+      if (error instanceof RefundError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error issuing refund:", error);
+      res.status(500).json({ message: "Failed to issue refund" });
+    }
+  });
+
+  // Review routes
+  app.post('/api/bookings/:id/review', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const bookingId = parseInt(req.params.id);
+      const { rating, comment } = reviewSubmissionSchema.parse(req.body);
+
+      const booking = await storage.getBookingById(bookingId);
+      if (!booking || booking.userId !== userId) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+
+      // Only customers who actually attended can review
+      if (booking.status !== 'completed') {
+        return res.status(400).json({ message: "Only completed bookings can be reviewed" });
+      }
+
+      if (await storage.getReviewByBookingId(bookingId)) {
+        return res.status(409).json({ message: "You have already reviewed this booking" });
+      }
+
+      const review = await storage.createReview({
+        userId,
+        bookingId,
+        businessId: booking.session.businessId,
+        sessionId: booking.sessionId,
+        rating,
+        comment: comment || null,
+      });
+
+      res.status(201).json(review);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid review", errors: error.errors });
+      }
+      console.error("Error creating review:", error);
+      res.status(500).json({ message: "Failed to create review" });
+    }
+  });
+
+  app.get('/api/sessions/:id/reviews', async (req, res) => {
+    try {
+      const reviews = await storage.getReviewsBySessionId(parseInt(req.params.id));
+      res.json(reviews);
+    } catch (error) {
+      console.error("Error fetching session reviews:", error);
+      res.status(500).json({ message: "Failed to fetch reviews" });
+    }
+  });
+
+  app.get('/api/businesses/:id/reviews', async (req, res) => {
+    try {
+      const reviews = await storage.getReviewsByBusinessId(parseInt(req.params.id));
+      res.json(reviews);
+    } catch (error) {
+      console.error("Error fetching business reviews:", error);
+      res.status(500).json({ message: "Failed to fetch reviews" });
+    }
+  });
+
+  app.get('/api/personal-trainers/:id/reviews', async (req, res) => {
+    try {
+      const reviews = await storage.getReviewsByTrainerId(parseInt(req.params.id));
+      res.json(reviews);
+    } catch (error) {
+      console.error("Error fetching trainer reviews:", error);
+      res.status(500).json({ message: "Failed to fetch reviews" });
+    }
+  });
+
+  app.put('/api/reviews/:id/response', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const reviewId = parseInt(req.params.id);
+      const { response } = reviewResponseSchema.parse(req.body);
+
+      const review = await storage.getReviewById(reviewId);
+      if (!review || review.status === 'hidden') {
+        return res.status(404).json({ message: "Review not found" });
+      }
+
+      if (!(await ownsReviewedProfile(review, userId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const updatedReview = await storage.respondToReview(reviewId, response);
+      res.json(updatedReview);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid response", errors: error.errors });
+      }
+      console.error("Error responding to review:", error);
+      res.status(500).json({ message: "Failed to respond to review" });
+    }
+  });
+
+  app.post('/api/reviews/:id/flag', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const reviewId = parseInt(req.params.id);
+      const { reason } = reviewFlagSchema.parse(req.body);
+
+      const review = await storage.getReviewById(reviewId);
+      if (!review || review.status === 'hidden') {
+        return res.status(404).json({ message: "Review not found" });
+      }
+
+      if (!(await ownsReviewedProfile(review, userId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const flaggedReview = await storage.flagReview(reviewId, userId, reason);
+
+      // Send notification email to admin
+      await sendEmail({
+        to: process.env.ADMIN_EMAIL || 'admin@mylesfitness.co.uk',
+        subject: 'Review Flagged - Moderation Needed',
+        html: `
+          <h2>Review Flagged</h2>
+          <p><strong>Rating:</strong> ${review.rating}/5</p>
+          <p><strong>Review:</strong> ${review.comment ? escapeHtml(review.comment) : '(no comment)'}</p>
+          <p><strong>Reason:</strong> ${escapeHtml(reason)}</p>
+          <p>Please review this in the admin dashboard moderation queue.</p>
+        `
+      });
+
+      res.json(flaggedReview);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid flag", errors: error.errors });
+      }
+      console.error("Error flagging review:", error);
+      res.status(500).json({ message: "Failed to flag review" });
+    }
+  });
+
+  // Waitlist routes
+  app.post('/api/occurrences/:id/waitlist', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const occurrenceId = parseInt(req.params.id);
+
+      const occurrence = await storage.getClassOccurrenceById(occurrenceId);
+      if (!occurrence || occurrence.status !== 'scheduled' || occurrence.startsAt <= new Date()) {
+        return res.status(404).json({ message: "Class occurrence not found" });
+      }
+
+      if (occurrence.spotsLeft > 0) {
+        return res.status(400).json({ message: "This class still has spots available" });
+      }
+
+      const existingEntry = await storage.getActiveWaitlistEntry(occurrenceId, userId);
+      if (existingEntry) {
+        return res.status(400).json({ message: "You are already on the waitlist for this class" });
+      }
+
+      const entry = await storage.createWaitlistEntry({ occurrenceId, userId, status: 'waiting' });
+      const entryDetails = await storage.getWaitlistEntryById(entry.id);
+      res.status(201).json(entryDetails);
+    } catch (error) {
+      console.error("Error joining waitlist:", error);
+      res.status(500).json({ message: "Failed to join waitlist" });
+    }
+  });
+
+  // Puts someone else on to cover a single class, or with null hands it back to the session's usual instructor
+  app.put('/api/occurrences/:id/instructor', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const occurrence = await storage.getClassOccurrenceById(parseInt(req.params.id));
+      const session = occurrence && await storage.getFitnessSessionById(occurrence.sessionId);
+      if (!occurrence || !session || session.business.userId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { instructorId } = instructorAssignmentSchema.parse(req.body);
+      if (instructorId !== null && !await isActiveInstructor(session.businessId, instructorId)) {
+        return res.status(400).json({ message: "The instructor must be on this business's staff" });
+      }
+
+      const updatedOccurrence = await storage.assignOccurrenceInstructor(occurrence.id, instructorId);
+      res.json(updatedOccurrence);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid instructor", errors: error.errors });
+      }
+      console.error("Error assigning occurrence instructor:", error);
+      res.status(500).json({ message: "Failed to assign instructor" });
+    }
+  });
+
+  // Who is booked into a class - for the business owner and whoever is teaching it
+  app.get('/api/occurrences/:id/roster', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const occurrence = await storage.getClassOccurrenceById(parseInt(req.params.id));
+      const session = occurrence && await storage.getFitnessSessionById(occurrence.sessionId);
+      if (!occurrence || !session) {
+        return res.status(404).json({ message: "Class not found" });
+      }
+
+      if (!await runsOccurrence(occurrence, session, userId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const roster = await storage.getOccurrenceRoster(occurrence.id);
+      res.json(roster);
+    } catch (error) {
+      console.error("Error fetching class roster:", error);
+      res.status(500).json({ message: "Failed to fetch class roster" });
+    }
+  });
+
+  // Marks the customer, or one of the guests on their booking, as arrived for the class
+  app.put('/api/bookings/:id/check-in', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const booking = await storage.getBookingById(parseInt(req.params.id));
+      const occurrence = booking?.occurrenceId ? await storage.getClassOccurrenceById(booking.occurrenceId) : undefined;
+      if (!booking || !occurrence) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+
+      if (!await runsOccurrence(occurrence, booking.session, userId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      if (!['confirmed', 'completed'].includes(booking.status)) {
+        return res.status(400).json({ message: "Only confirmed bookings can be checked in" });
+      }
+
+      const { guestId, checkedIn } = checkInSchema.parse(req.body);
+      if (guestId) {
+        const guest = await storage.setBookingGuestCheckIn(booking.id, guestId, checkedIn);
+        if (!guest) {
+          return res.status(404).json({ message: "Guest not found" });
+        }
+        return res.json(guest);
+      }
+
+      const updatedBooking = await storage.setBookingCheckIn(booking.id, checkedIn);
+      res.json(updatedBooking);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid check-in", errors: error.errors });
+      }
+      console.error("Error checking in:", error);
+      res.status(500).json({ message: "Failed to check in" });
+    }
+  });
+
+  app.get('/api/waitlist/my', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const entries = await storage.getWaitlistEntriesByUserId(userId);
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching waitlist entries:", error);
+      res.status(500).json({ message: "Failed to fetch waitlist entries" });
+    }
+  });
+
+  app.delete('/api/waitlist/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const entryId = parseInt(req.params.id);
+
+      const entry = await storage.getWaitlistEntryById(entryId);
+      if (!entry || entry.userId !== userId) {
+        return res.status(404).json({ message: "Waitlist entry not found" });
+      }
+
+      if (entry.status !== 'waiting' && entry.status !== 'offered') {
+        return res.status(400).json({ message: "This waitlist entry is no longer active" });
+      }
+
+      const updatedEntry = await storage.updateWaitlistEntryStatus(entryId, 'cancelled');
+      if (entry.status === 'offered') {
+        // Declining an offer passes the held spot to the next person in line
+        await offerFreedSpots(entry.occurrenceId);
+      }
+
+      res.json(updatedEntry);
+    } catch (error) {
+      console.error("Error leaving waitlist:", error);
+      res.status(500).json({ message: "Failed to leave waitlist" });
+    }
+  });
+
+  // Class pack credits the customer can still spend
+  app.get('/api/credits/my', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const purchases = await storage.getUsableCreditPurchases(userId);
+      res.json(purchases);
+    } catch (error) {
+      console.error("Error fetching credits:", error);
+      res.status(500).json({ message: "Failed to fetch credits" });
+    }
+  });
+
+  // Called once the customer has paid for a class pack; the webhook covers payments that settle later
+  app.post('/api/credit-purchases', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { paymentIntentId } = req.body;
+      if (!paymentIntentId) {
+        return res.status(400).json({ message: "Payment intent ID is required" });
+      }
+
+      const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+      if (paymentIntent.metadata.userId !== userId || !paymentIntent.metadata.creditPackId) {
+        return res.status(400).json({ message: "Invalid payment for this class pack" });
+      }
+
+      if (paymentIntent.status !== 'succeeded') {
+        return res.status(202).json({ message: "Your credits will be added once your payment has cleared" });
+      }
+
+      const purchase = await fulfilCreditPackPayment(paymentIntent);
+      if (!purchase) {
+        return res.status(404).json({ message: "Class pack not found" });
+      }
+      res.status(201).json(purchase);
+    } catch (error) {
+      console.error("Error recording class pack purchase:", error);
+      res.status(500).json({ message: "Failed to record class pack purchase" });
+    }
+  });
+
+  // Customer memberships - billed monthly by Stripe, with status and usage kept in step by subscription webhooks
+  app.get('/api/memberships/my', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const memberships = await storage.getCurrentMembershipsByUserId(userId);
+      res.json(memberships);
+    } catch (error) {
+      console.error("Error fetching memberships:", error);
+      res.status(500).json({ message: "Failed to fetch memberships" });
+    }
+  });
+
+  app.post('/api/memberships', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const plan = await storage.getMembershipPlanById(parseInt(req.body.membershipPlanId));
+      const business = plan && await storage.getBusinessById(plan.businessId);
+      if (!plan || !plan.active || !business?.approved) {
+        return res.status(404).json({ message: "Membership plan not found" });
+      }
+
+      if (!business.stripeAccountId || !business.payoutsEnabled) {
+        return res.status(400).json({ message: "This provider isn't set up to receive payments yet" });
+      }
+
+      if (await storage.getEntitledMembership(userId, plan.id)) {
+        return res.status(409).json({ message: "You already have this membership" });
+      }
+
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const { membership, clientSecret } = await startMembership(user, plan, business);
+      res.status(201).json({ membership, clientSecret });
+    } catch (error) {
+      console.error("Error starting membership:", error);
+      res.status(500).json({ message: "Failed to start membership" });
+    }
+  });
+
+  // Called when the customer returns from paying, so access doesn't wait for the webhook
+  app.post('/api/memberships/:id/sync', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const membership = await storage.getMembershipById(parseInt(req.params.id));
+      if (!membership || membership.userId !== userId) {
+        return res.status(404).json({ message: "Membership not found" });
+      }
+
+      const subscription = await stripe.subscriptions.retrieve(membership.stripeSubscriptionId);
+      const synced = await syncMembership(subscription);
+      res.json(synced);
+    } catch (error) {
+      console.error("Error syncing membership:", error);
+      res.status(500).json({ message: "Failed to sync membership" });
+    }
+  });
+
+  // Members keep access until the end of the period they've paid for
+  app.post('/api/memberships/:id/cancel', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const membership = await storage.getMembershipById(parseInt(req.params.id));
+      if (!membership || membership.userId !== userId) {
+        return res.status(404).json({ message: "Membership not found" });
+      }
+
+      const subscription = await stripe.subscriptions.update(membership.stripeSubscriptionId, {
+        cancel_at_period_end: true,
+      });
+      const synced = await syncMembership(subscription);
+      res.json(synced);
+    } catch (error) {
+      console.error("Error cancelling membership:", error);
+      res.status(500).json({ message: "Failed to cancel membership" });
+    }
+  });
+
+  // Stripe payment routes
+  app.post("/api/create-payment-intent", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { sessionId, trainerId, duration, creditPackId, promoCode, giftVoucherCode } = req.body;
+
+      // Prices always come from our own records - the client only says what is being paid for
+      let quote: PriceQuote;
+      let metadata: Record<string, string>;
+      let payee: { stripeAccountId: string | null; payoutsEnabled: boolean | null };
+      let commissionRate: number;
+      if (sessionId) {
+        const session = await storage.getFitnessSessionById(parseInt(sessionId));
+        if (!session || !session.approved) {
+          return res.status(404).json({ message: "Session not found" });
+        }
+        const attendees = bookingAttendeesSchema.parse(req.body.attendees);
+        const promo = promoCode ? await findApplicablePromoCode(promoCode, userId, session) : undefined;
+        const giftVoucher = giftVoucherCode
+          ? await findRedeemableGiftVoucher(giftVoucherCode, { businessId: session.businessId })
+          : undefined;
+        quote = quoteSessionPrice(session, attendees, promo, giftVoucher);
+        metadata = {
+          sessionId: session.id.toString(),
+          attendees: attendees.toString(),
+          userId,
+          ...(promo && { promoCodeId: promo.id.toString() }),
+          ...(giftVoucher && { giftVoucherId: giftVoucher.id.toString() }),
+        };
+        payee = session.business;
+        commissionRate = getCommissionRate(session.business.subscriptionTier || 'free');
+      } else if (creditPackId) {
+        const pack = await storage.getCreditPackById(parseInt(creditPackId));
+        const business = pack && await storage.getBusinessById(pack.businessId);
+        if (!pack || !pack.active || !business?.approved) {
+          return res.status(404).json({ message: "Class pack not found" });
+        }
+        quote = quoteCreditPackPrice(pack);
+        metadata = { creditPackId: pack.id.toString(), userId };
+        payee = business;
+        commissionRate = getCommissionRate(business.subscriptionTier || 'free');
+      } else if (trainerId && duration) {
+        const trainer = await trainerStorage.getPersonalTrainerById(parseInt(trainerId));
+        if (!trainer || !trainer.approved || !trainer.hourlyRate) {
+          return res.status(404).json({ message: "Trainer not found" });
+        }
+        const sessionMinutes = trainerSessionDurationSchema.parse(duration);
+        const giftVoucher = giftVoucherCode
+          ? await findRedeemableGiftVoucher(giftVoucherCode, { trainerId: trainer.id })
+          : undefined;
+        quote = quoteTrainerPrice(trainer, sessionMinutes, giftVoucher);
+        metadata = {
+          trainerId: trainer.id.toString(),
+          duration: sessionMinutes.toString(),
+          userId,
+          ...(giftVoucher && { giftVoucherId: giftVoucher.id.toString() }),
+        };
+        payee = trainer;
+        commissionRate = getCommissionRate('trainer');
+      } else if (req.body.giftVoucher) {
+        const voucherRequest = giftVoucherRequestSchema.parse(req.body.giftVoucher);
+        if (voucherRequest.businessId) {
+          const business = await storage.getBusinessById(voucherRequest.businessId);
+          if (!business?.approved) {
+            return res.status(404).json({ message: "Business not found" });
+          }
+          payee = business;
+          commissionRate = getCommissionRate(business.subscriptionTier || 'free');
+        } else {
+          const trainer = await trainerStorage.getPersonalTrainerById(voucherRequest.trainerId!);
+          if (!trainer?.approved) {
+            return res.status(404).json({ message: "Trainer not found" });
+          }
+          payee = trainer;
+          commissionRate = getCommissionRate('trainer');
+        }
+        quote = quoteGiftVoucherPrice(voucherRequest.amount);
+        // The voucher is created from these once the payment succeeds
+        metadata = {
+          giftVoucherAmount: voucherRequest.amount.toString(),
+          ...(voucherRequest.businessId
+            ? { businessId: voucherRequest.businessId.toString() }
+            : { trainerId: voucherRequest.trainerId!.toString() }),
+          recipientName: voucherRequest.recipientName,
+          recipientEmail: voucherRequest.recipientEmail,
+          ...(voucherRequest.message && { message: voucherRequest.message }),
+          userId,
+        };
+      } else {
+        return res.status(400).json({
+          message: "Session ID, class pack ID, gift voucher details, or trainer ID and duration are required",
+        });
+      }
+
+      if (quote.total <= 0) {
+        return res.status(400).json({ message: "There's nothing left to pay" });
+      }
+
+      if (!payee.stripeAccountId || !payee.payoutsEnabled) {
+        return res.status(400).json({ message: "This provider isn't set up to receive payments yet" });
+      }
+
+      // Destination charge: the provider is paid directly and MYLES keeps the application fee
+      const paymentIntent = await stripe.paymentIntents.create({
+        amount: toMinorUnits(quote.total),
+        currency: "gbp",
+        metadata,
+        application_fee_amount: toMinorUnits(calculateApplicationFee(quote, commissionRate)),
+        transfer_data: {
+          destination: payee.stripeAccountId,
+        },
+      });
+
+      res.json({ clientSecret: paymentIntent.client_secret, paymentIntentId: paymentIntent.id, ...quote });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid payment details", errors: error.errors });
+      }
+      if (error instanceof PromoCodeError || error instanceof GiftVoucherError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Error creating payment intent: " + error.message });
+    }
+  });
+
+  // Stripe webhooks - authenticated by signature rather than session, using the raw request body
+  // Connected-account events (e.g. account.updated) arrive from a separate Connect endpoint with its own secret
+  app.post('/api/stripe/webhook', async (req, res) => {
+    const webhookSecrets = [process.env.STRIPE_WEBHOOK_SECRET, process.env.STRIPE_CONNECT_WEBHOOK_SECRET]
+      .filter((secret): secret is string => !!secret);
+    if (webhookSecrets.length === 0) {
+      return res.status(500).json({ message: "Stripe webhook secret not configured" });
+    }
+
+    let event: Stripe.Event | undefined;
+    let verificationError: any;
+    for (const webhookSecret of webhookSecrets) {
+      try {
+        event = stripe.webhooks.constructEvent(
+          req.rawBody as Buffer,
+          req.headers['stripe-signature'] as string,
+          webhookSecret,
+        );
+        break;
+      } catch (error) {
+        verificationError = error;
+      }
+    }
+    if (!event) {
+      return res.status(400).json({ message: "Webhook signature verification failed: " + verificationError?.message });
+    }
+
+    try {
+      await handleStripeEvent(event);
+      res.json({ received: true });
+    } catch (error) {
+      console.error("Error handling Stripe webhook:", error);
+      res.status(500).json({ message: "Failed to process webhook" });
+    }
+  });
+
+  // Admin routes
+  app.get('/api/admin/stats', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const stats = await storage.getStats();
+      res.json(stats);
+    } catch (error) {
+      console.error("Error fetching admin stats:", error);
+      res.status(500).json({ message: "Failed to fetch stats" });
+    }
+  });
+
+  app.get('/api/admin/businesses/pending', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const businesses = await storage.getPendingBusinesses();
+      res.json(businesses);
+    } catch (error) {
+      console.error("Error fetching pending businesses:", error);
+      res.status(500).json({ message: "Failed to fetch pending businesses" });
+    }
+  });
+
+  app.put('/api/admin/businesses/:id/approve', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const businessId = parseInt(req.params.id);
+      const { approved } = req.body;
+      
+      const business = await storage.updateBusinessApproval(businessId, approved);
+      const businessDetails = await storage.getBusinessById(businessId);
+      
+      if (businessDetails && businessDetails.user.email) {
+        await sendEmail({
+          to: businessDetails.user.email,
+          subject: approved ? 'Business Approved - MYLES' : 'Business Application Update - MYLES',
+          html: approved ? `
+            <h2>Congratulations!</h2>
+            <p>Your business "${escapeHtml(business.name)}" has been approved and is now live on MYLES.</p>
+            <p>You can now start adding fitness sessions for users to book.</p>
+          ` : `
+            <h2>Business Application Update</h2>
+            <p>Thank you for your interest in MYLES. Unfortunately, your business application for "${escapeHtml(business.name)}" needs additional review.</p>
+            <p>Please contact our support team for more information.</p>
+          `
+        });
+      }
+
+      res.json(business);
+    } catch (error) {
+      console.error("Error updating business approval:", error);
+      res.status(500).json({ message: "Failed to update business approval" });
+    }
+  });
+
+  app.get('/api/admin/business-claims', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const claims = await storage.getPendingBusinessClaims();
+      const claimsWithFiles = await Promise.all(claims.map(async (claim) => ({
+        ...claim,
+        verificationFiles: await linkUploadedFiles(
+          await storage.getUploadedFilesByIds(getUploadIds(claim.verificationDocuments)),
+        ),
+      })));
+      res.json(claimsWithFiles);
+    } catch (error) {
+      console.error("Error fetching business claims:", error);
+      res.status(500).json({ message: "Failed to fetch business claims" });
+    }
+  });
+
+  app.post('/api/admin/business-claims/:id/approve', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const claimId = parseInt(req.params.id);
+      const { adminNotes } = businessClaimApprovalSchema.parse(req.body);
+
+      const claimDetails = await storage.getBusinessClaimById(claimId);
+      if (!claimDetails) {
+        return res.status(404).json({ message: "Claim not found" });
+      }
+
+      const { claim, competingClaims } = await storage.approveBusinessClaim(claimId, adminNotes);
+
+      if (claimDetails.user.email) {
+        await sendEmail({
+          to: claimDetails.user.email,
+          subject: 'Business Claim Approved - MYLES',
+          html: `
+            <h2>Your claim has been approved</h2>
+            <p>You now manage "${escapeHtml(claimDetails.business.name)}" on MYLES.</p>
+            <p>Sign in to your business dashboard to update the listing and start adding sessions.</p>
+          `
+        });
+      }
+
+      for (const competingClaim of competingClaims) {
+        const claimant = await storage.getUser(competingClaim.userId);
+        if (claimant?.email) {
+          await sendEmail({
+            to: claimant.email,
+            subject: 'Business Claim Update - MYLES',
+            html: `
+              <h2>Business Claim Update</h2>
+              <p>Your claim for "${escapeHtml(claimDetails.business.name)}" was not approved because the business has been verified with another owner.</p>
+              <p>If you believe this is a mistake, please contact our support team.</p>
+            `
+          });
+        }
+      }
+
+      res.json(claim);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid approval", errors: error.errors });
+      }
+      if (error instanceof BusinessClaimError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error approving business claim:", error);
+      res.status(500).json({ message: "Failed to approve business claim" });
+    }
+  });
+
+  app.post('/api/admin/business-claims/:id/reject', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const claimId = parseInt(req.params.id);
+      const { reason } = businessClaimRejectionSchema.parse(req.body);
+
+      const claimDetails = await storage.getBusinessClaimById(claimId);
+      if (!claimDetails) {
+        return res.status(404).json({ message: "Claim not found" });
+      }
+
+      const claim = await storage.rejectBusinessClaim(claimId, reason);
+      if (!claim) {
+        return res.status(409).json({ message: "This claim has already been reviewed" });
+      }
+
+      if (claimDetails.user.email) {
+        await sendEmail({
+          to: claimDetails.user.email,
+          subject: 'Business Claim Update - MYLES',
+          html: `
+            <h2>Business Claim Update</h2>
+            <p>We weren't able to approve your claim for "${escapeHtml(claimDetails.business.name)}".</p>
+            <p><strong>Reason:</strong> ${escapeHtml(reason)}</p>
+            <p>You're welcome to submit a new claim with further verification documents.</p>
+          `
+        });
+      }
+
+      res.json(claim);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "A rejection reason is required", errors: error.errors });
+      }
+      console.error("Error rejecting business claim:", error);
+      res.status(500).json({ message: "Failed to reject business claim" });
     }
   });
 
-  app.get('/api/admin/businesses/pending', isAuthenticated, async (req: any, res) => {
+  app.get('/api/admin/reviews', isAuthenticated, async (req: any, res) => {
     try {
       const user = await storage.getUser(req.user.claims.sub);
       if (user?.role !== 'admin') {
         return res.status(403).json({ message: "Admin access required" });
       }
 
-      const businesses = await storage.getPendingBusinesses();
-      res.json(businesses);
+      const status = req.query.status === 'hidden' ? 'hidden' : 'flagged';
+      const reviews = await storage.getReviewsForModeration(status);
+      res.json(reviews);
     } catch (error) {
-      console.error("Error fetching pending businesses:", error);
-      res.status(500).json({ message: "Failed to fetch pending businesses" });
+      console.error("Error fetching reviews for moderation:", error);
+      res.status(500).json({ message: "Failed to fetch reviews" });
     }
   });
 
-  app.put('/api/admin/businesses/:id/approve', isAuthenticated, async (req: any, res) => {
+  app.put('/api/admin/reviews/:id/moderate', isAuthenticated, async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
       if (user?.role !== 'admin') {
         return res.status(403).json({ message: "Admin access required" });
       }
 
-      const businessId = parseInt(req.params.id);
-      const { approved } = req.body;
-      
-      const business = await storage.updateBusinessApproval(businessId, approved);
-      const businessDetails = await storage.getBusinessById(businessId);
-      
-      if (businessDetails && businessDetails.user.email) {
-        await sendEmail({
-          to: businessDetails.user.email,
-          subject: approved ? 'Business Approved - MYLES' : 'Business Application Update - MYLES',
-          html: approved ? `
-            <h2>Congratulations!</h2>
-            <p>Your business "${business.name}" has been approved and is now live on MYLES.</p>
-            <p>You can now start adding fitness sessions for users to book.</p>
-          ` : `
-            <h2>Business Application Update</h2>
-            <p>Thank you for your interest in MYLES. Unfortunately, your business application for "${business.name}" needs additional review.</p>
-            <p>Please contact our support team for more information.</p>
-          `
-        });
+      const reviewId = parseInt(req.params.id);
+      const { action, note } = reviewModerationSchema.parse(req.body);
+
+      const review = await storage.getReviewById(reviewId);
+      if (!review) {
+        return res.status(404).json({ message: "Review not found" });
       }
 
-      res.json(business);
+      const updatedReview = await storage.moderateReview(reviewId, userId, action, note);
+      res.json(updatedReview);
     } catch (error) {
-      console.error("Error updating business approval:", error);
-      res.status(500).json({ message: "Failed to update business approval" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid moderation action", errors: error.errors });
+      }
+      console.error("Error moderating review:", error);
+      res.status(500).json({ message: "Failed to moderate review" });
     }
   });
 
@@ -473,6 +2969,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { approved } = req.body;
       
       const session = await storage.updateFitnessSessionApproval(sessionId, approved);
+      if (session.approved) {
+        const now = new Date();
+        await storage.materializeClassOccurrences(session, now, getOccurrenceHorizon(now));
+      }
       res.json(session);
     } catch (error) {
       console.error("Error updating session approval:", error);
@@ -485,6 +2985,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.claims.sub;
       const trainerData = insertPersonalTrainerSchema.parse(req.body);
+
+      if (!(await findOwnedUploads(trainerData.certificationDocuments ?? [], userId, 'trainer_certification'))) {
+        return res.status(400).json({ message: "Certification documents must be files you uploaded" });
+      }
       
       const trainer = await trainerStorage.createPersonalTrainer({
         ...trainerData,
@@ -497,17 +3001,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         subject: 'New Personal Trainer Application - Pending Approval',
         html: `
           <h2>New Personal Trainer Application</h2>
-          <p><strong>Name:</strong> ${trainer.firstName} ${trainer.lastName}</p>
-          <p><strong>Location:</strong> ${trainer.location}</p>
+          <p><strong>Name:</strong> ${escapeHtml(trainer.firstName)} ${escapeHtml(trainer.lastName)}</p>
+          <p><strong>Location:</strong> ${escapeHtml(trainer.location)}</p>
           <p><strong>Experience:</strong> ${trainer.experience} years</p>
           <p><strong>Hourly Rate:</strong> £${trainer.hourlyRate}</p>
-          <p><strong>Bio:</strong> ${trainer.bio}</p>
+          <p><strong>Bio:</strong> ${escapeHtml(trainer.bio)}</p>
           <p>Please review and approve this trainer application in the admin dashboard.</p>
         `
       });
 
       res.status(201).json(trainer);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid trainer profile", errors: error.errors });
+      }
       console.error("Error creating personal trainer:", error);
       res.status(500).json({ message: "Failed to create trainer profile" });
     }
@@ -520,6 +3027,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         specialty: req.query.specialty as string,
         location: req.query.location as string,
         maxRate: req.query.maxRate ? parseFloat(req.query.maxRate as string) : undefined,
+        minRating: req.query.minRating ? parseFloat(req.query.minRating as string) : undefined,
+        sortBy: req.query.sort === 'rating' ? 'rating' as const : undefined,
       };
 
       const trainers = await trainerStorage.searchPersonalTrainers(filters);
@@ -535,11 +3044,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const trainerId = parseInt(req.params.id);
       const trainer = await trainerStorage.getPersonalTrainerById(trainerId);
       
-      if (!trainer) {
+      if (!trainer || !trainer.approved) {
         return res.status(404).json({ message: "Trainer not found" });
       }
       
-      res.json(trainer);
+      res.json(toPublicTrainer(trainer));
     } catch (error) {
       console.error("Error fetching trainer:", error);
       res.status(500).json({ message: "Failed to fetch trainer" });
@@ -557,51 +3066,533 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.put('/api/personal-trainers/:id/cancellation-policy', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const trainerId = parseInt(req.params.id);
+
+      const trainer = await trainerStorage.getPersonalTrainerById(trainerId);
+      if (!trainer || trainer.userId !== userId) {
+        return res.status(403).json({ message: "Not authorized to update this trainer" });
+      }
+
+      const policy = cancellationPolicySchema.parse(req.body);
+      const updatedTrainer = await trainerStorage.updatePersonalTrainerCancellationPolicy(trainerId, policy);
+      res.json(updatedTrainer);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid cancellation policy", errors: error.errors });
+      }
+      console.error("Error updating trainer cancellation policy:", error);
+      res.status(500).json({ message: "Failed to update cancellation policy" });
+    }
+  });
+
+  app.put('/api/personal-trainers/:id/availability', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const trainerId = parseInt(req.params.id);
+
+      const trainer = await trainerStorage.getPersonalTrainerById(trainerId);
+      if (!trainer || trainer.userId !== userId) {
+        return res.status(403).json({ message: "Not authorized to update this trainer" });
+      }
+
+      const availability = trainerAvailabilitySchema.parse(req.body);
+      const updatedTrainer = await trainerStorage.updatePersonalTrainerAvailability(trainerId, availability);
+      res.json(updatedTrainer);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid availability", errors: error.errors });
+      }
+      console.error("Error updating trainer availability:", error);
+      res.status(500).json({ message: "Failed to update availability" });
+    }
+  });
+
+  app.get('/api/personal-trainers/:id/blackout-dates', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const trainerId = parseInt(req.params.id);
+
+      const trainer = await trainerStorage.getPersonalTrainerById(trainerId);
+      if (!trainer || trainer.userId !== userId) {
+        return res.status(403).json({ message: "Not authorized to view this trainer's blackout dates" });
+      }
+
+      const blackoutDates = await trainerStorage.getTrainerBlackoutDates(trainerId, toZonedDateString(new Date()));
+      res.json(blackoutDates);
+    } catch (error) {
+      console.error("Error fetching trainer blackout dates:", error);
+      res.status(500).json({ message: "Failed to fetch blackout dates" });
+    }
+  });
+
+  app.post('/api/personal-trainers/:id/blackout-dates', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const trainerId = parseInt(req.params.id);
+
+      const trainer = await trainerStorage.getPersonalTrainerById(trainerId);
+      if (!trainer || trainer.userId !== userId) {
+        return res.status(403).json({ message: "Not authorized to update this trainer" });
+      }
+
+      const { date, reason } = trainerBlackoutDateRequestSchema.parse(req.body);
+      const blackout = await trainerStorage.addTrainerBlackoutDate({ trainerId, date, reason });
+      res.status(201).json(blackout);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid blackout date", errors: error.errors });
+      }
+      console.error("Error adding trainer blackout date:", error);
+      res.status(500).json({ message: "Failed to add blackout date" });
+    }
+  });
+
+  app.delete('/api/personal-trainers/:id/blackout-dates/:blackoutId', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const trainerId = parseInt(req.params.id);
+
+      const trainer = await trainerStorage.getPersonalTrainerById(trainerId);
+      if (!trainer || trainer.userId !== userId) {
+        return res.status(403).json({ message: "Not authorized to update this trainer" });
+      }
+
+      const deleted = await trainerStorage.deleteTrainerBlackoutDate(trainerId, parseInt(req.params.blackoutId));
+      if (!deleted) {
+        return res.status(404).json({ message: "Blackout date not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error removing trainer blackout date:", error);
+      res.status(500).json({ message: "Failed to remove blackout date" });
+    }
+  });
+
+  // Bookable start times on a UK calendar day, after blackout dates, existing bookings and buffers
+  app.get('/api/personal-trainers/:id/slots', async (req, res) => {
+    try {
+      const trainerId = parseInt(req.params.id);
+      const date = req.query.date as string | undefined;
+      const parsedDuration = trainerSessionDurationSchema.safeParse(req.query.duration ?? 60);
+
+      if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(date).getTime())) {
+        return res.status(400).json({ message: "A date in YYYY-MM-DD format is required" });
+      }
+      if (!parsedDuration.success) {
+        return res.status(400).json({ message: "Duration must be between 15 and 480 minutes" });
+      }
+      const duration = parsedDuration.data;
+
+      const trainer = await trainerStorage.getPersonalTrainerById(trainerId);
+      if (!trainer || !trainer.approved) {
+        return res.status(404).json({ message: "Trainer not found" });
+      }
+
+      // Bookings either side of the day can still reach into it through their buffer
+      const day = getZonedDayWindow(date);
+      const bookings = await trainerStorage.getActiveTrainerBookingsBetween(
+        trainerId,
+        new Date(day.startsAt.getTime() - 24 * 60 * 60 * 1000),
+        day.endsAt,
+      );
+      const blackoutDates = await trainerStorage.getTrainerBlackoutDates(trainerId, date);
+
+      const slots = getAvailableSlots(
+        trainer,
+        date,
+        duration,
+        bookings,
+        blackoutDates.map((blackout) => blackout.date),
+      );
+
+      res.json({
+        date,
+        duration,
+        bufferMinutes: trainer.bufferMinutes,
+        slots: slots.map((slot) => ({
+          startsAt: slot.startsAt.toISOString(),
+          endsAt: slot.endsAt.toISOString(),
+        })),
+      });
+    } catch (error) {
+      console.error("Error fetching trainer slots:", error);
+      res.status(500).json({ message: "Failed to fetch available slots" });
+    }
+  });
+
+  app.post('/api/personal-trainers/:id/payouts/onboard', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const trainerId = parseInt(req.params.id);
+
+      const trainer = await trainerStorage.getPersonalTrainerById(trainerId);
+      if (!trainer || trainer.userId !== userId) {
+        return res.status(403).json({ message: "Not authorized to manage payouts for this trainer" });
+      }
+
+      const { stripeAccountId, url } = await createOnboardingLink({
+        stripeAccountId: trainer.stripeAccountId,
+        email: trainer.email || trainer.user.email,
+        metadata: { trainerId: trainer.id.toString() },
+        returnPath: '/personal-trainers',
+      });
+      if (stripeAccountId !== trainer.stripeAccountId) {
+        await trainerStorage.updatePersonalTrainerStripeAccount(trainer.id, stripeAccountId, false);
+      }
+
+      res.json({ url });
+    } catch (error) {
+      console.error("Error starting trainer payout onboarding:", error);
+      res.status(500).json({ message: "Failed to start payout onboarding" });
+    }
+  });
+
+  app.post('/api/personal-trainers/:id/payouts/refresh', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const trainerId = parseInt(req.params.id);
+
+      const trainer = await trainerStorage.getPersonalTrainerById(trainerId);
+      if (!trainer || trainer.userId !== userId) {
+        return res.status(403).json({ message: "Not authorized to manage payouts for this trainer" });
+      }
+
+      if (trainer.stripeAccountId) {
+        await syncConnectedAccount(await stripe.accounts.retrieve(trainer.stripeAccountId));
+      }
+
+      const updatedTrainer = await trainerStorage.getPersonalTrainerById(trainerId);
+      res.json(updatedTrainer);
+    } catch (error) {
+      console.error("Error refreshing trainer payout status:", error);
+      res.status(500).json({ message: "Failed to refresh payout status" });
+    }
+  });
+
   // Trainer booking routes
   app.post('/api/trainer-bookings', isAuthenticated, async (req: any, res) => {
+    // Card payments are taken before the booking is made, so turning the booking down hands the payment back
+    const rejectPaidBooking = async (status: number, message: string, details?: Record<string, unknown>) => {
+      const paymentIntentId = req.body.stripePaymentIntentId;
+      const released = typeof paymentIntentId === 'string' &&
+        await releaseUnusedPayment(paymentIntentId, req.user.claims.sub);
+      return res.status(status).json({
+        message: released ? `${message}. Your payment has been refunded.` : message,
+        ...details,
+      });
+    };
+
     try {
       const userId = req.user.claims.sub;
-      const bookingData = insertTrainerBookingSchema.parse(req.body);
-      
+      const bookingData = insertTrainerBookingSchema
+        .omit({ totalAmount: true, status: true, applicationFeeAmount: true, transferDestination: true })
+        .extend({ sessionDate: z.coerce.date(), duration: trainerSessionDurationSchema })
+        .parse({
+          ...req.body,
+          userId,
+        });
+
+      const trainer = await trainerStorage.getPersonalTrainerById(bookingData.trainerId);
+      if (!trainer || !trainer.approved || !trainer.hourlyRate) {
+        return await rejectPaidBooking(404, "Trainer not found");
+      }
+      if (bookingData.sessionDate <= new Date()) {
+        return await rejectPaidBooking(400, "Sessions can't be booked in the past");
+      }
+      const giftVoucher = req.body.giftVoucherCode
+        ? await findRedeemableGiftVoucher(req.body.giftVoucherCode, { trainerId: trainer.id })
+        : undefined;
+      const quote = quoteTrainerPrice(trainer, bookingData.duration, giftVoucher);
+      const giftVoucherRedemption = giftVoucher && quote.giftVoucher > 0
+        ? { giftVoucherId: giftVoucher.id, change: quote.giftVoucher.toFixed(2) }
+        : undefined;
+
+      // Unless a gift voucher covers the whole price, the booking needs a payment for this trainer and customer
+      // that covers the full price and has gone through
+      const coveredByGiftVoucher = quote.total === 0 && quote.giftVoucher > 0;
+      let paidIntentId: string | undefined;
+      let paymentDetails: ReturnType<typeof getDestinationChargeDetails> | undefined;
+      if (!coveredByGiftVoucher) {
+        if (!bookingData.stripePaymentIntentId) {
+          return res.status(400).json({ message: "Payment intent ID is required" });
+        }
+        const paymentIntent = await stripe.paymentIntents.retrieve(bookingData.stripePaymentIntentId);
+        if (
+          paymentIntent.metadata.userId !== userId ||
+          paymentIntent.metadata.trainerId !== trainer.id.toString() ||
+          paymentIntent.status !== 'succeeded'
+        ) {
+          return res.status(400).json({ message: "Invalid payment for this booking" });
+        }
+        if (paymentIntent.amount !== toMinorUnits(quote.total) || paymentIntent.currency !== 'gbp') {
+          return await rejectPaidBooking(400, "Payment amount does not match the session price");
+        }
+        if (await trainerStorage.getTrainerBookingByPaymentIntentId(paymentIntent.id)) {
+          return res.status(400).json({ message: "This payment has already been used for a booking" });
+        }
+        paidIntentId = paymentIntent.id;
+        paymentDetails = getDestinationChargeDetails(paymentIntent);
+      }
+
       const booking = await trainerStorage.createTrainerBooking({
         ...bookingData,
+        stripePaymentIntentId: paidIntentId ?? null,
+        ...paymentDetails,
+        totalAmount: quote.total,
         userId,
-      });
+      }, giftVoucherRedemption);
 
       // Send confirmation emails
-      const trainer = await trainerStorage.getPersonalTrainerById(bookingData.trainerId);
-      if (trainer) {
+      await sendEmail({
+        to: bookingData.clientEmail,
+        subject: 'Personal Training Session Booked - MYLES',
+        html: `
+          <h2>Booking Confirmation</h2>
+          <p>Your personal training session has been booked!</p>
+          <p><strong>Trainer:</strong> ${escapeHtml(trainer.firstName)} ${escapeHtml(trainer.lastName)}</p>
+          <p><strong>Date:</strong> ${new Date(bookingData.sessionDate).toLocaleDateString()}</p>
+          <p><strong>Duration:</strong> ${bookingData.duration} minutes</p>
+          <p><strong>Total:</strong> £${booking.totalAmount}</p>
+        `
+      });
+
+      await sendEmail({
+        to: trainer.email || trainer.user.email,
+        subject: 'New Booking - MYLES',
+        html: `
+          <h2>New Booking Received</h2>
+          <p>You have a new training session booking!</p>
+          <p><strong>Client:</strong> ${escapeHtml(bookingData.clientName)}</p>
+          <p><strong>Email:</strong> ${escapeHtml(bookingData.clientEmail)}</p>
+          <p><strong>Date:</strong> ${new Date(bookingData.sessionDate).toLocaleDateString()}</p>
+          <p><strong>Duration:</strong> ${bookingData.duration} minutes</p>
+        `
+      });
+
+      res.status(201).json(booking);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return await rejectPaidBooking(400, "Invalid booking details", { errors: error.errors });
+      }
+      // The slot or the voucher's balance went while the customer was paying
+      if (error instanceof TrainerSlotUnavailableError) {
+        return await rejectPaidBooking(409, error.message);
+      }
+      if (error instanceof GiftVoucherError) {
+        return await rejectPaidBooking(400, error.message);
+      }
+      // The payment went on another booking, so it must not be refunded
+      if (error instanceof PaymentAlreadyUsedError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error creating trainer booking:", error);
+      res.status(500).json({ message: "Failed to create booking" });
+    }
+  });
+
+  app.get('/api/trainer-bookings/my', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const bookings = await trainerStorage.getTrainerBookingsByUserId(userId);
+      res.json(bookings);
+    } catch (error) {
+      console.error("Error fetching trainer bookings:", error);
+      res.status(500).json({ message: "Failed to fetch trainer bookings" });
+    }
+  });
+
+  app.post('/api/trainer-bookings/:id/cancel', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const bookingId = parseInt(req.params.id);
+
+      const booking = await trainerStorage.getTrainerBookingById(bookingId);
+      if (!booking || booking.userId !== userId) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+
+      if (booking.status !== 'confirmed') {
+        return res.status(400).json({ message: "Only confirmed bookings can be cancelled" });
+      }
+
+      const outcome = evaluateCancellation(booking.trainer, booking.sessionDate);
+      if (!outcome.allowed) {
+        return res.status(400).json({ message: outcome.message });
+      }
+
+      // Only the request that actually cancels the booking refunds it, so a double submit can't pay out twice
+      const updatedBooking = await trainerStorage.transitionTrainerBookingStatus(bookingId, 'confirmed', 'cancelled');
+      if (!updatedBooking) {
+        return res.status(409).json({ message: "This booking can no longer be cancelled" });
+      }
+      const refund = await refundTrainerBooking(booking, {
+        reason: 'customer_cancellation',
+        initiatedBy: userId,
+        amount: calculateRefundAmount(booking.totalAmount, outcome.refundPercent),
+      });
+      const refundAmount = refund ? parseFloat(refund.amount) : 0;
+      const giftVoucherRestored = await storage.restoreGiftVoucherBalance(
+        { trainerBookingId: booking.id },
+        outcome.refundPercent,
+      );
+
+      await sendEmail({
+        to: booking.clientEmail,
+        subject: 'Training Session Cancelled - MYLES',
+        html: `
+          <h2>Booking Cancelled</h2>
+          <p>Your personal training session has been cancelled.</p>
+          <p><strong>Trainer:</strong> ${escapeHtml(booking.trainer.firstName)} ${escapeHtml(booking.trainer.lastName)}</p>
+          <p><strong>Date:</strong> ${formatOccurrenceTime(booking.sessionDate)}</p>
+          <p><strong>Refund:</strong> £${refundAmount.toFixed(2)}</p>
+          ${giftVoucherRestored > 0 ? `<p><strong>Returned to your gift voucher:</strong> £${giftVoucherRestored.toFixed(2)}</p>` : ''}
+        `
+      });
+
+      const trainerEmail = booking.trainer.email || booking.trainer.user.email;
+      if (trainerEmail) {
         await sendEmail({
-          to: bookingData.clientEmail,
-          subject: 'Personal Training Session Booked - MYLES',
+          to: trainerEmail,
+          subject: 'Booking Cancelled - MYLES',
           html: `
-            <h2>Booking Confirmation</h2>
-            <p>Your personal training session has been booked!</p>
-            <p><strong>Trainer:</strong> ${trainer.firstName} ${trainer.lastName}</p>
-            <p><strong>Date:</strong> ${new Date(bookingData.sessionDate).toLocaleDateString()}</p>
-            <p><strong>Duration:</strong> ${bookingData.duration} minutes</p>
-            <p><strong>Total:</strong> £${bookingData.totalAmount}</p>
+            <h2>Booking Cancelled</h2>
+            <p>A client has cancelled their training session.</p>
+            <p><strong>Client:</strong> ${escapeHtml(booking.clientName)}</p>
+            <p><strong>Date:</strong> ${formatOccurrenceTime(booking.sessionDate)}</p>
           `
         });
+      }
+
+      res.json({
+        booking: updatedBooking,
+        refund,
+        refundPercent: outcome.refundPercent,
+        refundAmount,
+        giftVoucherRestored,
+      });
+    } catch (error) {
+      console.error("Error cancelling trainer booking:", error);
+      res.status(500).json({ message: "Failed to cancel booking" });
+    }
+  });
+
+  app.post('/api/trainer-bookings/:id/reschedule', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const bookingId = parseInt(req.params.id);
+      const sessionDate = new Date(req.body.sessionDate);
+
+      if (isNaN(sessionDate.getTime()) || sessionDate <= new Date()) {
+        return res.status(400).json({ message: "A future session date is required" });
+      }
+
+      const booking = await trainerStorage.getTrainerBookingById(bookingId);
+      if (!booking || booking.userId !== userId) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+
+      if (booking.status !== 'confirmed') {
+        return res.status(400).json({ message: "Only confirmed bookings can be rescheduled" });
+      }
+
+      if (!canReschedule(booking.trainer, booking.sessionDate)) {
+        return res.status(400).json({
+          message: `Bookings can only be rescheduled at least ${booking.trainer.freeCancellationHours} hours before the session starts`,
+        });
+      }
 
+      const updatedBooking = await trainerStorage.rescheduleTrainerBooking(bookingId, sessionDate);
+
+      const trainerEmail = booking.trainer.email || booking.trainer.user.email;
+      if (trainerEmail) {
         await sendEmail({
-          to: trainer.email || trainer.user.email,
-          subject: 'New Booking - MYLES',
+          to: trainerEmail,
+          subject: 'Booking Rescheduled - MYLES',
           html: `
-            <h2>New Booking Received</h2>
-            <p>You have a new training session booking!</p>
-            <p><strong>Client:</strong> ${bookingData.clientName}</p>
-            <p><strong>Email:</strong> ${bookingData.clientEmail}</p>
-            <p><strong>Date:</strong> ${new Date(bookingData.sessionDate).toLocaleDateString()}</p>
-            <p><strong>Duration:</strong> ${bookingData.duration} minutes</p>
+            <h2>Booking Rescheduled</h2>
+            <p>A client has moved their training session.</p>
+            <p><strong>Client:</strong> ${escapeHtml(booking.clientName)}</p>
+            <p><strong>Previous date:</strong> ${formatOccurrenceTime(booking.sessionDate)}</p>
+            <p><strong>New date:</strong> ${formatOccurrenceTime(sessionDate)}</p>
           `
         });
       }
 
-      res.status(201).json(booking);
+      res.json(updatedBooking);
     } catch (error) {
-      console.error("Error creating trainer booking:", error);
-      res.status(500).json({ message: "Failed to create booking" });
+      if (error instanceof TrainerSlotUnavailableError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error rescheduling trainer booking:", error);
+      res.status(500).json({ message: "Failed to reschedule booking" });
+    }
+  });
+
+  // Trainers mark sessions as delivered, which lets the client leave a review
+  app.post('/api/trainer-bookings/:id/complete', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const bookingId = parseInt(req.params.id);
+
+      const booking = await trainerStorage.getTrainerBookingById(bookingId);
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+
+      const user = await storage.getUser(userId);
+      if (booking.trainer.userId !== userId && user?.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      if (booking.status !== 'confirmed') {
+        return res.status(400).json({ message: "Only confirmed bookings can be completed" });
+      }
+
+      const updatedBooking = await trainerStorage.updateTrainerBookingStatus(bookingId, 'completed');
+      res.json(updatedBooking);
+    } catch (error) {
+      console.error("Error completing trainer booking:", error);
+      res.status(500).json({ message: "Failed to complete booking" });
+    }
+  });
+
+  app.post('/api/trainer-bookings/:id/review', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const bookingId = parseInt(req.params.id);
+      const { rating, comment } = reviewSubmissionSchema.parse(req.body);
+
+      const booking = await trainerStorage.getTrainerBookingById(bookingId);
+      if (!booking || booking.userId !== userId) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+
+      if (booking.status !== 'completed') {
+        return res.status(400).json({ message: "Only completed bookings can be reviewed" });
+      }
+
+      if (await storage.getReviewByTrainerBookingId(bookingId)) {
+        return res.status(409).json({ message: "You have already reviewed this booking" });
+      }
+
+      const review = await storage.createReview({
+        userId,
+        trainerBookingId: bookingId,
+        trainerId: booking.trainerId,
+        rating,
+        comment: comment || null,
+      });
+
+      res.status(201).json(review);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid review", errors: error.errors });
+      }
+      console.error("Error creating trainer review:", error);
+      res.status(500).json({ message: "Failed to create review" });
     }
   });
 
@@ -614,7 +3605,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const trainers = await trainerStorage.getPendingPersonalTrainers();
-      res.json(trainers);
+      const trainersWithFiles = await Promise.all(trainers.map(async (trainer) => ({
+        ...trainer,
+        certificationFiles: await linkUploadedFiles(
+          await storage.getUploadedFilesByIds(getUploadIds(trainer.certificationDocuments)),
+        ),
+      })));
+      res.json(trainersWithFiles);
     } catch (error) {
       console.error("Error fetching pending trainers:", error);
       res.status(500).json({ message: "Failed to fetch pending trainers" });
@@ -0,0 +1,32 @@
+const MAX_SLUG_LENGTH = 60;
+
+// Lower-case, hyphen-separated ASCII, e.g. "Café Fit & Co." -> "cafe-fit-and-co"
+export function slugify(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/-+$/, '');
+}
+
+// Tries each candidate in turn, then numbered variants of the first, until one isn't taken.
+// Numeric-only slugs are skipped so they can't be mistaken for ids in URLs.
+export async function findAvailableSlug(
+  candidates: string[],
+  isTaken: (slug: string) => Promise<boolean>,
+): Promise<string> {
+  const slugs = candidates.map(slugify).filter((slug) => slug && !/^\d+$/.test(slug));
+  const base = slugs[0] || 'profile';
+
+  for (const slug of slugs) {
+    if (!(await isTaken(slug))) return slug;
+  }
+  for (let suffix = 2; ; suffix++) {
+    const slug = `${base}-${suffix}`;
+    if (!(await isTaken(slug))) return slug;
+  }
+}
@@ -0,0 +1,21 @@
+import type { BusinessStaff } from "@shared/schema";
+import { sendEmail, escapeHtml } from "./emailService";
+
+function getAppUrl(): string {
+  return process.env.APP_URL || 'https://mylesfitness.co.uk';
+}
+
+// Emails the link that adds someone to a business's staff once they've signed in
+export async function sendStaffInvitation(staffMember: BusinessStaff, businessName: string): Promise<void> {
+  const acceptUrl = `${getAppUrl()}/staff-invitations/${staffMember.inviteToken}`;
+  await sendEmail({
+    to: staffMember.email,
+    subject: `You've been invited to join ${businessName} on MYLES`,
+    html: `
+      <h2>Join ${escapeHtml(businessName)} on MYLES</h2>
+      <p>${escapeHtml(businessName)} has invited you to join their team as ${escapeHtml(staffMember.displayName)}.</p>
+      <p>Once you've accepted, you'll be able to see the classes you're teaching and who's booked in.</p>
+      <p><a href="${acceptUrl}">Accept your invitation</a></p>
+    `
+  });
+}
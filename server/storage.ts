@@ -1,29 +1,400 @@
 import {
   users,
   businesses,
+  businessLocations,
+  businessStaff,
   sessionTypes,
   fitnessSessions,
   bookings,
+  bookingGuests,
+  creditPacks,
+  creditPurchases,
+  creditLedgerEntries,
+  membershipPlans,
+  memberships,
+  promoCodes,
+  promoRedemptions,
+  giftVouchers,
+  giftVoucherLedgerEntries,
   businessClaims,
+  uploadedFiles,
+  photos,
+  classOccurrences,
+  waitlistEntries,
+  refunds,
+  reviews,
+  reviewModerationActions,
+  personalTrainers,
   type User,
   type UpsertUser,
   type Business,
   type InsertBusiness,
+  type BusinessLocation,
+  type InsertBusinessLocation,
+  type BusinessStaff,
+  type InsertBusinessStaff,
+  type StaffInvitation,
+  type TeachingScheduleEntry,
+  type RosterEntry,
+  type DisplacedBooking,
   type SessionType,
   type InsertSessionType,
   type FitnessSession,
   type InsertFitnessSession,
+  type ClassOccurrence,
+  type ClassOccurrenceWithAvailability,
+  type WaitlistEntry,
+  type InsertWaitlistEntry,
+  type WaitlistEntryWithDetails,
   type Booking,
   type InsertBooking,
+  type BookingGuest,
+  type CreditPack,
+  type InsertCreditPack,
+  type CreditPurchase,
+  type InsertCreditPurchase,
+  type CreditPurchaseWithDetails,
+  type MembershipPlan,
+  type InsertMembershipPlan,
+  type Membership,
+  type InsertMembership,
+  type MembershipWithDetails,
+  type PromoCode,
+  type InsertPromoCode,
+  type InsertPromoRedemption,
+  type PromoCodeWithStats,
+  type AdminStats,
+  type GiftVoucher,
+  type InsertGiftVoucher,
+  type InsertGiftVoucherLedgerEntry,
+  type GiftVoucherWithProvider,
+  type Refund,
+  type InsertRefund,
+  type Review,
+  type InsertReview,
+  type ReviewWithAuthor,
+  type ReviewForModeration,
   type BusinessClaim,
+  type UploadedFile,
+  type InsertUploadedFile,
+  type Photo,
   type InsertBusinessClaim,
   type BusinessWithUser,
   type FitnessSessionWithDetails,
   type BookingWithDetails,
   type BusinessClaimWithDetails,
+  type TimetableSession,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, or, ilike, desc, asc, count, gte, lte, sql } from "drizzle-orm";
+import { alias, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { nanoid } from "nanoid";
+import { expandSchedule, type ScheduleSlot } from "./occurrences";
+import { findCoordinates } from "./geocoding";
+import { findAvailableSlug } from "./slugs";
+import { getPhotoUrls, MAX_GALLERY_PHOTOS, type PhotoOwner, type ProcessedPhoto } from "./photos";
+import { eq, and, or, ilike, desc, asc, count, gt, gte, lt, lte, inArray, isNull, sql, type SQL } from "drizzle-orm";
+
+// Thrown when a booking would take a class occurrence past its session's maxParticipants
+export class OccurrenceFullError extends Error {
+  constructor(message = "This class is fully booked") {
+    super(message);
+    this.name = "OccurrenceFullError";
+  }
+}
+
+// Thrown when a payment has already paid for another booking, e.g. when the same checkout is submitted twice
+export class PaymentAlreadyUsedError extends Error {
+  constructor(message = "This payment has already been used for a booking") {
+    super(message);
+    this.name = "PaymentAlreadyUsedError";
+  }
+}
+
+// Thrown when a business claim can no longer be approved, e.g. it was already reviewed or the business has an owner
+export class BusinessClaimError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BusinessClaimError";
+  }
+}
+
+// Thrown when a staff invitation can't be sent or accepted, e.g. the person is already on the business's staff
+export class StaffError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StaffError";
+  }
+}
+
+// Thrown when a location can't be changed, e.g. it's being removed while sessions still run there
+export class BusinessLocationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BusinessLocationError";
+  }
+}
+
+// Thrown when a booking can't be paid for with a credit, e.g. the customer has none that cover the class
+export class CreditError extends Error {
+  constructor(message = "You don't have a class credit that covers this class") {
+    super(message);
+    this.name = "CreditError";
+  }
+}
+
+// Thrown when a booking can't be made under a membership, e.g. it doesn't cover the class or this month's classes are used up
+export class MembershipError extends Error {
+  constructor(message = "You don't have a membership that covers this class") {
+    super(message);
+    this.name = "MembershipError";
+  }
+}
+
+// Thrown when a promo code can't be used, e.g. it has expired or reached its usage limit
+export class PromoCodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PromoCodeError";
+  }
+}
+
+// Thrown when a gift voucher can't be spent, e.g. it has expired or doesn't have enough balance left
+export class GiftVoucherError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GiftVoucherError";
+  }
+}
+
+// Stripe subscription statuses that still give access. Past-due members keep the period they last paid for.
+export const ENTITLED_MEMBERSHIP_STATUSES = ['active', 'trialing', 'past_due'];
+
+// Thrown when a gallery change doesn't fit the gallery, e.g. it's full or a reorder leaves photos out
+export class PhotoGalleryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PhotoGalleryError";
+  }
+}
+
+// Spots held on an occurrence by bookings that haven't been cancelled, one for each attendee, plus unexpired
+// waitlist offers. An offer being claimed is excluded so its holder can take the spot it reserved.
+function heldSpotsSql(excludeWaitlistEntryId?: number) {
+  return sql<number>`(
+    (select coalesce(sum(${bookings.attendees}), 0)::int from ${bookings}
+      where ${bookings.occurrenceId} = ${classOccurrences.id}
+      and ${bookings.status} <> 'cancelled')
+    + (select count(*)::int from ${waitlistEntries}
+      where ${waitlistEntries.occurrenceId} = ${classOccurrences.id}
+      and ${waitlistEntries.status} = 'offered'
+      and ${waitlistEntries.offerExpiresAt} > now()
+      ${excludeWaitlistEntryId ? sql`and ${waitlistEntries.id} <> ${excludeWaitlistEntryId}` : sql``})
+  )`;
+}
+
+// Recomputes the stored rating average and count of whatever a review column points at.
+// Reviews hidden by moderation don't count.
+function ratingAggregateSql(column: AnyPgColumn, id: number) {
+  const visible = sql`${column} = ${id} and ${reviews.status} <> 'hidden'`;
+  return {
+    ratingAverage: sql`(select coalesce(round(avg(${reviews.rating}), 2), 0) from ${reviews} where ${visible})`,
+    ratingCount: sql`(select count(*)::int from ${reviews} where ${visible})`,
+    updatedAt: new Date(),
+  };
+}
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LATITUDE = 111.32;
+
+// Where a session actually runs: its location if it has one, otherwise the business's own address.
+// Only valid in queries that left join business_locations on the session's location.
+const sitePostcodeSql = sql<string>`coalesce(${businessLocations.postcode}, ${businesses.postcode})`;
+const siteLatitudeSql = sql`coalesce(${businessLocations.latitude}, ${businesses.latitude})`;
+const siteLongitudeSql = sql`coalesce(${businessLocations.longitude}, ${businesses.longitude})`;
+
+// Great-circle (haversine) distance from a point to each session's site, null where it has no coordinates
+function distanceKmSql(latitude: number, longitude: number) {
+  return sql<number | null>`(${EARTH_RADIUS_KM} * 2 * asin(least(1, sqrt(
+    power(sin(radians(${siteLatitudeSql}::float8 - ${latitude}) / 2), 2)
+    + cos(radians(${latitude})) * cos(radians(${siteLatitudeSql}::float8))
+    * power(sin(radians(${siteLongitudeSql}::float8 - ${longitude}) / 2), 2)
+  ))))`;
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+async function refreshRatingAggregates(tx: Transaction, review: Review): Promise<void> {
+  if (review.businessId) {
+    await tx
+      .update(businesses)
+      .set(ratingAggregateSql(reviews.businessId, review.businessId))
+      .where(eq(businesses.id, review.businessId));
+  }
+  if (review.sessionId) {
+    await tx
+      .update(fitnessSessions)
+      .set(ratingAggregateSql(reviews.sessionId, review.sessionId))
+      .where(eq(fitnessSessions.id, review.sessionId));
+  }
+  if (review.trainerId) {
+    await tx
+      .update(personalTrainers)
+      .set(ratingAggregateSql(reviews.trainerId, review.trainerId))
+      .where(eq(personalTrainers.id, review.trainerId));
+  }
+}
+
+function photoOwnerCondition(owner: PhotoOwner): SQL {
+  return 'businessId' in owner
+    ? eq(photos.businessId, owner.businessId)
+    : eq(photos.trainerId, owner.trainerId);
+}
+
+// Locks the business or trainer a gallery belongs to, so concurrent changes to the gallery run one at a time
+async function lockPhotoOwner(tx: Transaction, owner: PhotoOwner): Promise<void> {
+  if ('businessId' in owner) {
+    await tx.select({ id: businesses.id }).from(businesses).where(eq(businesses.id, owner.businessId)).for('update');
+  } else {
+    await tx.select({ id: personalTrainers.id }).from(personalTrainers).where(eq(personalTrainers.id, owner.trainerId)).for('update');
+  }
+}
+
+// Copies the cover photo's URLs onto the business or trainer so listings can show it without a join
+async function refreshCoverImage(tx: Transaction, owner: PhotoOwner): Promise<void> {
+  const [cover] = await tx
+    .select()
+    .from(photos)
+    .where(and(photoOwnerCondition(owner), eq(photos.isCover, true)));
+  const coverImage = cover ? getPhotoUrls(cover) : null;
+
+  if ('businessId' in owner) {
+    await tx
+      .update(businesses)
+      .set({ coverImage, updatedAt: new Date() })
+      .where(eq(businesses.id, owner.businessId));
+  } else {
+    await tx
+      .update(personalTrainers)
+      .set({ coverImage, updatedAt: new Date() })
+      .where(eq(personalTrainers.id, owner.trainerId));
+  }
+}
+
+// Who teaches an occurrence: its cover instructor if it has one, otherwise the session's usual instructor
+const occurrenceInstructorIdSql = sql<number | null>`coalesce(${classOccurrences.instructorId}, ${fitnessSessions.instructorId})`;
+
+// Locks an occurrence row so concurrent bookings for the same class are counted one at a time,
+// then throws if it doesn't have enough spots left for everyone on the booking being made
+async function reserveOccurrenceSpots(tx: Transaction, occurrenceId: number, spots: number, waitlistEntryId?: number): Promise<void> {
+  const [occurrence] = await tx
+    .select({ id: classOccurrences.id, maxParticipants: fitnessSessions.maxParticipants })
+    .from(classOccurrences)
+    .innerJoin(fitnessSessions, eq(classOccurrences.sessionId, fitnessSessions.id))
+    .where(eq(classOccurrences.id, occurrenceId))
+    .for('update', { of: classOccurrences });
+
+  if (!occurrence) {
+    throw new Error(`Class occurrence ${occurrenceId} not found`);
+  }
+
+  const [held] = await tx
+    .select({ count: heldSpotsSql(waitlistEntryId) })
+    .from(classOccurrences)
+    .where(eq(classOccurrences.id, occurrenceId));
+
+  const spotsLeft = occurrence.maxParticipants - held.count;
+  if (spotsLeft <= 0) {
+    throw new OccurrenceFullError();
+  }
+  if (spotsLeft < spots) {
+    throw new OccurrenceFullError(`This class only has ${spotsLeft} ${spotsLeft === 1 ? 'spot' : 'spots'} left`);
+  }
+}
+
+async function markWaitlistEntryClaimed(tx: Transaction, waitlistEntryId: number): Promise<void> {
+  await tx
+    .update(waitlistEntries)
+    .set({ status: 'claimed', updatedAt: new Date() })
+    .where(eq(waitlistEntries.id, waitlistEntryId));
+}
+
+// Times a promo code has been used, optionally by one customer. Redemptions on cancelled bookings are given back.
+function promoRedemptionCountSql(userId?: string) {
+  return sql<number>`(
+    select count(*)::int from ${promoRedemptions}
+    inner join ${bookings} on ${bookings.id} = ${promoRedemptions.bookingId}
+    where ${promoRedemptions.promoCodeId} = ${promoCodes.id}
+    and ${bookings.status} <> 'cancelled'
+    ${userId ? sql`and ${promoRedemptions.userId} = ${userId}` : sql``}
+  )`;
+}
+
+// Locks the promo code so concurrent bookings are counted one at a time, then records its use on a booking,
+// throwing if that would take it past either usage limit
+async function redeemPromoCode(tx: Transaction, redemption: InsertPromoRedemption): Promise<void> {
+  const [usage] = await tx
+    .select({
+      promo: promoCodes,
+      used: promoRedemptionCountSql(),
+      usedByCustomer: promoRedemptionCountSql(redemption.userId),
+    })
+    .from(promoCodes)
+    .where(eq(promoCodes.id, redemption.promoCodeId))
+    .for('update', { of: promoCodes });
+
+  if (!usage?.promo.active) {
+    throw new PromoCodeError("This promo code is no longer available");
+  }
+  if (usage.promo.maxRedemptions !== null && usage.used >= usage.promo.maxRedemptions) {
+    throw new PromoCodeError("This promo code has been fully redeemed");
+  }
+  if (usage.promo.maxRedemptionsPerCustomer !== null && usage.usedByCustomer >= usage.promo.maxRedemptionsPerCustomer) {
+    throw new PromoCodeError("You've already used this promo code");
+  }
+
+  await tx.insert(promoRedemptions).values(redemption);
+}
+
+// Locks the voucher so concurrent bookings spend its balance one at a time, then takes the amount off and records
+// it against the booking. Exported so trainer bookings can spend a voucher in the same transaction.
+export async function redeemGiftVoucher(
+  tx: Transaction,
+  redemption: Omit<InsertGiftVoucherLedgerEntry, 'reason'>,
+): Promise<void> {
+  const [voucher] = await tx
+    .select()
+    .from(giftVouchers)
+    .where(eq(giftVouchers.id, redemption.giftVoucherId))
+    .for('update');
+
+  if (!voucher || voucher.expiresAt <= new Date()) {
+    throw new GiftVoucherError("This gift voucher has expired");
+  }
+  if (parseFloat(voucher.balance) < parseFloat(redemption.change)) {
+    throw new GiftVoucherError("This gift voucher doesn't have enough balance left");
+  }
+
+  await tx
+    .update(giftVouchers)
+    .set({ balance: sql`${giftVouchers.balance} - ${redemption.change}`, updatedAt: new Date() })
+    .where(eq(giftVouchers.id, voucher.id));
+
+  await tx.insert(giftVoucherLedgerEntries).values({
+    ...redemption,
+    change: `-${redemption.change}`,
+    reason: 'redemption',
+  });
+}
+
+const waitlistAhead = alias(waitlistEntries, "waitlist_ahead");
+
+// 1-based place in the queue for entries still waiting
+const waitlistPositionSql = sql<number>`(
+  select count(*)::int + 1 from ${waitlistAhead}
+  where ${waitlistAhead.occurrenceId} = ${waitlistEntries.occurrenceId}
+  and ${waitlistAhead.status} = 'waiting'
+  and (${waitlistAhead.createdAt}, ${waitlistAhead.id}) < (${waitlistEntries.createdAt}, ${waitlistEntries.id})
+)`;
 
 export interface IStorage {
   // User operations (mandatory for Replit Auth)
@@ -34,9 +405,21 @@ export interface IStorage {
   createBusiness(business: InsertBusiness): Promise<Business>;
   getBusinessesByUserId(userId: string): Promise<BusinessWithUser[]>;
   getBusinessById(id: number): Promise<BusinessWithUser | undefined>;
+  getBusinessBySlug(slug: string): Promise<Business | undefined>;
   updateBusinessApproval(id: number, approved: boolean): Promise<Business>;
+  updateBusinessCancellationPolicy(id: number, policy: {
+    freeCancellationHours: number;
+    lateCancellationRefundPercent: number;
+  }): Promise<Business>;
   getPendingBusinesses(): Promise<BusinessWithUser[]>;
   getAllBusinesses(): Promise<BusinessWithUser[]>;
+
+  // Business location operations
+  getBusinessLocations(businessId: number): Promise<BusinessLocation[]>;
+  getBusinessLocationById(id: number): Promise<BusinessLocation | undefined>;
+  createBusinessLocation(location: InsertBusinessLocation): Promise<BusinessLocation>;
+  updateBusinessLocation(id: number, location: Pick<InsertBusinessLocation, 'name' | 'address' | 'postcode'>): Promise<BusinessLocation>;
+  deleteBusinessLocation(id: number): Promise<void>;
   
   // Session type operations
   getSessionTypes(): Promise<SessionType[]>;
@@ -48,6 +431,7 @@ export interface IStorage {
   getFitnessSessionById(id: number): Promise<FitnessSessionWithDetails | undefined>;
   updateFitnessSessionApproval(id: number, approved: boolean): Promise<FitnessSession>;
   getPendingFitnessSessions(): Promise<FitnessSessionWithDetails[]>;
+  getTimetableSessions(businessId: number): Promise<TimetableSession[]>;
   searchFitnessSessions(filters: {
     postcode?: string;
     sessionType?: string;
@@ -55,20 +439,158 @@ export interface IStorage {
     difficulty?: string;
     maxPrice?: number;
     minPrice?: number;
+    latitude?: number;
+    longitude?: number;
+    radiusKm?: number;
+    minRating?: number;
+    instructor?: string;
+    sortBy?: 'distance' | 'rating';
   }): Promise<FitnessSessionWithDetails[]>;
   
+  // Class occurrence operations
+  materializeClassOccurrences(session: FitnessSession, from: Date, to: Date): Promise<void>;
+  getClassOccurrencesBySessionId(sessionId: number, from: Date, to: Date): Promise<ClassOccurrenceWithAvailability[]>;
+  getClassOccurrencesByBusinessId(businessId: number, from: Date, to: Date): Promise<ClassOccurrenceWithAvailability[]>;
+  getClassOccurrenceById(id: number): Promise<ClassOccurrenceWithAvailability | undefined>;
+  updateSessionSchedule(
+    sessionId: number,
+    schedule: ScheduleSlot[],
+    from: Date,
+    to: Date,
+  ): Promise<{ session: FitnessSession; displacedBookings: DisplacedBooking[] }>;
+
+  // Staff and instructor operations
+  createStaffInvitation(invitation: InsertBusinessStaff): Promise<BusinessStaff>;
+  getStaffByBusinessId(businessId: number): Promise<BusinessStaff[]>;
+  getStaffMemberById(id: number): Promise<BusinessStaff | undefined>;
+  getActiveStaffByUserId(userId: string): Promise<BusinessStaff[]>;
+  getStaffInvitation(token: string): Promise<StaffInvitation | undefined>;
+  acceptStaffInvitation(token: string, userId: string): Promise<BusinessStaff>;
+  removeStaffMember(id: number): Promise<BusinessStaff>;
+  assignSessionInstructor(sessionId: number, instructorId: number | null): Promise<FitnessSession>;
+  assignOccurrenceInstructor(occurrenceId: number, instructorId: number | null): Promise<ClassOccurrence>;
+  getTeachingSchedule(filter: { businessId: number } | { staffIds: number[] }, from: Date, to: Date): Promise<TeachingScheduleEntry[]>;
+  getOccurrenceRoster(occurrenceId: number): Promise<RosterEntry[]>;
+  
+  // Waitlist operations
+  createWaitlistEntry(entry: InsertWaitlistEntry): Promise<WaitlistEntry>;
+  getWaitlistEntryById(id: number): Promise<WaitlistEntryWithDetails | undefined>;
+  getWaitlistEntryByClaimToken(token: string): Promise<WaitlistEntry | undefined>;
+  getActiveWaitlistEntry(occurrenceId: number, userId: string): Promise<WaitlistEntry | undefined>;
+  getWaitlistEntriesByUserId(userId: string): Promise<WaitlistEntryWithDetails[]>;
+  updateWaitlistEntryStatus(id: number, status: string): Promise<WaitlistEntry>;
+  offerWaitlistSpots(occurrenceId: number, offerWindowMs: number): Promise<WaitlistEntry[]>;
+  getOccurrenceIdsWithLapsedOffers(): Promise<number[]>;
+  
   // Booking operations
-  createBooking(booking: InsertBooking): Promise<Booking>;
+  createBooking(
+    booking: InsertBooking,
+    waitlistEntryId?: number,
+    promo?: Pick<InsertPromoRedemption, 'promoCodeId' | 'discountAmount'>,
+    giftVoucher?: Pick<InsertGiftVoucherLedgerEntry, 'giftVoucherId' | 'change'>,
+    guestNames?: string[],
+  ): Promise<Booking>;
+  rescheduleBooking(booking: Pick<Booking, 'id' | 'attendees'>, occurrence: ClassOccurrence): Promise<Booking>;
   getBookingsByUserId(userId: string): Promise<BookingWithDetails[]>;
   getBookingsByBusinessId(businessId: number): Promise<BookingWithDetails[]>;
   getBookingById(id: number): Promise<BookingWithDetails | undefined>;
   updateBookingStatus(id: number, status: string): Promise<Booking>;
+  transitionBookingStatus(id: number, from: string, to: string): Promise<Booking | undefined>;
+  getBookingByPaymentIntentId(paymentIntentId: string): Promise<Booking | undefined>;
+  setBookingCheckIn(id: number, checkedIn: boolean): Promise<Booking>;
+  setBookingGuestCheckIn(bookingId: number, guestId: number, checkedIn: boolean): Promise<BookingGuest | undefined>;
+  createCreditBooking(booking: InsertBooking, session: Pick<FitnessSession, 'businessId' | 'sessionTypeId'>, waitlistEntryId?: number): Promise<Booking>;
+  createMembershipBooking(booking: InsertBooking, session: Pick<FitnessSession, 'businessId' | 'sessionTypeId'>, waitlistEntryId?: number): Promise<Booking>;
+
+  // Class pack operations
+  getActiveCreditPacks(businessId: number): Promise<CreditPack[]>;
+  getCreditPackById(id: number): Promise<CreditPack | undefined>;
+  createCreditPack(pack: InsertCreditPack): Promise<CreditPack>;
+  retireCreditPack(id: number): Promise<CreditPack>;
+  createCreditPurchase(purchase: InsertCreditPurchase): Promise<CreditPurchase | undefined>;
+  getCreditPurchaseByPaymentIntentId(paymentIntentId: string): Promise<CreditPurchase | undefined>;
+  getUsableCreditPurchases(userId: string): Promise<CreditPurchaseWithDetails[]>;
+  restoreBookingCredit(bookingId: number): Promise<boolean>;
+
+  // Membership operations
+  getActiveMembershipPlans(businessId: number): Promise<MembershipPlan[]>;
+  getMembershipPlanById(id: number): Promise<MembershipPlan | undefined>;
+  createMembershipPlan(plan: InsertMembershipPlan): Promise<MembershipPlan>;
+  retireMembershipPlan(id: number): Promise<MembershipPlan>;
+  createMembership(membership: InsertMembership): Promise<Membership>;
+  getMembershipById(id: number): Promise<Membership | undefined>;
+  getMembershipBySubscriptionId(stripeSubscriptionId: string): Promise<Membership | undefined>;
+  getEntitledMembership(userId: string, membershipPlanId: number): Promise<Membership | undefined>;
+  getCurrentMembershipsByUserId(userId: string): Promise<MembershipWithDetails[]>;
+  syncMembershipSubscription(stripeSubscriptionId: string, subscription: {
+    status: string;
+    currentPeriodStart?: Date;
+    currentPeriodEnd?: Date;
+    cancelAtPeriodEnd?: boolean;
+  }): Promise<Membership | undefined>;
+  releaseMembershipClass(bookingId: number): Promise<boolean>;
+
+  // Promo code operations
+  getPromoCodesByBusinessId(businessId: number): Promise<PromoCodeWithStats[]>;
+  getPromoCodeById(id: number): Promise<PromoCode | undefined>;
+  getPromoCodeByCode(businessId: number, code: string): Promise<PromoCode | undefined>;
+  createPromoCode(promo: InsertPromoCode): Promise<PromoCode>;
+  deactivatePromoCode(id: number): Promise<PromoCode>;
+  getPromoCodeUsage(promoCodeId: number, userId: string): Promise<{ used: number; usedByCustomer: number }>;
+  hasBookedWithBusiness(userId: string, businessId: number): Promise<boolean>;
+
+  // Gift voucher operations
+  createGiftVoucher(voucher: InsertGiftVoucher): Promise<GiftVoucher | undefined>;
+  getGiftVoucherByPaymentIntentId(paymentIntentId: string): Promise<GiftVoucher | undefined>;
+  getGiftVoucherByCode(code: string): Promise<GiftVoucher | undefined>;
+  getGiftVouchersForUser(userId: string, email: string | null): Promise<GiftVoucherWithProvider[]>;
+  restoreGiftVoucherBalance(spentOn: { bookingId: number } | { trainerBookingId: number }, percent: number): Promise<number>;
+  getGiftVouchersDueExpiryReminder(expiringBefore: Date): Promise<GiftVoucher[]>;
+  markGiftVoucherExpiryReminderSent(id: number): Promise<void>;
+
+  // Refund operations
+  createRefund(refund: InsertRefund): Promise<Refund>;
+  getRefundsByBookingIds(bookingIds: number[]): Promise<Refund[]>;
+  getRefundsByTrainerBookingIds(trainerBookingIds: number[]): Promise<Refund[]>;
+  updateRefundStatusByStripeId(stripeRefundId: string, status: string): Promise<Refund | undefined>;
+
+  // Review operations
+  createReview(review: InsertReview): Promise<Review>;
+  getReviewByBookingId(bookingId: number): Promise<Review | undefined>;
+  getReviewByTrainerBookingId(trainerBookingId: number): Promise<Review | undefined>;
+  getReviewsBySessionId(sessionId: number): Promise<ReviewWithAuthor[]>;
+  getReviewsByBusinessId(businessId: number): Promise<ReviewWithAuthor[]>;
+  getReviewsByTrainerId(trainerId: number): Promise<ReviewWithAuthor[]>;
+  getReviewById(id: number): Promise<Review | undefined>;
+  respondToReview(id: number, response: string): Promise<Review>;
+  flagReview(id: number, actorId: string, reason: string): Promise<Review>;
+  moderateReview(id: number, actorId: string, action: 'hide' | 'restore', note?: string): Promise<Review>;
+  getReviewsForModeration(status: 'flagged' | 'hidden'): Promise<ReviewForModeration[]>;
   
+  // Uploaded file operations
+  createUploadedFile(file: InsertUploadedFile): Promise<UploadedFile>;
+  getUploadedFileById(id: number): Promise<UploadedFile | undefined>;
+  getUploadedFilesByIds(ids: number[]): Promise<UploadedFile[]>;
+
+  // Photo gallery operations
+  getPhotos(owner: PhotoOwner): Promise<Photo[]>;
+  getPhotoById(id: number): Promise<Photo | undefined>;
+  addPhotos(owner: PhotoOwner, uploadedBy: string, processed: ProcessedPhoto[]): Promise<Photo[]>;
+  reorderPhotos(owner: PhotoOwner, photoIds: number[]): Promise<Photo[]>;
+  setCoverPhoto(owner: PhotoOwner, photoId: number): Promise<Photo[]>;
+  deletePhoto(owner: PhotoOwner, photoId: number): Promise<Photo | undefined>;
+
   // Business claiming operations
   getUnclaimedBusinesses(): Promise<BusinessWithUser[]>;
   createBusinessClaim(claim: InsertBusinessClaim): Promise<BusinessClaim>;
   getPendingBusinessClaims(): Promise<BusinessClaimWithDetails[]>;
+  getBusinessClaimById(id: number): Promise<BusinessClaimWithDetails | undefined>;
   updateBusinessClaimStatus(id: number, status: string): Promise<BusinessClaim>;
+  approveBusinessClaim(id: number, adminNotes?: string): Promise<{
+    claim: BusinessClaim;
+    competingClaims: BusinessClaim[];
+  }>;
+  rejectBusinessClaim(id: number, reason: string): Promise<BusinessClaim | undefined>;
   
   // Business subscription operations
   updateBusinessSubscription(id: number, subscription: {
@@ -77,16 +599,14 @@ export interface IStorage {
     subscriptionExpiry: Date | null;
     stripeSubscriptionId: string | null;
   }): Promise<Business>;
+  updateBusinessStripeSubscriptionId(id: number, stripeSubscriptionId: string): Promise<Business>;
+  getBusinessByStripeSubscriptionId(stripeSubscriptionId: string): Promise<Business | undefined>;
+  updateBusinessStripeAccount(id: number, stripeAccountId: string, payoutsEnabled: boolean): Promise<Business>;
+  getBusinessByStripeAccountId(stripeAccountId: string): Promise<Business | undefined>;
   updateUserStripeCustomerId(userId: string, customerId: string): Promise<User>;
   
   // Stats
-  getStats(): Promise<{
-    totalUsers: number;
-    totalBusinesses: number;
-    totalSessions: number;
-    pendingBusinesses: number;
-    pendingSessions: number;
-  }>;
+  getStats(): Promise<AdminStats>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -111,7 +631,23 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createBusiness(business: InsertBusiness): Promise<Business> {
-    const [newBusiness] = await db.insert(businesses).values(business).returning();
+    if (!business.latitude || !business.longitude) {
+      const coordinates = await findCoordinates(business.postcode);
+      if (coordinates) {
+        business = {
+          ...business,
+          latitude: coordinates.latitude.toString(),
+          longitude: coordinates.longitude.toString(),
+        };
+      }
+    }
+    // Falls back to the postcode district (e.g. "core-fitness-sw1a") when another business has the name
+    const outcode = business.postcode.replace(/\s+/g, '').slice(0, -3);
+    const slug = await findAvailableSlug(
+      [business.name, `${business.name} ${outcode}`],
+      async (candidate) => !!(await this.getBusinessBySlug(candidate)),
+    );
+    const [newBusiness] = await db.insert(businesses).values({ ...business, slug }).returning();
     return newBusiness;
   }
 
@@ -128,6 +664,11 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
+  async getBusinessBySlug(slug: string): Promise<Business | undefined> {
+    const [business] = await db.select().from(businesses).where(eq(businesses.slug, slug));
+    return business;
+  }
+
   async getBusinessById(id: number): Promise<BusinessWithUser | undefined> {
     const [result] = await db
       .select()
@@ -152,6 +693,18 @@ export class DatabaseStorage implements IStorage {
     return business;
   }
 
+  async updateBusinessCancellationPolicy(id: number, policy: {
+    freeCancellationHours: number;
+    lateCancellationRefundPercent: number;
+  }): Promise<Business> {
+    const [business] = await db
+      .update(businesses)
+      .set({ ...policy, updatedAt: new Date() })
+      .where(eq(businesses.id, id))
+      .returning();
+    return business;
+  }
+
   async getPendingBusinesses(): Promise<BusinessWithUser[]> {
     const results = await db
       .select()
@@ -177,6 +730,62 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
+  // Business location operations
+  async getBusinessLocations(businessId: number): Promise<BusinessLocation[]> {
+    return db
+      .select()
+      .from(businessLocations)
+      .where(eq(businessLocations.businessId, businessId))
+      .orderBy(asc(businessLocations.name));
+  }
+
+  async getBusinessLocationById(id: number): Promise<BusinessLocation | undefined> {
+    const [location] = await db.select().from(businessLocations).where(eq(businessLocations.id, id));
+    return location;
+  }
+
+  async createBusinessLocation(location: InsertBusinessLocation): Promise<BusinessLocation> {
+    if (!location.latitude || !location.longitude) {
+      const coordinates = await findCoordinates(location.postcode);
+      if (coordinates) {
+        location = {
+          ...location,
+          latitude: coordinates.latitude.toString(),
+          longitude: coordinates.longitude.toString(),
+        };
+      }
+    }
+    const [newLocation] = await db.insert(businessLocations).values(location).returning();
+    return newLocation;
+  }
+
+  async updateBusinessLocation(id: number, location: Pick<InsertBusinessLocation, 'name' | 'address' | 'postcode'>): Promise<BusinessLocation> {
+    // Re-geocoded every time so a corrected postcode moves the location's map marker
+    const coordinates = await findCoordinates(location.postcode);
+    const [updated] = await db
+      .update(businessLocations)
+      .set({
+        ...location,
+        latitude: coordinates?.latitude.toString() ?? null,
+        longitude: coordinates?.longitude.toString() ?? null,
+        updatedAt: new Date(),
+      })
+      .where(eq(businessLocations.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteBusinessLocation(id: number): Promise<void> {
+    const [{ sessionCount }] = await db
+      .select({ sessionCount: count() })
+      .from(fitnessSessions)
+      .where(eq(fitnessSessions.locationId, id));
+    if (sessionCount > 0) {
+      throw new BusinessLocationError("Move or remove the sessions at this location before deleting it");
+    }
+    await db.delete(businessLocations).where(eq(businessLocations.id, id));
+  }
+
   async getSessionTypes(): Promise<SessionType[]> {
     return await db.select().from(sessionTypes);
   }
@@ -198,6 +807,7 @@ export class DatabaseStorage implements IStorage {
       .leftJoin(businesses, eq(fitnessSessions.businessId, businesses.id))
       .leftJoin(users, eq(businesses.userId, users.id))
       .leftJoin(sessionTypes, eq(fitnessSessions.sessionTypeId, sessionTypes.id))
+      .leftJoin(businessLocations, eq(fitnessSessions.locationId, businessLocations.id))
       .where(eq(fitnessSessions.businessId, businessId));
 
     return results.map(row => ({
@@ -207,6 +817,7 @@ export class DatabaseStorage implements IStorage {
         user: row.users!,
       },
       sessionType: row.session_types!,
+      location: row.business_locations,
     }));
   }
 
@@ -217,10 +828,13 @@ export class DatabaseStorage implements IStorage {
       .leftJoin(businesses, eq(fitnessSessions.businessId, businesses.id))
       .leftJoin(users, eq(businesses.userId, users.id))
       .leftJoin(sessionTypes, eq(fitnessSessions.sessionTypeId, sessionTypes.id))
+      .leftJoin(businessLocations, eq(fitnessSessions.locationId, businessLocations.id))
+      .leftJoin(businessStaff, eq(fitnessSessions.instructorId, businessStaff.id))
       .where(eq(fitnessSessions.id, id));
 
     if (!result) return undefined;
 
+    const instructor = result.business_staff;
     return {
       ...result.fitness_sessions,
       business: {
@@ -228,6 +842,8 @@ export class DatabaseStorage implements IStorage {
         user: result.users!,
       },
       sessionType: result.session_types!,
+      location: result.business_locations,
+      instructor: instructor && { id: instructor.id, displayName: instructor.displayName, bio: instructor.bio },
     };
   }
 
@@ -259,6 +875,25 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
+  async getTimetableSessions(businessId: number): Promise<TimetableSession[]> {
+    const results = await db
+      .select()
+      .from(fitnessSessions)
+      .innerJoin(sessionTypes, eq(fitnessSessions.sessionTypeId, sessionTypes.id))
+      .leftJoin(businessLocations, eq(fitnessSessions.locationId, businessLocations.id))
+      .where(and(
+        eq(fitnessSessions.businessId, businessId),
+        eq(fitnessSessions.approved, true),
+      ))
+      .orderBy(asc(fitnessSessions.title));
+
+    return results.map(row => ({
+      ...row.fitness_sessions,
+      sessionType: row.session_types,
+      location: row.business_locations,
+    }));
+  }
+
   async searchFitnessSessions(filters: {
     postcode?: string;
     sessionType?: string;
@@ -266,11 +901,21 @@ export class DatabaseStorage implements IStorage {
     difficulty?: string;
     maxPrice?: number;
     minPrice?: number;
+    latitude?: number;
+    longitude?: number;
+    radiusKm?: number;
+    minRating?: number;
+    instructor?: string;
+    sortBy?: 'distance' | 'rating';
   }): Promise<FitnessSessionWithDetails[]> {
     const conditions = [eq(fitnessSessions.approved, true)];
+    const hasOrigin = filters.latitude !== undefined && filters.longitude !== undefined;
+    const distanceKm = hasOrigin
+      ? distanceKmSql(filters.latitude!, filters.longitude!)
+      : sql<number | null>`null`;
 
     if (filters.postcode) {
-      conditions.push(ilike(businesses.postcode, `%${filters.postcode}%`));
+      conditions.push(ilike(sitePostcodeSql, `%${filters.postcode}%`));
     }
     if (filters.sessionType) {
       conditions.push(ilike(sessionTypes.name, `%${filters.sessionType}%`));
@@ -289,15 +934,65 @@ export class DatabaseStorage implements IStorage {
     if (filters.minPrice !== undefined) {
       conditions.push(sql`${fitnessSessions.price}::numeric >= ${filters.minPrice}`);
     }
+    if (filters.minRating !== undefined) {
+      conditions.push(gte(fitnessSessions.ratingAverage, filters.minRating.toString()));
+    }
+    if (filters.instructor) {
+      // Matches sessions the instructor usually teaches, or has an upcoming class covering
+      const matchesInstructor = sql`${businessStaff.status} = 'active' and ${businessStaff.displayName} ilike ${`%${filters.instructor}%`}`;
+      conditions.push(or(
+        sql`exists (select 1 from ${businessStaff}
+          where ${businessStaff.id} = ${fitnessSessions.instructorId} and ${matchesInstructor})`,
+        sql`exists (select 1 from ${classOccurrences}
+          inner join ${businessStaff} on ${businessStaff.id} = ${classOccurrences.instructorId}
+          where ${classOccurrences.sessionId} = ${fitnessSessions.id}
+          and ${classOccurrences.status} = 'scheduled'
+          and ${classOccurrences.startsAt} >= now()
+          and ${matchesInstructor})`,
+      )!);
+    }
+    if (hasOrigin && filters.radiusKm !== undefined) {
+      // The bounding box lets Postgres discard far-away rows cheaply before the exact distance check
+      const latDelta = filters.radiusKm / KM_PER_DEGREE_LATITUDE;
+      const lngDelta = filters.radiusKm / (KM_PER_DEGREE_LATITUDE * Math.max(Math.cos(filters.latitude! * Math.PI / 180), 0.01));
+      conditions.push(sql`${siteLatitudeSql}::numeric between ${filters.latitude! - latDelta} and ${filters.latitude! + latDelta}`);
+      conditions.push(sql`${siteLongitudeSql}::numeric between ${filters.longitude! - lngDelta} and ${filters.longitude! + lngDelta}`);
+      conditions.push(sql`${distanceKm} <= ${filters.radiusKm}`);
+    }
 
-    const results = await db
-      .select()
+    const query = db
+      .select({
+        fitness_sessions: fitnessSessions,
+        businesses,
+        users,
+        session_types: sessionTypes,
+        business_locations: businessLocations,
+        instructor: {
+          id: businessStaff.id,
+          displayName: businessStaff.displayName,
+          bio: businessStaff.bio,
+        },
+        distanceKm,
+      })
       .from(fitnessSessions)
       .leftJoin(businesses, eq(fitnessSessions.businessId, businesses.id))
       .leftJoin(users, eq(businesses.userId, users.id))
       .leftJoin(sessionTypes, eq(fitnessSessions.sessionTypeId, sessionTypes.id))
+      .leftJoin(businessLocations, eq(fitnessSessions.locationId, businessLocations.id))
+      .leftJoin(businessStaff, eq(fitnessSessions.instructorId, businessStaff.id))
       .where(and(...conditions));
 
+    let results;
+    if (filters.sortBy === 'distance' && hasOrigin) {
+      results = await query.orderBy(sql`${distanceKm} asc nulls last`);
+    } else if (filters.sortBy === 'rating') {
+      results = await query.orderBy(desc(fitnessSessions.ratingAverage), desc(fitnessSessions.ratingCount));
+    } else {
+      results = await query;
+    }
+
+    const nextOccurrences = await this.getNextOccurrences(results.map(row => row.fitness_sessions));
+
     return results.map((row: any) => ({
       ...row.fitness_sessions,
       business: {
@@ -305,126 +1000,1720 @@ export class DatabaseStorage implements IStorage {
         user: row.users!,
       },
       sessionType: row.session_types!,
+      location: row.business_locations,
+      instructor: row.instructor,
+      nextOccurrence: nextOccurrences.get(row.fitness_sessions.id) ?? null,
+      distanceKm: row.distanceKm === null ? null : Math.round(Number(row.distanceKm) * 10) / 10,
     }));
   }
 
-  async createBooking(booking: InsertBooking): Promise<Booking> {
-    const [newBooking] = await db.insert(bookings).values(booking).returning();
-    return newBooking;
+  async materializeClassOccurrences(session: FitnessSession, from: Date, to: Date): Promise<void> {
+    const windows = expandSchedule(session.schedule, from, to);
+    if (windows.length === 0) return;
+
+    await db
+      .insert(classOccurrences)
+      .values(windows.map(window => ({
+        sessionId: session.id,
+        startsAt: window.startsAt,
+        endsAt: window.endsAt,
+      })))
+      .onConflictDoNothing({ target: [classOccurrences.sessionId, classOccurrences.startsAt] });
   }
 
-  async getBookingsByUserId(userId: string): Promise<BookingWithDetails[]> {
+  // Replaces a session's weekly schedule and brings its upcoming occurrences in line: classes the new schedule
+  // drops are cancelled unless someone is booked on them, in which case they still run and those bookings are
+  // returned so the customers can be told. Times the schedule adds (or brings back) are scheduled.
+  async updateSessionSchedule(
+    sessionId: number,
+    schedule: ScheduleSlot[],
+    from: Date,
+    to: Date,
+  ): Promise<{ session: FitnessSession; displacedBookings: DisplacedBooking[] }> {
+    return await db.transaction(async (tx) => {
+      const [session] = await tx
+        .update(fitnessSessions)
+        .set({ schedule, updatedAt: new Date() })
+        .where(eq(fitnessSessions.id, sessionId))
+        .returning();
+
+      const windows = expandSchedule(schedule, from, to);
+      const kept = new Set(windows.map(window => window.startsAt.getTime()));
+
+      const upcoming = await tx
+        .select()
+        .from(classOccurrences)
+        .where(and(
+          eq(classOccurrences.sessionId, sessionId),
+          gte(classOccurrences.startsAt, from),
+          lt(classOccurrences.startsAt, to),
+        ))
+        .for('update');
+      const dropped = upcoming.filter(occurrence =>
+        occurrence.status === 'scheduled' && !kept.has(occurrence.startsAt.getTime()));
+
+      const booked = dropped.length === 0 ? [] : await tx
+        .select({
+          id: bookings.id,
+          occurrenceId: bookings.occurrenceId,
+          sessionDate: bookings.sessionDate,
+          customer: { email: users.email, firstName: users.firstName },
+        })
+        .from(bookings)
+        .innerJoin(users, eq(bookings.userId, users.id))
+        .where(and(
+          inArray(bookings.occurrenceId, dropped.map(occurrence => occurrence.id)),
+          sql`${bookings.status} <> 'cancelled'`,
+        ));
+      const bookedOccurrenceIds = new Set(booked.map(booking => booking.occurrenceId));
+
+      const emptyIds = dropped.filter(occurrence => !bookedOccurrenceIds.has(occurrence.id)).map(occurrence => occurrence.id);
+      if (emptyIds.length > 0) {
+        await tx
+          .update(classOccurrences)
+          .set({ status: 'cancelled', updatedAt: new Date() })
+          .where(inArray(classOccurrences.id, emptyIds));
+      }
+
+      // Occurrences are only ever cancelled by schedule changes, so ones the new schedule includes come back
+      for (const window of windows) {
+        const existing = upcoming.find(occurrence => occurrence.startsAt.getTime() === window.startsAt.getTime());
+        if (!existing) continue;
+        if (existing.status !== 'scheduled' || existing.endsAt.getTime() !== window.endsAt.getTime()) {
+          await tx
+            .update(classOccurrences)
+            .set({ status: 'scheduled', endsAt: window.endsAt, updatedAt: new Date() })
+            .where(eq(classOccurrences.id, existing.id));
+        }
+      }
+
+      const added = windows.filter(window =>
+        !upcoming.some(occurrence => occurrence.startsAt.getTime() === window.startsAt.getTime()));
+      if (added.length > 0) {
+        await tx
+          .insert(classOccurrences)
+          .values(added.map(window => ({ sessionId, startsAt: window.startsAt, endsAt: window.endsAt })))
+          .onConflictDoNothing({ target: [classOccurrences.sessionId, classOccurrences.startsAt] });
+      }
+
+      return {
+        session,
+        displacedBookings: booked.map(({ occurrenceId, ...booking }) => booking),
+      };
+    });
+  }
+
+  async getClassOccurrencesBySessionId(sessionId: number, from: Date, to: Date): Promise<ClassOccurrenceWithAvailability[]> {
     const results = await db
-      .select()
-      .from(bookings)
-      .leftJoin(users, eq(bookings.userId, users.id))
-      .leftJoin(fitnessSessions, eq(bookings.sessionId, fitnessSessions.id))
-      .leftJoin(businesses, eq(fitnessSessions.businessId, businesses.id))
-      .leftJoin(sessionTypes, eq(fitnessSessions.sessionTypeId, sessionTypes.id))
-      .where(eq(bookings.userId, userId));
+      .select({
+        occurrence: classOccurrences,
+        maxParticipants: fitnessSessions.maxParticipants,
+        bookedSpots: heldSpotsSql(),
+      })
+      .from(classOccurrences)
+      .innerJoin(fitnessSessions, eq(classOccurrences.sessionId, fitnessSessions.id))
+      .where(and(
+        eq(classOccurrences.sessionId, sessionId),
+        gte(classOccurrences.startsAt, from),
+        lte(classOccurrences.startsAt, to),
+      ))
+      .orderBy(asc(classOccurrences.startsAt));
 
     return results.map(row => ({
-      ...row.bookings,
-      user: row.users!,
-      session: {
-        ...row.fitness_sessions!,
-        business: {
-          ...row.businesses!,
-          user: row.users!,
-        },
-        sessionType: row.session_types!,
-      },
+      ...row.occurrence,
+      spotsLeft: Math.max(row.maxParticipants - row.bookedSpots, 0),
     }));
   }
 
-  async getBookingsByBusinessId(businessId: number): Promise<BookingWithDetails[]> {
+  // Occurrences of a business's approved sessions, for its public timetable
+  async getClassOccurrencesByBusinessId(businessId: number, from: Date, to: Date): Promise<ClassOccurrenceWithAvailability[]> {
     const results = await db
-      .select()
-      .from(bookings)
-      .leftJoin(users, eq(bookings.userId, users.id))
-      .leftJoin(fitnessSessions, eq(bookings.sessionId, fitnessSessions.id))
-      .leftJoin(businesses, eq(fitnessSessions.businessId, businesses.id))
-      .leftJoin(sessionTypes, eq(fitnessSessions.sessionTypeId, sessionTypes.id))
-      .where(eq(fitnessSessions.businessId, businessId));
+      .select({
+        occurrence: classOccurrences,
+        maxParticipants: fitnessSessions.maxParticipants,
+        bookedSpots: heldSpotsSql(),
+      })
+      .from(classOccurrences)
+      .innerJoin(fitnessSessions, eq(classOccurrences.sessionId, fitnessSessions.id))
+      .where(and(
+        eq(fitnessSessions.businessId, businessId),
+        eq(fitnessSessions.approved, true),
+        gte(classOccurrences.startsAt, from),
+        lte(classOccurrences.startsAt, to),
+      ))
+      .orderBy(asc(classOccurrences.startsAt));
 
     return results.map(row => ({
-      ...row.bookings,
-      user: row.users!,
-      session: {
-        ...row.fitness_sessions!,
-        business: {
-          ...row.businesses!,
-          user: row.users!,
-        },
-        sessionType: row.session_types!,
-      },
+      ...row.occurrence,
+      spotsLeft: Math.max(row.maxParticipants - row.bookedSpots, 0),
     }));
   }
 
-  async getBookingById(id: number): Promise<BookingWithDetails | undefined> {
+  private async getNextOccurrences(sessions: FitnessSession[]): Promise<Map<number, ClassOccurrenceWithAvailability>> {
+    const nextOccurrences = new Map<number, ClassOccurrenceWithAvailability>();
+    if (sessions.length === 0) return nextOccurrences;
+
+    const results = await db
+      .selectDistinctOn([classOccurrences.sessionId], {
+        occurrence: classOccurrences,
+        bookedSpots: heldSpotsSql(),
+      })
+      .from(classOccurrences)
+      .where(and(
+        inArray(classOccurrences.sessionId, sessions.map(session => session.id)),
+        eq(classOccurrences.status, 'scheduled'),
+        gte(classOccurrences.startsAt, new Date()),
+      ))
+      .orderBy(classOccurrences.sessionId, asc(classOccurrences.startsAt));
+
+    const maxParticipants = new Map(sessions.map(session => [session.id, session.maxParticipants]));
+    for (const row of results) {
+      const capacity = maxParticipants.get(row.occurrence.sessionId) ?? 0;
+      nextOccurrences.set(row.occurrence.sessionId, {
+        ...row.occurrence,
+        spotsLeft: Math.max(capacity - row.bookedSpots, 0),
+      });
+    }
+    return nextOccurrences;
+  }
+
+  async getClassOccurrenceById(id: number): Promise<ClassOccurrenceWithAvailability | undefined> {
     const [result] = await db
-      .select()
-      .from(bookings)
-      .leftJoin(users, eq(bookings.userId, users.id))
-      .leftJoin(fitnessSessions, eq(bookings.sessionId, fitnessSessions.id))
-      .leftJoin(businesses, eq(fitnessSessions.businessId, businesses.id))
-      .leftJoin(sessionTypes, eq(fitnessSessions.sessionTypeId, sessionTypes.id))
-      .where(eq(bookings.id, id));
+      .select({
+        occurrence: classOccurrences,
+        maxParticipants: fitnessSessions.maxParticipants,
+        bookedSpots: heldSpotsSql(),
+      })
+      .from(classOccurrences)
+      .innerJoin(fitnessSessions, eq(classOccurrences.sessionId, fitnessSessions.id))
+      .where(eq(classOccurrences.id, id));
 
     if (!result) return undefined;
 
     return {
-      ...result.bookings,
-      user: result.users!,
-      session: {
-        ...result.fitness_sessions!,
-        business: {
-          ...result.businesses!,
-          user: result.users!,
-        },
-        sessionType: result.session_types!,
-      },
+      ...result.occurrence,
+      spotsLeft: Math.max(result.maxParticipants - result.bookedSpots, 0),
     };
   }
 
-  async updateBookingStatus(id: number, status: string): Promise<Booking> {
-    const [booking] = await db
-      .update(bookings)
-      .set({ status, updatedAt: new Date() })
-      .where(eq(bookings.id, id))
-      .returning();
-    return booking;
+  // Staff and instructor operations
+  // Re-inviting someone whose invitation is outstanding or who was removed sends them a fresh link
+  async createStaffInvitation(invitation: InsertBusinessStaff): Promise<BusinessStaff> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(businessStaff)
+        .where(and(
+          eq(businessStaff.businessId, invitation.businessId),
+          eq(businessStaff.email, invitation.email),
+        ))
+        .for('update');
+
+      if (!existing) {
+        const [staffMember] = await tx.insert(businessStaff).values(invitation).returning();
+        return staffMember;
+      }
+      if (existing.status === 'active') {
+        throw new StaffError("This person is already on your staff");
+      }
+
+      const [staffMember] = await tx
+        .update(businessStaff)
+        .set({
+          ...invitation,
+          userId: null,
+          status: 'invited',
+          acceptedAt: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(businessStaff.id, existing.id))
+        .returning();
+      return staffMember;
+    });
   }
 
-  // Business claiming operations
-  async getUnclaimedBusinesses(): Promise<BusinessWithUser[]> {
-    const results = await db
+  async getStaffByBusinessId(businessId: number): Promise<BusinessStaff[]> {
+    return db
       .select()
-      .from(businesses)
-      .leftJoin(users, eq(businesses.userId, users.id))
-      .where(and(eq(businesses.claimed, false), eq(businesses.manuallyAdded, true)));
-
-    return results.map(result => ({
-      ...result.businesses,
-      user: result.users || { id: '', email: '', firstName: '', lastName: '', profileImageUrl: '', createdAt: new Date(), updatedAt: new Date() },
-    }));
+      .from(businessStaff)
+      .where(and(
+        eq(businessStaff.businessId, businessId),
+        inArray(businessStaff.status, ['invited', 'active']),
+      ))
+      .orderBy(asc(businessStaff.displayName));
   }
 
-  async createBusinessClaim(claim: InsertBusinessClaim): Promise<BusinessClaim> {
-    const [businessClaim] = await db
-      .insert(businessClaims)
-      .values(claim)
-      .returning();
-    return businessClaim;
+  async getStaffMemberById(id: number): Promise<BusinessStaff | undefined> {
+    const [staffMember] = await db.select().from(businessStaff).where(eq(businessStaff.id, id));
+    return staffMember;
   }
 
-  async getPendingBusinessClaims(): Promise<BusinessClaimWithDetails[]> {
-    const results = await db
+  async getActiveStaffByUserId(userId: string): Promise<BusinessStaff[]> {
+    return db
       .select()
-      .from(businessClaims)
-      .leftJoin(businesses, eq(businessClaims.businessId, businesses.id))
-      .leftJoin(users, eq(businessClaims.userId, users.id))
-      .where(eq(businessClaims.status, 'pending'));
+      .from(businessStaff)
+      .where(and(eq(businessStaff.userId, userId), eq(businessStaff.status, 'active')));
+  }
+
+  async getStaffInvitation(token: string): Promise<StaffInvitation | undefined> {
+    const [result] = await db
+      .select({
+        id: businessStaff.id,
+        email: businessStaff.email,
+        displayName: businessStaff.displayName,
+        business: {
+          id: businesses.id,
+          name: businesses.name,
+        },
+      })
+      .from(businessStaff)
+      .innerJoin(businesses, eq(businessStaff.businessId, businesses.id))
+      .where(and(eq(businessStaff.inviteToken, token), eq(businessStaff.status, 'invited')));
+    return result;
+  }
+
+  async acceptStaffInvitation(token: string, userId: string): Promise<BusinessStaff> {
+    return db.transaction(async (tx) => {
+      const [invitation] = await tx
+        .select()
+        .from(businessStaff)
+        .where(eq(businessStaff.inviteToken, token))
+        .for('update');
+      if (!invitation || invitation.status !== 'invited') {
+        throw new StaffError("This invitation is no longer valid");
+      }
+
+      const [alreadyStaff] = await tx
+        .select({ id: businessStaff.id })
+        .from(businessStaff)
+        .where(and(
+          eq(businessStaff.businessId, invitation.businessId),
+          eq(businessStaff.userId, userId),
+          eq(businessStaff.status, 'active'),
+        ));
+      if (alreadyStaff) {
+        throw new StaffError("You're already on this business's staff");
+      }
+
+      const now = new Date();
+      const [staffMember] = await tx
+        .update(businessStaff)
+        .set({ userId, status: 'active', inviteToken: null, acceptedAt: now, updatedAt: now })
+        .where(eq(businessStaff.id, invitation.id))
+        .returning();
+
+      // Business owners and admins keep their role; everyone else becomes a staff user
+      await tx
+        .update(users)
+        .set({ role: 'staff', updatedAt: now })
+        .where(and(eq(users.id, userId), eq(users.role, 'user')));
+
+      return staffMember;
+    });
+  }
+
+  // Also takes the staff member off the sessions they teach and any upcoming classes they were covering
+  async removeStaffMember(id: number): Promise<BusinessStaff> {
+    return db.transaction(async (tx) => {
+      const now = new Date();
+      const [staffMember] = await tx
+        .update(businessStaff)
+        .set({ status: 'removed', inviteToken: null, updatedAt: now })
+        .where(eq(businessStaff.id, id))
+        .returning();
+
+      await tx
+        .update(fitnessSessions)
+        .set({ instructorId: null, updatedAt: now })
+        .where(eq(fitnessSessions.instructorId, id));
+
+      await tx
+        .update(classOccurrences)
+        .set({ instructorId: null, updatedAt: now })
+        .where(and(
+          eq(classOccurrences.instructorId, id),
+          gte(classOccurrences.startsAt, now),
+        ));
+
+      return staffMember;
+    });
+  }
+
+  async assignSessionInstructor(sessionId: number, instructorId: number | null): Promise<FitnessSession> {
+    const [session] = await db
+      .update(fitnessSessions)
+      .set({ instructorId, updatedAt: new Date() })
+      .where(eq(fitnessSessions.id, sessionId))
+      .returning();
+    return session;
+  }
+
+  async assignOccurrenceInstructor(occurrenceId: number, instructorId: number | null): Promise<ClassOccurrence> {
+    const [occurrence] = await db
+      .update(classOccurrences)
+      .set({ instructorId, updatedAt: new Date() })
+      .where(eq(classOccurrences.id, occurrenceId))
+      .returning();
+    return occurrence;
+  }
+
+  // Either every class of a business, or the classes taught by any of the given staff members
+  async getTeachingSchedule(filter: { businessId: number } | { staffIds: number[] }, from: Date, to: Date): Promise<TeachingScheduleEntry[]> {
+    if ('staffIds' in filter && filter.staffIds.length === 0) return [];
+
+    const results = await db
+      .select({
+        occurrence: classOccurrences,
+        session: {
+          id: fitnessSessions.id,
+          title: fitnessSessions.title,
+          duration: fitnessSessions.duration,
+          maxParticipants: fitnessSessions.maxParticipants,
+        },
+        business: {
+          id: businesses.id,
+          name: businesses.name,
+          address: businesses.address,
+          postcode: businesses.postcode,
+        },
+        location: {
+          id: businessLocations.id,
+          name: businessLocations.name,
+          address: businessLocations.address,
+          postcode: businessLocations.postcode,
+        },
+        instructor: {
+          id: businessStaff.id,
+          displayName: businessStaff.displayName,
+          bio: businessStaff.bio,
+        },
+        bookedSpots: heldSpotsSql(),
+      })
+      .from(classOccurrences)
+      .innerJoin(fitnessSessions, eq(classOccurrences.sessionId, fitnessSessions.id))
+      .innerJoin(businesses, eq(fitnessSessions.businessId, businesses.id))
+      .leftJoin(businessLocations, eq(fitnessSessions.locationId, businessLocations.id))
+      .leftJoin(businessStaff, eq(businessStaff.id, occurrenceInstructorIdSql))
+      .where(and(
+        'businessId' in filter
+          ? eq(fitnessSessions.businessId, filter.businessId)
+          : inArray(occurrenceInstructorIdSql, filter.staffIds),
+        gte(classOccurrences.startsAt, from),
+        lte(classOccurrences.startsAt, to),
+      ))
+      .orderBy(asc(classOccurrences.startsAt));
+
+    return results.map(row => ({
+      ...row.occurrence,
+      spotsLeft: Math.max(row.session.maxParticipants - row.bookedSpots, 0),
+      session: row.session,
+      business: row.business,
+      location: row.location,
+      instructor: row.instructor,
+    }));
+  }
+
+  // Each booking on the class with the guests it brought, for instructors to check people in against
+  async getOccurrenceRoster(occurrenceId: number): Promise<RosterEntry[]> {
+    const entries = await db
+      .select({
+        id: bookings.id,
+        status: bookings.status,
+        specialRequirements: bookings.specialRequirements,
+        attendees: bookings.attendees,
+        checkedInAt: bookings.checkedInAt,
+        customer: {
+          firstName: users.firstName,
+          lastName: users.lastName,
+          profileImageUrl: users.profileImageUrl,
+        },
+      })
+      .from(bookings)
+      .innerJoin(users, eq(bookings.userId, users.id))
+      .where(and(
+        eq(bookings.occurrenceId, occurrenceId),
+        inArray(bookings.status, ['confirmed', 'completed']),
+      ))
+      .orderBy(asc(users.firstName), asc(users.lastName));
+
+    const guests = await this.getGuestsByBookingIds(entries.map(entry => entry.id));
+    return entries.map(entry => ({
+      ...entry,
+      guests: guests
+        .filter(guest => guest.bookingId === entry.id)
+        .map(({ id, name, checkedInAt }) => ({ id, name, checkedInAt })),
+    }));
+  }
+
+  // Waitlist operations
+  async createWaitlistEntry(entry: InsertWaitlistEntry): Promise<WaitlistEntry> {
+    const [newEntry] = await db.insert(waitlistEntries).values(entry).returning();
+    return newEntry;
+  }
+
+  async getWaitlistEntryById(id: number): Promise<WaitlistEntryWithDetails | undefined> {
+    const [result] = await db
+      .select({
+        entry: waitlistEntries,
+        position: waitlistPositionSql,
+        occurrence: classOccurrences,
+        session: fitnessSessions,
+        business: businesses,
+      })
+      .from(waitlistEntries)
+      .innerJoin(classOccurrences, eq(waitlistEntries.occurrenceId, classOccurrences.id))
+      .innerJoin(fitnessSessions, eq(classOccurrences.sessionId, fitnessSessions.id))
+      .innerJoin(businesses, eq(fitnessSessions.businessId, businesses.id))
+      .where(eq(waitlistEntries.id, id));
+
+    if (!result) return undefined;
+
+    return {
+      ...result.entry,
+      position: result.entry.status === 'waiting' ? result.position : null,
+      occurrence: result.occurrence,
+      session: {
+        ...result.session,
+        business: result.business,
+      },
+    };
+  }
+
+  async getWaitlistEntryByClaimToken(token: string): Promise<WaitlistEntry | undefined> {
+    const [entry] = await db.select().from(waitlistEntries).where(eq(waitlistEntries.claimToken, token));
+    return entry;
+  }
+
+  async getActiveWaitlistEntry(occurrenceId: number, userId: string): Promise<WaitlistEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(waitlistEntries)
+      .where(and(
+        eq(waitlistEntries.occurrenceId, occurrenceId),
+        eq(waitlistEntries.userId, userId),
+        inArray(waitlistEntries.status, ['waiting', 'offered']),
+      ));
+    return entry;
+  }
+
+  async getWaitlistEntriesByUserId(userId: string): Promise<WaitlistEntryWithDetails[]> {
+    const results = await db
+      .select({
+        entry: waitlistEntries,
+        position: waitlistPositionSql,
+        occurrence: classOccurrences,
+        session: fitnessSessions,
+        business: businesses,
+      })
+      .from(waitlistEntries)
+      .innerJoin(classOccurrences, eq(waitlistEntries.occurrenceId, classOccurrences.id))
+      .innerJoin(fitnessSessions, eq(classOccurrences.sessionId, fitnessSessions.id))
+      .innerJoin(businesses, eq(fitnessSessions.businessId, businesses.id))
+      .where(and(
+        eq(waitlistEntries.userId, userId),
+        inArray(waitlistEntries.status, ['waiting', 'offered']),
+        gte(classOccurrences.startsAt, new Date()),
+      ))
+      .orderBy(asc(classOccurrences.startsAt));
+
+    return results.map(row => ({
+      ...row.entry,
+      position: row.entry.status === 'waiting' ? row.position : null,
+      occurrence: row.occurrence,
+      session: {
+        ...row.session,
+        business: row.business,
+      },
+    }));
+  }
+
+  async updateWaitlistEntryStatus(id: number, status: string): Promise<WaitlistEntry> {
+    const [entry] = await db
+      .update(waitlistEntries)
+      .set({ status, updatedAt: new Date() })
+      .where(eq(waitlistEntries.id, id))
+      .returning();
+    return entry;
+  }
+
+  async offerWaitlistSpots(occurrenceId: number, offerWindowMs: number): Promise<WaitlistEntry[]> {
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+      const [occurrence] = await tx
+        .select({ occurrence: classOccurrences, maxParticipants: fitnessSessions.maxParticipants })
+        .from(classOccurrences)
+        .innerJoin(fitnessSessions, eq(classOccurrences.sessionId, fitnessSessions.id))
+        .where(eq(classOccurrences.id, occurrenceId))
+        .for('update', { of: classOccurrences });
+
+      if (!occurrence || occurrence.occurrence.status !== 'scheduled' || occurrence.occurrence.startsAt <= now) {
+        return [];
+      }
+
+      // Offers that were never claimed give their spot back to the queue
+      await tx
+        .update(waitlistEntries)
+        .set({ status: 'expired', updatedAt: now })
+        .where(and(
+          eq(waitlistEntries.occurrenceId, occurrenceId),
+          eq(waitlistEntries.status, 'offered'),
+          lte(waitlistEntries.offerExpiresAt, now),
+        ));
+
+      const [held] = await tx
+        .select({ count: heldSpotsSql() })
+        .from(classOccurrences)
+        .where(eq(classOccurrences.id, occurrenceId));
+
+      const freeSpots = occurrence.maxParticipants - held.count;
+      if (freeSpots <= 0) return [];
+
+      const next = await tx
+        .select()
+        .from(waitlistEntries)
+        .where(and(eq(waitlistEntries.occurrenceId, occurrenceId), eq(waitlistEntries.status, 'waiting')))
+        .orderBy(asc(waitlistEntries.createdAt), asc(waitlistEntries.id))
+        .limit(freeSpots);
+
+      // Offers never outlast the start of the class
+      const windowEnd = new Date(now.getTime() + offerWindowMs);
+      const offerExpiresAt = windowEnd < occurrence.occurrence.startsAt ? windowEnd : occurrence.occurrence.startsAt;
+
+      const offered: WaitlistEntry[] = [];
+      for (const entry of next) {
+        const [offer] = await tx
+          .update(waitlistEntries)
+          .set({ status: 'offered', claimToken: nanoid(32), offerExpiresAt, updatedAt: now })
+          .where(eq(waitlistEntries.id, entry.id))
+          .returning();
+        offered.push(offer);
+      }
+      return offered;
+    });
+  }
+
+  async getOccurrenceIdsWithLapsedOffers(): Promise<number[]> {
+    const results = await db
+      .selectDistinct({ occurrenceId: waitlistEntries.occurrenceId })
+      .from(waitlistEntries)
+      .where(and(eq(waitlistEntries.status, 'offered'), lte(waitlistEntries.offerExpiresAt, new Date())));
+    return results.map(row => row.occurrenceId);
+  }
+
+  async createBooking(
+    booking: InsertBooking,
+    waitlistEntryId?: number,
+    promo?: Pick<InsertPromoRedemption, 'promoCodeId' | 'discountAmount'>,
+    giftVoucher?: Pick<InsertGiftVoucherLedgerEntry, 'giftVoucherId' | 'change'>,
+    guestNames: string[] = [],
+  ): Promise<Booking> {
+    const occurrenceId = booking.occurrenceId;
+    if (!occurrenceId && !promo && !giftVoucher && guestNames.length === 0) {
+      const [newBooking] = await db
+        .insert(bookings)
+        .values(booking)
+        .onConflictDoNothing({ target: bookings.paymentIntentId })
+        .returning();
+      if (!newBooking) throw new PaymentAlreadyUsedError();
+      return newBooking;
+    }
+
+    return await db.transaction(async (tx) => {
+      if (occurrenceId) {
+        await reserveOccurrenceSpots(tx, occurrenceId, booking.attendees ?? 1, waitlistEntryId);
+      }
+
+      // A second submit of the same payment rolls back, releasing the spots it reserved
+      const [newBooking] = await tx
+        .insert(bookings)
+        .values(booking)
+        .onConflictDoNothing({ target: bookings.paymentIntentId })
+        .returning();
+      if (!newBooking) throw new PaymentAlreadyUsedError();
+
+      if (guestNames.length > 0) {
+        await tx.insert(bookingGuests).values(guestNames.map(name => ({ bookingId: newBooking.id, name })));
+      }
+
+      if (promo) {
+        await redeemPromoCode(tx, { ...promo, bookingId: newBooking.id, userId: newBooking.userId });
+      }
+
+      if (giftVoucher) {
+        await redeemGiftVoucher(tx, { ...giftVoucher, bookingId: newBooking.id, userId: newBooking.userId });
+      }
+
+      if (waitlistEntryId) {
+        await markWaitlistEntryClaimed(tx, waitlistEntryId);
+      }
+      return newBooking;
+    });
+  }
+
+  // Books a class with one of the customer's credits from the session's business. Credits expiring soonest
+  // are used first, and only packs still valid when the class starts and covering its session type count.
+  async createCreditBooking(booking: InsertBooking, session: Pick<FitnessSession, 'businessId' | 'sessionTypeId'>, waitlistEntryId?: number): Promise<Booking> {
+    const occurrenceId = booking.occurrenceId;
+    if (!occurrenceId) {
+      throw new Error("Credit bookings must be for a class occurrence");
+    }
+
+    return await db.transaction(async (tx) => {
+      await reserveOccurrenceSpots(tx, occurrenceId, 1, waitlistEntryId);
+
+      const [purchase] = await tx
+        .select()
+        .from(creditPurchases)
+        .where(and(
+          eq(creditPurchases.userId, booking.userId),
+          eq(creditPurchases.businessId, session.businessId),
+          gt(creditPurchases.creditsRemaining, 0),
+          or(isNull(creditPurchases.expiresAt), gt(creditPurchases.expiresAt, booking.sessionDate)),
+          sql`(jsonb_array_length(${creditPurchases.sessionTypeIds}) = 0
+            or ${creditPurchases.sessionTypeIds} @> ${JSON.stringify([session.sessionTypeId])}::jsonb)`,
+        ))
+        .orderBy(sql`${creditPurchases.expiresAt} asc nulls last`, asc(creditPurchases.id))
+        .limit(1)
+        .for('update');
+
+      if (!purchase) {
+        throw new CreditError();
+      }
+
+      await tx
+        .update(creditPurchases)
+        .set({ creditsRemaining: sql`${creditPurchases.creditsRemaining} - 1`, updatedAt: new Date() })
+        .where(eq(creditPurchases.id, purchase.id));
+
+      const [newBooking] = await tx
+        .insert(bookings)
+        .values({ ...booking, creditPurchaseId: purchase.id })
+        .returning();
+
+      await tx.insert(creditLedgerEntries).values({
+        userId: purchase.userId,
+        businessId: purchase.businessId,
+        creditPurchaseId: purchase.id,
+        bookingId: newBooking.id,
+        change: -1,
+        reason: 'redemption',
+      });
+
+      if (waitlistEntryId) {
+        await markWaitlistEntryClaimed(tx, waitlistEntryId);
+      }
+      return newBooking;
+    });
+  }
+
+  // Books a class under the customer's membership with the session's business. Capped memberships count the
+  // class against the current billing period and are refused once that period's classes are used up.
+  async createMembershipBooking(booking: InsertBooking, session: Pick<FitnessSession, 'businessId' | 'sessionTypeId'>, waitlistEntryId?: number): Promise<Booking> {
+    const occurrenceId = booking.occurrenceId;
+    if (!occurrenceId) {
+      throw new Error("Membership bookings must be for a class occurrence");
+    }
+
+    return await db.transaction(async (tx) => {
+      await reserveOccurrenceSpots(tx, occurrenceId, 1, waitlistEntryId);
+
+      const covering = await tx
+        .select()
+        .from(memberships)
+        .where(and(
+          eq(memberships.userId, booking.userId),
+          eq(memberships.businessId, session.businessId),
+          inArray(memberships.status, ENTITLED_MEMBERSHIP_STATUSES),
+          gt(memberships.currentPeriodEnd, new Date()),
+          sql`(jsonb_array_length(${memberships.sessionTypeIds}) = 0
+            or ${memberships.sessionTypeIds} @> ${JSON.stringify([session.sessionTypeId])}::jsonb)`,
+        ))
+        .orderBy(sql`${memberships.classesPerPeriod} desc nulls first`, asc(memberships.id))
+        .for('update');
+
+      // Classes count against the billing period they fall in, and only the current one has been paid for
+      const inPeriod = covering.filter((candidate) => candidate.currentPeriodEnd! >= booking.sessionDate);
+      if (covering.length > 0 && inPeriod.length === 0) {
+        throw new MembershipError("Your membership only covers classes up to the end of its current billing period");
+      }
+      const membership = inPeriod.find((candidate) =>
+        candidate.classesPerPeriod === null || candidate.classesUsed < candidate.classesPerPeriod,
+      );
+      if (!membership) {
+        throw inPeriod.length > 0
+          ? new MembershipError("You've used all the classes your membership includes this month")
+          : new MembershipError();
+      }
+
+      await tx
+        .update(memberships)
+        .set({ classesUsed: sql`${memberships.classesUsed} + 1`, updatedAt: new Date() })
+        .where(eq(memberships.id, membership.id));
+
+      const [newBooking] = await tx
+        .insert(bookings)
+        .values({ ...booking, membershipId: membership.id })
+        .returning();
+
+      if (waitlistEntryId) {
+        await markWaitlistEntryClaimed(tx, waitlistEntryId);
+      }
+      return newBooking;
+    });
+  }
+
+  // The whole party moves together, so the new date needs a spot for every attendee
+  async rescheduleBooking(booking: Pick<Booking, 'id' | 'attendees'>, occurrence: ClassOccurrence): Promise<Booking> {
+    return await db.transaction(async (tx) => {
+      await reserveOccurrenceSpots(tx, occurrence.id, booking.attendees);
+
+      const [updatedBooking] = await tx
+        .update(bookings)
+        .set({ occurrenceId: occurrence.id, sessionDate: occurrence.startsAt, updatedAt: new Date() })
+        .where(eq(bookings.id, booking.id))
+        .returning();
+      return updatedBooking;
+    });
+  }
+
+  async getBookingsByUserId(userId: string): Promise<BookingWithDetails[]> {
+    const results = await db
+      .select()
+      .from(bookings)
+      .leftJoin(users, eq(bookings.userId, users.id))
+      .leftJoin(fitnessSessions, eq(bookings.sessionId, fitnessSessions.id))
+      .leftJoin(businesses, eq(fitnessSessions.businessId, businesses.id))
+      .leftJoin(sessionTypes, eq(fitnessSessions.sessionTypeId, sessionTypes.id))
+      .where(eq(bookings.userId, userId));
+
+    return this.withGuestsRefundsAndReviews(results.map(row => ({
+      ...row.bookings,
+      user: row.users!,
+      session: {
+        ...row.fitness_sessions!,
+        business: {
+          ...row.businesses!,
+          user: row.users!,
+        },
+        sessionType: row.session_types!,
+      },
+    })));
+  }
+
+  async getBookingsByBusinessId(businessId: number): Promise<BookingWithDetails[]> {
+    const results = await db
+      .select()
+      .from(bookings)
+      .leftJoin(users, eq(bookings.userId, users.id))
+      .leftJoin(fitnessSessions, eq(bookings.sessionId, fitnessSessions.id))
+      .leftJoin(businesses, eq(fitnessSessions.businessId, businesses.id))
+      .leftJoin(sessionTypes, eq(fitnessSessions.sessionTypeId, sessionTypes.id))
+      .where(eq(fitnessSessions.businessId, businessId));
+
+    return this.withGuestsRefundsAndReviews(results.map(row => ({
+      ...row.bookings,
+      user: row.users!,
+      session: {
+        ...row.fitness_sessions!,
+        business: {
+          ...row.businesses!,
+          user: row.users!,
+        },
+        sessionType: row.session_types!,
+      },
+    })));
+  }
+
+  async getBookingById(id: number): Promise<BookingWithDetails | undefined> {
+    const [result] = await db
+      .select()
+      .from(bookings)
+      .leftJoin(users, eq(bookings.userId, users.id))
+      .leftJoin(fitnessSessions, eq(bookings.sessionId, fitnessSessions.id))
+      .leftJoin(businesses, eq(fitnessSessions.businessId, businesses.id))
+      .leftJoin(sessionTypes, eq(fitnessSessions.sessionTypeId, sessionTypes.id))
+      .where(eq(bookings.id, id));
+
+    if (!result) return undefined;
+
+    return {
+      ...result.bookings,
+      user: result.users!,
+      session: {
+        ...result.fitness_sessions!,
+        business: {
+          ...result.businesses!,
+          user: result.users!,
+        },
+        sessionType: result.session_types!,
+      },
+      guests: await this.getGuestsByBookingIds([result.bookings.id]),
+    };
+  }
+
+  async updateBookingStatus(id: number, status: string): Promise<Booking> {
+    const [booking] = await db
+      .update(bookings)
+      .set({ status, updatedAt: new Date() })
+      .where(eq(bookings.id, id))
+      .returning();
+    return booking;
+  }
+
+  // Only moves a booking on if it is still in the expected status, so concurrent
+  // updates (e.g. a webhook racing the booking request) apply exactly once
+  async transitionBookingStatus(id: number, from: string, to: string): Promise<Booking | undefined> {
+    const [booking] = await db
+      .update(bookings)
+      .set({ status: to, updatedAt: new Date() })
+      .where(and(eq(bookings.id, id), eq(bookings.status, from)))
+      .returning();
+    return booking;
+  }
+
+  async getBookingByPaymentIntentId(paymentIntentId: string): Promise<Booking | undefined> {
+    const [booking] = await db.select().from(bookings).where(eq(bookings.paymentIntentId, paymentIntentId));
+    return booking;
+  }
+
+  // Check-in for the customer who made the booking; each guest is checked in on their own
+  async setBookingCheckIn(id: number, checkedIn: boolean): Promise<Booking> {
+    const [booking] = await db
+      .update(bookings)
+      .set({ checkedInAt: checkedIn ? new Date() : null, updatedAt: new Date() })
+      .where(eq(bookings.id, id))
+      .returning();
+    return booking;
+  }
+
+  async setBookingGuestCheckIn(bookingId: number, guestId: number, checkedIn: boolean): Promise<BookingGuest | undefined> {
+    const [guest] = await db
+      .update(bookingGuests)
+      .set({ checkedInAt: checkedIn ? new Date() : null })
+      .where(and(eq(bookingGuests.id, guestId), eq(bookingGuests.bookingId, bookingId)))
+      .returning();
+    return guest;
+  }
+
+  private async getGuestsByBookingIds(bookingIds: number[]): Promise<BookingGuest[]> {
+    if (bookingIds.length === 0) return [];
+    return db
+      .select()
+      .from(bookingGuests)
+      .where(inArray(bookingGuests.bookingId, bookingIds))
+      .orderBy(asc(bookingGuests.id));
+  }
+
+  private async withGuestsRefundsAndReviews(bookingList: BookingWithDetails[]): Promise<BookingWithDetails[]> {
+    const bookingIds = bookingList.map((booking) => booking.id);
+    const guests = await this.getGuestsByBookingIds(bookingIds);
+    const bookingRefunds = await this.getRefundsByBookingIds(bookingIds);
+    const bookingReviews = bookingIds.length === 0 ? [] : await db
+      .select()
+      .from(reviews)
+      .where(inArray(reviews.bookingId, bookingIds));
+
+    return bookingList.map((booking) => ({
+      ...booking,
+      guests: guests.filter((guest) => guest.bookingId === booking.id),
+      refunds: bookingRefunds.filter((refund) => refund.bookingId === booking.id),
+      review: bookingReviews.find((review) => review.bookingId === booking.id) ?? null,
+    }));
+  }
+
+  // Class pack operations
+  async getActiveCreditPacks(businessId: number): Promise<CreditPack[]> {
+    return db
+      .select()
+      .from(creditPacks)
+      .where(and(eq(creditPacks.businessId, businessId), eq(creditPacks.active, true)))
+      .orderBy(asc(creditPacks.credits), asc(creditPacks.price));
+  }
+
+  async getCreditPackById(id: number): Promise<CreditPack | undefined> {
+    const [pack] = await db.select().from(creditPacks).where(eq(creditPacks.id, id));
+    return pack;
+  }
+
+  async createCreditPack(pack: InsertCreditPack): Promise<CreditPack> {
+    const [newPack] = await db.insert(creditPacks).values(pack).returning();
+    return newPack;
+  }
+
+  async retireCreditPack(id: number): Promise<CreditPack> {
+    const [pack] = await db
+      .update(creditPacks)
+      .set({ active: false, updatedAt: new Date() })
+      .where(eq(creditPacks.id, id))
+      .returning();
+    return pack;
+  }
+
+  // Adds a paid-for pack's credits to the customer's ledger. Returns undefined when the payment has
+  // already been turned into credits, so it's safe to call from both the client and the webhook.
+  async createCreditPurchase(purchase: InsertCreditPurchase): Promise<CreditPurchase | undefined> {
+    return await db.transaction(async (tx) => {
+      const [newPurchase] = await tx
+        .insert(creditPurchases)
+        .values(purchase)
+        .onConflictDoNothing({ target: creditPurchases.paymentIntentId })
+        .returning();
+      if (!newPurchase) return undefined;
+
+      await tx.insert(creditLedgerEntries).values({
+        userId: newPurchase.userId,
+        businessId: newPurchase.businessId,
+        creditPurchaseId: newPurchase.id,
+        change: newPurchase.credits,
+        reason: 'purchase',
+      });
+      return newPurchase;
+    });
+  }
+
+  async getCreditPurchaseByPaymentIntentId(paymentIntentId: string): Promise<CreditPurchase | undefined> {
+    const [purchase] = await db
+      .select()
+      .from(creditPurchases)
+      .where(eq(creditPurchases.paymentIntentId, paymentIntentId));
+    return purchase;
+  }
+
+  // Packs with credits left that haven't expired, soonest to expire first
+  async getUsableCreditPurchases(userId: string): Promise<CreditPurchaseWithDetails[]> {
+    const results = await db
+      .select({
+        purchase: creditPurchases,
+        pack: { id: creditPacks.id, name: creditPacks.name },
+        business: { id: businesses.id, name: businesses.name, slug: businesses.slug },
+      })
+      .from(creditPurchases)
+      .innerJoin(creditPacks, eq(creditPurchases.creditPackId, creditPacks.id))
+      .innerJoin(businesses, eq(creditPurchases.businessId, businesses.id))
+      .where(and(
+        eq(creditPurchases.userId, userId),
+        gt(creditPurchases.creditsRemaining, 0),
+        or(isNull(creditPurchases.expiresAt), gt(creditPurchases.expiresAt, new Date())),
+      ))
+      .orderBy(sql`${creditPurchases.expiresAt} asc nulls last`, asc(creditPurchases.id));
+
+    return results.map(row => ({ ...row.purchase, pack: row.pack, business: row.business }));
+  }
+
+  // Gives back the credit a cancelled booking used. Returns false for card-paid bookings and ones already restored.
+  async restoreBookingCredit(bookingId: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [booking] = await tx
+        .select()
+        .from(bookings)
+        .where(eq(bookings.id, bookingId))
+        .for('update');
+      if (!booking?.creditPurchaseId) return false;
+
+      const [{ balance }] = await tx
+        .select({ balance: sql<number>`coalesce(sum(${creditLedgerEntries.change}), 0)::int` })
+        .from(creditLedgerEntries)
+        .where(eq(creditLedgerEntries.bookingId, bookingId));
+      if (balance >= 0) return false;
+
+      const [purchase] = await tx
+        .update(creditPurchases)
+        .set({ creditsRemaining: sql`${creditPurchases.creditsRemaining} + 1`, updatedAt: new Date() })
+        .where(eq(creditPurchases.id, booking.creditPurchaseId))
+        .returning();
+
+      await tx.insert(creditLedgerEntries).values({
+        userId: purchase.userId,
+        businessId: purchase.businessId,
+        creditPurchaseId: purchase.id,
+        bookingId,
+        change: 1,
+        reason: 'restoration',
+      });
+      return true;
+    });
+  }
+
+  // Membership operations
+  async getActiveMembershipPlans(businessId: number): Promise<MembershipPlan[]> {
+    return db
+      .select()
+      .from(membershipPlans)
+      .where(and(eq(membershipPlans.businessId, businessId), eq(membershipPlans.active, true)))
+      .orderBy(asc(membershipPlans.price));
+  }
+
+  async getMembershipPlanById(id: number): Promise<MembershipPlan | undefined> {
+    const [plan] = await db.select().from(membershipPlans).where(eq(membershipPlans.id, id));
+    return plan;
+  }
+
+  async createMembershipPlan(plan: InsertMembershipPlan): Promise<MembershipPlan> {
+    const [newPlan] = await db.insert(membershipPlans).values(plan).returning();
+    return newPlan;
+  }
+
+  async retireMembershipPlan(id: number): Promise<MembershipPlan> {
+    const [plan] = await db
+      .update(membershipPlans)
+      .set({ active: false, updatedAt: new Date() })
+      .where(eq(membershipPlans.id, id))
+      .returning();
+    return plan;
+  }
+
+  async createMembership(membership: InsertMembership): Promise<Membership> {
+    const [newMembership] = await db.insert(memberships).values(membership).returning();
+    return newMembership;
+  }
+
+  async getMembershipById(id: number): Promise<Membership | undefined> {
+    const [membership] = await db.select().from(memberships).where(eq(memberships.id, id));
+    return membership;
+  }
+
+  async getMembershipBySubscriptionId(stripeSubscriptionId: string): Promise<Membership | undefined> {
+    const [membership] = await db
+      .select()
+      .from(memberships)
+      .where(eq(memberships.stripeSubscriptionId, stripeSubscriptionId));
+    return membership;
+  }
+
+  async getEntitledMembership(userId: string, membershipPlanId: number): Promise<Membership | undefined> {
+    const [membership] = await db
+      .select()
+      .from(memberships)
+      .where(and(
+        eq(memberships.userId, userId),
+        eq(memberships.membershipPlanId, membershipPlanId),
+        inArray(memberships.status, ENTITLED_MEMBERSHIP_STATUSES),
+      ));
+    return membership;
+  }
+
+  // Memberships that are running or still being paid for; ended ones are left out
+  async getCurrentMembershipsByUserId(userId: string): Promise<MembershipWithDetails[]> {
+    const results = await db
+      .select({
+        membership: memberships,
+        plan: { id: membershipPlans.id, name: membershipPlans.name, price: membershipPlans.price },
+        business: { id: businesses.id, name: businesses.name, slug: businesses.slug },
+      })
+      .from(memberships)
+      .innerJoin(membershipPlans, eq(memberships.membershipPlanId, membershipPlans.id))
+      .innerJoin(businesses, eq(memberships.businessId, businesses.id))
+      .where(and(
+        eq(memberships.userId, userId),
+        inArray(memberships.status, [...ENTITLED_MEMBERSHIP_STATUSES, 'incomplete']),
+      ))
+      .orderBy(asc(businesses.name));
+
+    return results.map(row => ({ ...row.membership, plan: row.plan, business: row.business }));
+  }
+
+  // Applies Stripe's view of a membership's subscription. A new billing period starts the usage count again.
+  async syncMembershipSubscription(stripeSubscriptionId: string, subscription: {
+    status: string;
+    currentPeriodStart?: Date;
+    currentPeriodEnd?: Date;
+    cancelAtPeriodEnd?: boolean;
+  }): Promise<Membership | undefined> {
+    const { currentPeriodStart } = subscription;
+    const [membership] = await db
+      .update(memberships)
+      .set({
+        status: subscription.status,
+        ...(currentPeriodStart && {
+          currentPeriodStart,
+          classesUsed: sql`case when ${memberships.currentPeriodStart} is distinct from ${currentPeriodStart}
+            then 0 else ${memberships.classesUsed} end`,
+        }),
+        ...(subscription.currentPeriodEnd && { currentPeriodEnd: subscription.currentPeriodEnd }),
+        ...(subscription.cancelAtPeriodEnd !== undefined && { cancelAtPeriodEnd: subscription.cancelAtPeriodEnd }),
+        updatedAt: new Date(),
+      })
+      .where(eq(memberships.stripeSubscriptionId, stripeSubscriptionId))
+      .returning();
+    return membership;
+  }
+
+  // Hands back the class a cancelled membership booking counted, if the class falls in the current billing
+  // period. Returns false for bookings made some other way, or whose class has already been handed back.
+  async releaseMembershipClass(bookingId: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [booking] = await tx
+        .select()
+        .from(bookings)
+        .where(eq(bookings.id, bookingId))
+        .for('update');
+      if (!booking?.membershipId || booking.membershipClassReleasedAt) return false;
+
+      const [membership] = await tx
+        .select()
+        .from(memberships)
+        .where(eq(memberships.id, booking.membershipId))
+        .for('update');
+      if (
+        !membership?.currentPeriodStart ||
+        !membership.currentPeriodEnd ||
+        booking.sessionDate < membership.currentPeriodStart ||
+        booking.sessionDate > membership.currentPeriodEnd
+      ) {
+        return false;
+      }
+
+      await tx
+        .update(memberships)
+        .set({ classesUsed: sql`greatest(${memberships.classesUsed} - 1, 0)`, updatedAt: new Date() })
+        .where(eq(memberships.id, membership.id));
+      await tx
+        .update(bookings)
+        .set({ membershipClassReleasedAt: new Date(), updatedAt: new Date() })
+        .where(eq(bookings.id, bookingId));
+      return true;
+    });
+  }
+
+  // Promo code operations
+  async getPromoCodesByBusinessId(businessId: number): Promise<PromoCodeWithStats[]> {
+    const results = await db
+      .select({
+        promo: promoCodes,
+        redemptionCount: promoRedemptionCountSql(),
+        discountTotal: sql<string>`(
+          select coalesce(sum(${promoRedemptions.discountAmount}), 0)::text from ${promoRedemptions}
+          inner join ${bookings} on ${bookings.id} = ${promoRedemptions.bookingId}
+          where ${promoRedemptions.promoCodeId} = ${promoCodes.id}
+          and ${bookings.status} <> 'cancelled'
+        )`,
+      })
+      .from(promoCodes)
+      .where(eq(promoCodes.businessId, businessId))
+      .orderBy(desc(promoCodes.active), desc(promoCodes.createdAt));
+
+    return results.map(row => ({ ...row.promo, redemptionCount: row.redemptionCount, discountTotal: row.discountTotal }));
+  }
+
+  async getPromoCodeById(id: number): Promise<PromoCode | undefined> {
+    const [promo] = await db.select().from(promoCodes).where(eq(promoCodes.id, id));
+    return promo;
+  }
+
+  async getPromoCodeByCode(businessId: number, code: string): Promise<PromoCode | undefined> {
+    const [promo] = await db
+      .select()
+      .from(promoCodes)
+      .where(and(eq(promoCodes.businessId, businessId), eq(promoCodes.code, code.trim().toUpperCase())));
+    return promo;
+  }
+
+  async createPromoCode(promo: InsertPromoCode): Promise<PromoCode> {
+    const [newPromo] = await db.insert(promoCodes).values(promo).returning();
+    return newPromo;
+  }
+
+  async deactivatePromoCode(id: number): Promise<PromoCode> {
+    const [promo] = await db
+      .update(promoCodes)
+      .set({ active: false, updatedAt: new Date() })
+      .where(eq(promoCodes.id, id))
+      .returning();
+    return promo;
+  }
+
+  async getPromoCodeUsage(promoCodeId: number, userId: string): Promise<{ used: number; usedByCustomer: number }> {
+    const [usage] = await db
+      .select({ used: promoRedemptionCountSql(), usedByCustomer: promoRedemptionCountSql(userId) })
+      .from(promoCodes)
+      .where(eq(promoCodes.id, promoCodeId));
+    return usage ?? { used: 0, usedByCustomer: 0 };
+  }
+
+  // Whether the customer has a booking with the business that wasn't cancelled, for first-booking offers
+  async hasBookedWithBusiness(userId: string, businessId: number): Promise<boolean> {
+    const [booking] = await db
+      .select({ id: bookings.id })
+      .from(bookings)
+      .innerJoin(fitnessSessions, eq(bookings.sessionId, fitnessSessions.id))
+      .where(and(
+        eq(bookings.userId, userId),
+        eq(fitnessSessions.businessId, businessId),
+        sql`${bookings.status} <> 'cancelled'`,
+      ))
+      .limit(1);
+    return !!booking;
+  }
+
+  // Gift voucher operations
+  async createGiftVoucher(voucher: InsertGiftVoucher): Promise<GiftVoucher | undefined> {
+    return await db.transaction(async (tx) => {
+      const [newVoucher] = await tx
+        .insert(giftVouchers)
+        .values(voucher)
+        .onConflictDoNothing({ target: giftVouchers.paymentIntentId })
+        .returning();
+      if (!newVoucher) return undefined;
+
+      await tx.insert(giftVoucherLedgerEntries).values({
+        giftVoucherId: newVoucher.id,
+        userId: newVoucher.purchaserId,
+        change: newVoucher.amount,
+        reason: 'purchase',
+      });
+      return newVoucher;
+    });
+  }
+
+  async getGiftVoucherByPaymentIntentId(paymentIntentId: string): Promise<GiftVoucher | undefined> {
+    const [voucher] = await db
+      .select()
+      .from(giftVouchers)
+      .where(eq(giftVouchers.paymentIntentId, paymentIntentId));
+    return voucher;
+  }
+
+  async getGiftVoucherByCode(code: string): Promise<GiftVoucher | undefined> {
+    const [voucher] = await db
+      .select()
+      .from(giftVouchers)
+      .where(eq(giftVouchers.code, code.trim().toUpperCase()));
+    return voucher;
+  }
+
+  // Vouchers the user bought, plus any sent to their email address, newest first
+  async getGiftVouchersForUser(userId: string, email: string | null): Promise<GiftVoucherWithProvider[]> {
+    const results = await db
+      .select({
+        voucher: giftVouchers,
+        business: { id: businesses.id, name: businesses.name, slug: businesses.slug },
+        trainer: { id: personalTrainers.id, firstName: personalTrainers.firstName, lastName: personalTrainers.lastName },
+      })
+      .from(giftVouchers)
+      .leftJoin(businesses, eq(giftVouchers.businessId, businesses.id))
+      .leftJoin(personalTrainers, eq(giftVouchers.trainerId, personalTrainers.id))
+      .where(email
+        ? or(eq(giftVouchers.purchaserId, userId), eq(giftVouchers.recipientEmail, email.toLowerCase()))
+        : eq(giftVouchers.purchaserId, userId))
+      .orderBy(desc(giftVouchers.createdAt));
+
+    return results.map(({ voucher, business, trainer }) => ({ ...voucher, business, trainer }));
+  }
+
+  // Puts a share of what a booking spent back on its voucher. Safe to call more than once: it only tops the
+  // restored amount up to the share asked for. Returns the amount given back by this call.
+  async restoreGiftVoucherBalance(spentOn: { bookingId: number } | { trainerBookingId: number }, percent: number): Promise<number> {
+    const spentOnCondition = 'bookingId' in spentOn
+      ? eq(giftVoucherLedgerEntries.bookingId, spentOn.bookingId)
+      : eq(giftVoucherLedgerEntries.trainerBookingId, spentOn.trainerBookingId);
+
+    return await db.transaction(async (tx) => {
+      const [redemption] = await tx
+        .select()
+        .from(giftVoucherLedgerEntries)
+        .where(and(spentOnCondition, eq(giftVoucherLedgerEntries.reason, 'redemption')));
+      if (!redemption) return 0;
+
+      const [voucher] = await tx
+        .select()
+        .from(giftVouchers)
+        .where(eq(giftVouchers.id, redemption.giftVoucherId))
+        .for('update');
+
+      const [{ restored }] = await tx
+        .select({ restored: sql<string>`coalesce(sum(${giftVoucherLedgerEntries.change}), 0)` })
+        .from(giftVoucherLedgerEntries)
+        .where(and(spentOnCondition, eq(giftVoucherLedgerEntries.reason, 'restoration')));
+
+      const spent = -parseFloat(redemption.change);
+      const amount = Math.round(spent * percent - parseFloat(restored) * 100) / 100;
+      if (amount <= 0) return 0;
+
+      await tx
+        .update(giftVouchers)
+        .set({ balance: sql`${giftVouchers.balance} + ${amount.toFixed(2)}`, updatedAt: new Date() })
+        .where(eq(giftVouchers.id, voucher.id));
+
+      await tx.insert(giftVoucherLedgerEntries).values({
+        giftVoucherId: voucher.id,
+        userId: redemption.userId,
+        bookingId: redemption.bookingId,
+        trainerBookingId: redemption.trainerBookingId,
+        change: amount.toFixed(2),
+        reason: 'restoration',
+      });
+      return amount;
+    });
+  }
+
+  // Unspent vouchers expiring soon whose holder hasn't been reminded yet
+  async getGiftVouchersDueExpiryReminder(expiringBefore: Date): Promise<GiftVoucher[]> {
+    return db
+      .select()
+      .from(giftVouchers)
+      .where(and(
+        isNull(giftVouchers.expiryReminderSentAt),
+        gt(giftVouchers.balance, '0'),
+        gt(giftVouchers.expiresAt, new Date()),
+        lte(giftVouchers.expiresAt, expiringBefore),
+      ));
+  }
+
+  async markGiftVoucherExpiryReminderSent(id: number): Promise<void> {
+    await db
+      .update(giftVouchers)
+      .set({ expiryReminderSentAt: new Date(), updatedAt: new Date() })
+      .where(eq(giftVouchers.id, id));
+  }
+
+  // Refund operations
+  async createRefund(refund: InsertRefund): Promise<Refund> {
+    const [newRefund] = await db.insert(refunds).values(refund).returning();
+    return newRefund;
+  }
+
+  async getRefundsByBookingIds(bookingIds: number[]): Promise<Refund[]> {
+    if (bookingIds.length === 0) return [];
+    return await db
+      .select()
+      .from(refunds)
+      .where(inArray(refunds.bookingId, bookingIds))
+      .orderBy(asc(refunds.createdAt));
+  }
+
+  async getRefundsByTrainerBookingIds(trainerBookingIds: number[]): Promise<Refund[]> {
+    if (trainerBookingIds.length === 0) return [];
+    return await db
+      .select()
+      .from(refunds)
+      .where(inArray(refunds.trainerBookingId, trainerBookingIds))
+      .orderBy(asc(refunds.createdAt));
+  }
+
+  async updateRefundStatusByStripeId(stripeRefundId: string, status: string): Promise<Refund | undefined> {
+    const [refund] = await db
+      .update(refunds)
+      .set({ status, updatedAt: new Date() })
+      .where(eq(refunds.stripeRefundId, stripeRefundId))
+      .returning();
+    return refund;
+  }
+
+  // Review operations
+  async createReview(review: InsertReview): Promise<Review> {
+    return await db.transaction(async (tx) => {
+      const [newReview] = await tx.insert(reviews).values(review).returning();
+      await refreshRatingAggregates(tx, newReview);
+      return newReview;
+    });
+  }
+
+  async getReviewByBookingId(bookingId: number): Promise<Review | undefined> {
+    const [review] = await db.select().from(reviews).where(eq(reviews.bookingId, bookingId));
+    return review;
+  }
+
+  async getReviewByTrainerBookingId(trainerBookingId: number): Promise<Review | undefined> {
+    const [review] = await db.select().from(reviews).where(eq(reviews.trainerBookingId, trainerBookingId));
+    return review;
+  }
+
+  async getReviewsBySessionId(sessionId: number): Promise<ReviewWithAuthor[]> {
+    return this.getReviewsWhere(eq(reviews.sessionId, sessionId));
+  }
+
+  async getReviewsByBusinessId(businessId: number): Promise<ReviewWithAuthor[]> {
+    return this.getReviewsWhere(eq(reviews.businessId, businessId));
+  }
+
+  async getReviewsByTrainerId(trainerId: number): Promise<ReviewWithAuthor[]> {
+    return this.getReviewsWhere(eq(reviews.trainerId, trainerId));
+  }
+
+  async getReviewById(id: number): Promise<Review | undefined> {
+    const [review] = await db.select().from(reviews).where(eq(reviews.id, id));
+    return review;
+  }
+
+  async respondToReview(id: number, response: string): Promise<Review> {
+    const [review] = await db
+      .update(reviews)
+      .set({ response, respondedAt: new Date(), updatedAt: new Date() })
+      .where(eq(reviews.id, id))
+      .returning();
+    return review;
+  }
+
+  // Flagging leaves the review visible until an admin decides; repeat flags are still recorded
+  async flagReview(id: number, actorId: string, reason: string): Promise<Review> {
+    return await db.transaction(async (tx) => {
+      const [review] = await tx
+        .update(reviews)
+        .set({ status: 'flagged', updatedAt: new Date() })
+        .where(and(eq(reviews.id, id), sql`${reviews.status} <> 'hidden'`))
+        .returning();
+      await tx.insert(reviewModerationActions).values({ reviewId: id, actorId, action: 'flagged', note: reason });
+      return review;
+    });
+  }
+
+  async moderateReview(id: number, actorId: string, action: 'hide' | 'restore', note?: string): Promise<Review> {
+    return await db.transaction(async (tx) => {
+      const [review] = await tx
+        .update(reviews)
+        .set({ status: action === 'hide' ? 'hidden' : 'published', updatedAt: new Date() })
+        .where(eq(reviews.id, id))
+        .returning();
+      await tx.insert(reviewModerationActions).values({
+        reviewId: id,
+        actorId,
+        action: action === 'hide' ? 'hidden' : 'restored',
+        note,
+      });
+      await refreshRatingAggregates(tx, review);
+      return review;
+    });
+  }
+
+  async getReviewsForModeration(status: 'flagged' | 'hidden'): Promise<ReviewForModeration[]> {
+    const results = await db
+      .select({
+        review: reviews,
+        author: {
+          firstName: users.firstName,
+          lastName: users.lastName,
+          profileImageUrl: users.profileImageUrl,
+        },
+        business: {
+          id: businesses.id,
+          name: businesses.name,
+        },
+        trainer: {
+          id: personalTrainers.id,
+          firstName: personalTrainers.firstName,
+          lastName: personalTrainers.lastName,
+        },
+      })
+      .from(reviews)
+      .innerJoin(users, eq(reviews.userId, users.id))
+      .leftJoin(businesses, eq(reviews.businessId, businesses.id))
+      .leftJoin(personalTrainers, eq(reviews.trainerId, personalTrainers.id))
+      .where(eq(reviews.status, status))
+      .orderBy(desc(reviews.updatedAt));
+
+    const reviewIds = results.map((row) => row.review.id);
+    const actions = reviewIds.length === 0 ? [] : await db
+      .select({
+        action: reviewModerationActions,
+        actor: {
+          firstName: users.firstName,
+          lastName: users.lastName,
+          role: users.role,
+        },
+      })
+      .from(reviewModerationActions)
+      .innerJoin(users, eq(reviewModerationActions.actorId, users.id))
+      .where(inArray(reviewModerationActions.reviewId, reviewIds))
+      .orderBy(asc(reviewModerationActions.createdAt));
+
+    return results.map(({ review, author, business, trainer }) => ({
+      ...review,
+      author,
+      business,
+      trainer,
+      moderationActions: actions
+        .filter(({ action }) => action.reviewId === review.id)
+        .map(({ action, actor }) => ({ ...action, actor })),
+    }));
+  }
+
+  private async getReviewsWhere(condition: SQL): Promise<ReviewWithAuthor[]> {
+    const results = await db
+      .select({
+        review: reviews,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        profileImageUrl: users.profileImageUrl,
+      })
+      .from(reviews)
+      .innerJoin(users, eq(reviews.userId, users.id))
+      .where(and(condition, sql`${reviews.status} <> 'hidden'`))
+      .orderBy(desc(reviews.createdAt));
+
+    return results.map(({ review, ...author }) => ({ ...review, author }));
+  }
+
+  // Uploaded file operations
+  async createUploadedFile(file: InsertUploadedFile): Promise<UploadedFile> {
+    const [uploadedFile] = await db
+      .insert(uploadedFiles)
+      .values(file)
+      .returning();
+    return uploadedFile;
+  }
+
+  async getUploadedFileById(id: number): Promise<UploadedFile | undefined> {
+    const [uploadedFile] = await db.select().from(uploadedFiles).where(eq(uploadedFiles.id, id));
+    return uploadedFile;
+  }
+
+  async getUploadedFilesByIds(ids: number[]): Promise<UploadedFile[]> {
+    if (ids.length === 0) return [];
+    return db
+      .select()
+      .from(uploadedFiles)
+      .where(inArray(uploadedFiles.id, ids))
+      .orderBy(asc(uploadedFiles.id));
+  }
+
+  // Photo gallery operations
+  async getPhotos(owner: PhotoOwner): Promise<Photo[]> {
+    return db
+      .select()
+      .from(photos)
+      .where(photoOwnerCondition(owner))
+      .orderBy(asc(photos.position), asc(photos.id));
+  }
+
+  async getPhotoById(id: number): Promise<Photo | undefined> {
+    const [photo] = await db.select().from(photos).where(eq(photos.id, id));
+    return photo;
+  }
+
+  // Appends photos to the end of the gallery; the first photo in an empty gallery becomes its cover
+  async addPhotos(owner: PhotoOwner, uploadedBy: string, processed: ProcessedPhoto[]): Promise<Photo[]> {
+    return db.transaction(async (tx) => {
+      await lockPhotoOwner(tx, owner);
+
+      const existing = await tx
+        .select({ position: photos.position, isCover: photos.isCover })
+        .from(photos)
+        .where(photoOwnerCondition(owner));
+      if (existing.length + processed.length > MAX_GALLERY_PHOTOS) {
+        throw new PhotoGalleryError(`Galleries can hold up to ${MAX_GALLERY_PHOTOS} photos`);
+      }
+
+      const nextPosition = existing.reduce((max, photo) => Math.max(max, photo.position + 1), 0);
+      const hasCover = existing.some((photo) => photo.isCover);
+      const added = await tx
+        .insert(photos)
+        .values(processed.map((photo, index) => ({
+          ...owner,
+          ...photo,
+          uploadedBy,
+          position: nextPosition + index,
+          isCover: !hasCover && index === 0,
+        })))
+        .returning();
+
+      if (!hasCover) {
+        await refreshCoverImage(tx, owner);
+      }
+      return added;
+    });
+  }
+
+  // photoIds must list every photo in the gallery, in the new order
+  async reorderPhotos(owner: PhotoOwner, photoIds: number[]): Promise<Photo[]> {
+    await db.transaction(async (tx) => {
+      await lockPhotoOwner(tx, owner);
+
+      const existing = await tx
+        .select({ id: photos.id })
+        .from(photos)
+        .where(photoOwnerCondition(owner));
+      const existingIds = new Set(existing.map((photo) => photo.id));
+      if (photoIds.length !== existingIds.size || new Set(photoIds).size !== photoIds.length
+        || !photoIds.every((id) => existingIds.has(id))) {
+        throw new PhotoGalleryError("The new order must include every photo in the gallery exactly once");
+      }
+
+      for (let position = 0; position < photoIds.length; position++) {
+        await tx.update(photos).set({ position }).where(eq(photos.id, photoIds[position]));
+      }
+    });
+    return this.getPhotos(owner);
+  }
+
+  async setCoverPhoto(owner: PhotoOwner, photoId: number): Promise<Photo[]> {
+    await db.transaction(async (tx) => {
+      await lockPhotoOwner(tx, owner);
+
+      const [photo] = await tx
+        .select({ id: photos.id })
+        .from(photos)
+        .where(and(photoOwnerCondition(owner), eq(photos.id, photoId)));
+      if (!photo) {
+        throw new PhotoGalleryError("Photo not found in this gallery");
+      }
+
+      await tx
+        .update(photos)
+        .set({ isCover: sql`${photos.id} = ${photoId}` })
+        .where(photoOwnerCondition(owner));
+      await refreshCoverImage(tx, owner);
+    });
+    return this.getPhotos(owner);
+  }
+
+  // Removes the photo's row, handing the cover to the next photo in the gallery if it was the cover.
+  // The caller deletes the stored image files once this has committed.
+  async deletePhoto(owner: PhotoOwner, photoId: number): Promise<Photo | undefined> {
+    return db.transaction(async (tx) => {
+      await lockPhotoOwner(tx, owner);
+
+      const [deleted] = await tx
+        .delete(photos)
+        .where(and(photoOwnerCondition(owner), eq(photos.id, photoId)))
+        .returning();
+      if (!deleted) return undefined;
+
+      if (deleted.isCover) {
+        const [next] = await tx
+          .select({ id: photos.id })
+          .from(photos)
+          .where(photoOwnerCondition(owner))
+          .orderBy(asc(photos.position), asc(photos.id))
+          .limit(1);
+        if (next) {
+          await tx.update(photos).set({ isCover: true }).where(eq(photos.id, next.id));
+        }
+        await refreshCoverImage(tx, owner);
+      }
+      return deleted;
+    });
+  }
+
+  // Business claiming operations
+  async getUnclaimedBusinesses(): Promise<BusinessWithUser[]> {
+    const results = await db
+      .select()
+      .from(businesses)
+      .leftJoin(users, eq(businesses.userId, users.id))
+      .where(and(eq(businesses.claimed, false), eq(businesses.manuallyAdded, true)));
+
+    return results.map(result => ({
+      ...result.businesses,
+      user: result.users || { id: '', email: '', firstName: '', lastName: '', profileImageUrl: '', createdAt: new Date(), updatedAt: new Date() },
+    }));
+  }
+
+  async createBusinessClaim(claim: InsertBusinessClaim): Promise<BusinessClaim> {
+    const [businessClaim] = await db
+      .insert(businessClaims)
+      .values(claim)
+      .returning();
+    return businessClaim;
+  }
+
+  async getPendingBusinessClaims(): Promise<BusinessClaimWithDetails[]> {
+    const results = await db
+      .select()
+      .from(businessClaims)
+      .leftJoin(businesses, eq(businessClaims.businessId, businesses.id))
+      .leftJoin(users, eq(businessClaims.userId, users.id))
+      .where(eq(businessClaims.status, 'pending'))
+      .orderBy(asc(businessClaims.createdAt));
 
     return results.map(result => ({
       ...result.business_claims,
@@ -433,6 +2722,23 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
+  async getBusinessClaimById(id: number): Promise<BusinessClaimWithDetails | undefined> {
+    const [result] = await db
+      .select()
+      .from(businessClaims)
+      .leftJoin(businesses, eq(businessClaims.businessId, businesses.id))
+      .leftJoin(users, eq(businessClaims.userId, users.id))
+      .where(eq(businessClaims.id, id));
+
+    if (!result) return undefined;
+
+    return {
+      ...result.business_claims,
+      business: result.businesses!,
+      user: result.users!,
+    };
+  }
+
   async updateBusinessClaimStatus(id: number, status: string): Promise<BusinessClaim> {
     const [claim] = await db
       .update(businessClaims)
@@ -442,6 +2748,71 @@ export class DatabaseStorage implements IStorage {
     return claim;
   }
 
+  // Hands the business to the claimant, closes any other pending claims on it and gives the
+  // claimant business access, all in one transaction so two claims can't both be approved
+  async approveBusinessClaim(id: number, adminNotes?: string): Promise<{
+    claim: BusinessClaim;
+    competingClaims: BusinessClaim[];
+  }> {
+    return db.transaction(async (tx) => {
+      const [pendingClaim] = await tx
+        .select()
+        .from(businessClaims)
+        .where(eq(businessClaims.id, id))
+        .for('update');
+      if (!pendingClaim || pendingClaim.status !== 'pending') {
+        throw new BusinessClaimError("This claim has already been reviewed");
+      }
+
+      const [business] = await tx
+        .select()
+        .from(businesses)
+        .where(eq(businesses.id, pendingClaim.businessId))
+        .for('update');
+      if (!business || business.claimed || business.userId) {
+        throw new BusinessClaimError("This business already has an owner");
+      }
+
+      const now = new Date();
+      await tx
+        .update(businesses)
+        .set({ userId: pendingClaim.userId, claimed: true, updatedAt: now })
+        .where(eq(businesses.id, business.id));
+
+      const [claim] = await tx
+        .update(businessClaims)
+        .set({ status: 'approved', adminNotes, approvedAt: now, updatedAt: now })
+        .where(eq(businessClaims.id, id))
+        .returning();
+
+      const competingClaims = await tx
+        .update(businessClaims)
+        .set({ status: 'rejected', adminNotes: "Another claim for this business was approved", updatedAt: now })
+        .where(and(
+          eq(businessClaims.businessId, business.id),
+          eq(businessClaims.status, 'pending'),
+        ))
+        .returning();
+
+      // Admins keep their role; everyone else becomes a business user
+      await tx
+        .update(users)
+        .set({ role: 'business', updatedAt: now })
+        .where(and(eq(users.id, pendingClaim.userId), eq(users.role, 'user')));
+
+      return { claim, competingClaims };
+    });
+  }
+
+  async rejectBusinessClaim(id: number, reason: string): Promise<BusinessClaim | undefined> {
+    const [claim] = await db
+      .update(businessClaims)
+      .set({ status: 'rejected', adminNotes: reason, updatedAt: new Date() })
+      .where(and(eq(businessClaims.id, id), eq(businessClaims.status, 'pending')))
+      .returning();
+    return claim;
+  }
+
   // Business subscription operations
   async updateBusinessSubscription(id: number, subscription: {
     subscriptionTier: string;
@@ -463,6 +2834,40 @@ export class DatabaseStorage implements IStorage {
     return business;
   }
 
+  async updateBusinessStripeSubscriptionId(id: number, stripeSubscriptionId: string): Promise<Business> {
+    const [business] = await db
+      .update(businesses)
+      .set({ stripeSubscriptionId, updatedAt: new Date() })
+      .where(eq(businesses.id, id))
+      .returning();
+    return business;
+  }
+
+  async getBusinessByStripeSubscriptionId(stripeSubscriptionId: string): Promise<Business | undefined> {
+    const [business] = await db
+      .select()
+      .from(businesses)
+      .where(eq(businesses.stripeSubscriptionId, stripeSubscriptionId));
+    return business;
+  }
+
+  async updateBusinessStripeAccount(id: number, stripeAccountId: string, payoutsEnabled: boolean): Promise<Business> {
+    const [business] = await db
+      .update(businesses)
+      .set({ stripeAccountId, payoutsEnabled, updatedAt: new Date() })
+      .where(eq(businesses.id, id))
+      .returning();
+    return business;
+  }
+
+  async getBusinessByStripeAccountId(stripeAccountId: string): Promise<Business | undefined> {
+    const [business] = await db
+      .select()
+      .from(businesses)
+      .where(eq(businesses.stripeAccountId, stripeAccountId));
+    return business;
+  }
+
   async updateUserStripeCustomerId(userId: string, customerId: string): Promise<User> {
     const [user] = await db
       .update(users)
@@ -472,18 +2877,14 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async getStats(): Promise<{
-    totalUsers: number;
-    totalBusinesses: number;
-    totalSessions: number;
-    pendingBusinesses: number;
-    pendingSessions: number;
-  }> {
+  async getStats(): Promise<AdminStats> {
     const [userCount] = await db.select({ count: count() }).from(users);
     const [businessCount] = await db.select({ count: count() }).from(businesses);
     const [sessionCount] = await db.select({ count: count() }).from(fitnessSessions);
     const [pendingBusinessCount] = await db.select({ count: count() }).from(businesses).where(eq(businesses.approved, false));
     const [pendingSessionCount] = await db.select({ count: count() }).from(fitnessSessions).where(eq(fitnessSessions.approved, false));
+    const [flaggedReviewCount] = await db.select({ count: count() }).from(reviews).where(eq(reviews.status, 'flagged'));
+    const [pendingClaimCount] = await db.select({ count: count() }).from(businessClaims).where(eq(businessClaims.status, 'pending'));
 
     return {
       totalUsers: userCount.count,
@@ -491,6 +2892,8 @@ export class DatabaseStorage implements IStorage {
       totalSessions: sessionCount.count,
       pendingBusinesses: pendingBusinessCount.count,
       pendingSessions: pendingSessionCount.count,
+      flaggedReviews: flaggedReviewCount.count,
+      pendingClaims: pendingClaimCount.count,
     };
   }
 }
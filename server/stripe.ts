@@ -0,0 +1,15 @@
+import Stripe from "stripe";
+
+if (!process.env.STRIPE_SECRET_KEY) {
+  throw new Error('Missing required Stripe secret: STRIPE_SECRET_KEY');
+}
+
+// STRIPE_API_HOST points the client at stripe-mock (or another Stripe-compatible server) for local development
+export const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
+  apiVersion: "2024-06-20",
+  ...(process.env.STRIPE_API_HOST && {
+    host: process.env.STRIPE_API_HOST,
+    port: process.env.STRIPE_API_PORT || 12111,
+    protocol: process.env.STRIPE_API_PROTOCOL === 'https' ? 'https' : 'http',
+  }),
+});
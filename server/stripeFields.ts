@@ -0,0 +1,37 @@
+import type Stripe from "stripe";
+
+// The client is pinned to API version 2024-06-20 (see ./stripe), but the library's types describe a later
+// version that moved some fields. These read them from where the pinned version actually sends them.
+
+interface PinnedSubscriptionFields {
+  current_period_start?: unknown;
+  current_period_end?: unknown;
+}
+
+interface PinnedInvoiceFields {
+  subscription?: string | { id: string } | null;
+  subscription_details?: { metadata?: Stripe.Metadata | null } | null;
+}
+
+function fromTimestamp(value: unknown): Date | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? new Date(value * 1000) : undefined;
+}
+
+// The billing period a subscription is in, which sits on the subscription itself rather than its items
+export function getSubscriptionPeriod(subscription: Stripe.Subscription): { start: Date; end: Date } | undefined {
+  const fields = subscription as unknown as PinnedSubscriptionFields;
+  const start = fromTimestamp(fields.current_period_start);
+  const end = fromTimestamp(fields.current_period_end);
+  return start && end ? { start, end } : undefined;
+}
+
+// The subscription an invoice bills and that subscription's metadata, undefined for one-off invoices
+export function getInvoiceSubscription(invoice: Stripe.Invoice): { id: string; metadata: Stripe.Metadata } | undefined {
+  const fields = invoice as unknown as PinnedInvoiceFields;
+  if (!fields.subscription) return undefined;
+
+  return {
+    id: typeof fields.subscription === 'string' ? fields.subscription : fields.subscription.id,
+    metadata: fields.subscription_details?.metadata ?? {},
+  };
+}
@@ -0,0 +1,144 @@
+import type Stripe from "stripe";
+import { storage } from "./storage";
+import { confirmBookingPayment, failBookingPayment } from "./bookingPayments";
+import { fulfilCreditPackPayment } from "./creditPacks";
+import { fulfilGiftVoucherPayment } from "./giftVouchers";
+import { syncMembership, recordMembershipInvoice } from "./memberships";
+import { syncRefundStatus } from "./refunds";
+import { syncConnectedAccount } from "./payouts";
+import { getInvoiceSubscription, getSubscriptionPeriod } from "./stripeFields";
+
+// Subscription statuses after which Stripe will no longer bill, so the business drops back to free
+const ENDED_SUBSCRIPTION_STATUSES: Stripe.Subscription.Status[] = ['canceled', 'unpaid', 'incomplete_expired'];
+
+function getSubscriptionTier(subscription: Stripe.Subscription): string | undefined {
+  const priceId = subscription.items.data[0]?.price.id;
+  if (priceId && priceId === process.env.STRIPE_BASIC_PRICE_ID) return 'basic';
+  if (priceId && priceId === process.env.STRIPE_PREMIUM_PRICE_ID) return 'premium';
+  return subscription.metadata.subscriptionTier;
+}
+
+async function downgradeToFree(businessId: number): Promise<void> {
+  await storage.updateBusinessSubscription(businessId, {
+    subscriptionTier: 'free',
+    bookingEnabled: false,
+    subscriptionExpiry: null,
+    stripeSubscriptionId: null,
+  });
+}
+
+async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent): Promise<void> {
+  // Class packs are paid for up front, so there's no pending booking to confirm
+  if (paymentIntent.metadata.creditPackId) {
+    await fulfilCreditPackPayment(paymentIntent);
+    return;
+  }
+  if (paymentIntent.metadata.giftVoucherAmount) {
+    await fulfilGiftVoucherPayment(paymentIntent);
+    return;
+  }
+
+  const booking = await storage.getBookingByPaymentIntentId(paymentIntent.id);
+  if (booking) {
+    await confirmBookingPayment(booking.id);
+  }
+}
+
+async function handlePaymentIntentFailed(paymentIntent: Stripe.PaymentIntent): Promise<void> {
+  const booking = await storage.getBookingByPaymentIntentId(paymentIntent.id);
+  if (booking) {
+    await failBookingPayment(booking.id);
+  }
+}
+
+async function handleInvoicePaid(invoice: Stripe.Invoice): Promise<void> {
+  const subscription = getInvoiceSubscription(invoice);
+  if (!subscription) return;
+
+  // Customer memberships are subscriptions too, tagged with the plan they're for
+  if (subscription.metadata.membershipPlanId) {
+    await recordMembershipInvoice(subscription.id, invoice);
+    return;
+  }
+
+  const business = await storage.getBusinessByStripeSubscriptionId(subscription.id);
+  if (!business) return;
+
+  const periodEnd = Math.max(...invoice.lines.data.map((line) => line.period.end));
+
+  await storage.updateBusinessSubscription(business.id, {
+    subscriptionTier: subscription.metadata.subscriptionTier || business.subscriptionTier || 'free',
+    bookingEnabled: true,
+    subscriptionExpiry: new Date(periodEnd * 1000),
+    stripeSubscriptionId: subscription.id,
+  });
+}
+
+async function handleSubscriptionUpdated(subscription: Stripe.Subscription): Promise<void> {
+  if (subscription.metadata.membershipPlanId) {
+    await syncMembership(subscription);
+    return;
+  }
+
+  const business = await storage.getBusinessByStripeSubscriptionId(subscription.id);
+  if (!business) return;
+
+  if (ENDED_SUBSCRIPTION_STATUSES.includes(subscription.status)) {
+    await downgradeToFree(business.id);
+    return;
+  }
+
+  // Incomplete and past-due subscriptions keep whatever access their last paid invoice bought
+  if (subscription.status !== 'active' && subscription.status !== 'trialing') return;
+
+  const period = getSubscriptionPeriod(subscription);
+  await storage.updateBusinessSubscription(business.id, {
+    subscriptionTier: getSubscriptionTier(subscription) || business.subscriptionTier || 'free',
+    bookingEnabled: true,
+    subscriptionExpiry: period?.end ?? business.subscriptionExpiry,
+    stripeSubscriptionId: subscription.id,
+  });
+}
+
+async function handleSubscriptionDeleted(subscription: Stripe.Subscription): Promise<void> {
+  if (subscription.metadata.membershipPlanId) {
+    await syncMembership(subscription);
+    return;
+  }
+
+  const business = await storage.getBusinessByStripeSubscriptionId(subscription.id);
+  if (business) {
+    await downgradeToFree(business.id);
+  }
+}
+
+// Applies a verified Stripe event to bookings, subscriptions, memberships, refunds and connected accounts. Handlers are
+// idempotent because Stripe may deliver the same event more than once.
+export async function handleStripeEvent(event: Stripe.Event): Promise<void> {
+  switch (event.type) {
+    case 'payment_intent.succeeded':
+      await handlePaymentIntentSucceeded(event.data.object);
+      break;
+    case 'payment_intent.payment_failed':
+      await handlePaymentIntentFailed(event.data.object);
+      break;
+    case 'invoice.paid':
+      await handleInvoicePaid(event.data.object);
+      break;
+    case 'customer.subscription.updated':
+      await handleSubscriptionUpdated(event.data.object);
+      break;
+    case 'customer.subscription.deleted':
+      await handleSubscriptionDeleted(event.data.object);
+      break;
+    case 'account.updated':
+      await syncConnectedAccount(event.data.object);
+      break;
+    case 'refund.updated':
+    case 'refund.failed':
+      await syncRefundStatus(event.data.object);
+      break;
+    default:
+      break;
+  }
+}
@@ -0,0 +1,102 @@
+import type { PersonalTrainer, TrainerBooking } from "@shared/schema";
+import { expandSchedule, getZonedDayWindow, parseSchedule, toZonedDateString, type OccurrenceWindow } from "./occurrences";
+
+// Bookable start times are offered on this grid within each availability window
+export const SLOT_INTERVAL_MINUTES = 30;
+
+const MINUTE_MS = 60 * 1000;
+
+// Thrown when a trainer booking falls outside the trainer's availability or clashes with another booking
+export class TrainerSlotUnavailableError extends Error {
+  constructor(message = "This time is no longer available") {
+    super(message);
+    this.name = "TrainerSlotUnavailableError";
+  }
+}
+
+type AvailabilityPolicy = Pick<PersonalTrainer, "weeklyAvailability" | "bufferMinutes">;
+type ExistingBooking = Pick<TrainerBooking, "sessionDate" | "duration">;
+
+export function hasWeeklyAvailability(trainer: AvailabilityPolicy): boolean {
+  return parseSchedule(trainer.weeklyAvailability).length > 0;
+}
+
+// Two sessions clash when they are closer together than the trainer's buffer
+function clashesWithBooking(
+  startsAt: Date,
+  endsAt: Date,
+  bookings: ExistingBooking[],
+  bufferMinutes: number,
+): boolean {
+  const bufferMs = bufferMinutes * MINUTE_MS;
+  return bookings.some((booking) => {
+    const bookedStart = booking.sessionDate.getTime();
+    const bookedEnd = bookedStart + booking.duration * MINUTE_MS;
+    return startsAt.getTime() < bookedEnd + bufferMs && bookedStart < endsAt.getTime() + bufferMs;
+  });
+}
+
+function getAvailabilityWindows(trainer: AvailabilityPolicy, date: string): OccurrenceWindow[] {
+  const day = getZonedDayWindow(date);
+  return expandSchedule(trainer.weeklyAvailability, day.startsAt, day.endsAt);
+}
+
+export function getAvailableSlots(
+  trainer: AvailabilityPolicy,
+  date: string,
+  duration: number,
+  bookings: ExistingBooking[],
+  blackoutDates: string[],
+  now: Date = new Date(),
+): OccurrenceWindow[] {
+  if (blackoutDates.includes(date)) return [];
+
+  const durationMs = duration * MINUTE_MS;
+  const slots: OccurrenceWindow[] = [];
+
+  for (const window of getAvailabilityWindows(trainer, date)) {
+    for (
+      let start = window.startsAt.getTime();
+      start + durationMs <= window.endsAt.getTime();
+      start += SLOT_INTERVAL_MINUTES * MINUTE_MS
+    ) {
+      const startsAt = new Date(start);
+      const endsAt = new Date(start + durationMs);
+      if (startsAt > now && !clashesWithBooking(startsAt, endsAt, bookings, trainer.bufferMinutes)) {
+        slots.push({ startsAt, endsAt });
+      }
+    }
+  }
+
+  return slots;
+}
+
+// Returns why a requested session can't be booked, or null when it can. Trainers who haven't set up
+// weekly availability yet can still be booked at any time that doesn't clash.
+export function findSlotConflict(
+  trainer: AvailabilityPolicy,
+  startsAt: Date,
+  duration: number,
+  bookings: ExistingBooking[],
+  blackoutDates: string[],
+): string | null {
+  const endsAt = new Date(startsAt.getTime() + duration * MINUTE_MS);
+  const date = toZonedDateString(startsAt);
+
+  if (blackoutDates.includes(date)) {
+    return "The trainer is unavailable on this date";
+  }
+
+  if (
+    hasWeeklyAvailability(trainer) &&
+    !getAvailabilityWindows(trainer, date).some((window) => startsAt >= window.startsAt && endsAt <= window.endsAt)
+  ) {
+    return "This time is outside the trainer's availability";
+  }
+
+  if (clashesWithBooking(startsAt, endsAt, bookings, trainer.bufferMinutes)) {
+    return "The trainer already has a session booked at this time";
+  }
+
+  return null;
+}
@@ -2,18 +2,93 @@ import {
   personalTrainers, 
   trainerBookings, 
   users,
+  refunds,
+  reviews,
+  trainerBlackoutDates,
   type PersonalTrainer,
   type TrainerBooking,
   type InsertPersonalTrainer,
   type InsertTrainerBooking,
+  type InsertGiftVoucherLedgerEntry,
+  type AvailabilityWindow,
+  type InsertTrainerBlackoutDate,
+  type TrainerBlackoutDate,
   type PersonalTrainerWithUser,
   type TrainerBookingWithDetails
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, like, lte, gte, sql } from "drizzle-orm";
+import { findCoordinates } from "./geocoding";
+import { findSlotConflict, TrainerSlotUnavailableError } from "./trainerAvailability";
+import { redeemGiftVoucher, PaymentAlreadyUsedError } from "./storage";
+import { eq, and, ne, like, lt, lte, gt, gte, sql, inArray, asc, desc } from "drizzle-orm";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Locks the trainer so concurrent bookings are checked one at a time, then rejects the session if it
+// falls on a blackout date, outside weekly availability, or within the buffer of another booking
+async function reserveTrainerSlot(
+  tx: Transaction,
+  trainerId: number,
+  startsAt: Date,
+  duration: number,
+  excludeBookingId?: number,
+): Promise<void> {
+  const [trainer] = await tx
+    .select()
+    .from(personalTrainers)
+    .where(eq(personalTrainers.id, trainerId))
+    .for('update');
+
+  if (!trainer) {
+    throw new Error(`Personal trainer ${trainerId} not found`);
+  }
+
+  const conditions = [
+    eq(trainerBookings.trainerId, trainerId),
+    ne(trainerBookings.status, 'cancelled'),
+    gt(trainerBookings.sessionDate, new Date(startsAt.getTime() - DAY_MS)),
+    lt(trainerBookings.sessionDate, new Date(startsAt.getTime() + DAY_MS)),
+  ];
+  if (excludeBookingId !== undefined) {
+    conditions.push(ne(trainerBookings.id, excludeBookingId));
+  }
+
+  const nearbyBookings = await tx
+    .select({ sessionDate: trainerBookings.sessionDate, duration: trainerBookings.duration })
+    .from(trainerBookings)
+    .where(and(...conditions));
+  const blackouts = await tx
+    .select({ date: trainerBlackoutDates.date })
+    .from(trainerBlackoutDates)
+    .where(eq(trainerBlackoutDates.trainerId, trainerId));
+
+  const conflict = findSlotConflict(
+    trainer,
+    startsAt,
+    duration,
+    nearbyBookings,
+    blackouts.map((blackout) => blackout.date),
+  );
+  if (conflict) {
+    throw new TrainerSlotUnavailableError(conflict);
+  }
+}
 
 export class TrainerStorage {
   async createPersonalTrainer(trainer: InsertPersonalTrainer): Promise<PersonalTrainer> {
+    // Trainers give a free-text location; it's only placed on the map when that's a postcode or outward code
+    if (!trainer.latitude || !trainer.longitude) {
+      const coordinates = await findCoordinates(trainer.location);
+      if (coordinates) {
+        trainer = {
+          ...trainer,
+          latitude: coordinates.latitude.toString(),
+          longitude: coordinates.longitude.toString(),
+        };
+      }
+    }
     const [newTrainer] = await db
       .insert(personalTrainers)
       .values(trainer)
@@ -54,6 +129,8 @@ export class TrainerStorage {
     specialty?: string;
     location?: string;
     maxRate?: number;
+    minRating?: number;
+    sortBy?: 'rating';
     approved?: boolean;
   }): Promise<PersonalTrainerWithUser[]> {
     let query = db
@@ -89,11 +166,17 @@ export class TrainerStorage {
       conditions.push(lte(personalTrainers.hourlyRate, filters.maxRate.toString()));
     }
 
+    if (filters.minRating !== undefined) {
+      conditions.push(gte(personalTrainers.ratingAverage, filters.minRating.toString()));
+    }
+
     if (conditions.length > 0) {
       query = query.where(and(...conditions));
     }
 
-    const results = await query;
+    const results = filters.sortBy === 'rating'
+      ? await query.orderBy(desc(personalTrainers.ratingAverage), desc(personalTrainers.ratingCount))
+      : await query;
     
     return results.map(result => ({
       ...result.personal_trainers,
@@ -110,16 +193,124 @@ export class TrainerStorage {
     return trainer;
   }
 
+  async updatePersonalTrainerCancellationPolicy(id: number, policy: {
+    freeCancellationHours: number;
+    lateCancellationRefundPercent: number;
+  }): Promise<PersonalTrainer> {
+    const [trainer] = await db
+      .update(personalTrainers)
+      .set({ ...policy, updatedAt: new Date() })
+      .where(eq(personalTrainers.id, id))
+      .returning();
+    return trainer;
+  }
+
+  async updatePersonalTrainerStripeAccount(id: number, stripeAccountId: string, payoutsEnabled: boolean): Promise<PersonalTrainer> {
+    const [trainer] = await db
+      .update(personalTrainers)
+      .set({ stripeAccountId, payoutsEnabled, updatedAt: new Date() })
+      .where(eq(personalTrainers.id, id))
+      .returning();
+    return trainer;
+  }
+
+  async updatePersonalTrainerAvailability(id: number, availability: {
+    weeklyAvailability: AvailabilityWindow[];
+    bufferMinutes: number;
+  }): Promise<PersonalTrainer> {
+    const [trainer] = await db
+      .update(personalTrainers)
+      .set({ ...availability, updatedAt: new Date() })
+      .where(eq(personalTrainers.id, id))
+      .returning();
+    return trainer;
+  }
+
+  async getTrainerBlackoutDates(trainerId: number, fromDate?: string): Promise<TrainerBlackoutDate[]> {
+    const conditions = [eq(trainerBlackoutDates.trainerId, trainerId)];
+    if (fromDate) {
+      conditions.push(gte(trainerBlackoutDates.date, fromDate));
+    }
+
+    return db
+      .select()
+      .from(trainerBlackoutDates)
+      .where(and(...conditions))
+      .orderBy(asc(trainerBlackoutDates.date));
+  }
+
+  async addTrainerBlackoutDate(blackout: InsertTrainerBlackoutDate): Promise<TrainerBlackoutDate> {
+    const [newBlackout] = await db
+      .insert(trainerBlackoutDates)
+      .values(blackout)
+      .onConflictDoUpdate({
+        target: [trainerBlackoutDates.trainerId, trainerBlackoutDates.date],
+        set: { reason: blackout.reason },
+      })
+      .returning();
+    return newBlackout;
+  }
+
+  async deleteTrainerBlackoutDate(trainerId: number, id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(trainerBlackoutDates)
+      .where(and(eq(trainerBlackoutDates.id, id), eq(trainerBlackoutDates.trainerId, trainerId)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  // Sessions that still occupy the trainer's time in the given range
+  async getActiveTrainerBookingsBetween(trainerId: number, from: Date, to: Date): Promise<TrainerBooking[]> {
+    return db
+      .select()
+      .from(trainerBookings)
+      .where(and(
+        eq(trainerBookings.trainerId, trainerId),
+        ne(trainerBookings.status, 'cancelled'),
+        gte(trainerBookings.sessionDate, from),
+        lt(trainerBookings.sessionDate, to),
+      ));
+  }
+
+  async getPersonalTrainerByStripeAccountId(stripeAccountId: string): Promise<PersonalTrainer | undefined> {
+    const [trainer] = await db
+      .select()
+      .from(personalTrainers)
+      .where(eq(personalTrainers.stripeAccountId, stripeAccountId));
+    return trainer;
+  }
+
   async getPendingPersonalTrainers(): Promise<PersonalTrainerWithUser[]> {
     return this.searchPersonalTrainers({ approved: false });
   }
 
-  async createTrainerBooking(booking: InsertTrainerBooking): Promise<TrainerBooking> {
-    const [newBooking] = await db
-      .insert(trainerBookings)
-      .values(booking)
-      .returning();
-    return newBooking;
+  async createTrainerBooking(
+    booking: InsertTrainerBooking,
+    giftVoucher?: Pick<InsertGiftVoucherLedgerEntry, 'giftVoucherId' | 'change'>,
+  ): Promise<TrainerBooking> {
+    return db.transaction(async (tx) => {
+      await reserveTrainerSlot(tx, booking.trainerId, booking.sessionDate, booking.duration);
+
+      const [newBooking] = await tx
+        .insert(trainerBookings)
+        .values(booking)
+        .onConflictDoNothing({ target: trainerBookings.stripePaymentIntentId })
+        .returning();
+      if (!newBooking) throw new PaymentAlreadyUsedError();
+
+      if (giftVoucher) {
+        await redeemGiftVoucher(tx, { ...giftVoucher, trainerBookingId: newBooking.id, userId: newBooking.userId });
+      }
+      return newBooking;
+    });
+  }
+
+  async getTrainerBookingByPaymentIntentId(paymentIntentId: string): Promise<TrainerBooking | undefined> {
+    const [booking] = await db
+      .select()
+      .from(trainerBookings)
+      .where(eq(trainerBookings.stripePaymentIntentId, paymentIntentId));
+    return booking;
   }
 
   async getTrainerBookingById(id: number): Promise<TrainerBookingWithDetails | undefined> {
@@ -149,6 +340,17 @@ export class TrainerStorage {
       .leftJoin(users, eq(trainerBookings.userId, users.id))
       .leftJoin(personalTrainers, eq(trainerBookings.trainerId, personalTrainers.id))
       .where(eq(trainerBookings.userId, userId));
+
+    const bookingIds = results.map(result => result.trainer_bookings.id);
+    const bookingRefunds = bookingIds.length === 0 ? [] : await db
+      .select()
+      .from(refunds)
+      .where(inArray(refunds.trainerBookingId, bookingIds))
+      .orderBy(asc(refunds.createdAt));
+    const bookingReviews = bookingIds.length === 0 ? [] : await db
+      .select()
+      .from(reviews)
+      .where(inArray(reviews.trainerBookingId, bookingIds));
     
     return results.map(result => ({
       ...result.trainer_bookings,
@@ -156,7 +358,9 @@ export class TrainerStorage {
       trainer: {
         ...result.personal_trainers!,
         user: result.users!
-      }
+      },
+      refunds: bookingRefunds.filter(refund => refund.trainerBookingId === result.trainer_bookings.id),
+      review: bookingReviews.find(review => review.trainerBookingId === result.trainer_bookings.id) ?? null,
     }));
   }
 
@@ -178,6 +382,27 @@ export class TrainerStorage {
     }));
   }
 
+  async rescheduleTrainerBooking(id: number, sessionDate: Date): Promise<TrainerBooking> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(trainerBookings)
+        .where(eq(trainerBookings.id, id));
+      if (!existing) {
+        throw new Error(`Trainer booking ${id} not found`);
+      }
+
+      await reserveTrainerSlot(tx, existing.trainerId, sessionDate, existing.duration, id);
+
+      const [booking] = await tx
+        .update(trainerBookings)
+        .set({ sessionDate, updatedAt: new Date() })
+        .where(eq(trainerBookings.id, id))
+        .returning();
+      return booking;
+    });
+  }
+
   async updateTrainerBookingStatus(id: number, status: string): Promise<TrainerBooking> {
     const [booking] = await db
       .update(trainerBookings)
@@ -186,6 +411,16 @@ export class TrainerStorage {
       .returning();
     return booking;
   }
+
+  // Moves a booking on only if it is still in the expected status, so concurrent requests can't both act on it
+  async transitionTrainerBookingStatus(id: number, from: string, to: string): Promise<TrainerBooking | undefined> {
+    const [booking] = await db
+      .update(trainerBookings)
+      .set({ status: to, updatedAt: new Date() })
+      .where(and(eq(trainerBookings.id, id), eq(trainerBookings.status, from)))
+      .returning();
+    return booking;
+  }
 }
 
 export const trainerStorage = new TrainerStorage();
\ No newline at end of file
@@ -0,0 +1,54 @@
+import { storage } from "./storage";
+import { sendEmail, escapeHtml } from "./emailService";
+import { formatOccurrenceTime } from "./occurrences";
+
+// How long a waitlisted customer has to claim a freed spot before it passes down the queue
+export const WAITLIST_OFFER_HOURS = 12;
+
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+function getAppUrl(): string {
+  return process.env.APP_URL || 'https://mylesfitness.co.uk';
+}
+
+// Offers any free spots on an occurrence to the front of its waitlist and emails claim links
+export async function offerFreedSpots(occurrenceId: number): Promise<void> {
+  const offers = await storage.offerWaitlistSpots(occurrenceId, WAITLIST_OFFER_HOURS * 60 * 60 * 1000);
+
+  for (const offer of offers) {
+    const entry = await storage.getWaitlistEntryById(offer.id);
+    const user = await storage.getUser(offer.userId);
+    if (!entry || !user?.email) continue;
+
+    const claimUrl = `${getAppUrl()}/checkout/${entry.session.id}?occurrenceId=${entry.occurrenceId}&waitlistToken=${entry.claimToken}`;
+    await sendEmail({
+      to: user.email,
+      subject: 'A Spot Has Opened Up - MYLES',
+      html: `
+        <h2>Good news - a spot is available!</h2>
+        <p>A place has opened up in a class you're waitlisted for:</p>
+        <p><strong>Session:</strong> ${escapeHtml(entry.session.title)}</p>
+        <p><strong>Business:</strong> ${escapeHtml(entry.session.business.name)}</p>
+        <p><strong>Date:</strong> ${formatOccurrenceTime(entry.occurrence.startsAt)}</p>
+        <p>We're holding this spot for you until ${formatOccurrenceTime(entry.offerExpiresAt!)}.</p>
+        <p><a href="${claimUrl}">Claim your spot</a></p>
+      `
+    });
+  }
+}
+
+// Passes on spots from offers that lapsed without being claimed
+export async function processLapsedWaitlistOffers(): Promise<void> {
+  const occurrenceIds = await storage.getOccurrenceIdsWithLapsedOffers();
+  for (const occurrenceId of occurrenceIds) {
+    await offerFreedSpots(occurrenceId);
+  }
+}
+
+export function startWaitlistSweep(): NodeJS.Timeout {
+  return setInterval(() => {
+    processLapsedWaitlistOffers().catch((error) => {
+      console.error("Error processing lapsed waitlist offers:", error);
+    });
+  }, SWEEP_INTERVAL_MS);
+}
@@ -10,6 +10,7 @@ import {
   decimal,
   boolean,
   primaryKey,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
@@ -33,7 +34,7 @@ export const users = pgTable("users", {
   firstName: varchar("first_name"),
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
-  role: varchar("role").notNull().default("user"), // user, business, admin
+  role: varchar("role").notNull().default("user"), // user, business, staff, admin
   stripeCustomerId: varchar("stripe_customer_id"),
   stripeSubscriptionId: varchar("stripe_subscription_id"),
   createdAt: timestamp("created_at").defaultNow(),
@@ -45,6 +46,7 @@ export const businesses = pgTable("businesses", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").references(() => users.id), // nullable for manually added businesses
   name: varchar("name").notNull(),
+  slug: varchar("slug").unique(), // used in public profile URLs; generated from the name on creation
   description: text("description"),
   address: text("address").notNull(),
   postcode: varchar("postcode").notNull(),
@@ -68,6 +70,13 @@ export const businesses = pgTable("businesses", {
   // Location
   latitude: decimal("latitude", { precision: 10, scale: 8 }),
   longitude: decimal("longitude", { precision: 11, scale: 8 }),
+
+  // Reviews
+  ratingAverage: decimal("rating_average", { precision: 3, scale: 2 }).notNull().default("0"), // maintained from reviews
+  ratingCount: integer("rating_count").notNull().default(0),
+
+  // Media
+  coverImage: jsonb("cover_image").$type<PhotoUrls>(), // variants of the gallery's cover photo
   
   // Status
   approved: boolean("approved").default(false),
@@ -80,10 +89,59 @@ export const businesses = pgTable("businesses", {
   subscriptionExpiry: timestamp("subscription_expiry"),
   stripeSubscriptionId: varchar("stripe_subscription_id"),
   
+  // Stripe Connect payouts
+  stripeAccountId: varchar("stripe_account_id"),
+  payoutsEnabled: boolean("payouts_enabled").default(false), // set once Stripe has verified the connected account
+  
+  // Cancellation policy
+  freeCancellationHours: integer("free_cancellation_hours").notNull().default(12), // full refund when cancelled at least this far ahead
+  lateCancellationRefundPercent: integer("late_cancellation_refund_percent").notNull().default(0),
+  
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Further sites run by a business. Its own address is its main site, and sessions without a location run there,
+// so a chain is one business with one approval and one subscription however many sites it has.
+export const businessLocations = pgTable(
+  "business_locations",
+  {
+    id: serial("id").primaryKey(),
+    businessId: integer("business_id").notNull().references(() => businesses.id),
+    name: varchar("name").notNull(), // e.g. "Shoreditch", shown alongside the business name
+    address: text("address").notNull(),
+    postcode: varchar("postcode").notNull(),
+    latitude: decimal("latitude", { precision: 10, scale: 8 }),
+    longitude: decimal("longitude", { precision: 11, scale: 8 }),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_business_location_business").on(table.businessId)],
+);
+
+// Instructors and other staff of a business, invited by email. userId is set once the invitation is accepted.
+export const businessStaff = pgTable(
+  "business_staff",
+  {
+    id: serial("id").primaryKey(),
+    businessId: integer("business_id").notNull().references(() => businesses.id),
+    userId: varchar("user_id").references(() => users.id),
+    email: varchar("email").notNull(), // where the invitation was sent
+    displayName: varchar("display_name").notNull(), // shown to customers on the classes they teach
+    bio: text("bio"),
+    status: varchar("status").notNull().default("invited"), // invited, active, removed
+    inviteToken: varchar("invite_token").unique(), // cleared once the invitation is accepted or withdrawn
+    invitedBy: varchar("invited_by").notNull().references(() => users.id),
+    acceptedAt: timestamp("accepted_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("UQ_business_staff_email").on(table.businessId, table.email),
+    index("IDX_business_staff_user").on(table.userId),
+  ],
+);
+
 // Session types
 export const sessionTypes = pgTable("session_types", {
   id: serial("id").primaryKey(),
@@ -97,6 +155,7 @@ export const fitnessSessions = pgTable("fitness_sessions", {
   id: serial("id").primaryKey(),
   businessId: integer("business_id").notNull().references(() => businesses.id),
   sessionTypeId: integer("session_type_id").notNull().references(() => sessionTypes.id),
+  locationId: integer("location_id").references(() => businessLocations.id), // null runs at the business's own address
   title: varchar("title").notNull(),
   description: text("description"),
   difficulty: jsonb("difficulty").notNull(), // array: ["beginner", "intermediate", "advanced"] or ["all_levels"]
@@ -106,24 +165,270 @@ export const fitnessSessions = pgTable("fitness_sessions", {
   duration: integer("duration").notNull(), // in minutes
   maxParticipants: integer("max_participants").notNull(),
   schedule: jsonb("schedule").notNull(), // {dayOfWeek: number, startTime: string, endTime: string}[]
+  instructorId: integer("instructor_id").references(() => businessStaff.id), // who usually teaches it; occurrences can override
   approved: boolean("approved").default(false),
+  ratingAverage: decimal("rating_average", { precision: 3, scale: 2 }).notNull().default("0"), // maintained from reviews
+  ratingCount: integer("rating_count").notNull().default(0),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Class occurrences - dated instances expanded from a fitness session's weekly schedule
+export const classOccurrences = pgTable(
+  "class_occurrences",
+  {
+    id: serial("id").primaryKey(),
+    sessionId: integer("session_id").notNull().references(() => fitnessSessions.id),
+    startsAt: timestamp("starts_at").notNull(),
+    endsAt: timestamp("ends_at").notNull(),
+    status: varchar("status").notNull().default("scheduled"), // scheduled, cancelled
+    instructorId: integer("instructor_id").references(() => businessStaff.id), // cover for the session's usual instructor
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_class_occurrence_session_start").on(table.sessionId, table.startsAt)],
+);
+
 // Bookings
-export const bookings = pgTable("bookings", {
-  id: serial("id").primaryKey(),
-  userId: varchar("user_id").notNull().references(() => users.id),
-  sessionId: integer("session_id").notNull().references(() => fitnessSessions.id),
-  sessionDate: timestamp("session_date").notNull(),
-  status: varchar("status").notNull().default("confirmed"), // confirmed, cancelled, completed
-  paymentIntentId: varchar("payment_intent_id"),
-  totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
-  specialRequirements: text("special_requirements"),
-  createdAt: timestamp("created_at").defaultNow(),
-  updatedAt: timestamp("updated_at").defaultNow(),
-});
+export const bookings = pgTable(
+  "bookings",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    sessionId: integer("session_id").notNull().references(() => fitnessSessions.id),
+    occurrenceId: integer("occurrence_id").references(() => classOccurrences.id), // nullable for bookings made before occurrences existed
+    sessionDate: timestamp("session_date").notNull(),
+    status: varchar("status").notNull().default("confirmed"), // pending (awaiting payment), confirmed, cancelled, completed
+    paymentIntentId: varchar("payment_intent_id").unique(), // one booking per payment
+    applicationFeeAmount: decimal("application_fee_amount", { precision: 10, scale: 2 }), // what MYLES keeps from a destination charge
+    transferDestination: varchar("transfer_destination"), // connected account paid out for this booking
+    creditPurchaseId: integer("credit_purchase_id").references(() => creditPurchases.id), // the class pack that paid, null for card payments
+    membershipId: integer("membership_id").references(() => memberships.id), // the membership the class was booked under
+    membershipClassReleasedAt: timestamp("membership_class_released_at"), // when a cancellation handed the class back to the membership
+    attendees: integer("attendees").notNull().default(1), // spots the booking holds: the customer plus any named guests
+    totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
+    specialRequirements: text("special_requirements"),
+    checkedInAt: timestamp("checked_in_at"), // when the customer arrived; guests are checked in separately
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_booking_occurrence").on(table.occurrenceId)],
+);
+
+// Friends a customer brought along on their booking, each holding one of its spots
+export const bookingGuests = pgTable(
+  "booking_guests",
+  {
+    id: serial("id").primaryKey(),
+    bookingId: integer("booking_id").notNull().references(() => bookings.id),
+    name: varchar("name").notNull(),
+    checkedInAt: timestamp("checked_in_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_booking_guest_booking").on(table.bookingId)],
+);
+
+// Class packs a business sells, e.g. 10 classes for £80. Each booking paid for with a pack uses one credit.
+export const creditPacks = pgTable(
+  "credit_packs",
+  {
+    id: serial("id").primaryKey(),
+    businessId: integer("business_id").notNull().references(() => businesses.id),
+    name: varchar("name").notNull(),
+    credits: integer("credits").notNull(),
+    price: decimal("price", { precision: 10, scale: 2 }).notNull(),
+    expiryDays: integer("expiry_days"), // counted from purchase, null never expires
+    sessionTypeIds: jsonb("session_type_ids").$type<number[]>().notNull().default([]), // session types the credits cover, empty covers every class
+    active: boolean("active").notNull().default(true), // retired packs can't be bought, but credits already sold still work
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_credit_pack_business").on(table.businessId)],
+);
+
+// A pack a customer has paid for. Its terms are copied from the pack when bought so they can't change afterwards.
+export const creditPurchases = pgTable(
+  "credit_purchases",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    businessId: integer("business_id").notNull().references(() => businesses.id),
+    creditPackId: integer("credit_pack_id").notNull().references(() => creditPacks.id),
+    credits: integer("credits").notNull(),
+    creditsRemaining: integer("credits_remaining").notNull(),
+    sessionTypeIds: jsonb("session_type_ids").$type<number[]>().notNull().default([]),
+    expiresAt: timestamp("expires_at"),
+    paymentIntentId: varchar("payment_intent_id").notNull().unique(),
+    applicationFeeAmount: decimal("application_fee_amount", { precision: 10, scale: 2 }),
+    transferDestination: varchar("transfer_destination"),
+    totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_credit_purchase_user_business").on(table.userId, table.businessId)],
+);
+
+// Every change to a customer's credits with a business, so balances can be explained line by line
+export const creditLedgerEntries = pgTable(
+  "credit_ledger_entries",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    businessId: integer("business_id").notNull().references(() => businesses.id),
+    creditPurchaseId: integer("credit_purchase_id").notNull().references(() => creditPurchases.id),
+    bookingId: integer("booking_id").references(() => bookings.id),
+    change: integer("change").notNull(), // positive adds credits, negative spends them
+    reason: varchar("reason").notNull(), // purchase, redemption, restoration
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_credit_ledger_user_business").on(table.userId, table.businessId),
+    index("IDX_credit_ledger_booking").on(table.bookingId),
+  ],
+);
+
+// Monthly memberships a business sells, billed as Stripe subscriptions against a recurring price
+export const membershipPlans = pgTable(
+  "membership_plans",
+  {
+    id: serial("id").primaryKey(),
+    businessId: integer("business_id").notNull().references(() => businesses.id),
+    name: varchar("name").notNull(),
+    price: decimal("price", { precision: 10, scale: 2 }).notNull(), // per month, before the MYLES booking fee
+    classesPerPeriod: integer("classes_per_period"), // null is unlimited
+    sessionTypeIds: jsonb("session_type_ids").$type<number[]>().notNull().default([]), // empty covers every class
+    stripePriceId: varchar("stripe_price_id").notNull(),
+    active: boolean("active").notNull().default(true), // retired plans can't be joined, but existing members carry on
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_membership_plan_business").on(table.businessId)],
+);
+
+// A customer's subscription to a plan. Status and billing period follow Stripe's subscription events, and
+// classesUsed counts bookings made in the current period.
+export const memberships = pgTable(
+  "memberships",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    businessId: integer("business_id").notNull().references(() => businesses.id),
+    membershipPlanId: integer("membership_plan_id").notNull().references(() => membershipPlans.id),
+    stripeSubscriptionId: varchar("stripe_subscription_id").notNull().unique(),
+    status: varchar("status").notNull().default("incomplete"), // Stripe subscription status, e.g. active, past_due, canceled
+    classesPerPeriod: integer("classes_per_period"),
+    sessionTypeIds: jsonb("session_type_ids").$type<number[]>().notNull().default([]),
+    currentPeriodStart: timestamp("current_period_start"),
+    currentPeriodEnd: timestamp("current_period_end"),
+    classesUsed: integer("classes_used").notNull().default(0),
+    cancelAtPeriodEnd: boolean("cancel_at_period_end").notNull().default(false),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_membership_user_business").on(table.userId, table.businessId)],
+);
+
+// Discount codes a business hands out, applied to the session price before the MYLES booking fee
+export const promoCodes = pgTable(
+  "promo_codes",
+  {
+    id: serial("id").primaryKey(),
+    businessId: integer("business_id").notNull().references(() => businesses.id),
+    code: varchar("code").notNull(), // stored upper case, matched case-insensitively
+    discountType: varchar("discount_type").notNull(), // percent, fixed
+    discountValue: decimal("discount_value", { precision: 10, scale: 2 }).notNull(), // a percentage or an amount in pounds
+    firstBookingOnly: boolean("first_booking_only").notNull().default(false), // only for customers new to the business
+    sessionTypeIds: jsonb("session_type_ids").$type<number[]>().notNull().default([]), // empty covers every class
+    maxRedemptions: integer("max_redemptions"), // across all customers, null is unlimited
+    maxRedemptionsPerCustomer: integer("max_redemptions_per_customer"),
+    validFrom: timestamp("valid_from"),
+    validUntil: timestamp("valid_until"),
+    active: boolean("active").notNull().default(true),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_promo_code_business_code").on(table.businessId, table.code)],
+);
+
+// Each booking a promo code was used on. Redemptions of cancelled bookings don't count towards usage limits.
+export const promoRedemptions = pgTable(
+  "promo_redemptions",
+  {
+    id: serial("id").primaryKey(),
+    promoCodeId: integer("promo_code_id").notNull().references(() => promoCodes.id),
+    bookingId: integer("booking_id").notNull().unique().references(() => bookings.id),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_promo_redemption_code").on(table.promoCodeId)],
+);
+
+// Gift vouchers bought for a business or a personal trainer and emailed to someone else. Whoever has the code
+// spends the balance across bookings with that provider until it runs out or the voucher expires.
+export const giftVouchers = pgTable(
+  "gift_vouchers",
+  {
+    id: serial("id").primaryKey(),
+    code: varchar("code").notNull().unique(),
+    businessId: integer("business_id").references(() => businesses.id), // exactly one of businessId and trainerId is set
+    trainerId: integer("trainer_id").references(() => personalTrainers.id),
+    purchaserId: varchar("purchaser_id").notNull().references(() => users.id),
+    recipientName: varchar("recipient_name").notNull(),
+    recipientEmail: varchar("recipient_email").notNull(), // stored lower case
+    message: text("message"),
+    amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // face value, before the MYLES booking fee
+    balance: decimal("balance", { precision: 10, scale: 2 }).notNull(),
+    expiresAt: timestamp("expires_at").notNull(),
+    expiryReminderSentAt: timestamp("expiry_reminder_sent_at"),
+    paymentIntentId: varchar("payment_intent_id").notNull().unique(),
+    applicationFeeAmount: decimal("application_fee_amount", { precision: 10, scale: 2 }),
+    transferDestination: varchar("transfer_destination"),
+    totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_gift_voucher_purchaser").on(table.purchaserId),
+    index("IDX_gift_voucher_recipient").on(table.recipientEmail),
+  ],
+);
+
+// Every change to a voucher's balance, so it can be explained line by line
+export const giftVoucherLedgerEntries = pgTable(
+  "gift_voucher_ledger_entries",
+  {
+    id: serial("id").primaryKey(),
+    giftVoucherId: integer("gift_voucher_id").notNull().references(() => giftVouchers.id),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    bookingId: integer("booking_id").references(() => bookings.id),
+    trainerBookingId: integer("trainer_booking_id").references(() => trainerBookings.id),
+    change: decimal("change", { precision: 10, scale: 2 }).notNull(), // positive adds to the balance, negative spends it
+    reason: varchar("reason").notNull(), // purchase, redemption, restoration
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_gift_voucher_ledger_voucher").on(table.giftVoucherId),
+    index("IDX_gift_voucher_ledger_booking").on(table.bookingId),
+    index("IDX_gift_voucher_ledger_trainer_booking").on(table.trainerBookingId),
+  ],
+);
+
+// Waitlist for fully booked class occurrences
+export const waitlistEntries = pgTable(
+  "waitlist_entries",
+  {
+    id: serial("id").primaryKey(),
+    occurrenceId: integer("occurrence_id").notNull().references(() => classOccurrences.id),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    status: varchar("status").notNull().default("waiting"), // waiting, offered, claimed, expired, cancelled
+    claimToken: varchar("claim_token").unique(),
+    offerExpiresAt: timestamp("offer_expires_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_waitlist_occurrence").on(table.occurrenceId)],
+);
 
 // Business claims for manually added businesses
 export const businessClaims = pgTable("business_claims", {
@@ -131,7 +436,7 @@ export const businessClaims = pgTable("business_claims", {
   businessId: integer("business_id").notNull().references(() => businesses.id),
   userId: varchar("user_id").notNull().references(() => users.id),
   claimMessage: text("claim_message"), // Why they are claiming this business
-  verificationDocuments: jsonb("verification_documents"), // Array of document URLs/info
+  verificationDocuments: jsonb("verification_documents"), // Array of uploaded file ids (older claims may hold URL strings)
   status: varchar("status").default("pending"), // pending, approved, rejected
   adminNotes: text("admin_notes"),
   approvedAt: timestamp("approved_at"),
@@ -139,6 +444,45 @@ export const businessClaims = pgTable("business_claims", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Gallery photos for a business or trainer, stored as resized variants
+export const photos = pgTable(
+  "photos",
+  {
+    id: serial("id").primaryKey(),
+    businessId: integer("business_id").references(() => businesses.id),
+    trainerId: integer("trainer_id").references(() => personalTrainers.id),
+    uploadedBy: varchar("uploaded_by").notNull().references(() => users.id),
+    thumbnailKey: varchar("thumbnail_key").notNull(),
+    cardKey: varchar("card_key").notNull(),
+    heroKey: varchar("hero_key").notNull(),
+    width: integer("width").notNull(), // of the hero variant
+    height: integer("height").notNull(),
+    position: integer("position").notNull().default(0),
+    isCover: boolean("is_cover").notNull().default(false),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_photo_business").on(table.businessId),
+    index("IDX_photo_trainer").on(table.trainerId),
+  ],
+);
+
+// Private files uploaded as evidence, e.g. for business claims or trainer certifications
+export const uploadedFiles = pgTable(
+  "uploaded_files",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    purpose: varchar("purpose").notNull(), // business_claim, trainer_certification
+    storageKey: varchar("storage_key").notNull().unique(),
+    originalName: varchar("original_name").notNull(),
+    mimeType: varchar("mime_type").notNull(),
+    size: integer("size").notNull(), // bytes
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_uploaded_file_user").on(table.userId)],
+);
+
 // Personal trainers
 export const personalTrainers = pgTable("personal_trainers", {
   id: serial("id").primaryKey(),
@@ -148,6 +492,7 @@ export const personalTrainers = pgTable("personal_trainers", {
   bio: text("bio"),
   specialties: jsonb("specialties").notNull(),
   certifications: jsonb("certifications"),
+  certificationDocuments: jsonb("certification_documents"), // Array of uploaded file ids
   experience: integer("experience"),
   hourlyRate: decimal("hourly_rate", { precision: 10, scale: 2 }),
   location: varchar("location"),
@@ -156,14 +501,23 @@ export const personalTrainers = pgTable("personal_trainers", {
   email: varchar("email"),
   availableDays: jsonb("available_days"),
   preferredTimes: jsonb("preferred_times"),
+  weeklyAvailability: jsonb("weekly_availability"), // {dayOfWeek: number, startTime: string, endTime: string}[] in UK time
+  bufferMinutes: integer("buffer_minutes").notNull().default(15), // minimum gap kept between bookings
   sessionTypes: jsonb("session_types"),
   travelRadius: integer("travel_radius"),
   subscriptionTier: varchar("subscription_tier").default("free"),
   bookingEnabled: boolean("booking_enabled").default(false),
   approved: boolean("approved").default(false),
   featured: boolean("featured").default(false),
+  freeCancellationHours: integer("free_cancellation_hours").notNull().default(12),
+  lateCancellationRefundPercent: integer("late_cancellation_refund_percent").notNull().default(0),
+  stripeAccountId: varchar("stripe_account_id"),
+  payoutsEnabled: boolean("payouts_enabled").default(false),
   latitude: decimal("latitude", { precision: 10, scale: 8 }),
   longitude: decimal("longitude", { precision: 11, scale: 8 }),
+  ratingAverage: decimal("rating_average", { precision: 3, scale: 2 }).notNull().default("0"), // maintained from reviews
+  ratingCount: integer("rating_count").notNull().default(0),
+  coverImage: jsonb("cover_image").$type<PhotoUrls>(), // variants of the gallery's cover photo
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -183,16 +537,93 @@ export const trainerBookings = pgTable("trainer_bookings", {
   clientName: varchar("client_name").notNull(),
   clientEmail: varchar("client_email").notNull(),
   clientPhone: varchar("client_phone"),
-  stripePaymentIntentId: varchar("stripe_payment_intent_id"),
+  stripePaymentIntentId: varchar("stripe_payment_intent_id").unique(), // one booking per payment
+  applicationFeeAmount: decimal("application_fee_amount", { precision: 10, scale: 2 }),
+  transferDestination: varchar("transfer_destination"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Whole days a trainer is unavailable regardless of their weekly availability
+export const trainerBlackoutDates = pgTable(
+  "trainer_blackout_dates",
+  {
+    id: serial("id").primaryKey(),
+    trainerId: integer("trainer_id").notNull().references(() => personalTrainers.id),
+    date: varchar("date", { length: 10 }).notNull(), // YYYY-MM-DD, UK calendar day
+    reason: varchar("reason"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_trainer_blackout_date").on(table.trainerId, table.date)],
+);
+
+// Stripe refunds issued against class or personal training bookings
+export const refunds = pgTable("refunds", {
+  id: serial("id").primaryKey(),
+  bookingId: integer("booking_id").references(() => bookings.id),
+  trainerBookingId: integer("trainer_booking_id").references(() => trainerBookings.id),
+  stripeRefundId: varchar("stripe_refund_id").unique(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  reason: varchar("reason").notNull(), // customer_cancellation, business_cancellation, admin_cancellation, goodwill
+  status: varchar("status").notNull().default("pending"), // pending, succeeded, failed, canceled
+  note: text("note"),
+  initiatedBy: varchar("initiated_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Reviews left by customers after a completed class or personal training booking
+export const reviews = pgTable(
+  "reviews",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    bookingId: integer("booking_id").unique().references(() => bookings.id),
+    trainerBookingId: integer("trainer_booking_id").unique().references(() => trainerBookings.id),
+    businessId: integer("business_id").references(() => businesses.id),
+    sessionId: integer("session_id").references(() => fitnessSessions.id),
+    trainerId: integer("trainer_id").references(() => personalTrainers.id),
+    rating: integer("rating").notNull(), // 1-5 stars
+    comment: text("comment"),
+    status: varchar("status").notNull().default("published"), // published, flagged, hidden
+    response: text("response"), // public reply from the business or trainer
+    respondedAt: timestamp("responded_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_review_business").on(table.businessId),
+    index("IDX_review_session").on(table.sessionId),
+    index("IDX_review_trainer").on(table.trainerId),
+    index("IDX_review_status").on(table.status),
+  ],
+);
+
+// Audit trail of flags and moderation decisions on reviews
+export const reviewModerationActions = pgTable(
+  "review_moderation_actions",
+  {
+    id: serial("id").primaryKey(),
+    reviewId: integer("review_id").notNull().references(() => reviews.id),
+    actorId: varchar("actor_id").notNull().references(() => users.id),
+    action: varchar("action").notNull(), // flagged, hidden, restored
+    note: text("note"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_review_moderation_review").on(table.reviewId)],
+);
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   businesses: many(businesses),
   bookings: many(bookings),
   businessClaims: many(businessClaims),
+  waitlistEntries: many(waitlistEntries),
+  creditPurchases: many(creditPurchases),
+  memberships: many(memberships),
+  reviews: many(reviews),
+  reviewModerationActions: many(reviewModerationActions),
+  uploadedFiles: many(uploadedFiles),
 }));
 
 export const businessesRelations = relations(businesses, ({ one, many }) => ({
@@ -202,6 +633,35 @@ export const businessesRelations = relations(businesses, ({ one, many }) => ({
   }),
   sessions: many(fitnessSessions),
   businessClaims: many(businessClaims),
+  photos: many(photos),
+  reviews: many(reviews),
+  locations: many(businessLocations),
+  staff: many(businessStaff),
+  creditPacks: many(creditPacks),
+  membershipPlans: many(membershipPlans),
+  promoCodes: many(promoCodes),
+  giftVouchers: many(giftVouchers),
+}));
+
+export const businessLocationsRelations = relations(businessLocations, ({ one, many }) => ({
+  business: one(businesses, {
+    fields: [businessLocations.businessId],
+    references: [businesses.id],
+  }),
+  sessions: many(fitnessSessions),
+}));
+
+export const businessStaffRelations = relations(businessStaff, ({ one, many }) => ({
+  business: one(businesses, {
+    fields: [businessStaff.businessId],
+    references: [businesses.id],
+  }),
+  user: one(users, {
+    fields: [businessStaff.userId],
+    references: [users.id],
+  }),
+  sessions: many(fitnessSessions),
+  occurrences: many(classOccurrences),
 }));
 
 export const businessClaimsRelations = relations(businessClaims, ({ one }) => ({
@@ -215,15 +675,48 @@ export const businessClaimsRelations = relations(businessClaims, ({ one }) => ({
   }),
 }));
 
+export const photosRelations = relations(photos, ({ one }) => ({
+  business: one(businesses, {
+    fields: [photos.businessId],
+    references: [businesses.id],
+  }),
+  trainer: one(personalTrainers, {
+    fields: [photos.trainerId],
+    references: [personalTrainers.id],
+  }),
+  uploader: one(users, {
+    fields: [photos.uploadedBy],
+    references: [users.id],
+  }),
+}));
+
+export const uploadedFilesRelations = relations(uploadedFiles, ({ one }) => ({
+  user: one(users, {
+    fields: [uploadedFiles.userId],
+    references: [users.id],
+  }),
+}));
+
 export const personalTrainersRelations = relations(personalTrainers, ({ one, many }) => ({
   user: one(users, {
     fields: [personalTrainers.userId],
     references: [users.id],
   }),
   bookings: many(trainerBookings),
+  blackoutDates: many(trainerBlackoutDates),
+  photos: many(photos),
+  reviews: many(reviews),
+  giftVouchers: many(giftVouchers),
+}));
+
+export const trainerBlackoutDatesRelations = relations(trainerBlackoutDates, ({ one }) => ({
+  trainer: one(personalTrainers, {
+    fields: [trainerBlackoutDates.trainerId],
+    references: [personalTrainers.id],
+  }),
 }));
 
-export const trainerBookingsRelations = relations(trainerBookings, ({ one }) => ({
+export const trainerBookingsRelations = relations(trainerBookings, ({ one, many }) => ({
   user: one(users, {
     fields: [trainerBookings.userId],
     references: [users.id],
@@ -232,6 +725,8 @@ export const trainerBookingsRelations = relations(trainerBookings, ({ one }) =>
     fields: [trainerBookings.trainerId],
     references: [personalTrainers.id],
   }),
+  refunds: many(refunds),
+  review: one(reviews),
 }));
 
 export const sessionTypesRelations = relations(sessionTypes, ({ many }) => ({
@@ -247,10 +742,44 @@ export const fitnessSessionsRelations = relations(fitnessSessions, ({ one, many
     fields: [fitnessSessions.sessionTypeId],
     references: [sessionTypes.id],
   }),
+  location: one(businessLocations, {
+    fields: [fitnessSessions.locationId],
+    references: [businessLocations.id],
+  }),
+  instructor: one(businessStaff, {
+    fields: [fitnessSessions.instructorId],
+    references: [businessStaff.id],
+  }),
+  bookings: many(bookings),
+  occurrences: many(classOccurrences),
+  reviews: many(reviews),
+}));
+
+export const classOccurrencesRelations = relations(classOccurrences, ({ one, many }) => ({
+  session: one(fitnessSessions, {
+    fields: [classOccurrences.sessionId],
+    references: [fitnessSessions.id],
+  }),
+  instructor: one(businessStaff, {
+    fields: [classOccurrences.instructorId],
+    references: [businessStaff.id],
+  }),
   bookings: many(bookings),
+  waitlistEntries: many(waitlistEntries),
+}));
+
+export const waitlistEntriesRelations = relations(waitlistEntries, ({ one }) => ({
+  occurrence: one(classOccurrences, {
+    fields: [waitlistEntries.occurrenceId],
+    references: [classOccurrences.id],
+  }),
+  user: one(users, {
+    fields: [waitlistEntries.userId],
+    references: [users.id],
+  }),
 }));
 
-export const bookingsRelations = relations(bookings, ({ one }) => ({
+export const bookingsRelations = relations(bookings, ({ one, many }) => ({
   user: one(users, {
     fields: [bookings.userId],
     references: [users.id],
@@ -259,6 +788,209 @@ export const bookingsRelations = relations(bookings, ({ one }) => ({
     fields: [bookings.sessionId],
     references: [fitnessSessions.id],
   }),
+  occurrence: one(classOccurrences, {
+    fields: [bookings.occurrenceId],
+    references: [classOccurrences.id],
+  }),
+  creditPurchase: one(creditPurchases, {
+    fields: [bookings.creditPurchaseId],
+    references: [creditPurchases.id],
+  }),
+  membership: one(memberships, {
+    fields: [bookings.membershipId],
+    references: [memberships.id],
+  }),
+  promoRedemption: one(promoRedemptions),
+  guests: many(bookingGuests),
+  refunds: many(refunds),
+  review: one(reviews),
+}));
+
+export const bookingGuestsRelations = relations(bookingGuests, ({ one }) => ({
+  booking: one(bookings, {
+    fields: [bookingGuests.bookingId],
+    references: [bookings.id],
+  }),
+}));
+
+export const creditPacksRelations = relations(creditPacks, ({ one, many }) => ({
+  business: one(businesses, {
+    fields: [creditPacks.businessId],
+    references: [businesses.id],
+  }),
+  purchases: many(creditPurchases),
+}));
+
+export const creditPurchasesRelations = relations(creditPurchases, ({ one, many }) => ({
+  user: one(users, {
+    fields: [creditPurchases.userId],
+    references: [users.id],
+  }),
+  business: one(businesses, {
+    fields: [creditPurchases.businessId],
+    references: [businesses.id],
+  }),
+  pack: one(creditPacks, {
+    fields: [creditPurchases.creditPackId],
+    references: [creditPacks.id],
+  }),
+  bookings: many(bookings),
+  ledgerEntries: many(creditLedgerEntries),
+}));
+
+export const creditLedgerEntriesRelations = relations(creditLedgerEntries, ({ one }) => ({
+  user: one(users, {
+    fields: [creditLedgerEntries.userId],
+    references: [users.id],
+  }),
+  business: one(businesses, {
+    fields: [creditLedgerEntries.businessId],
+    references: [businesses.id],
+  }),
+  purchase: one(creditPurchases, {
+    fields: [creditLedgerEntries.creditPurchaseId],
+    references: [creditPurchases.id],
+  }),
+  booking: one(bookings, {
+    fields: [creditLedgerEntries.bookingId],
+    references: [bookings.id],
+  }),
+}));
+
+export const membershipPlansRelations = relations(membershipPlans, ({ one, many }) => ({
+  business: one(businesses, {
+    fields: [membershipPlans.businessId],
+    references: [businesses.id],
+  }),
+  memberships: many(memberships),
+}));
+
+export const membershipsRelations = relations(memberships, ({ one, many }) => ({
+  user: one(users, {
+    fields: [memberships.userId],
+    references: [users.id],
+  }),
+  business: one(businesses, {
+    fields: [memberships.businessId],
+    references: [businesses.id],
+  }),
+  plan: one(membershipPlans, {
+    fields: [memberships.membershipPlanId],
+    references: [membershipPlans.id],
+  }),
+  bookings: many(bookings),
+}));
+
+export const promoCodesRelations = relations(promoCodes, ({ one, many }) => ({
+  business: one(businesses, {
+    fields: [promoCodes.businessId],
+    references: [businesses.id],
+  }),
+  redemptions: many(promoRedemptions),
+}));
+
+export const promoRedemptionsRelations = relations(promoRedemptions, ({ one }) => ({
+  promoCode: one(promoCodes, {
+    fields: [promoRedemptions.promoCodeId],
+    references: [promoCodes.id],
+  }),
+  booking: one(bookings, {
+    fields: [promoRedemptions.bookingId],
+    references: [bookings.id],
+  }),
+  user: one(users, {
+    fields: [promoRedemptions.userId],
+    references: [users.id],
+  }),
+}));
+
+export const giftVouchersRelations = relations(giftVouchers, ({ one, many }) => ({
+  business: one(businesses, {
+    fields: [giftVouchers.businessId],
+    references: [businesses.id],
+  }),
+  trainer: one(personalTrainers, {
+    fields: [giftVouchers.trainerId],
+    references: [personalTrainers.id],
+  }),
+  purchaser: one(users, {
+    fields: [giftVouchers.purchaserId],
+    references: [users.id],
+  }),
+  ledgerEntries: many(giftVoucherLedgerEntries),
+}));
+
+export const giftVoucherLedgerEntriesRelations = relations(giftVoucherLedgerEntries, ({ one }) => ({
+  giftVoucher: one(giftVouchers, {
+    fields: [giftVoucherLedgerEntries.giftVoucherId],
+    references: [giftVouchers.id],
+  }),
+  user: one(users, {
+    fields: [giftVoucherLedgerEntries.userId],
+    references: [users.id],
+  }),
+  booking: one(bookings, {
+    fields: [giftVoucherLedgerEntries.bookingId],
+    references: [bookings.id],
+  }),
+  trainerBooking: one(trainerBookings, {
+    fields: [giftVoucherLedgerEntries.trainerBookingId],
+    references: [trainerBookings.id],
+  }),
+}));
+
+export const refundsRelations = relations(refunds, ({ one }) => ({
+  booking: one(bookings, {
+    fields: [refunds.bookingId],
+    references: [bookings.id],
+  }),
+  trainerBooking: one(trainerBookings, {
+    fields: [refunds.trainerBookingId],
+    references: [trainerBookings.id],
+  }),
+  initiator: one(users, {
+    fields: [refunds.initiatedBy],
+    references: [users.id],
+  }),
+}));
+
+export const reviewsRelations = relations(reviews, ({ one, many }) => ({
+  user: one(users, {
+    fields: [reviews.userId],
+    references: [users.id],
+  }),
+  booking: one(bookings, {
+    fields: [reviews.bookingId],
+    references: [bookings.id],
+  }),
+  trainerBooking: one(trainerBookings, {
+    fields: [reviews.trainerBookingId],
+    references: [trainerBookings.id],
+  }),
+  business: one(businesses, {
+    fields: [reviews.businessId],
+    references: [businesses.id],
+  }),
+  session: one(fitnessSessions, {
+    fields: [reviews.sessionId],
+    references: [fitnessSessions.id],
+  }),
+  trainer: one(personalTrainers, {
+    fields: [reviews.trainerId],
+    references: [personalTrainers.id],
+  }),
+  moderationActions: many(reviewModerationActions),
+}));
+
+export const reviewModerationActionsRelations = relations(reviewModerationActions, ({ one }) => ({
+  review: one(reviews, {
+    fields: [reviewModerationActions.reviewId],
+    references: [reviews.id],
+  }),
+  actor: one(users, {
+    fields: [reviewModerationActions.actorId],
+    references: [users.id],
+  }),
 }));
 
 // Insert schemas
@@ -271,6 +1003,23 @@ export const insertBusinessSchema = createInsertSchema(businesses).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  ratingAverage: true,
+  ratingCount: true,
+  coverImage: true,
+  slug: true,
+});
+
+export const insertBusinessLocationSchema = createInsertSchema(businessLocations).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertBusinessStaffSchema = createInsertSchema(businessStaff).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+  acceptedAt: true,
 });
 
 export const insertSessionTypeSchema = createInsertSchema(sessionTypes).omit({
@@ -282,16 +1031,39 @@ export const insertFitnessSessionSchema = createInsertSchema(fitnessSessions).om
   id: true,
   createdAt: true,
   updatedAt: true,
+  ratingAverage: true,
+  ratingCount: true,
 }).extend({
   price: z.number().min(0, "Price must be positive"),
 });
 
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Times must be HH:MM");
+
+export const availabilityWindowSchema = z.object({
+  dayOfWeek: z.number().int().min(0).max(6),
+  startTime: timeOfDaySchema,
+  endTime: timeOfDaySchema,
+}).refine((window) => window.startTime < window.endTime, {
+  message: "End time must be after start time",
+  path: ["endTime"],
+});
+
 export const insertPersonalTrainerSchema = createInsertSchema(personalTrainers).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  ratingAverage: true,
+  ratingCount: true,
+  coverImage: true,
 }).extend({
   hourlyRate: z.number().min(0, "Hourly rate must be positive"),
+  weeklyAvailability: z.array(availabilityWindowSchema).max(50).optional(),
+  certificationDocuments: z.array(z.number().int().positive()).max(10).optional(),
+});
+
+export const insertTrainerBlackoutDateSchema = createInsertSchema(trainerBlackoutDates).omit({
+  id: true,
+  createdAt: true,
 });
 
 export const insertTrainerBookingSchema = createInsertSchema(trainerBookings).omit({
@@ -302,12 +1074,139 @@ export const insertTrainerBookingSchema = createInsertSchema(trainerBookings).om
   totalAmount: z.number().min(0, "Total amount must be positive"),
 });
 
+export const insertClassOccurrenceSchema = createInsertSchema(classOccurrences).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertBookingSchema = createInsertSchema(bookings).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertBookingGuestSchema = createInsertSchema(bookingGuests).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertCreditPackSchema = createInsertSchema(creditPacks, {
+  sessionTypeIds: z.array(z.number().int().positive()),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertCreditPurchaseSchema = createInsertSchema(creditPurchases, {
+  sessionTypeIds: z.array(z.number().int().positive()),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertCreditLedgerEntrySchema = createInsertSchema(creditLedgerEntries).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertMembershipPlanSchema = createInsertSchema(membershipPlans, {
+  sessionTypeIds: z.array(z.number().int().positive()),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertMembershipSchema = createInsertSchema(memberships, {
+  sessionTypeIds: z.array(z.number().int().positive()),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertPromoCodeSchema = createInsertSchema(promoCodes, {
+  sessionTypeIds: z.array(z.number().int().positive()),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertPromoRedemptionSchema = createInsertSchema(promoRedemptions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertGiftVoucherSchema = createInsertSchema(giftVouchers).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertGiftVoucherLedgerEntrySchema = createInsertSchema(giftVoucherLedgerEntries).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertWaitlistEntrySchema = createInsertSchema(waitlistEntries).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertRefundSchema = createInsertSchema(refunds).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertReviewSchema = createInsertSchema(reviews).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertReviewModerationActionSchema = createInsertSchema(reviewModerationActions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const reviewSubmissionSchema = z.object({
+  rating: z.number().int().min(1).max(5),
+  comment: z.string().trim().max(2000).optional(),
+});
+
+export const reviewResponseSchema = z.object({
+  response: z.string().trim().min(1).max(2000),
+});
+
+export const reviewFlagSchema = z.object({
+  reason: z.string().trim().min(1).max(1000),
+});
+
+export const reviewModerationSchema = z.object({
+  action: z.enum(["hide", "restore"]),
+  note: z.string().trim().max(1000).optional(),
+});
+
+export const insertPhotoSchema = createInsertSchema(photos).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const photoOrderSchema = z.object({
+  photoIds: z.array(z.number().int().positive()).min(1).max(100),
+});
+
+export const insertUploadedFileSchema = createInsertSchema(uploadedFiles).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertBusinessClaimSchema = createInsertSchema(businessClaims).omit({
   id: true,
   createdAt: true,
@@ -315,17 +1214,192 @@ export const insertBusinessClaimSchema = createInsertSchema(businessClaims).omit
   approvedAt: true,
 });
 
+export const businessClaimRequestSchema = z.object({
+  claimMessage: z.string().trim().min(20).max(2000),
+  verificationDocuments: z.array(z.number().int().positive()).max(10).default([]),
+});
+
+export const businessClaimApprovalSchema = z.object({
+  adminNotes: z.string().trim().max(1000).optional(),
+});
+
+export const businessClaimRejectionSchema = z.object({
+  reason: z.string().trim().min(1).max(1000),
+});
+
+export const businessLocationRequestSchema = z.object({
+  name: z.string().trim().min(2).max(100),
+  address: z.string().trim().min(5).max(300),
+  postcode: z.string().trim().min(5).max(10),
+});
+
+export const staffInvitationSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  displayName: z.string().trim().min(2).max(100),
+  bio: z.string().trim().max(1000).optional(),
+});
+
+// Names of the friends a customer is booking onto a class with them. Each guest takes a spot and pays the class price.
+export const bookingGuestNamesSchema = z.array(z.string().trim().min(1).max(100)).max(9).default([]);
+
+// People a class is being priced for: the customer plus up to 9 guests
+export const bookingAttendeesSchema = z.coerce.number().int().min(1).max(10).default(1);
+
+// How long a personal training session can be booked for, in minutes
+export const trainerSessionDurationSchema = z.coerce
+  .number()
+  .int()
+  .min(15, "Duration must be between 15 and 480 minutes")
+  .max(480, "Duration must be between 15 and 480 minutes");
+
+// Marks the customer, or one of their guests, as arrived for the class (or undoes it)
+export const checkInSchema = z.object({
+  guestId: z.number().int().positive().optional(),
+  checkedIn: z.boolean(),
+});
+
+// A session's new weekly timetable. Classes may run past midnight, so the end time can be before the start.
+export const sessionScheduleSchema = z.object({
+  schedule: z.array(z.object({
+    dayOfWeek: z.number().int().min(0).max(6),
+    startTime: timeOfDaySchema,
+    endTime: timeOfDaySchema,
+  })).min(1, "Add at least one weekly class time").max(50),
+});
+
+export const instructorAssignmentSchema = z.object({
+  instructorId: z.number().int().positive().nullable(), // null goes back to no instructor, or the session's usual one for an occurrence
+});
+
+export const cancellationPolicySchema = z.object({
+  freeCancellationHours: z.number().int().min(0).max(168),
+  lateCancellationRefundPercent: z.number().int().min(0).max(100),
+});
+
+export const creditPackRequestSchema = z.object({
+  name: z.string().trim().min(2).max(100),
+  credits: z.number().int().min(1).max(100),
+  price: z.number().positive().max(10000),
+  expiryDays: z.number().int().min(1).max(730).nullable(),
+  sessionTypeIds: z.array(z.number().int().positive()).max(50).default([]),
+});
+
+export const membershipPlanRequestSchema = z.object({
+  name: z.string().trim().min(2).max(100),
+  price: z.number().positive().max(10000),
+  classesPerPeriod: z.number().int().min(1).max(100).nullable(),
+  sessionTypeIds: z.array(z.number().int().positive()).max(50).default([]),
+});
+
+export const promoCodeRequestSchema = z.object({
+  code: z.string().trim().regex(/^[A-Za-z0-9_-]{3,30}$/, "Codes are 3-30 letters, numbers, dashes or underscores")
+    .transform((code) => code.toUpperCase()),
+  discountType: z.enum(["percent", "fixed"]),
+  discountValue: z.number().positive().max(10000),
+  firstBookingOnly: z.boolean().default(false),
+  sessionTypeIds: z.array(z.number().int().positive()).max(50).default([]),
+  maxRedemptions: z.number().int().min(1).max(100000).nullable().default(null),
+  maxRedemptionsPerCustomer: z.number().int().min(1).max(100).nullable().default(null),
+  validFrom: z.coerce.date().nullable().default(null),
+  validUntil: z.coerce.date().nullable().default(null),
+}).refine((promo) => promo.discountType !== "percent" || promo.discountValue <= 100, {
+  message: "A percentage discount can't be more than 100%",
+  path: ["discountValue"],
+}).refine((promo) => !promo.validFrom || !promo.validUntil || promo.validFrom < promo.validUntil, {
+  message: "The code must end after it starts",
+  path: ["validUntil"],
+});
+
+// A gift voucher someone is buying, in whole pounds, for either a business or a personal trainer
+export const giftVoucherRequestSchema = z.object({
+  businessId: z.number().int().positive().optional(),
+  trainerId: z.number().int().positive().optional(),
+  amount: z.number().int().min(10).max(500),
+  recipientName: z.string().trim().min(1).max(100),
+  recipientEmail: z.string().trim().toLowerCase().email(),
+  message: z.string().trim().max(300).optional(),
+}).refine((voucher) => !voucher.businessId !== !voucher.trainerId, {
+  message: "A gift voucher is for either a business or a personal trainer",
+  path: ["businessId"],
+});
+
+export const trainerAvailabilitySchema = z.object({
+  weeklyAvailability: z.array(availabilityWindowSchema).max(50),
+  bufferMinutes: z.number().int().min(0).max(120),
+});
+
+export const trainerBlackoutDateRequestSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD"),
+  reason: z.string().trim().max(200).optional(),
+});
+
 // Types
 export type UpsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type InsertBusiness = z.infer<typeof insertBusinessSchema>;
 export type Business = typeof businesses.$inferSelect;
+export type InsertBusinessLocation = z.infer<typeof insertBusinessLocationSchema>;
+export type BusinessLocation = typeof businessLocations.$inferSelect;
+export type InsertBusinessStaff = z.infer<typeof insertBusinessStaffSchema>;
+export type BusinessStaff = typeof businessStaff.$inferSelect;
 export type InsertSessionType = z.infer<typeof insertSessionTypeSchema>;
 export type SessionType = typeof sessionTypes.$inferSelect;
 export type InsertFitnessSession = z.infer<typeof insertFitnessSessionSchema>;
 export type FitnessSession = typeof fitnessSessions.$inferSelect;
+export type InsertClassOccurrence = z.infer<typeof insertClassOccurrenceSchema>;
+export type ClassOccurrence = typeof classOccurrences.$inferSelect;
 export type InsertBooking = z.infer<typeof insertBookingSchema>;
 export type Booking = typeof bookings.$inferSelect;
+export type InsertBookingGuest = z.infer<typeof insertBookingGuestSchema>;
+export type BookingGuest = typeof bookingGuests.$inferSelect;
+export type InsertCreditPack = z.infer<typeof insertCreditPackSchema>;
+export type CreditPack = typeof creditPacks.$inferSelect;
+export type InsertCreditPurchase = z.infer<typeof insertCreditPurchaseSchema>;
+export type CreditPurchase = typeof creditPurchases.$inferSelect;
+export type InsertCreditLedgerEntry = z.infer<typeof insertCreditLedgerEntrySchema>;
+export type CreditLedgerEntry = typeof creditLedgerEntries.$inferSelect;
+export type InsertMembershipPlan = z.infer<typeof insertMembershipPlanSchema>;
+export type MembershipPlan = typeof membershipPlans.$inferSelect;
+export type InsertMembership = z.infer<typeof insertMembershipSchema>;
+export type Membership = typeof memberships.$inferSelect;
+export type InsertPromoCode = z.infer<typeof insertPromoCodeSchema>;
+export type PromoCode = typeof promoCodes.$inferSelect;
+export type InsertPromoRedemption = z.infer<typeof insertPromoRedemptionSchema>;
+export type PromoRedemption = typeof promoRedemptions.$inferSelect;
+export type InsertGiftVoucher = z.infer<typeof insertGiftVoucherSchema>;
+export type GiftVoucher = typeof giftVouchers.$inferSelect;
+export type InsertGiftVoucherLedgerEntry = z.infer<typeof insertGiftVoucherLedgerEntrySchema>;
+export type GiftVoucherLedgerEntry = typeof giftVoucherLedgerEntries.$inferSelect;
+export type InsertWaitlistEntry = z.infer<typeof insertWaitlistEntrySchema>;
+export type WaitlistEntry = typeof waitlistEntries.$inferSelect;
+export type InsertRefund = z.infer<typeof insertRefundSchema>;
+export type Refund = typeof refunds.$inferSelect;
+export type InsertReview = z.infer<typeof insertReviewSchema>;
+export type Review = typeof reviews.$inferSelect;
+export type InsertReviewModerationAction = z.infer<typeof insertReviewModerationActionSchema>;
+export type ReviewModerationAction = typeof reviewModerationActions.$inferSelect;
+export type InsertPhoto = z.infer<typeof insertPhotoSchema>;
+export type Photo = typeof photos.$inferSelect;
+
+export interface PhotoUrls {
+  thumbnail: string;
+  card: string;
+  hero: string;
+}
+
+export type PhotoWithUrls = Photo & {
+  urls: PhotoUrls;
+};
+
+export type InsertUploadedFile = z.infer<typeof insertUploadedFileSchema>;
+export type UploadedFile = typeof uploadedFiles.$inferSelect;
+export type UploadedFileSummary = Pick<UploadedFile, 'id' | 'originalName' | 'mimeType' | 'size'>;
+
+// An uploaded file with a short-lived private download link
+export type UploadedFileLink = UploadedFileSummary & {
+  url: string;
+};
+
 export type InsertBusinessClaim = z.infer<typeof insertBusinessClaimSchema>;
 export type BusinessClaim = typeof businessClaims.$inferSelect;
 
@@ -334,32 +1408,198 @@ export type BusinessWithUser = Business & {
   user: User;
 };
 
+// Who teaches a class, as customers see them
+export type PublicInstructor = Pick<BusinessStaff, 'id' | 'displayName' | 'bio'>;
+
+// An invitation as shown to the person accepting it
+export type StaffInvitation = Pick<BusinessStaff, 'id' | 'email' | 'displayName'> & {
+  business: Pick<Business, 'id' | 'name'>;
+};
+
 export type FitnessSessionWithDetails = FitnessSession & {
   business: BusinessWithUser;
   sessionType: SessionType;
+  location?: BusinessLocation | null; // null when the session runs at the business's own address
+  instructor?: PublicInstructor | null;
   bookings?: Booking[];
+  nextOccurrence?: ClassOccurrenceWithAvailability | null;
+  distanceKm?: number | null; // only set by location searches
+};
+
+export type ClassOccurrenceWithAvailability = ClassOccurrence & {
+  spotsLeft: number;
+};
+
+// What a business's public page shows; owner, billing and payout details stay private
+export type PublicBusiness = Omit<
+  Business,
+  'userId' | 'stripeSubscriptionId' | 'subscriptionExpiry' | 'stripeAccountId' | 'payoutsEnabled' | 'manuallyAdded'
+> & {
+  acceptsPayments: boolean; // whether classes can be paid for by card, i.e. payouts are set up
+};
+
+// What a trainer's public page shows; contact details, documents and payout details stay private
+export type PublicPersonalTrainer = Omit<
+  PersonalTrainer,
+  'userId' | 'email' | 'phoneNumber' | 'certificationDocuments' | 'stripeAccountId' | 'payoutsEnabled'
+> & {
+  acceptsPayments: boolean; // whether bookings can be paid for, i.e. payouts are set up
+};
+
+export type TimetableSession = FitnessSession & {
+  sessionType: SessionType;
+  location: BusinessLocation | null;
+};
+
+// One week of a business's approved classes, from Monday (UK time)
+export interface BusinessTimetable {
+  weekStart: string; // YYYY-MM-DD
+  sessions: TimetableSession[];
+  occurrences: ClassOccurrenceWithAvailability[];
+  instructors: PublicInstructor[];
+}
+
+// A class on a staff member's or business's teaching schedule
+export type TeachingScheduleEntry = ClassOccurrenceWithAvailability & {
+  session: Pick<FitnessSession, 'id' | 'title' | 'duration' | 'maxParticipants'>;
+  business: Pick<Business, 'id' | 'name' | 'address' | 'postcode'>;
+  location: Pick<BusinessLocation, 'id' | 'name' | 'address' | 'postcode'> | null;
+  instructor: PublicInstructor | null; // the occurrence's cover, otherwise the session's usual instructor
+};
+
+// Teaching schedules for one week, from Monday (UK time)
+export interface TeachingSchedule {
+  weekStart: string; // YYYY-MM-DD
+  classes: TeachingScheduleEntry[];
+}
+
+// Who is booked into a class; instructors see names and requirements but not contact details
+export type RosterEntry = Pick<Booking, 'id' | 'status' | 'specialRequirements' | 'attendees' | 'checkedInAt'> & {
+  customer: Pick<User, 'firstName' | 'lastName' | 'profileImageUrl'>;
+  guests: Pick<BookingGuest, 'id' | 'name' | 'checkedInAt'>[];
+};
+
+// A booking on a class that a schedule change took off the timetable; the class still runs for the people booked
+export type DisplacedBooking = Pick<Booking, 'id' | 'sessionDate'> & {
+  customer: Pick<User, 'email' | 'firstName'>;
+};
+
+// A customer's credits with one business, from a pack they bought
+export type CreditPurchaseWithDetails = CreditPurchase & {
+  pack: Pick<CreditPack, 'id' | 'name'>;
+  business: Pick<Business, 'id' | 'name' | 'slug'>;
+};
+
+// A customer's membership with one business
+export type MembershipWithDetails = Membership & {
+  plan: Pick<MembershipPlan, 'id' | 'name' | 'price'>;
+  business: Pick<Business, 'id' | 'name' | 'slug'>;
 };
 
+// Platform-wide counts for the admin dashboard, including everything waiting on an admin
+export interface AdminStats {
+  totalUsers: number;
+  totalBusinesses: number;
+  totalSessions: number;
+  pendingBusinesses: number;
+  pendingSessions: number;
+  flaggedReviews: number;
+  pendingClaims: number;
+}
+
+// A business's promo code with how much it has been used, for the dashboard
+export type PromoCodeWithStats = PromoCode & {
+  redemptionCount: number;
+  discountTotal: string;
+};
+
+// The price of a session once a promo code is applied, returned when a customer checks a code
+export interface PromoCodeQuote {
+  code: string;
+  discountType: string;
+  discountValue: string;
+  subtotal: number;
+  discount: number;
+  platformFee: number;
+  total: number;
+}
+
+// A voucher someone bought or was sent, with who it can be spent with
+export type GiftVoucherWithProvider = GiftVoucher & {
+  business: Pick<Business, 'id' | 'name' | 'slug'> | null;
+  trainer: Pick<PersonalTrainer, 'id' | 'firstName' | 'lastName'> | null;
+};
+
+// The price of a booking once a gift voucher's balance is put towards it, returned when a customer checks a code
+export interface GiftVoucherQuote {
+  code: string;
+  balance: string;
+  expiresAt: string;
+  subtotal: number;
+  discount: number;
+  giftVoucher: number;
+  platformFee: number;
+  total: number;
+}
+
 export type BookingWithDetails = Booking & {
   user: User;
   session: FitnessSessionWithDetails;
+  guests?: BookingGuest[];
+  refunds?: Refund[];
+  review?: Review | null;
+};
+
+// Reviews are public, so only the reviewer's display details are included
+export type ReviewWithAuthor = Review & {
+  author: Pick<User, 'firstName' | 'lastName' | 'profileImageUrl'>;
+};
+
+export type ReviewModerationActionWithActor = ReviewModerationAction & {
+  actor: Pick<User, 'firstName' | 'lastName' | 'role'>;
+};
+
+export type ReviewForModeration = ReviewWithAuthor & {
+  business: Pick<Business, 'id' | 'name'> | null;
+  trainer: Pick<PersonalTrainer, 'id' | 'firstName' | 'lastName'> | null;
+  moderationActions: ReviewModerationActionWithActor[];
+};
+
+export type WaitlistEntryWithDetails = WaitlistEntry & {
+  position: number | null; // place in the queue while waiting, null once a spot has been offered
+  occurrence: ClassOccurrence;
+  session: FitnessSession & {
+    business: Business;
+  };
 };
 
 export type BusinessClaimWithDetails = BusinessClaim & {
   business: Business;
   user: User;
+  verificationFiles?: UploadedFileLink[];
 };
 
 export type InsertPersonalTrainer = z.infer<typeof insertPersonalTrainerSchema>;
 export type PersonalTrainer = typeof personalTrainers.$inferSelect;
 export type InsertTrainerBooking = z.infer<typeof insertTrainerBookingSchema>;
 export type TrainerBooking = typeof trainerBookings.$inferSelect;
+export type AvailabilityWindow = z.infer<typeof availabilityWindowSchema>;
+export type InsertTrainerBlackoutDate = z.infer<typeof insertTrainerBlackoutDateSchema>;
+export type TrainerBlackoutDate = typeof trainerBlackoutDates.$inferSelect;
+
+export type TrainerSlot = {
+  startsAt: string;
+  endsAt: string;
+};
 
 export type PersonalTrainerWithUser = PersonalTrainer & {
   user: User;
+  certificationFiles?: UploadedFileLink[];
 };
 
 export type TrainerBookingWithDetails = TrainerBooking & {
   user: User;
   trainer: PersonalTrainerWithUser;
+  refunds?: Refund[];
+  review?: Review | null;
 };